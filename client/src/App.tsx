@@ -4,10 +4,18 @@ import NotFound from "@/pages/NotFound";
 import { Route, Switch } from "wouter";
 import ErrorBoundary from "./components/ErrorBoundary";
 import { ThemeProvider } from "./contexts/ThemeContext";
+import { TaskEventsProvider } from "./contexts/TaskEventsContext";
 import { Layout } from "./components/Layout";
 import Home from "./pages/Home";
 import History from "./pages/History";
 import VoiceSettings from "./pages/VoiceSettings";
+import ScriptEditor from "./pages/ScriptEditor";
+import Shows from "./pages/Shows";
+import Batches from "./pages/Batches";
+import Subscriptions from "./pages/Subscriptions";
+import PromptTemplates from "./pages/PromptTemplates";
+import Pronunciation from "./pages/Pronunciation";
+import Music from "./pages/Music";
 import Login from "./pages/Login";
 
 function Router() {
@@ -22,6 +30,13 @@ function Router() {
         <Switch>
           <Route path={"/"} component={Home} />
           <Route path={"/history"} component={History} />
+          <Route path={"/tasks/:id/script"} component={ScriptEditor} />
+          <Route path={"/batches"} component={Batches} />
+          <Route path={"/subscriptions"} component={Subscriptions} />
+          <Route path={"/shows"} component={Shows} />
+          <Route path={"/prompt-templates"} component={PromptTemplates} />
+          <Route path={"/pronunciation"} component={Pronunciation} />
+          <Route path={"/music"} component={Music} />
           <Route path={"/voice-settings"} component={VoiceSettings} />
           <Route path={"/404"} component={NotFound} />
           {/* Final fallback route */}
@@ -45,8 +60,10 @@ function App() {
         // switchable
       >
         <TooltipProvider>
-          <Toaster />
-          <Router />
+          <TaskEventsProvider>
+            <Toaster />
+            <Router />
+          </TaskEventsProvider>
         </TooltipProvider>
       </ThemeProvider>
     </ErrorBoundary>
@@ -4,6 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Loader2, Download, Play, Pause, Video } from 'lucide-react';
 import { toast } from 'sonner';
+import { useTaskEventListener } from '@/contexts/TaskEventsContext';
 
 interface AvatarVideoPlayerProps {
   highlightId: number;
@@ -15,21 +16,21 @@ interface AvatarVideoPlayerProps {
 
 export function AvatarVideoPlayer({ highlightId, highlight }: AvatarVideoPlayerProps) {
   const [isGenerating, setIsGenerating] = useState(false);
-  const [pollingTaskId, setPollingTaskId] = useState<number | null>(null);
 
   // 獲取精華片段的虛擬主播影片
-  const { data: videos, refetch } = trpc.podcast.getHighlightAvatarVideos.useQuery(
-    { highlightId },
-    {
-      refetchInterval: pollingTaskId ? 5000 : false, // 如果有正在處理的任務，每 5 秒輪詢一次
+  const { data: videos, refetch } = trpc.podcast.getHighlightAvatarVideos.useQuery({ highlightId });
+
+  // 影片狀態改變時即時重新載入（取代輪詢）
+  useTaskEventListener((event) => {
+    if (event.type === 'avatar_video' && event.highlightId === highlightId) {
+      refetch();
     }
-  );
+  });
 
   // 生成虛擬主播影片
   const generateMutation = trpc.podcast.generateAvatarVideo.useMutation({
     onSuccess: (data) => {
       toast.success(data.message);
-      setPollingTaskId(data.taskId);
       setIsGenerating(true);
       refetch();
     },
@@ -46,13 +47,7 @@ export function AvatarVideoPlayer({ highlightId, highlight }: AvatarVideoPlayerP
         (v) => v.status === 'pending' || v.status === 'submitted' || v.status === 'processing'
       );
       
-      if (processingTask) {
-        setPollingTaskId(processingTask.id);
-        setIsGenerating(true);
-      } else {
-        setPollingTaskId(null);
-        setIsGenerating(false);
-      }
+      setIsGenerating(!!processingTask);
     }
   }, [videos]);
 
@@ -1,4 +1,4 @@
-import { Home, History, Headphones, LogOut, User } from "lucide-react";
+import { BellRing, BookA, Home, History, Headphones, ListVideo, LogOut, MessageSquareText, Music2, Radio, User } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { APP_TITLE, APP_LOGO } from "@/const";
@@ -12,6 +12,7 @@ interface SidebarProps {
 
 export function Sidebar({ onClose }: SidebarProps = {}) {
   const [location] = useLocation();
+  const { user } = useAuth();
 
   const navItems = [
     {
@@ -24,6 +25,39 @@ export function Sidebar({ onClose }: SidebarProps = {}) {
       href: "/history",
       icon: History,
     },
+    {
+      title: "批次任務",
+      href: "/batches",
+      icon: ListVideo,
+    },
+    {
+      title: "自動訂閱",
+      href: "/subscriptions",
+      icon: BellRing,
+    },
+    {
+      title: "節目發佈",
+      href: "/shows",
+      icon: Radio,
+    },
+    {
+      title: "發音辭典",
+      href: "/pronunciation",
+      icon: BookA,
+    },
+    {
+      title: "音樂庫",
+      href: "/music",
+      icon: Music2,
+    },
+    // 管理員才能編輯節目風格模板
+    ...(user?.role === "admin"
+      ? [{
+          title: "節目風格",
+          href: "/prompt-templates",
+          icon: MessageSquareText,
+        }]
+      : []),
   ];
 
   return (
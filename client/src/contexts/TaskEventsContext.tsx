@@ -0,0 +1,84 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import type {
+  AvatarVideoEvent,
+  PodcastProgressEvent,
+  TaskEvent,
+} from "../../../server/services/taskEventService";
+
+type TaskEventListener = (event: TaskEvent) => void;
+
+interface TaskEventsContextType {
+  podcastProgress: Map<number, PodcastProgressEvent>;
+  avatarVideos: Map<number, AvatarVideoEvent>;
+  addListener: (listener: TaskEventListener) => () => void;
+}
+
+const TaskEventsContext = createContext<TaskEventsContextType | undefined>(undefined);
+
+/**
+ * 訂閱目前使用者的即時任務事件（整個 App 共用一條 SSE 連線）
+ */
+export function TaskEventsProvider({ children }: { children: React.ReactNode }) {
+  const { user } = useAuth();
+  const [podcastProgress, setPodcastProgress] = useState<Map<number, PodcastProgressEvent>>(new Map());
+  const [avatarVideos, setAvatarVideos] = useState<Map<number, AvatarVideoEvent>>(new Map());
+  const listenersRef = useRef(new Set<TaskEventListener>());
+
+  trpc.podcast.onTaskEvents.useSubscription(undefined, {
+    enabled: !!user,
+    onData: event => {
+      if (event.type === "podcast_progress") {
+        setPodcastProgress(prev => new Map(prev).set(event.taskId, event));
+      } else {
+        setAvatarVideos(prev => new Map(prev).set(event.taskId, event));
+      }
+      listenersRef.current.forEach(listener => listener(event));
+    },
+    onError: error => {
+      console.error("[TaskEvents] Subscription error:", error);
+    },
+  });
+
+  const addListener = useCallback((listener: TaskEventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <TaskEventsContext.Provider value={{ podcastProgress, avatarVideos, addListener }}>
+      {children}
+    </TaskEventsContext.Provider>
+  );
+}
+
+function useTaskEventsContext() {
+  const context = useContext(TaskEventsContext);
+  if (!context) {
+    throw new Error("useTaskEvents must be used within TaskEventsProvider");
+  }
+  return context;
+}
+
+/**
+ * 取得 podcast 任務的最新即時進度（尚未收到事件時為 undefined）
+ */
+export function usePodcastProgress(taskId: number): PodcastProgressEvent | undefined {
+  return useTaskEventsContext().podcastProgress.get(taskId);
+}
+
+/**
+ * 收到任務事件時呼叫 listener（listener 可以隨每次 render 改變）
+ */
+export function useTaskEventListener(listener: TaskEventListener) {
+  const { addListener } = useTaskEventsContext();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+
+  useEffect(() => {
+    return addListener(event => listenerRef.current(event));
+  }, [addListener]);
+}
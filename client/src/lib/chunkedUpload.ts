@@ -0,0 +1,78 @@
+import { UPLOAD_CHUNK_SIZE } from "@shared/upload";
+
+export interface ChunkedUploadApi {
+  init: (input: { fileName: string; size: number }) => Promise<{ uploadId: string; totalChunks: number }>;
+  status: (input: { uploadId: string }) => Promise<{ totalChunks: number; receivedChunks: number[] }>;
+  chunk: (input: { uploadId: string; index: number; data: string }) => Promise<unknown>;
+  complete: (input: { uploadId: string }) => Promise<{ fileKey: string; title: string; sizeMB: number }>;
+}
+
+const MAX_CHUNK_ATTEMPTS = 3;
+
+// 同一個檔案中斷後重新選取時，沿用先前的 uploadId 續傳
+function getResumeKey(file: File) {
+  return `podcast-upload:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readChunkAsBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+async function resumeOrInit(file: File, api: ChunkedUploadApi) {
+  const resumeKey = getResumeKey(file);
+  const previousUploadId = localStorage.getItem(resumeKey);
+  if (previousUploadId) {
+    try {
+      const { totalChunks, receivedChunks } = await api.status({ uploadId: previousUploadId });
+      return { uploadId: previousUploadId, totalChunks, received: new Set(receivedChunks) };
+    } catch {
+      // 工作階段已過期，重新開始
+      localStorage.removeItem(resumeKey);
+    }
+  }
+
+  const { uploadId, totalChunks } = await api.init({ fileName: file.name, size: file.size });
+  localStorage.setItem(resumeKey, uploadId);
+  return { uploadId, totalChunks, received: new Set<number>() };
+}
+
+/**
+ * 分塊上傳檔案（失敗的分塊會自動重試，重新上傳同一個檔案時從中斷處繼續）
+ * @param onProgress 上傳進度 0-100
+ */
+export async function uploadFileInChunks(
+  file: File,
+  api: ChunkedUploadApi,
+  onProgress: (percent: number) => void
+) {
+  const { uploadId, totalChunks, received } = await resumeOrInit(file, api);
+  onProgress(Math.round((received.size / totalChunks) * 100));
+
+  for (let index = 0; index < totalChunks; index++) {
+    if (received.has(index)) continue;
+
+    const start = index * UPLOAD_CHUNK_SIZE;
+    const data = await readChunkAsBase64(file.slice(start, start + UPLOAD_CHUNK_SIZE));
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await api.chunk({ uploadId, index, data });
+        break;
+      } catch (error) {
+        if (attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+        await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
+      }
+    }
+
+    received.add(index);
+    onProgress(Math.round((received.size / totalChunks) * 100));
+  }
+
+  const result = await api.complete({ uploadId });
+  localStorage.removeItem(getResumeKey(file));
+  return result;
+}
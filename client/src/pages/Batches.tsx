@@ -0,0 +1,301 @@
+import { useRef, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import {
+  Loader2,
+  ListVideo,
+  Pause,
+  Play,
+  XCircle,
+  RotateCcw,
+  ChevronDown,
+  ChevronUp,
+} from "lucide-react";
+import { toast } from "sonner";
+import { usePodcastProgress, useTaskEventListener } from "@/contexts/TaskEventsContext";
+
+const BATCH_STATUS = {
+  active: { label: "執行中", variant: "default" as const },
+  paused: { label: "已暫停", variant: "secondary" as const },
+  cancelled: { label: "已取消", variant: "destructive" as const },
+};
+
+const ITEM_STATUS = {
+  pending: { label: "等待中", variant: "secondary" as const },
+  processing: { label: "處理中", variant: "default" as const },
+  completed: { label: "已完成", variant: "default" as const },
+  failed: { label: "失敗", variant: "destructive" as const },
+  awaiting_review: { label: "待審稿", variant: "outline" as const },
+};
+
+type BatchItem = {
+  id: number;
+  title: string | null;
+  youtubeUrl: string;
+  status: keyof typeof ITEM_STATUS;
+  progressPercent: number | null;
+  progressMessage: string | null;
+  errorMessage: string | null;
+};
+
+// 單一項目（處理中時顯示即時進度）
+function BatchItemRow({ item, onRetry, retrying }: { item: BatchItem; onRetry: () => void; retrying: boolean }) {
+  const liveProgress = usePodcastProgress(item.id);
+  const status = ITEM_STATUS[item.status] || ITEM_STATUS.pending;
+  const percent = item.status === "processing" ? liveProgress?.percent ?? item.progressPercent ?? 0 : null;
+  const message = item.status === "failed" ? item.errorMessage : liveProgress?.message ?? item.progressMessage;
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-2">
+          <Badge variant={status.variant} className="shrink-0">{status.label}</Badge>
+          <a
+            href={item.youtubeUrl}
+            target="_blank"
+            rel="noreferrer"
+            className="text-sm font-medium truncate hover:underline"
+          >
+            {item.title || item.youtubeUrl}
+          </a>
+        </div>
+        {percent !== null && <Progress value={percent} className="h-1.5" />}
+        {message && item.status !== "completed" && (
+          <p className={`text-xs truncate ${item.status === "failed" ? "text-destructive" : "text-muted-foreground"}`}>
+            {message}
+          </p>
+        )}
+      </div>
+      {item.status === "failed" && (
+        <Button variant="outline" size="sm" className="shrink-0" disabled={retrying} onClick={onRetry}>
+          <RotateCcw className="h-4 w-4 mr-1" />
+          重試
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// 批次項目列表
+function BatchItems({ batchId }: { batchId: number }) {
+  const utils = trpc.useUtils();
+  const batchQuery = trpc.batch.get.useQuery({ batchId });
+
+  const retryTaskMutation = trpc.podcast.retry.useMutation({
+    onSuccess: () => {
+      toast.success("已重新排入佇列");
+      utils.batch.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`重試失敗：${error.message}`);
+    },
+  });
+
+  if (batchQuery.isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>載入中...</span>
+      </div>
+    );
+  }
+
+  const items = batchQuery.data?.items || [];
+  return (
+    <div className="space-y-2">
+      {items.map(item => (
+        <BatchItemRow
+          key={item.id}
+          item={item}
+          retrying={retryTaskMutation.isPending}
+          onRetry={() => retryTaskMutation.mutate({ taskId: item.id })}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function Batches() {
+  const utils = trpc.useUtils();
+  const batchesQuery = trpc.batch.list.useQuery();
+  const [expandedBatchId, setExpandedBatchId] = useState<number | null>(null);
+  const taskStatusRef = useRef(new Map<number, string>());
+
+  // 項目狀態改變時重新整理批次統計（處理中的進度由 BatchItemRow 即時顯示）
+  useTaskEventListener((event) => {
+    if (event.type !== "podcast_progress") return;
+    if (taskStatusRef.current.get(event.taskId) !== event.status) {
+      taskStatusRef.current.set(event.taskId, event.status);
+      utils.batch.invalidate();
+    }
+  });
+
+  const onChanged = (message: string) => {
+    toast.success(message);
+    utils.batch.invalidate();
+  };
+
+  const pauseMutation = trpc.batch.pause.useMutation({
+    onSuccess: () => onChanged("批次已暫停，進行中的項目會繼續完成"),
+    onError: (error) => toast.error(`暫停失敗：${error.message}`),
+  });
+  const resumeMutation = trpc.batch.resume.useMutation({
+    onSuccess: () => onChanged("批次已恢復"),
+    onError: (error) => toast.error(`恢復失敗：${error.message}`),
+  });
+  const cancelMutation = trpc.batch.cancel.useMutation({
+    onSuccess: (data) => onChanged(`批次已取消（${data.cancelled} 個項目未執行）`),
+    onError: (error) => toast.error(`取消失敗：${error.message}`),
+  });
+  const retryFailedMutation = trpc.batch.retryFailed.useMutation({
+    onSuccess: (data) => onChanged(`已重新排入 ${data.requeued} 個失敗項目`),
+    onError: (error) => toast.error(`重試失敗：${error.message}`),
+  });
+
+  const isMutating =
+    pauseMutation.isPending || resumeMutation.isPending || cancelMutation.isPending || retryFailedMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="container max-w-4xl py-4 md:py-12 px-4 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">批次任務</h1>
+          <p className="text-muted-foreground mt-1">
+            從 YouTube 播放清單或頻道建立的任務，完成的作品會出現在作品庫
+          </p>
+        </div>
+
+        {batchesQuery.isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !batchesQuery.data || batchesQuery.data.length === 0 ? (
+          <Card className="shadow-lg border-0">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center gap-4">
+              <ListVideo className="h-12 w-12 text-muted-foreground" />
+              <p className="text-lg font-medium">還沒有批次任務</p>
+              <p className="text-sm text-muted-foreground">在工作區貼上播放清單或頻道網址即可建立</p>
+            </CardContent>
+          </Card>
+        ) : (
+          batchesQuery.data.map(batch => {
+            const { summary } = batch;
+            const isExpanded = expandedBatchId === batch.id;
+            const status = BATCH_STATUS[batch.status];
+            return (
+              <Card key={batch.id} className="shadow-lg border-0">
+                <CardHeader>
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <CardTitle className="text-lg truncate">{batch.title || "未命名批次"}</CardTitle>
+                        <Badge variant={status.variant} className="shrink-0">{status.label}</Badge>
+                      </div>
+                      <CardDescription className="truncate">
+                        {batch.sourceType === "document"
+                          ? `文件系列 · ${batch.sourceUrl.split("/").pop()}`
+                          : `${batch.sourceType === "playlist" ? "播放清單" : "頻道"} · ${batch.sourceUrl}`}
+                      </CardDescription>
+                    </div>
+                  </div>
+                </CardHeader>
+                <Separator />
+                <CardContent className="pt-4 space-y-4">
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        已完成 {summary.completed} / {summary.total}
+                        {summary.processing > 0 && ` · 處理中 ${summary.processing}`}
+                        {summary.awaitingReview > 0 && ` · 待審稿 ${summary.awaitingReview}`}
+                        {summary.failed > 0 && ` · 失敗 ${summary.failed}`}
+                      </span>
+                      <span className="font-medium">{summary.percent}%</span>
+                    </div>
+                    <Progress value={summary.percent} />
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {batch.status === "active" && !summary.finished && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isMutating}
+                        onClick={() => pauseMutation.mutate({ batchId: batch.id })}
+                      >
+                        <Pause className="h-4 w-4 mr-2" />
+                        暫停
+                      </Button>
+                    )}
+                    {batch.status === "paused" && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isMutating}
+                        onClick={() => resumeMutation.mutate({ batchId: batch.id })}
+                      >
+                        <Play className="h-4 w-4 mr-2" />
+                        恢復
+                      </Button>
+                    )}
+                    {summary.failed > 0 && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isMutating}
+                        onClick={() => retryFailedMutation.mutate({ batchId: batch.id })}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        重試失敗項目
+                      </Button>
+                    )}
+                    {batch.status !== "cancelled" && !summary.finished && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        disabled={isMutating}
+                        onClick={() => {
+                          if (confirm("確定要取消這個批次嗎？尚未開始的項目將不會執行。")) {
+                            cancelMutation.mutate({ batchId: batch.id });
+                          }
+                        }}
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        取消批次
+                      </Button>
+                    )}
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setExpandedBatchId(isExpanded ? null : batch.id)}
+                  >
+                    {isExpanded ? (
+                      <>
+                        收起項目
+                        <ChevronUp className="h-4 w-4 ml-2" />
+                      </>
+                    ) : (
+                      <>
+                        查看項目
+                        <ChevronDown className="h-4 w-4 ml-2" />
+                      </>
+                    )}
+                  </Button>
+
+                  {isExpanded && <BatchItems batchId={batch.id} />}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+    </div>
+  );
+}
@@ -21,27 +21,23 @@ import {
   Sparkles,
   Music,
   Video,
-  Trash2
+  Trash2,
+  RotateCcw,
+  PenLine
 } from "lucide-react";
+import { Link } from "wouter";
 import { toast } from "sonner";
 import { TaskProgressBar } from "@/components/TaskProgressBar";
+import { usePodcastProgress, useTaskEventListener } from "@/contexts/TaskEventsContext";
 
-// 進度顯示組件
+// 進度顯示組件（即時事件優先，尚未收到事件前先讀取一次目前進度）
 function TaskProgressDisplay({ taskId }: { taskId: number }) {
-  const { data: progress, isLoading } = trpc.podcast.getProgress.useQuery(
+  const liveProgress = usePodcastProgress(taskId);
+  const { data: initialProgress, isLoading } = trpc.podcast.getProgress.useQuery(
     { taskId },
-    {
-      refetchInterval: (query) => {
-        // 如果任務已完成或失敗，停止輪詢
-        const data = query.state.data;
-        if (data?.status === 'completed' || data?.status === 'failed') {
-          return false;
-        }
-        // 否則每 2 秒輪詢一次
-        return 2000;
-      },
-    }
+    { enabled: !liveProgress }
   );
+  const progress = liveProgress ?? initialProgress;
 
   if (isLoading || !progress) {
     return (
@@ -170,6 +166,16 @@ export default function History() {
     },
   });
 
+  const retryTaskMutation = trpc.podcast.retry.useMutation({
+    onSuccess: (data) => {
+      toast.success(data.resumeFrom ? "已重新排入佇列，將從上次中斷的階段繼續" : "已重新排入佇列");
+      taskListQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(`重試失敗：${error.message}`);
+    },
+  });
+
   const handleDeleteTask = (taskId: number) => {
     if (confirm("確定要刪除這個任務嗎？這將同時刪除所有精華片段和虛擬主播影片。")) {
       deleteTaskMutation.mutate({ taskId });
@@ -208,7 +214,15 @@ export default function History() {
 
   const taskListQuery = trpc.podcast.list.useQuery(undefined, {
     enabled: !!user,
-    refetchInterval: 5000,
+  });
+
+  // 任務狀態改變（開始處理、完成、失敗）時重新載入列表
+  useTaskEventListener((event) => {
+    if (event.type !== "podcast_progress") return;
+    const task = taskListQuery.data?.find(t => t.id === event.taskId);
+    if (!task || task.status !== event.status) {
+      taskListQuery.refetch();
+    }
   });
 
   const toggleTaskExpanded = (taskId: number) => {
@@ -239,6 +253,7 @@ export default function History() {
       processing: { label: "處理中", variant: "default" as const },
       completed: { label: "已完成", variant: "default" as const },
       failed: { label: "失敗", variant: "destructive" as const },
+      awaiting_review: { label: "待審稿", variant: "outline" as const },
     };
     const config = statusConfig[status as keyof typeof statusConfig] || statusConfig.pending;
     return <Badge variant={config.variant}>{config.label}</Badge>;
@@ -316,6 +331,7 @@ export default function History() {
                   <SelectItem value="all">全部</SelectItem>
                   <SelectItem value="completed">已完成</SelectItem>
                   <SelectItem value="processing">處理中</SelectItem>
+                  <SelectItem value="awaiting_review">待審稿</SelectItem>
                   <SelectItem value="failed">失敗</SelectItem>
                 </SelectContent>
               </Select>
@@ -429,6 +445,23 @@ export default function History() {
                     </>
                   )}
 
+                  {task.status === "awaiting_review" && (
+                    <>
+                      <Separator />
+                      <CardContent className="pt-4 space-y-3">
+                        <p className="text-xs text-muted-foreground">
+                          對話腳本已完成，審閱並核准後才會開始合成語音
+                        </p>
+                        <Link href={`/tasks/${task.id}/script`}>
+                          <Button variant="outline" size="sm" className="w-full">
+                            <PenLine className="h-4 w-4 mr-2" />
+                            編輯腳本
+                          </Button>
+                        </Link>
+                      </CardContent>
+                    </>
+                  )}
+
                   {task.status === "failed" && task.errorMessage && (
                     <>
                       <Separator />
@@ -437,6 +470,20 @@ export default function History() {
                           <AlertCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
                           <p className="text-xs text-muted-foreground">{task.errorMessage}</p>
                         </div>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full mt-3"
+                          disabled={retryTaskMutation.isPending}
+                          onClick={() => retryTaskMutation.mutate({ taskId: task.id! })}
+                        >
+                          {retryTaskMutation.isPending ? (
+                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                          ) : (
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                          )}
+                          重試
+                        </Button>
                       </CardContent>
                     </>
                   )}
@@ -8,37 +8,123 @@ import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Youtube, FileText, Link as LinkIcon, Sparkles, Play, Pause } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Loader2, Youtube, FileText, Link as LinkIcon, Sparkles, Play, Pause, ListVideo, Upload, BookOpen, Layers, Plus, X, Save, Trash2 } from "lucide-react";
 import { toast } from "sonner";
+import { useLocation } from "wouter";
 import { getLoginUrl } from "@/const";
 import { convertVoiceNameToTraditional } from "@shared/voiceNameConverter";
+import { parseYoutubeCollectionUrl } from "@shared/youtubeUrl";
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGE_INFO, OUTPUT_LANGUAGES, type OutputLanguage } from "@shared/outputLanguage";
+import { DEFAULT_MASTERING_SETTINGS, LOUDNESS_TARGETS, type MasteringSettings } from "@shared/mastering";
+import { DEFAULT_BED_VOLUME, MUSIC_TRACK_KIND_LABELS, type MusicTrackKind, type PodcastMusicSelection } from "@shared/music";
+import { DOCUMENT_EXTENSIONS, MAX_DOCUMENT_BYTES, MAX_UPLOAD_BYTES, UPLOAD_EXTENSIONS, getDocumentExtension, getUploadExtension } from "@shared/upload";
+import { MAX_DOCUMENT_EPISODES, planDocumentEpisodes, type DocumentChapterInfo } from "@shared/document";
+import {
+  MAX_EPISODE_SOURCES,
+  MIN_EPISODE_SOURCES,
+  ROUNDUP_FORMAT_LABELS,
+  ROUNDUP_FORMATS,
+  type EpisodeSourceInput,
+  type RoundupFormat,
+} from "@shared/episodeSources";
+import { DEFAULT_HOST_NAMES, HOST_FORMAT_PRESETS, MAX_PERSONA_LENGTH, createDefaultHostConfigs, type HostConfig } from "@shared/hosts";
+import { uploadFileInChunks } from "@/lib/chunkedUpload";
+
+// 片段之間的交叉淡化長度
+const CROSSFADE_OPTIONS = [
+  { value: 0, label: "直接接續" },
+  { value: 0.5, label: "交叉淡化 0.5 秒" },
+  { value: 1, label: "交叉淡化 1 秒" },
+  { value: 2, label: "交叉淡化 2 秒" },
+];
+
+const MASTERING_SWITCHES: { key: "trimSilence" | "deEss" | "compress"; label: string }[] = [
+  { key: "trimSilence", label: "去除頭尾靜音" },
+  { key: "deEss", label: "柔化齒音" },
+  { key: "compress", label: "動態壓縮" },
+];
+
+const MUSIC_SLOTS: { key: "introJingleId" | "outroStingerId" | "musicBedId"; kind: MusicTrackKind }[] = [
+  { key: "introJingleId", kind: "jingle" },
+  { key: "outroStingerId", kind: "stinger" },
+  { key: "musicBedId", kind: "bed" },
+];
+
+const BED_VOLUME_OPTIONS = [
+  { value: 10, label: "輕柔（10%）" },
+  { value: 20, label: "適中（20%）" },
+  { value: 35, label: "明顯（35%）" },
+  { value: 50, label: "突出（50%）" },
+];
+
+const NO_MUSIC = "none";
 
 export default function Home() {
   const { user, loading: authLoading } = useAuth();
-  const [inputType, setInputType] = useState<'youtube' | 'text' | 'article'>('youtube');
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const [inputType, setInputType] = useState<'youtube' | 'text' | 'article' | 'upload' | 'document' | 'multi'>('youtube');
   const [youtubeUrl, setYoutubeUrl] = useState("");
   const [textContent, setTextContent] = useState("");
   const [articleUrl, setArticleUrl] = useState("");
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+  const [uploadInputKey, setUploadInputKey] = useState(0); // 清空檔案選擇欄位用
+  const [documentInfo, setDocumentInfo] = useState<{
+    uploadKey: string;
+    title: string;
+    totalChars: number;
+    chapters: DocumentChapterInfo[];
+  } | null>(null);
+  const [selectedChapters, setSelectedChapters] = useState<number[]>([]);
+  const [inspectingDocument, setInspectingDocument] = useState(false);
+  const [episodeSources, setEpisodeSources] = useState<EpisodeSourceInput[]>([
+    { type: 'article', value: '' },
+    { type: 'article', value: '' },
+  ]);
+  const [roundupFormat, setRoundupFormat] = useState<RoundupFormat>('roundup');
   const [mode, setMode] = useState<'quick' | 'medium' | 'deep'>('medium');
-  const [style, setStyle] = useState<'educational' | 'casual' | 'professional'>('casual');
-  const [hostCount, setHostCount] = useState<'1' | '2'>('2');
+  const [style, setStyle] = useState('casual');
+  const [hostFormat, setHostFormat] = useState('duo');
   const [introEnabled, setIntroEnabled] = useState(true);
   const [outroEnabled, setOutroEnabled] = useState(true);
-  const [host1Voice, setHost1Voice] = useState<string>("");
-  const [host2Voice, setHost2Voice] = useState<string>("");
+  const [ttsProvider, setTtsProvider] = useState<'listenhub' | 'local'>('listenhub');
+  const [scriptReview, setScriptReview] = useState(false);
+  const [mastering, setMastering] = useState<MasteringSettings>(DEFAULT_MASTERING_SETTINGS);
+  const [music, setMusic] = useState<PodcastMusicSelection>({});
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+  const [hosts, setHosts] = useState<HostConfig[]>(() => createDefaultHostConfigs(2));
   const [playingVoice, setPlayingVoice] = useState<string | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const [introText, setIntroText] = useState<string>("");
   const [outroText, setOutroText] = useState<string>("");
+  const [profileId, setProfileId] = useState<string>(""); // 目前套用的節目設定
+  const [coverImageUrl, setCoverImageUrl] = useState<string>("");
   const [videoInfo, setVideoInfo] = useState<{
     title: string;
     duration: number;
     durationFormatted: string;
     estimatedSizeMB: number;
     willExceedLimit: boolean;
+    hasCaptions?: boolean;
     thumbnail?: string;
   } | null>(null);
   const [checkingVideo, setCheckingVideo] = useState(false);
+  const [collectionInfo, setCollectionInfo] = useState<{
+    title: string;
+    count: number;
+  } | null>(null);
+
+  // 播放清單 / 頻道網址改走批次建立（每部影片一個任務）
+  const collection = inputType === 'youtube' ? parseYoutubeCollectionUrl(youtubeUrl) : null;
+
+  // 選取的章節超過單集字數上限時會拆成多集系列
+  const documentEpisodes = documentInfo
+    ? planDocumentEpisodes(documentInfo.chapters.filter(chapter => selectedChapters.includes(chapter.index)))
+    : [];
 
   const getVideoInfoMutation = trpc.podcast.getVideoInfo.useMutation({
     onSuccess: (data) => {
@@ -60,22 +146,58 @@ export default function Home() {
     },
   });
 
+  const previewBatchMutation = trpc.batch.preview.useMutation({
+    onSuccess: (data) => {
+      setCollectionInfo(data);
+      toast.success(`共找到 ${data.count} 部影片`);
+      setCheckingVideo(false);
+    },
+    onError: (error) => {
+      toast.error(`無法讀取清單：${error.message}`);
+      setCollectionInfo(null);
+      setCheckingVideo(false);
+    },
+  });
+
+  const createBatchMutation = trpc.batch.create.useMutation({
+    onSuccess: (data) => {
+      toast.success(`批次已建立，共 ${data.taskCount} 個任務`);
+      setYoutubeUrl("");
+      setCollectionInfo(null);
+      setLocation("/batches");
+    },
+    onError: (error) => {
+      toast.error(`建立批次失敗：${error.message}`);
+    },
+  });
+
   const createTaskMutation = trpc.podcast.create.useMutation({
-    onSuccess: () => {
-      toast.success("任務已建立！正在處理中...");
+    onSuccess: (data) => {
       // 清空表單
       setYoutubeUrl("");
       setTextContent("");
       setArticleUrl("");
-      setIntroText("");
-      setOutroText("");
+      setUploadFile(null);
+      setUploadInputKey(key => key + 1);
+      setDocumentInfo(null);
+      setSelectedChapters([]);
+      setEpisodeSources([{ type: 'article', value: '' }, { type: 'article', value: '' }]);
+      // 套用節目設定時保留設定中的開場 / 結尾模板
+      setIntroText(selectedProfile?.introText || "");
+      setOutroText(selectedProfile?.outroText || "");
+      if ('batchId' in data && data.batchId) {
+        toast.success(`文件已拆成 ${data.episodeCount} 集系列，正在處理中...`);
+        setLocation("/batches");
+        return;
+      }
+      toast.success("任務已建立！正在處理中...");
     },
     onError: (error) => {
       toast.error(`建立任務失敗：${error.message}`);
     },
   });
 
-  const voicesQuery = trpc.podcast.getVoices.useQuery(undefined, {
+  const voicesQuery = trpc.podcast.getVoices.useQuery({ provider: ttsProvider, language: outputLanguage }, {
     enabled: !!user,
   });
 
@@ -83,6 +205,54 @@ export default function Home() {
     enabled: !!user,
   });
 
+  // 節目設定（固定節目的主持人、聲音與參數）
+  const profilesQuery = trpc.showProfile.list.useQuery(undefined, {
+    enabled: !!user,
+  });
+  const selectedProfile = profilesQuery.data?.find(profile => String(profile.id) === profileId);
+
+  // 音樂庫（開場音樂、結尾音效與背景音樂）
+  const musicQuery = trpc.music.list.useQuery(undefined, {
+    enabled: !!user,
+  });
+
+  const createProfileMutation = trpc.showProfile.create.useMutation({
+    onSuccess: (data) => {
+      toast.success("節目設定已儲存");
+      profilesQuery.refetch();
+      setProfileId(String(data.profileId));
+    },
+    onError: (error) => {
+      toast.error(`儲存節目設定失敗：${error.message}`);
+    },
+  });
+
+  const updateProfileMutation = trpc.showProfile.update.useMutation({
+    onSuccess: () => {
+      toast.success("節目設定已更新");
+      profilesQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(`更新節目設定失敗：${error.message}`);
+    },
+  });
+
+  const deleteProfileMutation = trpc.showProfile.delete.useMutation({
+    onSuccess: () => {
+      toast.success("節目設定已刪除");
+      setProfileId("");
+      profilesQuery.refetch();
+    },
+    onError: (error) => {
+      toast.error(`刪除節目設定失敗：${error.message}`);
+    },
+  });
+
+  // 節目風格（管理員可新增）
+  const stylesQuery = trpc.promptTemplate.styles.useQuery(undefined, {
+    enabled: !!user,
+  });
+
   // 試聽聲音
   const handlePlayVoice = (voiceId: string) => {
     const voice = voicesQuery.data?.find(v => v.speakerId === voiceId);
@@ -120,15 +290,172 @@ export default function Home() {
     };
   };
 
-  // 載入使用者的聲音偏好
+  // 切換語音引擎時清除已選的聲音（不同引擎的聲音 ID 不通用）
+  const handleTtsProviderChange = (value: 'listenhub' | 'local') => {
+    setTtsProvider(value);
+    clearHostVoices();
+  };
+
+  // 切換輸出語言時清除已選的聲音（聲音列表只包含支援該語言的聲音）
+  const handleOutputLanguageChange = (value: OutputLanguage) => {
+    setOutputLanguage(value);
+    clearHostVoices();
+  };
+
+  const clearHostVoices = () => {
+    setHosts(current => current.map(host => ({ ...host, voiceId: undefined })));
+  };
+
+  const updateHost = (index: number, update: Partial<HostConfig>) => {
+    setHosts(current => current.map((host, i) => (i === index ? { ...host, ...update } : host)));
+  };
+
+  const updateMastering = (update: Partial<MasteringSettings>) => {
+    setMastering(current => ({ ...current, ...update }));
+  };
+
+  // 套用節目形式（主持人名稱與人設），已選的聲音依順序保留
+  const handleHostFormatChange = (formatId: string) => {
+    const preset = HOST_FORMAT_PRESETS.find(option => option.id === formatId);
+    if (!preset) return;
+    setHostFormat(formatId);
+    const preferredVoices = voicePreferenceQuery.data?.voiceIds || [];
+    setHosts(current => preset.hosts.map((host, i) => ({
+      ...host,
+      voiceId: current[i]?.voiceId || preferredVoices[i] || undefined,
+    })));
+  };
+
+  // 載入使用者的聲音偏好（依主持人順序）
   useEffect(() => {
-    if (voicePreferenceQuery.data) {
-      setHost1Voice(voicePreferenceQuery.data.voiceId1 || "");
-      setHost2Voice(voicePreferenceQuery.data.voiceId2 || "");
+    const preferredVoices = voicePreferenceQuery.data?.voiceIds;
+    if (preferredVoices) {
+      setHosts(current => current.map((host, i) => ({ ...host, voiceId: preferredVoices[i] || host.voiceId })));
     }
   }, [voicePreferenceQuery.data]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // 套用節目設定：以設定內容填入表單
+  const handleProfileChange = (value: string) => {
+    const profile = profilesQuery.data?.find(option => String(option.id) === value);
+    if (!profile) return;
+    setProfileId(value);
+    setMode(profile.mode);
+    setStyle(profile.style);
+    setOutputLanguage(profile.outputLanguage);
+    if (profile.ttsProvider) setTtsProvider(profile.ttsProvider);
+    setHosts(profile.hosts);
+    setHostFormat(HOST_FORMAT_PRESETS.find(preset => preset.hosts.length === profile.hosts.length)?.id || 'duo');
+    setIntroText(profile.introText || "");
+    setOutroText(profile.outroText || "");
+    setCoverImageUrl(profile.coverImageUrl || "");
+    // 只保留仍存在於音樂庫中的音樂
+    const trackIds = new Set(musicQuery.data?.map(track => track.id));
+    const keep = (trackId: number | null | undefined) => (trackId && trackIds.has(trackId) ? trackId : null);
+    setMusic({
+      introJingleId: keep(profile.music.introJingleId),
+      outroStingerId: keep(profile.music.outroStingerId),
+      musicBedId: keep(profile.music.musicBedId),
+      bedVolume: profile.music.bedVolume,
+    });
+  };
+
+  // 目前表單中的節目設定內容
+  const currentProfileSettings = () => ({
+    hosts: hostsForSubmit(),
+    mode,
+    style,
+    outputLanguage,
+    ttsProvider,
+    introText: introText.trim() || null,
+    outroText: outroText.trim() || null,
+    coverImageUrl: coverImageUrl.trim() || null,
+    music,
+  });
+
+  const handleSaveProfileAs = () => {
+    const name = prompt("節目設定名稱", selectedProfile ? `${selectedProfile.name}（複本）` : "")?.trim();
+    if (!name) return;
+    createProfileMutation.mutate({ name, ...currentProfileSettings() });
+  };
+
+  // 送出的主持人設定（名稱留空時使用預設名稱）
+  const hostsForSubmit = () => hosts.map((host, i) => ({
+    name: host.name.trim() || (hosts.length === 1 ? "主持人" : DEFAULT_HOST_NAMES[i]),
+    voiceId: host.voiceId || undefined,
+    persona: host.persona?.trim() || undefined,
+  }));
+
+  // 分塊上傳錄音檔或文件，完成後回傳儲存路徑
+  const uploadRecording = async (file: File) => {
+    setUploadProgress(0);
+    try {
+      const { fileKey } = await uploadFileInChunks(file, {
+        init: input => utils.client.upload.init.mutate(input),
+        status: input => utils.client.upload.status.query(input),
+        chunk: input => utils.client.upload.chunk.mutate(input),
+        complete: input => utils.client.upload.complete.mutate(input),
+      }, setUploadProgress);
+      return fileKey;
+    } catch (error) {
+      toast.error(`上傳失敗：${error instanceof Error ? error.message : String(error)}（重新送出即可從中斷處繼續）`);
+      return null;
+    } finally {
+      setUploadProgress(null);
+    }
+  };
+
+  const handleFileChange = (file: File | null) => {
+    if (file && !getUploadExtension(file.name)) {
+      toast.error(`不支援的檔案格式，請選擇 ${UPLOAD_EXTENSIONS.map(ext => ext.toUpperCase()).join(" / ")} 檔案`);
+      return;
+    }
+    if (file && file.size > MAX_UPLOAD_BYTES) {
+      toast.error(`檔案超過 ${MAX_UPLOAD_BYTES / 1024 / 1024}MB 上限`);
+      return;
+    }
+    setUploadFile(file);
+  };
+
+  // 選擇文件後立即上傳並解析章節（預設全選）
+  const handleDocumentChange = async (file: File | null) => {
+    setDocumentInfo(null);
+    setSelectedChapters([]);
+    if (!file) return;
+    if (!getDocumentExtension(file.name)) {
+      toast.error(`不支援的文件格式，請選擇 ${DOCUMENT_EXTENSIONS.map(ext => ext.toUpperCase()).join(" / ")} 檔案`);
+      return;
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      toast.error(`文件超過 ${MAX_DOCUMENT_BYTES / 1024 / 1024}MB 上限`);
+      return;
+    }
+
+    const fileKey = await uploadRecording(file);
+    if (!fileKey) return;
+
+    setInspectingDocument(true);
+    try {
+      const info = await utils.client.document.inspect.query({ uploadKey: fileKey });
+      setDocumentInfo({ uploadKey: fileKey, title: info.title, totalChars: info.totalChars, chapters: info.chapters });
+      setSelectedChapters(info.chapters.map(chapter => chapter.index));
+    } catch (error) {
+      toast.error(`無法讀取文件：${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setInspectingDocument(false);
+    }
+  };
+
+  const updateEpisodeSource = (index: number, update: Partial<EpisodeSourceInput>) => {
+    setEpisodeSources(current => current.map((source, i) => (i === index ? { ...source, ...update } : source)));
+  };
+
+  const toggleChapter = (index: number, checked: boolean) => {
+    setSelectedChapters(current =>
+      checked ? [...current, index].sort((a, b) => a - b) : current.filter(value => value !== index)
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (!user) {
@@ -136,17 +463,76 @@ export default function Home() {
       return;
     }
 
+    if (collection) {
+      createBatchMutation.mutate({
+        url: youtubeUrl,
+        hosts: hostsForSubmit(),
+        coverImageUrl: coverImageUrl.trim() || undefined,
+        showProfileId: selectedProfile?.id,
+        mode,
+        style,
+        introText: introText.trim() || undefined,
+        outroText: outroText.trim() || undefined,
+        ttsProvider,
+        scriptReview,
+        mastering,
+        music,
+        outputLanguage,
+      });
+      return;
+    }
+
+    let uploadKey: string | undefined;
+    if (inputType === 'upload') {
+      if (!uploadFile) {
+        toast.error("請選擇要上傳的檔案");
+        return;
+      }
+      const fileKey = await uploadRecording(uploadFile);
+      if (!fileKey) return;
+      uploadKey = fileKey;
+    } else if (inputType === 'document') {
+      if (!documentInfo) {
+        toast.error("請先上傳文件");
+        return;
+      }
+      if (selectedChapters.length === 0) {
+        toast.error("請至少選擇一個章節");
+        return;
+      }
+      if (documentEpisodes.length > MAX_DOCUMENT_EPISODES) {
+        toast.error(`選擇的內容會產生 ${documentEpisodes.length} 集，超過 ${MAX_DOCUMENT_EPISODES} 集上限，請減少章節`);
+        return;
+      }
+      uploadKey = documentInfo.uploadKey;
+    } else if (inputType === 'multi') {
+      if (episodeSources.filter(source => source.value.trim()).length < MIN_EPISODE_SOURCES) {
+        toast.error(`請至少提供 ${MIN_EPISODE_SOURCES} 個來源`);
+        return;
+      }
+    }
+
     createTaskMutation.mutate({
       youtubeUrl: inputType === 'youtube' ? youtubeUrl : undefined,
       textContent: inputType === 'text' ? textContent : undefined,
       articleUrl: inputType === 'article' ? articleUrl : undefined,
+      uploadKey,
       inputType,
-      voiceId1: host1Voice || undefined,
-      voiceId2: host2Voice || undefined,
+      documentChapters: inputType === 'document' ? selectedChapters : undefined,
+      sources: inputType === 'multi' ? episodeSources.filter(source => source.value.trim()) : undefined,
+      roundupFormat: inputType === 'multi' ? roundupFormat : undefined,
+      hosts: hostsForSubmit(),
+      coverImageUrl: coverImageUrl.trim() || undefined,
+      showProfileId: selectedProfile?.id,
       mode,
       style,
       introText: introText.trim() || undefined,
       outroText: outroText.trim() || undefined,
+      ttsProvider,
+      scriptReview,
+      mastering,
+      music,
+      outputLanguage,
     });
   };
 
@@ -204,7 +590,7 @@ export default function Home() {
             <form onSubmit={handleSubmit} className="space-y-8">
               {/* Input Type Tabs */}
               <Tabs value={inputType} onValueChange={(value: any) => setInputType(value)}>
-                <TabsList className="grid w-full grid-cols-3 h-auto p-1">
+                <TabsList className="grid w-full grid-cols-2 md:grid-cols-6 h-auto p-1">
                   <TabsTrigger value="youtube" className="gap-2 py-3">
                     <Youtube className="h-4 w-4" />
                     YouTube
@@ -217,6 +603,18 @@ export default function Home() {
                     <LinkIcon className="h-4 w-4" />
                     文章網址
                   </TabsTrigger>
+                  <TabsTrigger value="upload" className="gap-2 py-3">
+                    <Upload className="h-4 w-4" />
+                    上傳檔案
+                  </TabsTrigger>
+                  <TabsTrigger value="document" className="gap-2 py-3">
+                    <BookOpen className="h-4 w-4" />
+                    文件
+                  </TabsTrigger>
+                  <TabsTrigger value="multi" className="gap-2 py-3">
+                    <Layers className="h-4 w-4" />
+                    多來源
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="youtube" className="mt-6 space-y-4">
@@ -231,6 +629,7 @@ export default function Home() {
                         onChange={(e) => {
                           setYoutubeUrl(e.target.value);
                           setVideoInfo(null); // 清除舊的影片資訊
+                          setCollectionInfo(null);
                         }}
                         required={inputType === 'youtube'}
                         className="h-12 flex-1"
@@ -244,7 +643,11 @@ export default function Home() {
                             return;
                           }
                           setCheckingVideo(true);
-                          getVideoInfoMutation.mutate({ youtubeUrl });
+                          if (collection) {
+                            previewBatchMutation.mutate({ url: youtubeUrl });
+                          } else {
+                            getVideoInfoMutation.mutate({ youtubeUrl });
+                          }
                         }}
                         disabled={checkingVideo || !youtubeUrl}
                         className="h-12 px-6"
@@ -254,11 +657,28 @@ export default function Home() {
                             <Loader2 className="h-4 w-4 animate-spin mr-2" />
                             檢查中
                           </>
+                        ) : collection ? (
+                          "檢查清單"
                         ) : (
                           "檢查影片"
                         )}
                       </Button>
                     </div>
+                    {collection && (
+                      <div className="flex items-start gap-2 p-3 rounded-md border border-primary/20 bg-primary/5 text-sm">
+                        <ListVideo className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                        <div className="space-y-1">
+                          <p>
+                            這是{collection.type === 'playlist' ? '播放清單' : '頻道'}網址，將為其中每部影片各建立一個任務（最多 200 部），可在「批次任務」頁面查看進度。
+                          </p>
+                          {collectionInfo && (
+                            <p className="text-muted-foreground">
+                              {collectionInfo.title}・共 {collectionInfo.count} 部影片
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                    )}
                     {videoInfo && (
                       <Card className="mt-4 border-blue-200 bg-blue-50/50">
                         <CardContent className="pt-4">
@@ -278,6 +698,9 @@ export default function Home() {
                                   {videoInfo.estimatedSizeMB} MB
                                 </span>
                               </div>
+                              {videoInfo.hasCaptions && (
+                                <span className="text-green-600">✓ 有字幕，免轉錄</span>
+                              )}
                             </div>
                             {videoInfo.willExceedLimit && (
                               <div className="mt-2 p-2 bg-yellow-100 border border-yellow-300 rounded text-yellow-800">
@@ -327,8 +750,246 @@ export default function Home() {
                     />
                   </div>
                 </TabsContent>
+
+                <TabsContent value="multi" className="mt-6 space-y-4">
+                  <div className="space-y-2">
+                    <Label>節目形式</Label>
+                    <Select value={roundupFormat} onValueChange={(value: RoundupFormat) => setRoundupFormat(value)}>
+                      <SelectTrigger className="h-11">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ROUNDUP_FORMATS.map(format => (
+                          <SelectItem key={format} value={format}>{ROUNDUP_FORMAT_LABELS[format]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      將多篇文章、影片與文字整合成一集，腳本與單集說明會標明每個重點的出處
+                    </p>
+                  </div>
+                  <div className="space-y-3">
+                    {episodeSources.map((source, index) => (
+                      <div key={index} className="flex items-start gap-2">
+                        <Select value={source.type} onValueChange={(value: EpisodeSourceInput['type']) => updateEpisodeSource(index, { type: value })}>
+                          <SelectTrigger className="h-11 w-32 shrink-0">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="article">文章網址</SelectItem>
+                            <SelectItem value="youtube">YouTube</SelectItem>
+                            <SelectItem value="text">文字</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {source.type === 'text' ? (
+                          <Textarea
+                            placeholder="貼上文字內容..."
+                            value={source.value}
+                            onChange={(e) => updateEpisodeSource(index, { value: e.target.value })}
+                            className="min-h-[88px] flex-1 resize-y"
+                          />
+                        ) : (
+                          <Input
+                            type="url"
+                            placeholder={source.type === 'youtube' ? "https://www.youtube.com/watch?v=..." : "https://example.com/article"}
+                            value={source.value}
+                            onChange={(e) => updateEpisodeSource(index, { value: e.target.value })}
+                            className="h-11 flex-1"
+                          />
+                        )}
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="h-11 w-11 shrink-0"
+                          disabled={episodeSources.length <= MIN_EPISODE_SOURCES}
+                          onClick={() => setEpisodeSources(current => current.filter((_, i) => i !== index))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      className="gap-2"
+                      disabled={episodeSources.length >= MAX_EPISODE_SOURCES}
+                      onClick={() => setEpisodeSources(current => [...current, { type: 'article', value: '' }])}
+                    >
+                      <Plus className="h-4 w-4" />
+                      新增來源（最多 {MAX_EPISODE_SOURCES} 個）
+                    </Button>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="upload" className="mt-6 space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="upload-file">錄音或影片檔</Label>
+                    <Input
+                      key={uploadInputKey}
+                      id="upload-file"
+                      type="file"
+                      accept={UPLOAD_EXTENSIONS.map(ext => `.${ext}`).join(",")}
+                      onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                      disabled={uploadProgress !== null}
+                      className="h-12 py-3"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      支援 {UPLOAD_EXTENSIONS.map(ext => ext.toUpperCase()).join(" / ")}，最大 {MAX_UPLOAD_BYTES / 1024 / 1024}MB；上傳中斷後重新送出同一個檔案會從中斷處繼續
+                    </p>
+                    {uploadFile && (
+                      <p className="text-sm">
+                        {uploadFile.name}（{(uploadFile.size / 1024 / 1024).toFixed(1)} MB）
+                      </p>
+                    )}
+                    {uploadProgress !== null && (
+                      <div className="space-y-1">
+                        <Progress value={uploadProgress} />
+                        <p className="text-xs text-muted-foreground">上傳中 {uploadProgress}%</p>
+                      </div>
+                    )}
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="document" className="mt-6 space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="document-file">文件</Label>
+                    <Input
+                      key={uploadInputKey}
+                      id="document-file"
+                      type="file"
+                      accept={DOCUMENT_EXTENSIONS.map(ext => `.${ext}`).join(",")}
+                      onChange={(e) => handleDocumentChange(e.target.files?.[0] || null)}
+                      disabled={uploadProgress !== null || inspectingDocument}
+                      className="h-12 py-3"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      支援 {DOCUMENT_EXTENSIONS.filter(ext => ext !== 'markdown').map(ext => ext.toUpperCase()).join(" / ")}，最大 {MAX_DOCUMENT_BYTES / 1024 / 1024}MB；掃描的 PDF 需先進行文字辨識
+                    </p>
+                    {uploadProgress !== null && (
+                      <div className="space-y-1">
+                        <Progress value={uploadProgress} />
+                        <p className="text-xs text-muted-foreground">上傳中 {uploadProgress}%</p>
+                      </div>
+                    )}
+                    {inspectingDocument && (
+                      <p className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                        正在解析文件章節...
+                      </p>
+                    )}
+                  </div>
+
+                  {documentInfo && (
+                    <div className="space-y-3 rounded-lg border p-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <div>
+                          <p className="font-medium">{documentInfo.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            共 {documentInfo.chapters.length} 個章節、{documentInfo.totalChars.toLocaleString()} 字
+                          </p>
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setSelectedChapters(
+                            selectedChapters.length === documentInfo.chapters.length
+                              ? []
+                              : documentInfo.chapters.map(chapter => chapter.index)
+                          )}
+                        >
+                          {selectedChapters.length === documentInfo.chapters.length ? "全部取消" : "全選"}
+                        </Button>
+                      </div>
+                      <div className="max-h-72 space-y-2 overflow-y-auto">
+                        {documentInfo.chapters.map(chapter => (
+                          <label key={chapter.index} className="flex cursor-pointer items-center gap-3 text-sm">
+                            <Checkbox
+                              checked={selectedChapters.includes(chapter.index)}
+                              onCheckedChange={(checked) => toggleChapter(chapter.index, checked === true)}
+                            />
+                            <span className="flex-1 truncate">{chapter.title}</span>
+                            <span className="text-xs text-muted-foreground">{chapter.charCount.toLocaleString()} 字</span>
+                          </label>
+                        ))}
+                      </div>
+                      {documentEpisodes.length > 1 && (
+                        <p className={`text-sm ${documentEpisodes.length > MAX_DOCUMENT_EPISODES ? "text-destructive" : "text-muted-foreground"}`}>
+                          選取的內容較長，將拆成 {documentEpisodes.length} 集系列（可在批次頁面查看進度）
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </TabsContent>
               </Tabs>
 
+              {/* Show Profile */}
+              <div className="space-y-2 rounded-lg border p-3">
+                <Label>節目設定</Label>
+                <div className="flex flex-col gap-2 md:flex-row">
+                  <Select value={profileId} onValueChange={handleProfileChange}>
+                    <SelectTrigger className="h-11 md:flex-1">
+                      <SelectValue placeholder={profilesQuery.data?.length ? "選擇節目設定以套用" : "尚無節目設定"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {profilesQuery.data?.map(profile => (
+                        <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="h-11"
+                      onClick={handleSaveProfileAs}
+                      disabled={createProfileMutation.isPending}
+                    >
+                      <Save className="h-4 w-4 mr-1" />
+                      另存新設定
+                    </Button>
+                    {selectedProfile && (
+                      <>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          className="h-11"
+                          onClick={() => updateProfileMutation.mutate({ profileId: selectedProfile.id, ...currentProfileSettings() })}
+                          disabled={updateProfileMutation.isPending}
+                        >
+                          更新設定
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="icon"
+                          className="h-11 w-11 shrink-0"
+                          onClick={() => {
+                            if (confirm(`確定要刪除節目設定「${selectedProfile.name}」嗎？已建立的任務不受影響。`)) {
+                              deleteProfileMutation.mutate({ profileId: selectedProfile.id });
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                <Input
+                  type="url"
+                  value={coverImageUrl}
+                  onChange={(e) => setCoverImageUrl(e.target.value)}
+                  placeholder="單集封面圖網址（選填，發佈到節目時使用）"
+                  className="h-11"
+                />
+                <p className="text-xs text-muted-foreground">
+                  節目設定會保存主持人、聲音、長度、風格、語言、語音引擎、開場 / 結尾模板與封面，套用後仍可在下方調整
+                </p>
+              </div>
+
               {/* Settings Row */}
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                 <div className="space-y-2">
@@ -347,99 +1008,118 @@ export default function Home() {
 
                 <div className="space-y-2">
                   <Label>對話風格</Label>
-                  <Select value={style} onValueChange={(value: any) => setStyle(value)}>
+                  <Select value={style} onValueChange={setStyle}>
                     <SelectTrigger className="h-11">
                       <SelectValue placeholder="選擇風格" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="casual">輕鬆閒聊</SelectItem>
-                      <SelectItem value="educational">教育講解</SelectItem>
-                      <SelectItem value="professional">專業訪談</SelectItem>
+                      {(stylesQuery.data || []).map(option => (
+                        <SelectItem key={option.styleKey} value={option.styleKey}>{option.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div className="space-y-2">
-                  <Label>主持人數量</Label>
-                  <Select value={hostCount} onValueChange={(value: any) => setHostCount(value)}>
+                  <Label>節目形式</Label>
+                  <Select value={hostFormat} onValueChange={handleHostFormatChange}>
                     <SelectTrigger className="h-11">
-                      <SelectValue placeholder="選擇人數" />
+                      <SelectValue placeholder="選擇節目形式" />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="1">1 人獨白</SelectItem>
-                      <SelectItem value="2">2 人對話</SelectItem>
+                      {HOST_FORMAT_PRESETS.map(preset => (
+                        <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
-              {/* Voice Selection */}
+              {/* Output Language & TTS Engine */}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label>主持人 1 聲音</Label>
-                  <div className="flex gap-2">
-                    <Select value={host1Voice} onValueChange={setHost1Voice}>
-                      <SelectTrigger className="h-11 flex-1">
-                        <SelectValue placeholder="選擇聲音" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {voicesQuery.data?.map((voice) => (
-                          <SelectItem key={voice.speakerId} value={voice.speakerId}>
-                            {convertVoiceNameToTraditional(voice.name)}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    {host1Voice && (
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="icon"
-                        className="h-11 w-11 shrink-0"
-                        onClick={() => handlePlayVoice(host1Voice)}
-                      >
-                        {playingVoice === host1Voice ? (
-                          <Pause className="h-4 w-4" />
-                        ) : (
-                          <Play className="h-4 w-4" />
-                        )}
-                      </Button>
-                    )}
-                  </div>
+                  <Label>節目語言</Label>
+                  <Select value={outputLanguage} onValueChange={(value: any) => handleOutputLanguageChange(value)}>
+                    <SelectTrigger className="h-11">
+                      <SelectValue placeholder="選擇語言" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_LANGUAGES.map(language => (
+                        <SelectItem key={language} value={language}>{OUTPUT_LANGUAGE_INFO[language].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
 
                 <div className="space-y-2">
-                  <Label>主持人 2 聲音</Label>
-                  <div className="flex gap-2">
-                    <Select value={host2Voice} onValueChange={setHost2Voice}>
-                      <SelectTrigger className="h-11 flex-1">
-                        <SelectValue placeholder="選擇聲音" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        {voicesQuery.data?.map((voice) => (
-                          <SelectItem key={voice.speakerId} value={voice.speakerId}>
-                            {convertVoiceNameToTraditional(voice.name)}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    {host2Voice && (
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="icon"
-                        className="h-11 w-11 shrink-0"
-                        onClick={() => handlePlayVoice(host2Voice)}
-                      >
-                        {playingVoice === host2Voice ? (
-                          <Pause className="h-4 w-4" />
-                        ) : (
-                          <Play className="h-4 w-4" />
+                  <Label>語音引擎</Label>
+                  <Select value={ttsProvider} onValueChange={(value: any) => handleTtsProviderChange(value)}>
+                    <SelectTrigger className="h-11">
+                      <SelectValue placeholder="選擇語音引擎" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="listenhub">ListenHub（雲端，音質最佳）</SelectItem>
+                      <SelectItem value="local">本機離線引擎（Piper / eSpeak）</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Hosts: name, voice and persona */}
+              <div className="space-y-3">
+                {hosts.map((host, index) => (
+                  <div key={index} className="space-y-2 rounded-lg border p-3">
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <Input
+                        value={host.name}
+                        onChange={(e) => updateHost(index, { name: e.target.value })}
+                        placeholder={`主持人 ${index + 1} 名稱`}
+                        maxLength={32}
+                        className="h-11"
+                      />
+                      <div className="flex gap-2">
+                        <Select value={host.voiceId || ""} onValueChange={(value) => updateHost(index, { voiceId: value })}>
+                          <SelectTrigger className="h-11 flex-1">
+                            <SelectValue placeholder="選擇聲音" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {voicesQuery.data?.map((voice) => (
+                              <SelectItem key={voice.speakerId} value={voice.speakerId}>
+                                {convertVoiceNameToTraditional(voice.name)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {host.voiceId && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="icon"
+                            className="h-11 w-11 shrink-0"
+                            onClick={() => handlePlayVoice(host.voiceId!)}
+                          >
+                            {playingVoice === host.voiceId ? (
+                              <Pause className="h-4 w-4" />
+                            ) : (
+                              <Play className="h-4 w-4" />
+                            )}
+                          </Button>
                         )}
-                      </Button>
-                    )}
+                      </div>
+                    </div>
+                    <Textarea
+                      value={host.persona || ""}
+                      onChange={(e) => updateHost(index, { persona: e.target.value })}
+                      placeholder="人設（選填）：例如「資深科技記者，負責提問與總結」"
+                      maxLength={MAX_PERSONA_LENGTH}
+                      rows={2}
+                      className="resize-none"
+                    />
                   </div>
-                </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  人設會影響腳本中每位主持人的分工、立場與說話方式；未選擇聲音時使用偏好或預設聲音
+                </p>
               </div>
 
               {/* Intro and Outro Text Inputs */}
@@ -475,14 +1155,150 @@ export default function Home() {
                 </div>
               </div>
 
+              {/* Audio Mastering */}
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="flex items-center justify-between gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="mastering">音訊後製</Label>
+                    <p className="text-xs text-muted-foreground">
+                      統一開場、主要內容與結尾的音量，去除多餘靜音並以交叉淡化銜接（精華片段也會套用）
+                    </p>
+                  </div>
+                  <Switch
+                    id="mastering"
+                    checked={mastering.enabled}
+                    onCheckedChange={(enabled) => updateMastering({ enabled })}
+                  />
+                </div>
+                {mastering.enabled && (
+                  <>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label>響度目標</Label>
+                        <Select
+                          value={String(mastering.targetLufs)}
+                          onValueChange={(value) => updateMastering({ targetLufs: Number(value) })}
+                        >
+                          <SelectTrigger className="h-11">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {LOUDNESS_TARGETS.map(target => (
+                              <SelectItem key={target.value} value={String(target.value)}>{target.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>片段銜接</Label>
+                        <Select
+                          value={String(mastering.crossfadeSeconds)}
+                          onValueChange={(value) => updateMastering({ crossfadeSeconds: Number(value) })}
+                        >
+                          <SelectTrigger className="h-11">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {CROSSFADE_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-x-6 gap-y-3">
+                      {MASTERING_SWITCHES.map(option => (
+                        <div key={option.key} className="flex items-center gap-2">
+                          <Switch
+                            id={`mastering-${option.key}`}
+                            checked={mastering[option.key]}
+                            onCheckedChange={(checked) => updateMastering({ [option.key]: checked })}
+                          />
+                          <Label htmlFor={`mastering-${option.key}`} className="font-normal">{option.label}</Label>
+                        </div>
+                      ))}
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Show Music */}
+              {musicQuery.data && musicQuery.data.length > 0 && (
+                <div className="space-y-4 rounded-lg border p-4">
+                  <div className="space-y-1">
+                    <Label>節目音樂</Label>
+                    <p className="text-xs text-muted-foreground">
+                      從音樂庫選用開場音樂、結尾音效與背景音樂，背景音樂會在說話時自動壓低音量
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {MUSIC_SLOTS.map(slot => (
+                      <div key={slot.key} className="space-y-2">
+                        <Label>{MUSIC_TRACK_KIND_LABELS[slot.kind]}</Label>
+                        <Select
+                          value={music[slot.key] ? String(music[slot.key]) : NO_MUSIC}
+                          onValueChange={(value) => setMusic(current => ({
+                            ...current,
+                            [slot.key]: value === NO_MUSIC ? null : Number(value),
+                          }))}
+                        >
+                          <SelectTrigger className="h-11">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_MUSIC}>無</SelectItem>
+                            {musicQuery.data?.filter(track => track.kind === slot.kind).map(track => (
+                              <SelectItem key={track.id} value={String(track.id)}>{track.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                    {music.musicBedId && (
+                      <div className="space-y-2">
+                        <Label>背景音樂音量</Label>
+                        <Select
+                          value={String(music.bedVolume ?? DEFAULT_BED_VOLUME)}
+                          onValueChange={(value) => setMusic(current => ({ ...current, bedVolume: Number(value) }))}
+                        >
+                          <SelectTrigger className="h-11">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {BED_VOLUME_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={String(option.value)}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Script Review */}
+              <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                <div className="space-y-1">
+                  <Label htmlFor="script-review">先審閱腳本再合成語音</Label>
+                  <p className="text-xs text-muted-foreground">
+                    產生對話腳本後暫停，可在 My Podcast 中編輯台詞並核准後再合成
+                  </p>
+                </div>
+                <Switch
+                  id="script-review"
+                  checked={scriptReview}
+                  onCheckedChange={setScriptReview}
+                />
+              </div>
+
               {/* Submit Button */}
               <Button
                 type="submit"
                 size="lg"
                 className="w-full h-14 text-lg font-semibold"
-                disabled={createTaskMutation.isPending}
+                disabled={createTaskMutation.isPending || createBatchMutation.isPending || uploadProgress !== null}
               >
-                {createTaskMutation.isPending ? (
+                {createTaskMutation.isPending || createBatchMutation.isPending || uploadProgress !== null ? (
                   <>
                     <Loader2 className="mr-2 h-5 w-5 animate-spin" />
                     處理中...
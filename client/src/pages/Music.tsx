@@ -0,0 +1,278 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Music2, Trash2, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { uploadFileInChunks } from "@/lib/chunkedUpload";
+import { MAX_UPLOAD_BYTES, UPLOAD_EXTENSIONS, getUploadExtension } from "@shared/upload";
+import { MUSIC_TRACK_KINDS, MUSIC_TRACK_KIND_LABELS, type MusicTrackKind } from "@shared/music";
+
+const KIND_DESCRIPTIONS: Record<MusicTrackKind, string> = {
+  jingle: "接在開場白之前，尾端與人聲交疊淡入",
+  stinger: "接在結尾語之後",
+  bed: "鋪在整段人聲下方，說話時自動壓低音量，長度不足時循環播放",
+};
+
+function formatDuration(seconds: number) {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export default function Music() {
+  const utils = trpc.useUtils();
+  const tracksQuery = trpc.music.list.useQuery();
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<MusicTrackKind>("jingle");
+  const [source, setSource] = useState<"upload" | "url">("upload");
+  const [file, setFile] = useState<File | null>(null);
+  const [audioUrl, setAudioUrl] = useState("");
+  const [license, setLicense] = useState("");
+  const [uploadProgress, setUploadProgress] = useState<number | null>(null);
+
+  const createMutation = trpc.music.create.useMutation({
+    onSuccess: () => {
+      toast.success("已加入音樂庫");
+      setName("");
+      setFile(null);
+      setAudioUrl("");
+      setLicense("");
+      utils.music.list.invalidate();
+    },
+    onError: (error) => toast.error(`新增失敗：${error.message}`),
+  });
+
+  const updateMutation = trpc.music.update.useMutation({
+    onSuccess: () => utils.music.list.invalidate(),
+    onError: (error) => toast.error(`更新失敗：${error.message}`),
+  });
+
+  const deleteMutation = trpc.music.delete.useMutation({
+    onSuccess: () => {
+      toast.success("音樂已刪除");
+      utils.music.list.invalidate();
+    },
+    onError: (error) => toast.error(`刪除失敗：${error.message}`),
+  });
+
+  const handleFileChange = (selected: File | null) => {
+    if (selected && !getUploadExtension(selected.name)) {
+      toast.error(`不支援的檔案格式，請選擇 ${UPLOAD_EXTENSIONS.map(ext => ext.toUpperCase()).join(" / ")} 檔案`);
+      return;
+    }
+    if (selected && selected.size > MAX_UPLOAD_BYTES) {
+      toast.error(`檔案超過 ${MAX_UPLOAD_BYTES / 1024 / 1024}MB 上限`);
+      return;
+    }
+    setFile(selected);
+    if (selected && !name) {
+      setName(selected.name.replace(/\.[^.]+$/, ""));
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    let uploadKey: string | undefined;
+    if (source === "upload") {
+      if (!file) {
+        toast.error("請選擇音檔");
+        return;
+      }
+      setUploadProgress(0);
+      try {
+        const { fileKey } = await uploadFileInChunks(file, {
+          init: input => utils.client.upload.init.mutate(input),
+          status: input => utils.client.upload.status.query(input),
+          chunk: input => utils.client.upload.chunk.mutate(input),
+          complete: input => utils.client.upload.complete.mutate(input),
+        }, setUploadProgress);
+        uploadKey = fileKey;
+      } catch (error) {
+        toast.error(`上傳失敗：${error instanceof Error ? error.message : String(error)}（重新送出即可從中斷處繼續）`);
+        return;
+      } finally {
+        setUploadProgress(null);
+      }
+    }
+
+    createMutation.mutate({
+      name,
+      kind,
+      uploadKey,
+      audioUrl: source === "url" ? audioUrl : undefined,
+      license: license.trim() || undefined,
+    });
+  };
+
+  const isSaving = uploadProgress !== null || createMutation.isPending;
+  const tracks = tracksQuery.data || [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="container max-w-4xl py-4 md:py-12 px-4 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">音樂庫</h1>
+          <p className="text-muted-foreground mt-1">
+            管理開場音樂、結尾音效與背景音樂，可在建立 Podcast 或節目設定中選用
+          </p>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="music-name">名稱</Label>
+                  <Input
+                    id="music-name"
+                    value={name}
+                    maxLength={128}
+                    onChange={(e) => setName(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>類型</Label>
+                  <Select value={kind} onValueChange={(value) => setKind(value as MusicTrackKind)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MUSIC_TRACK_KINDS.map(value => (
+                        <SelectItem key={value} value={value}>{MUSIC_TRACK_KIND_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">{KIND_DESCRIPTIONS[kind]}</p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Tabs value={source} onValueChange={(value) => setSource(value as "upload" | "url")}>
+                  <TabsList>
+                    <TabsTrigger value="upload">上傳音檔</TabsTrigger>
+                    <TabsTrigger value="url">音檔網址</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                {source === "upload" ? (
+                  <Input
+                    type="file"
+                    accept={UPLOAD_EXTENSIONS.map(ext => `.${ext}`).join(",")}
+                    onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                  />
+                ) : (
+                  <Input
+                    type="url"
+                    placeholder="https://example.com/jingle.mp3"
+                    value={audioUrl}
+                    onChange={(e) => setAudioUrl(e.target.value)}
+                    required
+                  />
+                )}
+                {uploadProgress !== null && <Progress value={uploadProgress} />}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="music-license">授權說明（選填）</Label>
+                <Textarea
+                  id="music-license"
+                  placeholder="例如：CC BY 4.0，作者 xxx，需於節目說明中標註出處"
+                  value={license}
+                  maxLength={1000}
+                  rows={2}
+                  className="resize-none"
+                  onChange={(e) => setLicense(e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-muted-foreground">請確認您有權在發佈的節目中使用這些音樂</p>
+                <Button type="submit" disabled={isSaving || !name.trim()}>
+                  {isSaving ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  加入音樂庫
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {tracksQuery.isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : tracks.length === 0 ? (
+          <Card className="shadow-lg border-0">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center gap-4">
+              <Music2 className="h-12 w-12 text-muted-foreground" />
+              <p className="text-lg font-medium">音樂庫還是空的</p>
+              <p className="text-sm text-muted-foreground">加入開場音樂或背景音樂，讓節目聽起來更完整</p>
+            </CardContent>
+          </Card>
+        ) : (
+          MUSIC_TRACK_KINDS.filter(value => tracks.some(track => track.kind === value)).map(value => (
+            <Card key={value} className="shadow-lg border-0">
+              <CardHeader>
+                <CardTitle className="text-lg">{MUSIC_TRACK_KIND_LABELS[value]}</CardTitle>
+                <CardDescription>{KIND_DESCRIPTIONS[value]}</CardDescription>
+              </CardHeader>
+              <CardContent className="divide-y">
+                {tracks.filter(track => track.kind === value).map(track => (
+                  <div key={track.id} className="py-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium truncate flex-1">{track.name}</p>
+                      {track.durationSeconds !== null && (
+                        <Badge variant="outline" className="shrink-0">{formatDuration(track.durationSeconds)}</Badge>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={updateMutation.isPending}
+                        onClick={() => {
+                          const updated = prompt("授權說明", track.license || "");
+                          if (updated !== null) {
+                            updateMutation.mutate({ trackId: track.id, license: updated.trim() || null });
+                          }
+                        }}
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        授權
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-muted-foreground hover:text-destructive"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`確定要刪除「${track.name}」嗎？已完成的單集不受影響。`)) {
+                            deleteMutation.mutate({ trackId: track.id });
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        刪除
+                      </Button>
+                    </div>
+                    {track.playUrl && <audio controls preload="none" src={track.playUrl} className="w-full h-10" />}
+                    <p className="text-xs text-muted-foreground">
+                      {track.license ? `授權：${track.license}` : "尚未填寫授權說明"}
+                    </p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,311 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Plus, Pencil, ChevronDown, ChevronUp, MessageSquareText } from "lucide-react";
+import { toast } from "sonner";
+
+type TemplateForm = {
+  styleKey: string;
+  name: string;
+  description: string;
+  summaryPrompt: string;
+  scriptPrompt: string;
+};
+
+const EMPTY_FORM: TemplateForm = {
+  styleKey: "",
+  name: "",
+  description: "",
+  summaryPrompt: "",
+  scriptPrompt: "",
+};
+
+export default function PromptTemplates() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const utils = trpc.useUtils();
+  const templatesQuery = trpc.promptTemplate.list.useQuery(undefined, { enabled: isAdmin });
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [isNewStyle, setIsNewStyle] = useState(false);
+  const [form, setForm] = useState<TemplateForm>(EMPTY_FORM);
+  const [expandedStyleKey, setExpandedStyleKey] = useState<string | null>(null);
+
+  const onChanged = (message: string) => {
+    toast.success(message);
+    utils.promptTemplate.invalidate();
+  };
+
+  const saveMutation = trpc.promptTemplate.save.useMutation({
+    onSuccess: () => {
+      setDialogOpen(false);
+      onChanged("已儲存為新版本並啟用");
+    },
+    onError: (error) => toast.error(`儲存失敗：${error.message}`),
+  });
+  const activateMutation = trpc.promptTemplate.activate.useMutation({
+    onSuccess: () => onChanged("已切換啟用版本"),
+    onError: (error) => toast.error(`切換失敗：${error.message}`),
+  });
+
+  const openCreateDialog = () => {
+    setIsNewStyle(true);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (style: NonNullable<typeof templatesQuery.data>["styles"][number]) => {
+    setIsNewStyle(false);
+    setForm({
+      styleKey: style.styleKey,
+      name: style.name,
+      description: style.description,
+      summaryPrompt: style.summaryPrompt,
+      scriptPrompt: style.scriptPrompt,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isNewStyle && templatesQuery.data?.styles.some(style => style.styleKey === form.styleKey.trim())) {
+      toast.error("此風格代碼已存在，請直接編輯該風格");
+      return;
+    }
+    saveMutation.mutate({
+      styleKey: form.styleKey.trim(),
+      name: form.name,
+      description: form.description.trim() || undefined,
+      summaryPrompt: form.summaryPrompt,
+      scriptPrompt: form.scriptPrompt,
+    });
+  };
+
+  if (!isAdmin) {
+    return (
+      <div className="container max-w-4xl py-12 px-4">
+        <p className="text-muted-foreground">只有管理員可以管理節目風格</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="container max-w-4xl py-4 md:py-12 px-4 space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">節目風格</h1>
+            <p className="text-muted-foreground mt-1">
+              每個風格決定摘要與主持人對話的寫法，每次儲存都會建立新版本，可隨時切回舊版本
+            </p>
+          </div>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            新增風格
+          </Button>
+        </div>
+
+        {templatesQuery.isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          templatesQuery.data?.styles.map(style => {
+            const versions = templatesQuery.data.versions.filter(version => version.styleKey === style.styleKey);
+            const isExpanded = expandedStyleKey === style.styleKey;
+            return (
+              <Card key={style.styleKey} className="shadow-lg border-0">
+                <CardHeader>
+                  <div className="flex items-start gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <CardTitle className="text-lg truncate">{style.name}</CardTitle>
+                        <Badge variant="secondary" className="shrink-0">
+                          {style.version === 0 ? "內建預設" : `v${style.version}`}
+                        </Badge>
+                      </div>
+                      <CardDescription className="truncate">
+                        {style.styleKey}{style.description && ` · ${style.description}`}
+                      </CardDescription>
+                    </div>
+                    <Button variant="ghost" size="icon" className="shrink-0" onClick={() => openEditDialog(style)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardHeader>
+                <Separator />
+                <CardContent className="pt-4 space-y-3">
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">摘要要求</p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{style.summaryPrompt}</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">對話要求</p>
+                    <p className="text-sm text-muted-foreground whitespace-pre-wrap">{style.scriptPrompt}</p>
+                  </div>
+
+                  {versions.length > 0 && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => setExpandedStyleKey(isExpanded ? null : style.styleKey)}
+                      >
+                        {isExpanded ? (
+                          <>
+                            收起版本紀錄
+                            <ChevronUp className="h-4 w-4 ml-2" />
+                          </>
+                        ) : (
+                          <>
+                            版本紀錄（{versions.length}）
+                            <ChevronDown className="h-4 w-4 ml-2" />
+                          </>
+                        )}
+                      </Button>
+
+                      {isExpanded && (
+                        <div className="space-y-2">
+                          {versions.map(version => (
+                            <div key={version.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm font-medium">
+                                  v{version.version} · {version.name}
+                                </p>
+                                <p className="text-xs text-muted-foreground">
+                                  {new Date(version.createdAt).toLocaleString("zh-TW")}
+                                </p>
+                              </div>
+                              {version.isActive ? (
+                                <Badge className="shrink-0">使用中</Badge>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="shrink-0"
+                                  disabled={activateMutation.isPending}
+                                  onClick={() => activateMutation.mutate({ templateId: version.id })}
+                                >
+                                  啟用此版本
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+
+        {templatesQuery.data && templatesQuery.data.styles.length === 0 && (
+          <Card className="shadow-lg border-0">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center gap-4">
+              <MessageSquareText className="h-12 w-12 text-muted-foreground" />
+              <p className="text-lg font-medium">還沒有節目風格</p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{isNewStyle ? "新增風格" : `編輯「${form.name}」`}</DialogTitle>
+              <DialogDescription>儲存後會建立新版本並立即套用到之後的任務</DialogDescription>
+            </DialogHeader>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="template-key">風格代碼</Label>
+                <Input
+                  id="template-key"
+                  value={form.styleKey}
+                  placeholder="news_briefing"
+                  disabled={!isNewStyle}
+                  onChange={(e) => setForm({ ...form, styleKey: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template-name">顯示名稱</Label>
+                <Input
+                  id="template-name"
+                  value={form.name}
+                  placeholder="新聞快報"
+                  maxLength={100}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-description">簡介（選填）</Label>
+              <Input
+                id="template-description"
+                value={form.description}
+                maxLength={500}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-summary">摘要要求</Label>
+              <Textarea
+                id="template-summary"
+                value={form.summaryPrompt}
+                rows={4}
+                placeholder="例如：以 5W1H 整理事件重點，依重要性排序，每點一句話"
+                onChange={(e) => setForm({ ...form, summaryPrompt: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="template-script">對話要求</Label>
+              <Textarea
+                id="template-script"
+                value={form.scriptPrompt}
+                rows={5}
+                placeholder="例如：兩位主持人輪流播報，每則新聞先講結論再補充背景，語氣中立、節奏明快"
+                onChange={(e) => setForm({ ...form, scriptPrompt: e.target.value })}
+                required
+              />
+              <p className="text-xs text-muted-foreground">描述主持人的角色分工、語氣與段落結構，長度與輸出格式由系統控制</p>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                取消
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                儲存新版本
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,361 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, Save, BookA, Trash2, Pencil, Volume2, X } from "lucide-react";
+import { toast } from "sonner";
+import { convertVoiceNameToTraditional } from "@shared/voiceNameConverter";
+
+type TtsProviderId = "listenhub" | "local";
+
+// Select 不接受空字串，以此代表「不限」
+const ALL = "all";
+
+const DEFAULT_PREVIEW_TEXT = "歡迎收聽本集節目，今天要聊的是 OpenAI 最新發表的 GPT-5。";
+
+export default function Pronunciation() {
+  const utils = trpc.useUtils();
+  const entriesQuery = trpc.pronunciation.list.useQuery();
+  const profilesQuery = trpc.showProfile.list.useQuery();
+  const [ttsProvider, setTtsProvider] = useState<TtsProviderId>("listenhub");
+  const voicesQuery = trpc.podcast.getVoices.useQuery({ provider: ttsProvider });
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [term, setTerm] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [scope, setScope] = useState(ALL);
+  const [voiceId, setVoiceId] = useState(ALL);
+
+  const [previewText, setPreviewText] = useState(DEFAULT_PREVIEW_TEXT);
+  const [previewScope, setPreviewScope] = useState(ALL);
+  const [previewVoiceId, setPreviewVoiceId] = useState(ALL);
+  const [spokenText, setSpokenText] = useState<string | null>(null);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setTerm("");
+    setReplacement("");
+    setScope(ALL);
+    setVoiceId(ALL);
+  };
+
+  const createMutation = trpc.pronunciation.create.useMutation({
+    onSuccess: () => {
+      toast.success("發音詞條已新增");
+      resetForm();
+      utils.pronunciation.list.invalidate();
+    },
+    onError: (error) => toast.error(`新增失敗：${error.message}`),
+  });
+
+  const updateMutation = trpc.pronunciation.update.useMutation({
+    onSuccess: () => {
+      toast.success("發音詞條已更新");
+      resetForm();
+      utils.pronunciation.list.invalidate();
+    },
+    onError: (error) => toast.error(`更新失敗：${error.message}`),
+  });
+
+  const deleteMutation = trpc.pronunciation.delete.useMutation({
+    onSuccess: () => {
+      toast.success("發音詞條已刪除");
+      utils.pronunciation.list.invalidate();
+    },
+    onError: (error) => toast.error(`刪除失敗：${error.message}`),
+  });
+
+  const previewMutation = trpc.pronunciation.preview.useMutation({
+    onSuccess: (data) => {
+      setSpokenText(data.spokenText);
+      new Audio(data.audioUrl).play().catch(() => toast.error("無法播放試聽音訊"));
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const profileNames = new Map((profilesQuery.data || []).map(profile => [profile.id, profile.name]));
+  const voices = voicesQuery.data || [];
+  const voiceName = (id: string) => {
+    const voice = voices.find(v => v.speakerId === id);
+    return voice ? convertVoiceNameToTraditional(voice.name) : id;
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const fields = {
+      term,
+      replacement,
+      showProfileId: scope === ALL ? null : Number(scope),
+      voiceId: voiceId === ALL ? null : voiceId,
+    };
+    if (editingId) {
+      updateMutation.mutate({ entryId: editingId, ...fields });
+    } else {
+      createMutation.mutate(fields);
+    }
+  };
+
+  const preview = (text: string, options: { voiceId: string | null; showProfileId: number | null }) => {
+    previewMutation.mutate({
+      text,
+      provider: ttsProvider,
+      voiceId: options.voiceId || undefined,
+      showProfileId: options.showProfileId,
+    });
+  };
+
+  const scopeOptions = (
+    <SelectContent>
+      <SelectItem value={ALL}>所有節目</SelectItem>
+      {(profilesQuery.data || []).map(profile => (
+        <SelectItem key={profile.id} value={String(profile.id)}>{profile.name}</SelectItem>
+      ))}
+    </SelectContent>
+  );
+
+  const voiceOptions = (
+    <SelectContent>
+      <SelectItem value={ALL}>所有聲音</SelectItem>
+      {voices.map(voice => (
+        <SelectItem key={voice.speakerId} value={voice.speakerId}>{convertVoiceNameToTraditional(voice.name)}</SelectItem>
+      ))}
+    </SelectContent>
+  );
+
+  const isSaving = createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="container max-w-4xl py-4 md:py-12 px-4 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">發音辭典</h1>
+          <p className="text-muted-foreground mt-1">
+            設定產品名稱、縮寫與人名的念法，合成語音前會自動替換；詞條也會作為轉錄時的詞彙提示，提高辨識準確度
+          </p>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader>
+            <CardTitle>{editingId ? "編輯詞條" : "新增詞條"}</CardTitle>
+            <CardDescription>念法可使用諧音或拼音，例如「GPT」念作「G P T」、「Nginx」念作「engine X」</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="pronunciation-term">詞條</Label>
+                  <Input
+                    id="pronunciation-term"
+                    placeholder="例如：SQL"
+                    value={term}
+                    maxLength={128}
+                    onChange={(e) => setTerm(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="pronunciation-replacement">念法</Label>
+                  <Input
+                    id="pronunciation-replacement"
+                    placeholder="例如：sequel"
+                    value={replacement}
+                    maxLength={256}
+                    onChange={(e) => setReplacement(e.target.value)}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>套用節目</Label>
+                  <Select value={scope} onValueChange={setScope}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    {scopeOptions}
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>語音引擎</Label>
+                  <Select
+                    value={ttsProvider}
+                    onValueChange={(value) => {
+                      setTtsProvider(value as TtsProviderId);
+                      setVoiceId(ALL);
+                      setPreviewVoiceId(ALL);
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="listenhub">ListenHub</SelectItem>
+                      <SelectItem value="local">本機離線引擎</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>只套用到聲音（選填）</Label>
+                  <Select value={voiceId} onValueChange={setVoiceId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    {voiceOptions}
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-muted-foreground">節目專屬詞條會覆蓋同名的通用詞條；指定聲音的念法優先於所有聲音的念法</p>
+                <div className="flex gap-2 shrink-0">
+                  {editingId && (
+                    <Button type="button" variant="ghost" onClick={resetForm}>
+                      <X className="h-4 w-4 mr-2" />
+                      取消
+                    </Button>
+                  )}
+                  <Button type="submit" disabled={isSaving || !term.trim() || !replacement.trim()}>
+                    {isSaving ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : editingId ? (
+                      <Save className="h-4 w-4 mr-2" />
+                    ) : (
+                      <Plus className="h-4 w-4 mr-2" />
+                    )}
+                    {editingId ? "儲存" : "新增"}
+                  </Button>
+                </div>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader>
+            <CardTitle>試聽念法</CardTitle>
+            <CardDescription>套用目前的發音辭典合成一句話，確認念法是否正確</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Input
+              value={previewText}
+              maxLength={200}
+              onChange={(e) => setPreviewText(e.target.value)}
+            />
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <Select value={previewScope} onValueChange={setPreviewScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                {scopeOptions}
+              </Select>
+              <Select value={previewVoiceId} onValueChange={setPreviewVoiceId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                {voiceOptions}
+              </Select>
+              <Button
+                variant="outline"
+                disabled={previewMutation.isPending || !previewText.trim()}
+                onClick={() => preview(previewText, {
+                  voiceId: previewVoiceId === ALL ? null : previewVoiceId,
+                  showProfileId: previewScope === ALL ? null : Number(previewScope),
+                })}
+              >
+                {previewMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Volume2 className="h-4 w-4 mr-2" />
+                )}
+                試聽
+              </Button>
+            </div>
+            {spokenText && (
+              <p className="text-sm text-muted-foreground">實際念出：{spokenText}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {entriesQuery.isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !entriesQuery.data || entriesQuery.data.length === 0 ? (
+          <Card className="shadow-lg border-0">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center gap-4">
+              <BookA className="h-12 w-12 text-muted-foreground" />
+              <p className="text-lg font-medium">還沒有發音詞條</p>
+              <p className="text-sm text-muted-foreground">新增詞條後，之後產生的 Podcast 都會套用這些念法</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="shadow-lg border-0">
+            <CardContent className="pt-6 divide-y">
+              {entriesQuery.data.map(entry => (
+                <div key={entry.id} className="flex flex-col sm:flex-row sm:items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium truncate">
+                      {entry.term}
+                      <span className="text-muted-foreground mx-2">→</span>
+                      {entry.replacement}
+                    </p>
+                    <div className="flex flex-wrap gap-2 mt-1">
+                      <Badge variant="outline">
+                        {entry.showProfileId ? profileNames.get(entry.showProfileId) || "節目設定" : "所有節目"}
+                      </Badge>
+                      {entry.voiceId && <Badge variant="secondary">{voiceName(entry.voiceId)}</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={previewMutation.isPending}
+                      onClick={() => preview(entry.term, { voiceId: entry.voiceId, showProfileId: entry.showProfileId })}
+                    >
+                      <Volume2 className="h-4 w-4 mr-2" />
+                      試聽
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditingId(entry.id);
+                        setTerm(entry.term);
+                        setReplacement(entry.replacement);
+                        setScope(entry.showProfileId ? String(entry.showProfileId) : ALL);
+                        setVoiceId(entry.voiceId || ALL);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4 mr-2" />
+                      編輯
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-muted-foreground hover:text-destructive"
+                      disabled={deleteMutation.isPending}
+                      onClick={() => {
+                        if (confirm(`確定要刪除詞條「${entry.term}」嗎？`)) {
+                          deleteMutation.mutate({ entryId: entry.id });
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      刪除
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
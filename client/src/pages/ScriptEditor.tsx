@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import { Link, useLocation, useParams } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import {
+  Loader2,
+  AlertCircle,
+  ArrowLeft,
+  ArrowUp,
+  ArrowDown,
+  Plus,
+  Trash2,
+  Save,
+  CheckCircle2,
+} from "lucide-react";
+import { toast } from "sonner";
+
+type EditableHost = { id: string; name: string };
+type EditableLine = { key: number; hostId: string; content: string };
+
+let nextLineKey = 0;
+
+export default function ScriptEditor() {
+  const params = useParams<{ id: string }>();
+  const taskId = Number(params.id);
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  const [hosts, setHosts] = useState<EditableHost[]>([]);
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [dirty, setDirty] = useState(false);
+
+  const draftQuery = trpc.podcast.getDraftScript.useQuery(
+    { taskId },
+    { enabled: Number.isFinite(taskId), refetchOnWindowFocus: false }
+  );
+
+  useEffect(() => {
+    if (!draftQuery.data) return;
+    const { script } = draftQuery.data;
+    setHosts(script.hosts.map(host => ({ id: host.id, name: host.name })));
+    setLines(script.lines.map(line => ({ key: nextLineKey++, hostId: line.hostId, content: line.content })));
+    setDirty(false);
+  }, [draftQuery.data]);
+
+  const updateDraftMutation = trpc.podcast.updateDraftScript.useMutation();
+  const approveDraftMutation = trpc.podcast.approveDraftScript.useMutation({
+    onSuccess: () => {
+      toast.success("腳本已核准，開始合成語音");
+      utils.podcast.list.invalidate();
+      setLocation("/history");
+    },
+    onError: (error) => {
+      toast.error(`核准失敗：${error.message}`);
+    },
+  });
+
+  const editable = draftQuery.data?.status === "awaiting_review";
+  const isBusy = updateDraftMutation.isPending || approveDraftMutation.isPending;
+
+  const updateHostName = (hostId: string, name: string) => {
+    setHosts(hosts.map(host => (host.id === hostId ? { ...host, name } : host)));
+    setDirty(true);
+  };
+
+  const updateLine = (key: number, updates: Partial<EditableLine>) => {
+    setLines(lines.map(line => (line.key === key ? { ...line, ...updates } : line)));
+    setDirty(true);
+  };
+
+  const insertLineAfter = (index: number) => {
+    // 新台詞預設交給下一位主持人
+    const previousHostIndex = hosts.findIndex(host => host.id === lines[index]?.hostId);
+    const hostId = hosts[(previousHostIndex + 1) % hosts.length]?.id || hosts[0].id;
+    const newLines = [...lines];
+    newLines.splice(index + 1, 0, { key: nextLineKey++, hostId, content: "" });
+    setLines(newLines);
+    setDirty(true);
+  };
+
+  const moveLine = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= lines.length) return;
+    const newLines = [...lines];
+    [newLines[index], newLines[target]] = [newLines[target], newLines[index]];
+    setLines(newLines);
+    setDirty(true);
+  };
+
+  const removeLine = (key: number) => {
+    setLines(lines.filter(line => line.key !== key));
+    setDirty(true);
+  };
+
+  const validate = () => {
+    if (hosts.some(host => !host.name.trim())) {
+      toast.error("主持人名稱不能為空");
+      return false;
+    }
+    if (lines.length === 0) {
+      toast.error("腳本至少需要一句台詞");
+      return false;
+    }
+    if (lines.some(line => !line.content.trim())) {
+      toast.error("請填寫或刪除空白的台詞");
+      return false;
+    }
+    return true;
+  };
+
+  const saveDraft = async () => {
+    await updateDraftMutation.mutateAsync({
+      taskId,
+      script: {
+        hosts: hosts.map(host => ({ id: host.id, name: host.name.trim() })),
+        lines: lines.map(line => ({ hostId: line.hostId, content: line.content.trim() })),
+      },
+    });
+    setDirty(false);
+  };
+
+  const handleSave = async () => {
+    if (!validate()) return;
+    try {
+      await saveDraft();
+      toast.success("腳本已儲存");
+    } catch (error: any) {
+      toast.error(`儲存失敗：${error.message}`);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!validate()) return;
+    try {
+      // 先儲存尚未儲存的修改，再核准
+      if (dirty) {
+        await saveDraft();
+      }
+      approveDraftMutation.mutate({ taskId });
+    } catch (error: any) {
+      toast.error(`儲存失敗：${error.message}`);
+    }
+  };
+
+  if (draftQuery.isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (draftQuery.error || !draftQuery.data) {
+    return (
+      <div className="flex items-center justify-center min-h-screen p-4">
+        <Card className="w-full max-w-md shadow-lg">
+          <CardContent className="flex flex-col items-center justify-center py-16 text-center gap-4">
+            <AlertCircle className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-lg font-medium mb-2">無法載入腳本</p>
+            <p className="text-sm text-muted-foreground mb-4">
+              {draftQuery.error?.message || "找不到該任務的對話腳本"}
+            </p>
+            <Link href="/history">
+              <Button variant="outline">返回 My Podcast</Button>
+            </Link>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const totalChars = lines.reduce((sum, line) => sum + line.content.length, 0);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="container max-w-4xl py-4 md:py-12 px-4 space-y-6">
+        <div className="flex items-center gap-2">
+          <Link href="/history">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              返回
+            </Button>
+          </Link>
+        </div>
+
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">編輯對話腳本</h1>
+            <p className="text-muted-foreground mt-1">
+              {draftQuery.data.title || `任務 #${taskId}`} · {lines.length} 句 · 約 {totalChars} 字
+            </p>
+          </div>
+          {!editable && <Badge variant="secondary">已核准，僅供檢視</Badge>}
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader>
+            <CardTitle className="text-lg">主持人</CardTitle>
+            <CardDescription>名稱會顯示在逐字稿中，聲音沿用建立任務時的設定</CardDescription>
+          </CardHeader>
+          <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {hosts.map(host => (
+              <div key={host.id} className="space-y-2">
+                <Label htmlFor={`host-${host.id}`}>{host.id}</Label>
+                <Input
+                  id={`host-${host.id}`}
+                  value={host.name}
+                  maxLength={64}
+                  disabled={!editable}
+                  onChange={(e) => updateHostName(host.id, e.target.value)}
+                />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0">
+          <CardHeader>
+            <CardTitle className="text-lg">台詞</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {lines.map((line, index) => (
+              <div key={line.key} className="p-3 rounded-lg border space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-8 shrink-0">#{index + 1}</span>
+                  <Select
+                    value={line.hostId}
+                    disabled={!editable}
+                    onValueChange={(hostId) => updateLine(line.key, { hostId })}
+                  >
+                    <SelectTrigger className="w-[180px] h-9">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {hosts.map(host => (
+                        <SelectItem key={host.id} value={host.id}>
+                          {host.name || host.id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {editable && (
+                    <div className="flex items-center gap-1 ml-auto">
+                      <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveLine(index, -1)}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" disabled={index === lines.length - 1} onClick={() => moveLine(index, 1)}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => insertLineAfter(index)}>
+                        <Plus className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => removeLine(line.key)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                <Textarea
+                  value={line.content}
+                  disabled={!editable}
+                  maxLength={2000}
+                  rows={2}
+                  className="resize-y"
+                  onChange={(e) => updateLine(line.key, { content: e.target.value })}
+                />
+              </div>
+            ))}
+
+            {editable && (
+              <Button variant="outline" className="w-full" onClick={() => insertLineAfter(lines.length - 1)}>
+                <Plus className="h-4 w-4 mr-2" />
+                新增台詞
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        {editable && (
+          <div className="flex flex-col sm:flex-row gap-3">
+            <Button variant="outline" className="flex-1" disabled={isBusy || !dirty} onClick={handleSave}>
+              {updateDraftMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
+              儲存草稿
+            </Button>
+            <Button className="flex-1" disabled={isBusy} onClick={handleApprove}>
+              {approveDraftMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+              )}
+              核准並合成語音
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,479 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Loader2,
+  Plus,
+  Rss,
+  Copy,
+  Pencil,
+  Trash2,
+  ChevronDown,
+  ChevronUp,
+  Radio,
+} from "lucide-react";
+import { toast } from "sonner";
+
+type ShowForm = {
+  title: string;
+  description: string;
+  author: string;
+  ownerEmail: string;
+  language: string;
+  category: string;
+  coverImageUrl: string;
+  explicit: boolean;
+};
+
+const EMPTY_FORM: ShowForm = {
+  title: "",
+  description: "",
+  author: "",
+  ownerEmail: "",
+  language: "zh-tw",
+  category: "Technology",
+  coverImageUrl: "",
+  explicit: false,
+};
+
+// Apple Podcasts 常用分類
+const CATEGORIES = [
+  "Arts",
+  "Business",
+  "Comedy",
+  "Education",
+  "History",
+  "Leisure",
+  "News",
+  "Science",
+  "Society & Culture",
+  "Technology",
+];
+
+function formatDuration(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+// 單集列表與新增單集
+function ShowEpisodes({ showId }: { showId: number }) {
+  const utils = trpc.useUtils();
+  const [selectedTaskId, setSelectedTaskId] = useState<string>("");
+  const showQuery = trpc.show.get.useQuery({ showId });
+  const tasksQuery = trpc.podcast.list.useQuery();
+
+  const addEpisodeMutation = trpc.show.addEpisode.useMutation({
+    onSuccess: () => {
+      toast.success("單集已發佈");
+      setSelectedTaskId("");
+      utils.show.get.invalidate({ showId });
+      utils.show.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`發佈失敗：${error.message}`);
+    },
+  });
+
+  const removeEpisodeMutation = trpc.show.removeEpisode.useMutation({
+    onSuccess: () => {
+      toast.success("單集已移除");
+      utils.show.get.invalidate({ showId });
+      utils.show.list.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`移除失敗：${error.message}`);
+    },
+  });
+
+  if (showQuery.isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>載入中...</span>
+      </div>
+    );
+  }
+
+  const episodes = showQuery.data?.episodes || [];
+  const publishedTaskIds = new Set(episodes.map(episode => episode.taskId));
+  const availableTasks = (tasksQuery.data || []).filter(
+    task => task.status === "completed" && task.podcastAudioUrl && !publishedTaskIds.has(task.id)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={selectedTaskId} onValueChange={setSelectedTaskId}>
+          <SelectTrigger className="flex-1 h-10">
+            <SelectValue placeholder={availableTasks.length > 0 ? "選擇要發佈的作品" : "沒有可發佈的作品"} />
+          </SelectTrigger>
+          <SelectContent>
+            {availableTasks.map(task => (
+              <SelectItem key={task.id} value={String(task.id)}>
+                {task.podcastTitle || task.title || `任務 #${task.id}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          disabled={!selectedTaskId || addEpisodeMutation.isPending}
+          onClick={() => addEpisodeMutation.mutate({ showId, taskId: Number(selectedTaskId) })}
+        >
+          {addEpisodeMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4 mr-2" />
+          )}
+          發佈單集
+        </Button>
+      </div>
+
+      {episodes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">尚未發佈任何單集</p>
+      ) : (
+        <div className="space-y-2">
+          {episodes.map(episode => (
+            <div key={episode.id} className="flex items-center gap-3 p-3 rounded-lg bg-muted/50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">{episode.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(episode.publishedAt).toLocaleDateString("zh-TW")}
+                  {episode.durationSeconds > 0 && ` · ${formatDuration(episode.durationSeconds)}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="shrink-0 text-muted-foreground hover:text-destructive"
+                disabled={removeEpisodeMutation.isPending}
+                onClick={() => {
+                  if (confirm("確定要從節目中移除這個單集嗎？訂閱者將不會再看到它。")) {
+                    removeEpisodeMutation.mutate({ showId, taskId: episode.taskId });
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function Shows() {
+  const utils = trpc.useUtils();
+  const showsQuery = trpc.show.list.useQuery();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingShowId, setEditingShowId] = useState<number | null>(null);
+  const [form, setForm] = useState<ShowForm>(EMPTY_FORM);
+  const [expandedShowId, setExpandedShowId] = useState<number | null>(null);
+
+  const onSaved = (message: string) => {
+    toast.success(message);
+    setDialogOpen(false);
+    utils.show.list.invalidate();
+  };
+
+  const createShowMutation = trpc.show.create.useMutation({
+    onSuccess: () => onSaved("節目已建立"),
+    onError: (error) => toast.error(`建立失敗：${error.message}`),
+  });
+  const updateShowMutation = trpc.show.update.useMutation({
+    onSuccess: () => onSaved("節目已更新"),
+    onError: (error) => toast.error(`更新失敗：${error.message}`),
+  });
+  const deleteShowMutation = trpc.show.delete.useMutation({
+    onSuccess: () => {
+      toast.success("節目已刪除");
+      utils.show.list.invalidate();
+    },
+    onError: (error) => toast.error(`刪除失敗：${error.message}`),
+  });
+
+  const openCreateDialog = () => {
+    setEditingShowId(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEditDialog = (show: NonNullable<typeof showsQuery.data>[number]) => {
+    setEditingShowId(show.id);
+    setForm({
+      title: show.title,
+      description: show.description || "",
+      author: show.author || "",
+      ownerEmail: show.ownerEmail || "",
+      language: show.language,
+      category: show.category,
+      coverImageUrl: show.coverImageUrl || "",
+      explicit: show.explicit,
+    });
+    setDialogOpen(true);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.title.trim()) {
+      toast.error("請輸入節目名稱");
+      return;
+    }
+
+    const data = {
+      title: form.title.trim(),
+      description: form.description.trim() || undefined,
+      author: form.author.trim() || undefined,
+      ownerEmail: form.ownerEmail.trim() || undefined,
+      language: form.language.trim() || undefined,
+      category: form.category,
+      coverImageUrl: form.coverImageUrl.trim() || undefined,
+      explicit: form.explicit,
+    };
+
+    if (editingShowId) {
+      updateShowMutation.mutate({ showId: editingShowId, ...data });
+    } else {
+      createShowMutation.mutate(data);
+    }
+  };
+
+  const copyFeedUrl = async (feedPath: string) => {
+    const feedUrl = `${window.location.origin}${feedPath}`;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success("RSS 網址已複製");
+    } catch {
+      toast.error("無法複製，請手動複製網址");
+    }
+  };
+
+  const isSaving = createShowMutation.isPending || updateShowMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="container max-w-4xl py-4 md:py-12 px-4 space-y-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">節目發佈</h1>
+            <p className="text-muted-foreground mt-1">
+              將完成的作品整理成節目，透過 RSS 提交到 Apple Podcasts、Spotify 等平台
+            </p>
+          </div>
+          <Button onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            建立節目
+          </Button>
+        </div>
+
+        {showsQuery.isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !showsQuery.data || showsQuery.data.length === 0 ? (
+          <Card className="shadow-lg border-0">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center gap-4">
+              <Radio className="h-12 w-12 text-muted-foreground" />
+              <p className="text-lg font-medium">還沒有節目</p>
+              <p className="text-sm text-muted-foreground">建立節目後即可取得可訂閱的 RSS 網址</p>
+            </CardContent>
+          </Card>
+        ) : (
+          showsQuery.data.map(show => {
+            const isExpanded = expandedShowId === show.id;
+            return (
+              <Card key={show.id} className="shadow-lg border-0">
+                <CardHeader>
+                  <div className="flex items-start gap-4">
+                    {show.coverImageUrl ? (
+                      <img src={show.coverImageUrl} alt={show.title} className="h-16 w-16 rounded-lg object-cover shrink-0" />
+                    ) : (
+                      <div className="h-16 w-16 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                        <Radio className="h-8 w-8 text-primary" />
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <CardTitle className="text-lg truncate">{show.title}</CardTitle>
+                      <CardDescription className="line-clamp-2">
+                        {show.description || "沒有節目介紹"}
+                      </CardDescription>
+                      <p className="text-xs text-muted-foreground mt-1">{show.episodeCount} 集 · {show.category}</p>
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => openEditDialog(show)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => {
+                          if (confirm("確定要刪除這個節目嗎？RSS 網址將立即失效。")) {
+                            deleteShowMutation.mutate({ showId: show.id });
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <Separator />
+                <CardContent className="pt-4 space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Rss className="h-4 w-4 text-primary shrink-0" />
+                    <Input readOnly value={`${window.location.origin}${show.feedPath}`} className="h-9 text-xs" />
+                    <Button variant="outline" size="icon" className="shrink-0" onClick={() => copyFeedUrl(show.feedPath)}>
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => setExpandedShowId(isExpanded ? null : show.id)}
+                  >
+                    {isExpanded ? (
+                      <>
+                        收起單集
+                        <ChevronUp className="h-4 w-4 ml-2" />
+                      </>
+                    ) : (
+                      <>
+                        管理單集
+                        <ChevronDown className="h-4 w-4 ml-2" />
+                      </>
+                    )}
+                  </Button>
+
+                  {isExpanded && <ShowEpisodes showId={show.id} />}
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{editingShowId ? "編輯節目" : "建立節目"}</DialogTitle>
+              <DialogDescription>這些資訊會顯示在 Podcast 平台的節目頁面</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-2">
+              <Label htmlFor="show-title">節目名稱</Label>
+              <Input
+                id="show-title"
+                value={form.title}
+                maxLength={256}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="show-description">節目介紹</Label>
+              <Textarea
+                id="show-description"
+                value={form.description}
+                rows={3}
+                className="resize-none"
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="show-author">作者</Label>
+                <Input
+                  id="show-author"
+                  value={form.author}
+                  onChange={(e) => setForm({ ...form, author: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="show-email">擁有者 Email</Label>
+                <Input
+                  id="show-email"
+                  type="email"
+                  value={form.ownerEmail}
+                  onChange={(e) => setForm({ ...form, ownerEmail: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="show-language">語言代碼</Label>
+                <Input
+                  id="show-language"
+                  value={form.language}
+                  placeholder="zh-tw"
+                  onChange={(e) => setForm({ ...form, language: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>分類</Label>
+                <Select value={form.category} onValueChange={(category) => setForm({ ...form, category })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="show-cover">封面圖網址</Label>
+              <Input
+                id="show-cover"
+                type="url"
+                value={form.coverImageUrl}
+                placeholder="https://..."
+                onChange={(e) => setForm({ ...form, coverImageUrl: e.target.value })}
+              />
+              <p className="text-xs text-muted-foreground">Apple Podcasts 要求 1400～3000 px 的正方形 JPG 或 PNG</p>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="show-explicit">含有成人內容</Label>
+              <Switch
+                id="show-explicit"
+                checked={form.explicit}
+                onCheckedChange={(explicit) => setForm({ ...form, explicit })}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                取消
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                儲存
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, BellRing, RefreshCw, Trash2, Youtube, Rss } from "lucide-react";
+import { toast } from "sonner";
+import { DEFAULT_OUTPUT_LANGUAGE, OUTPUT_LANGUAGE_INFO, OUTPUT_LANGUAGES, getOutputLanguageInfo, type OutputLanguage } from "@shared/outputLanguage";
+
+type Mode = "quick" | "medium" | "deep";
+
+const MODE_LABELS: Record<Mode, string> = {
+  quick: "4-5 分鐘",
+  medium: "7-8 分鐘",
+  deep: "10-12 分鐘",
+};
+
+const INTERVAL_OPTIONS = [
+  { value: "6", label: "每 6 小時" },
+  { value: "12", label: "每 12 小時" },
+  { value: "24", label: "每天" },
+  { value: "168", label: "每週" },
+];
+
+function formatInterval(hours: number) {
+  return INTERVAL_OPTIONS.find(option => option.value === String(hours))?.label || `每 ${hours} 小時`;
+}
+
+export default function Subscriptions() {
+  const utils = trpc.useUtils();
+  const subscriptionsQuery = trpc.subscription.list.useQuery();
+  const stylesQuery = trpc.promptTemplate.styles.useQuery();
+  const [url, setUrl] = useState("");
+  const [mode, setMode] = useState<Mode>("medium");
+  const [style, setStyle] = useState("casual");
+  const [outputLanguage, setOutputLanguage] = useState<OutputLanguage>(DEFAULT_OUTPUT_LANGUAGE);
+  const [checkIntervalHours, setCheckIntervalHours] = useState("24");
+  const [introText, setIntroText] = useState("");
+  const [outroText, setOutroText] = useState("");
+
+  const createMutation = trpc.subscription.create.useMutation({
+    onSuccess: (data) => {
+      toast.success(`已訂閱「${data.title}」，之後的新內容會自動產生 Podcast`);
+      setUrl("");
+      setIntroText("");
+      setOutroText("");
+      utils.subscription.list.invalidate();
+    },
+    onError: (error) => toast.error(`訂閱失敗：${error.message}`),
+  });
+
+  const updateMutation = trpc.subscription.update.useMutation({
+    onSuccess: () => utils.subscription.list.invalidate(),
+    onError: (error) => toast.error(`更新失敗：${error.message}`),
+  });
+
+  const deleteMutation = trpc.subscription.delete.useMutation({
+    onSuccess: () => {
+      toast.success("訂閱已刪除");
+      utils.subscription.list.invalidate();
+    },
+    onError: (error) => toast.error(`刪除失敗：${error.message}`),
+  });
+
+  const checkNowMutation = trpc.subscription.checkNow.useMutation({
+    onSuccess: (data) => {
+      if (data.lastError) {
+        toast.error(`檢查失敗：${data.lastError}`);
+      } else if (data.created > 0) {
+        toast.success(`發現 ${data.created} 個新內容，已建立任務`);
+      } else {
+        toast.info("沒有新內容");
+      }
+      utils.subscription.list.invalidate();
+    },
+    onError: (error) => toast.error(`檢查失敗：${error.message}`),
+  });
+
+  const styleNames = new Map((stylesQuery.data || []).map(option => [option.styleKey, option.name]));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({
+      url,
+      mode,
+      style,
+      outputLanguage,
+      checkIntervalHours: Number(checkIntervalHours),
+      introText: introText.trim() || undefined,
+      outroText: outroText.trim() || undefined,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20">
+      <div className="container max-w-4xl py-4 md:py-12 px-4 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">自動訂閱</h1>
+          <p className="text-muted-foreground mt-1">
+            訂閱 YouTube 頻道、播放清單或 RSS feed，有新內容時自動產生 Podcast（使用您儲存的聲音偏好）
+          </p>
+        </div>
+
+        <Card className="shadow-lg border-0">
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="subscription-url">頻道或 feed 網址</Label>
+                <Input
+                  id="subscription-url"
+                  type="url"
+                  placeholder="https://www.youtube.com/@channel 或 https://example.com/feed.xml"
+                  value={url}
+                  onChange={(e) => setUrl(e.target.value)}
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>檢查頻率</Label>
+                  <Select value={checkIntervalHours} onValueChange={setCheckIntervalHours}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INTERVAL_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Podcast 長度</Label>
+                  <Select value={mode} onValueChange={(value) => setMode(value as Mode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MODE_LABELS) as Mode[]).map(value => (
+                        <SelectItem key={value} value={value}>{MODE_LABELS[value]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>對話風格</Label>
+                  <Select value={style} onValueChange={setStyle}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(stylesQuery.data || []).map(option => (
+                        <SelectItem key={option.styleKey} value={option.styleKey}>{option.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>輸出語言</Label>
+                  <Select value={outputLanguage} onValueChange={(value) => setOutputLanguage(value as OutputLanguage)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OUTPUT_LANGUAGES.map(language => (
+                        <SelectItem key={language} value={language}>{OUTPUT_LANGUAGE_INFO[language].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="subscription-intro">開場白（選填）</Label>
+                  <Textarea
+                    id="subscription-intro"
+                    value={introText}
+                    rows={2}
+                    className="resize-none"
+                    onChange={(e) => setIntroText(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="subscription-outro">結尾語（選填）</Label>
+                  <Textarea
+                    id="subscription-outro"
+                    value={outroText}
+                    rows={2}
+                    className="resize-none"
+                    onChange={(e) => setOutroText(e.target.value)}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-xs text-muted-foreground">訂閱時已存在的內容不會產生任務，只處理之後的新內容</p>
+                <Button type="submit" disabled={createMutation.isPending || !url}>
+                  {createMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4 mr-2" />
+                  )}
+                  訂閱
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+
+        {subscriptionsQuery.isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : !subscriptionsQuery.data || subscriptionsQuery.data.length === 0 ? (
+          <Card className="shadow-lg border-0">
+            <CardContent className="flex flex-col items-center justify-center py-16 text-center gap-4">
+              <BellRing className="h-12 w-12 text-muted-foreground" />
+              <p className="text-lg font-medium">還沒有訂閱</p>
+              <p className="text-sm text-muted-foreground">訂閱後，新上傳的影片或文章會自動出現在作品庫</p>
+            </CardContent>
+          </Card>
+        ) : (
+          subscriptionsQuery.data.map(subscription => (
+            <Card key={subscription.id} className="shadow-lg border-0">
+              <CardHeader>
+                <div className="flex items-start gap-4">
+                  <div className="h-10 w-10 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+                    {subscription.sourceType === "youtube" ? (
+                      <Youtube className="h-5 w-5 text-primary" />
+                    ) : (
+                      <Rss className="h-5 w-5 text-primary" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <CardTitle className="text-lg truncate">{subscription.title || subscription.sourceUrl}</CardTitle>
+                      {!subscription.enabled && <Badge variant="secondary" className="shrink-0">已停用</Badge>}
+                    </div>
+                    <CardDescription className="truncate">{subscription.sourceUrl}</CardDescription>
+                  </div>
+                  <Switch
+                    checked={subscription.enabled}
+                    disabled={updateMutation.isPending}
+                    onCheckedChange={(enabled) => updateMutation.mutate({ subscriptionId: subscription.id, enabled })}
+                  />
+                </div>
+              </CardHeader>
+              <Separator />
+              <CardContent className="pt-4 space-y-3">
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-muted-foreground">
+                  <span>{formatInterval(subscription.checkIntervalHours)}</span>
+                  <span>
+                    {MODE_LABELS[subscription.mode]} · {styleNames.get(subscription.style) || subscription.style} · {getOutputLanguageInfo(subscription.outputLanguage).label}
+                  </span>
+                  <span>
+                    上次檢查：
+                    {subscription.lastCheckedAt ? new Date(subscription.lastCheckedAt).toLocaleString("zh-TW") : "尚未檢查"}
+                  </span>
+                  {subscription.enabled && (
+                    <span>下次檢查：{new Date(subscription.nextCheckAt).toLocaleString("zh-TW")}</span>
+                  )}
+                </div>
+                {subscription.lastError && (
+                  <p className="text-sm text-destructive">⚠️ {subscription.lastError}</p>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={checkNowMutation.isPending}
+                    onClick={() => checkNowMutation.mutate({ subscriptionId: subscription.id })}
+                  >
+                    {checkNowMutation.isPending && checkNowMutation.variables?.subscriptionId === subscription.id ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                    )}
+                    立即檢查
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-muted-foreground hover:text-destructive"
+                    disabled={deleteMutation.isPending}
+                    onClick={() => {
+                      if (confirm("確定要刪除這個訂閱嗎？已產生的作品會保留在作品庫。")) {
+                        deleteMutation.mutate({ subscriptionId: subscription.id });
+                      }
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    刪除
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,11 +6,20 @@ import { trpc } from "@/lib/trpc";
 import { useState, useEffect } from "react";
 import { toast } from "sonner";
 import { Loader2, Headphones, Play, Check, Settings } from "lucide-react";
+import { MAX_HOSTS } from "@shared/hosts";
+
+// 各主持人的顏色（依順序）
+const HOST_COLORS = [
+  { card: "border-blue-500 bg-blue-50", panel: "bg-blue-50", title: "text-blue-900", text: "text-blue-700", badge: "bg-blue-500" },
+  { card: "border-pink-500 bg-pink-50", panel: "bg-pink-50", title: "text-pink-900", text: "text-pink-700", badge: "bg-pink-500" },
+  { card: "border-amber-500 bg-amber-50", panel: "bg-amber-50", title: "text-amber-900", text: "text-amber-700", badge: "bg-amber-500" },
+  { card: "border-emerald-500 bg-emerald-50", panel: "bg-emerald-50", title: "text-emerald-900", text: "text-emerald-700", badge: "bg-emerald-500" },
+];
 
 export default function VoiceSettings() {
   const { user, loading, isAuthenticated } = useAuth();
-  const [host1Voice, setHost1Voice] = useState<string | null>(null);
-  const [host2Voice, setHost2Voice] = useState<string | null>(null);
+  // 依主持人順序選擇的聲音（1-4 位）
+  const [selectedVoices, setSelectedVoices] = useState<string[]>([]);
   const [playingVoice, setPlayingVoice] = useState<string | null>(null);
 
   // 獲取聲音列表
@@ -26,8 +35,7 @@ export default function VoiceSettings() {
   // 當偏好資料載入後，設定預設值
   useEffect(() => {
     if (preferenceQuery.data) {
-      setHost1Voice(preferenceQuery.data.host1VoiceId || null);
-      setHost2Voice(preferenceQuery.data.host2VoiceId || null);
+      setSelectedVoices(preferenceQuery.data.voiceIds);
     }
   }, [preferenceQuery.data]);
 
@@ -43,18 +51,11 @@ export default function VoiceSettings() {
   });
 
   const handleSave = () => {
-    if (!host1Voice || !host2Voice) {
-      toast.error("請選擇兩個聲音");
-      return;
-    }
-    if (host1Voice === host2Voice) {
-      toast.error("請選擇不同的聲音");
+    if (selectedVoices.length === 0) {
+      toast.error("請至少選擇一個聲音");
       return;
     }
-    savePreferenceMutation.mutate({
-      host1VoiceId: host1Voice,
-      host2VoiceId: host2Voice,
-    });
+    savePreferenceMutation.mutate({ voiceIds: selectedVoices });
   };
 
   const playDemo = (demoUrl: string, voiceId: string) => {
@@ -116,7 +117,7 @@ export default function VoiceSettings() {
             Podcast 聲音設定
           </h1>
           <p className="text-gray-600">
-            選擇兩個聲音作為 Podcast 的主持人。您可以使用自己 Clone 的聲音或內建聲音。
+            依序選擇 1 到 {MAX_HOSTS} 個聲音作為 Podcast 的主持人（單人獨白使用第一個聲音）。您可以使用自己 Clone 的聲音或內建聲音。
           </p>
         </div>
 
@@ -126,31 +127,27 @@ export default function VoiceSettings() {
             <CardTitle>目前選擇</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="p-4 bg-blue-50 rounded-lg">
-                <h3 className="font-semibold text-blue-900 mb-2">主持人 1</h3>
-                {host1Voice ? (
-                  <p className="text-sm text-blue-700">
-                    {voices.find(v => v.speakerId === host1Voice)?.name || host1Voice}
-                  </p>
-                ) : (
-                  <p className="text-sm text-gray-500">尚未選擇</p>
-                )}
-              </div>
-              <div className="p-4 bg-pink-50 rounded-lg">
-                <h3 className="font-semibold text-pink-900 mb-2">主持人 2</h3>
-                {host2Voice ? (
-                  <p className="text-sm text-pink-700">
-                    {voices.find(v => v.speakerId === host2Voice)?.name || host2Voice}
-                  </p>
-                ) : (
-                  <p className="text-sm text-gray-500">尚未選擇</p>
-                )}
-              </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {Array.from({ length: MAX_HOSTS }, (_, index) => {
+                const voiceId = selectedVoices[index];
+                const color = HOST_COLORS[index];
+                return (
+                  <div key={index} className={`p-4 rounded-lg ${voiceId ? color.panel : "bg-gray-50"}`}>
+                    <h3 className={`font-semibold mb-2 ${color.title}`}>主持人 {index + 1}</h3>
+                    {voiceId ? (
+                      <p className={`text-sm ${color.text}`}>
+                        {voices.find(v => v.speakerId === voiceId)?.name || voiceId}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500">{index === 0 ? "尚未選擇" : "選填"}</p>
+                    )}
+                  </div>
+                );
+              })}
             </div>
             <Button
               onClick={handleSave}
-              disabled={!host1Voice || !host2Voice || savePreferenceMutation.isPending}
+              disabled={selectedVoices.length === 0 || savePreferenceMutation.isPending}
               className="w-full"
             >
               {savePreferenceMutation.isPending ? (
@@ -179,31 +176,24 @@ export default function VoiceSettings() {
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
               {voices.map((voice) => {
-                const isHost1 = host1Voice === voice.speakerId;
-                const isHost2 = host2Voice === voice.speakerId;
-                const isSelected = isHost1 || isHost2;
+                const hostIndex = selectedVoices.indexOf(voice.speakerId);
+                const isSelected = hostIndex >= 0;
 
                 return (
                   <div
                     key={voice.speakerId}
                     className={`p-4 border-2 rounded-lg cursor-pointer transition-all ${
                       isSelected
-                        ? isHost1
-                          ? "border-blue-500 bg-blue-50"
-                          : "border-pink-500 bg-pink-50"
+                        ? HOST_COLORS[hostIndex].card
                         : "border-gray-200 hover:border-gray-300 bg-white"
                     }`}
                     onClick={() => {
-                      if (isHost1) {
-                        setHost1Voice(null);
-                      } else if (isHost2) {
-                        setHost2Voice(null);
-                      } else if (!host1Voice) {
-                        setHost1Voice(voice.speakerId);
-                      } else if (!host2Voice) {
-                        setHost2Voice(voice.speakerId);
+                      if (isSelected) {
+                        setSelectedVoices(current => current.filter(voiceId => voiceId !== voice.speakerId));
+                      } else if (selectedVoices.length < MAX_HOSTS) {
+                        setSelectedVoices(current => [...current, voice.speakerId]);
                       } else {
-                        toast.info("已選擇兩個聲音，請先取消其中一個");
+                        toast.info(`已選擇 ${MAX_HOSTS} 個聲音，請先取消其中一個`);
                       }
                     }}
                   >
@@ -215,8 +205,8 @@ export default function VoiceSettings() {
                             {voice.gender === "male" ? "男聲" : "女聲"}
                           </Badge>
                           {isSelected && (
-                            <Badge className={isHost1 ? "bg-blue-500" : "bg-pink-500"}>
-                              {isHost1 ? "主持人 1" : "主持人 2"}
+                            <Badge className={HOST_COLORS[hostIndex].badge}>
+                              主持人 {hostIndex + 1}
                             </Badge>
                           )}
                         </div>
@@ -232,7 +222,7 @@ export default function VoiceSettings() {
                           className="w-full"
                           onClick={(e) => {
                             e.stopPropagation();
-                            playDemo(voice.demoAudioUrl, voice.speakerId);
+                            playDemo(voice.demoAudioUrl!, voice.speakerId);
                           }}
                         >
                           <Play className="h-3 w-3 mr-1" />
@@ -0,0 +1,20 @@
+CREATE TABLE `job_queue` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`type` enum('podcast','avatar_video') NOT NULL,
+	`ref_id` int NOT NULL,
+	`payload` text NOT NULL,
+	`status` enum('queued','running','completed','failed') NOT NULL DEFAULT 'queued',
+	`attempts` int NOT NULL DEFAULT 0,
+	`max_attempts` int NOT NULL DEFAULT 3,
+	`run_after` timestamp NOT NULL DEFAULT (now()),
+	`lease_owner` varchar(128),
+	`lease_expires_at` timestamp,
+	`heartbeat_at` timestamp,
+	`last_error` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `job_queue_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `intro_text` text;--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `outro_text` text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE `podcast_tasks` ADD `checkpoint_stage` enum('content','intro','main','outro');--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `intro_audio_url` text;--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `outro_audio_url` text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `podcast_tasks` MODIFY COLUMN `status` enum('pending','processing','awaiting_review','completed','failed') NOT NULL DEFAULT 'pending';--> statement-breakpoint
+ALTER TABLE `podcast_tasks` MODIFY COLUMN `checkpoint_stage` enum('content','script','intro','main','outro');--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `draft_script` text;--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `script_approved_at` timestamp;
\ No newline at end of file
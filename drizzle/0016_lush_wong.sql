@@ -0,0 +1 @@
+ALTER TABLE `podcast_tasks` ADD `line_timings` text;
\ No newline at end of file
@@ -0,0 +1,33 @@
+CREATE TABLE `podcast_show_episodes` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`show_id` int NOT NULL,
+	`task_id` int NOT NULL,
+	`guid` varchar(64) NOT NULL,
+	`title` varchar(256) NOT NULL,
+	`description` text,
+	`audio_url` text NOT NULL,
+	`audio_bytes` int NOT NULL DEFAULT 0,
+	`duration_seconds` int NOT NULL DEFAULT 0,
+	`published_at` timestamp NOT NULL DEFAULT (now()),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `podcast_show_episodes_id` PRIMARY KEY(`id`),
+	CONSTRAINT `show_task_idx` UNIQUE(`show_id`,`task_id`)
+);
+--> statement-breakpoint
+CREATE TABLE `podcast_shows` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`slug` varchar(64) NOT NULL,
+	`title` varchar(256) NOT NULL,
+	`description` text,
+	`author` varchar(256),
+	`owner_email` varchar(320),
+	`language` varchar(16) NOT NULL DEFAULT 'zh-tw',
+	`category` varchar(128) NOT NULL DEFAULT 'Technology',
+	`cover_image_url` text,
+	`explicit` boolean NOT NULL DEFAULT false,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `podcast_shows_id` PRIMARY KEY(`id`),
+	CONSTRAINT `podcast_shows_slug_unique` UNIQUE(`slug`)
+);
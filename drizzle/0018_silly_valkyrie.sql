@@ -0,0 +1,15 @@
+CREATE TABLE `podcast_batches` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`source_type` enum('playlist','channel') NOT NULL,
+	`source_url` text NOT NULL,
+	`title` varchar(512),
+	`status` enum('active','paused','cancelled') NOT NULL DEFAULT 'active',
+	`options` text NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `podcast_batches_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `job_queue` MODIFY COLUMN `status` enum('queued','running','paused','completed','failed','cancelled') NOT NULL DEFAULT 'queued';--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `batch_id` int;
\ No newline at end of file
@@ -0,0 +1,31 @@
+CREATE TABLE `source_subscriptions` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`source_type` enum('youtube','rss') NOT NULL,
+	`source_url` text NOT NULL,
+	`title` varchar(512),
+	`mode` enum('quick','medium','deep') NOT NULL DEFAULT 'medium',
+	`style` enum('educational','casual','professional') NOT NULL DEFAULT 'casual',
+	`intro_text` text,
+	`outro_text` text,
+	`enabled` boolean NOT NULL DEFAULT true,
+	`check_interval_hours` int NOT NULL DEFAULT 24,
+	`next_check_at` timestamp NOT NULL DEFAULT (now()),
+	`last_checked_at` timestamp,
+	`last_error` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `source_subscriptions_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+CREATE TABLE `subscription_items` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`subscription_id` int NOT NULL,
+	`item_key` varchar(255) NOT NULL,
+	`title` varchar(512),
+	`task_id` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `subscription_items_id` PRIMARY KEY(`id`),
+	CONSTRAINT `user_item_idx` UNIQUE(`user_id`,`item_key`)
+);
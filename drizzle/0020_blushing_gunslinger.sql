@@ -0,0 +1,16 @@
+CREATE TABLE `prompt_templates` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`style_key` varchar(64) NOT NULL,
+	`version` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`description` text,
+	`summary_prompt` text NOT NULL,
+	`script_prompt` text NOT NULL,
+	`is_active` boolean NOT NULL DEFAULT false,
+	`created_by` int,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	CONSTRAINT `prompt_templates_id` PRIMARY KEY(`id`),
+	CONSTRAINT `style_version_idx` UNIQUE(`style_key`,`version`)
+);
+--> statement-breakpoint
+ALTER TABLE `source_subscriptions` MODIFY COLUMN `style` varchar(64) NOT NULL DEFAULT 'casual';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `podcast_tasks` ADD `output_language` varchar(16) DEFAULT 'zh-TW' NOT NULL;
\ No newline at end of file
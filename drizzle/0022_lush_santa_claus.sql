@@ -0,0 +1,21 @@
+CREATE TABLE `content_cache` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`source_type` enum('youtube','text','article') NOT NULL,
+	`source_key` varchar(64) NOT NULL,
+	`variant_key` varchar(64) NOT NULL DEFAULT '',
+	`title` varchar(512),
+	`transcription` mediumtext,
+	`segments` mediumtext,
+	`language` varchar(16),
+	`duration` int NOT NULL DEFAULT 0,
+	`audio_url` text,
+	`audio_file_key` varchar(512),
+	`summary` mediumtext,
+	`podcast_script` mediumtext,
+	`hit_count` int NOT NULL DEFAULT 0,
+	`expires_at` timestamp NOT NULL,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `content_cache_id` PRIMARY KEY(`id`),
+	CONSTRAINT `source_variant_idx` UNIQUE(`source_type`,`source_key`,`variant_key`)
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `podcast_tasks` ADD `source_author` varchar(256);--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `source_published_at` timestamp;
\ No newline at end of file
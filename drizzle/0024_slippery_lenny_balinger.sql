@@ -0,0 +1 @@
+ALTER TABLE `podcast_batches` MODIFY COLUMN `source_type` enum('playlist','channel','document') NOT NULL;
\ No newline at end of file
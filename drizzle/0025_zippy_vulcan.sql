@@ -0,0 +1 @@
+ALTER TABLE `podcast_tasks` ADD `sources` text;
\ No newline at end of file
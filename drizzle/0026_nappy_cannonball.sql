@@ -0,0 +1 @@
+ALTER TABLE `voice_preferences` ADD `host_voice_ids` text;
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `show_profiles` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`name` varchar(100) NOT NULL,
+	`hosts` text NOT NULL,
+	`mode` enum('quick','medium','deep') NOT NULL DEFAULT 'medium',
+	`style` varchar(64) NOT NULL DEFAULT 'casual',
+	`output_language` varchar(16) NOT NULL DEFAULT 'zh-TW',
+	`tts_provider` varchar(16),
+	`intro_text` text,
+	`outro_text` text,
+	`cover_image_url` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `show_profiles_id` PRIMARY KEY(`id`),
+	CONSTRAINT `user_name_idx` UNIQUE(`user_id`,`name`)
+);
+--> statement-breakpoint
+ALTER TABLE `podcast_show_episodes` ADD `image_url` text;--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `cover_image_url` text;
\ No newline at end of file
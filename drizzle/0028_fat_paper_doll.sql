@@ -0,0 +1,11 @@
+CREATE TABLE `pronunciation_entries` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`show_profile_id` int,
+	`term` varchar(128) NOT NULL,
+	`replacement` varchar(256) NOT NULL,
+	`voice_id` varchar(64),
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `pronunciation_entries_id` PRIMARY KEY(`id`)
+);
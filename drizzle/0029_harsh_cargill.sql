@@ -0,0 +1 @@
+ALTER TABLE `podcast_tasks` ADD `mastering_settings` text;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `music_tracks` (
+	`id` int AUTO_INCREMENT NOT NULL,
+	`user_id` int NOT NULL,
+	`name` varchar(128) NOT NULL,
+	`kind` enum('jingle','stinger','bed') NOT NULL,
+	`audio_key` text,
+	`audio_url` text,
+	`duration_seconds` int,
+	`license` text,
+	`created_at` timestamp NOT NULL DEFAULT (now()),
+	`updated_at` timestamp NOT NULL DEFAULT (now()) ON UPDATE CURRENT_TIMESTAMP,
+	CONSTRAINT `music_tracks_id` PRIMARY KEY(`id`)
+);
+--> statement-breakpoint
+ALTER TABLE `show_profiles` ADD `music` text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `podcast_show_episodes` ADD `audio_key` text;--> statement-breakpoint
+ALTER TABLE `podcast_tasks` ADD `podcast_audio_key` text;
\ No newline at end of file
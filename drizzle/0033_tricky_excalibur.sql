@@ -0,0 +1 @@
+ALTER TABLE `content_cache` DROP COLUMN `audio_url`;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `podcast_tasks` ADD `source_duration` int;
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar } from "drizzle-orm/mysql-core";
+import { boolean, int, mediumtext, mysqlEnum, mysqlTable, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/mysql-core";
 
 /**
  * Core user table backing auth flow.
@@ -40,7 +40,11 @@ export const podcastTasks = mysqlTable("podcast_tasks", {
   userId: int("user_id").notNull(),
   youtubeUrl: varchar("youtube_url", { length: 512 }).notNull(),
   title: varchar("title", { length: 512 }), // 任務標題（從 YouTube 影片標題或使用者輸入）
-  status: mysqlEnum("status", ["pending", "processing", "completed", "failed"]).default("pending").notNull(),
+  batchId: int("batch_id"), // 所屬批次（播放清單 / 頻道批次建立時才有）
+  sourceAuthor: varchar("source_author", { length: 256 }), // 原文作者（文章網址擷取，單集說明使用）
+  sourcePublishedAt: timestamp("source_published_at"), // 原文發佈日期
+  sources: text("sources"), // 多來源單集的來源清單（JSON，SourceAttribution[]，單集說明使用）
+  status: mysqlEnum("status", ["pending", "processing", "awaiting_review", "completed", "failed"]).default("pending").notNull(),
   
   // 處理進度詳情
   progressStage: mysqlEnum("progress_stage", [
@@ -62,16 +66,37 @@ export const podcastTasks = mysqlTable("podcast_tasks", {
   transcription: text("transcription"), // 完整逐字稿
   summary: text("summary"), // 精華摘要
   podcastScript: text("podcast_script"), // Podcast 格式文字稿
+  sourceDuration: int("source_duration"), // 原始內容長度（秒，開場 / 結尾模板的 {{duration}} 使用）
   
   // ListenHub Podcast 生成結果
   listenHubEpisodeId: varchar("listen_hub_episode_id", { length: 64 }), // ListenHub Episode ID
   podcastAudioUrl: text("podcast_audio_url"), // ListenHub 生成的 Podcast 音檔 URL
+  podcastAudioKey: text("podcast_audio_key"), // 音檔存放在本服務儲存空間時的路徑（合併後或本機 TTS 的音檔，可重新簽發網址）
   podcastTitle: text("podcast_title"), // ListenHub 生成的標題
   podcastScripts: text("podcast_scripts"), // ListenHub 生成的對話腳本 (JSON)
+  lineTimings: text("line_timings"), // 逐句時間軸（相對於最終音檔，JSON）
   
   // 客製化開場和結尾
   introText: text("intro_text"), // 開場白文字（選填）
   outroText: text("outro_text"), // 結尾語文字（選填）
+  outputLanguage: varchar("output_language", { length: 16 }).default("zh-TW").notNull(), // 節目輸出語言（shared/outputLanguage）
+  coverImageUrl: text("cover_image_url"), // 單集封面圖（由節目設定帶入，發佈到節目時寫入 RSS）
+  masteringSettings: text("mastering_settings"), // 音訊後製設定（JSON，shared/mastering；空值使用預設設定）
+  
+  // 階段檢查點（失敗後重試時從最後成功的階段繼續，避免重複消耗 API 額度）
+  checkpointStage: mysqlEnum("checkpoint_stage", [
+    "content",          // 內容分析完成（逐字稿、摘要已儲存）
+    "script",           // 對話腳本草稿完成（腳本審閱模式）
+    "intro",            // 開場音訊完成
+    "main",             // 主要 Podcast 音訊完成
+    "outro",            // 結尾音訊完成
+  ]),
+  introAudioUrl: text("intro_audio_url"), // 開場音訊 URL
+  outroAudioUrl: text("outro_audio_url"), // 結尾音訊 URL
+  
+  // 腳本審閱模式：先產生對話腳本草稿，使用者核准後才合成語音
+  draftScript: text("draft_script"), // 對話腳本草稿 (JSON: { hosts, lines })
+  scriptApprovedAt: timestamp("script_approved_at"), // 腳本核准時間
   
   // 錯誤訊息
   errorMessage: text("error_message"),
@@ -92,6 +117,7 @@ export const voicePreferences = mysqlTable("voice_preferences", {
   userId: int("user_id").notNull().unique(), // 每個使用者只有一筆偏好設定
   host1VoiceId: varchar("host1_voice_id", { length: 64 }), // 主持人 1 的聲音 ID
   host2VoiceId: varchar("host2_voice_id", { length: 64 }), // 主持人 2 的聲音 ID
+  hostVoiceIds: text("host_voice_ids"), // 依主持人順序的聲音 ID（JSON 陣列，最多 4 位；host1 / host2 欄位同步保留前兩位）
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
 });
@@ -166,3 +192,278 @@ export const avatarVideoTasks = mysqlTable("avatar_video_tasks", {
 
 export type AvatarVideoTask = typeof avatarVideoTasks.$inferSelect;
 export type InsertAvatarVideoTask = typeof avatarVideoTasks.$inferInsert;
+
+/**
+ * 背景工作佇列表
+ * 以資料庫持久化長時間執行的任務（Podcast 生成、虛擬主播影片生成），
+ * 讓伺服器重啟或部署後能自動接續處理，而不是讓任務永遠卡在 processing
+ */
+export const jobQueue = mysqlTable("job_queue", {
+  id: int("id").autoincrement().primaryKey(),
+  type: mysqlEnum("type", ["podcast", "avatar_video"]).notNull(), // 工作類型（決定由哪個 handler 處理）
+  refId: int("ref_id").notNull(), // 關聯的任務 ID（podcast_tasks 或 avatar_video_tasks）
+  payload: text("payload").notNull(), // 工作參數 (JSON)
+  status: mysqlEnum("status", ["queued", "running", "paused", "completed", "failed", "cancelled"]).default("queued").notNull(),
+
+  // 重試控制
+  attempts: int("attempts").default(0).notNull(), // 已嘗試次數
+  maxAttempts: int("max_attempts").default(3).notNull(), // 最大嘗試次數
+  runAfter: timestamp("run_after").defaultNow().notNull(), // 最早可執行時間（用於重試退避）
+
+  // 租約（lease）：worker 取得工作後定期心跳延長，租約過期代表 worker 已中斷
+  leaseOwner: varchar("lease_owner", { length: 128 }), // 持有租約的 worker ID
+  leaseExpiresAt: timestamp("lease_expires_at"), // 租約到期時間
+  heartbeatAt: timestamp("heartbeat_at"), // 最後一次心跳時間
+
+  lastError: text("last_error"), // 最後一次失敗的錯誤訊息
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Job = typeof jobQueue.$inferSelect;
+export type InsertJob = typeof jobQueue.$inferInsert;
+
+/**
+ * Podcast 節目表
+ * 使用者將完成的任務整理成節目，並透過公開的 RSS feed 發佈到 Apple Podcasts / Spotify
+ */
+export const podcastShows = mysqlTable("podcast_shows", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("user_id").notNull(),
+  slug: varchar("slug", { length: 64 }).notNull().unique(), // 公開 feed 網址使用的隨機識別碼
+
+  // 節目資訊（對應 RSS channel / iTunes 標籤）
+  title: varchar("title", { length: 256 }).notNull(),
+  description: text("description"),
+  author: varchar("author", { length: 256 }),
+  ownerEmail: varchar("owner_email", { length: 320 }), // itunes:owner，平台驗證節目擁有者用
+  language: varchar("language", { length: 16 }).default("zh-tw").notNull(),
+  category: varchar("category", { length: 128 }).default("Technology").notNull(), // Apple Podcasts 分類
+  coverImageUrl: text("cover_image_url"), // 封面圖（Apple 要求 1400～3000 px 正方形）
+  explicit: boolean("explicit").default(false).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type PodcastShow = typeof podcastShows.$inferSelect;
+export type InsertPodcastShow = typeof podcastShows.$inferInsert;
+
+/**
+ * 節目單集表
+ * 將完成的 podcast_tasks 加入節目，發佈時記錄音檔長度與大小（RSS enclosure 必填）
+ */
+export const podcastShowEpisodes = mysqlTable("podcast_show_episodes", {
+  id: int("id").autoincrement().primaryKey(),
+  showId: int("show_id").notNull(), // 關聯到 podcast_shows
+  taskId: int("task_id").notNull(), // 關聯到 podcast_tasks
+  guid: varchar("guid", { length: 64 }).notNull(), // 單集永久識別碼（平台依此判斷是否為新單集）
+
+  // 單集資訊（發佈時未填寫則使用任務的標題與摘要）
+  title: varchar("title", { length: 256 }).notNull(),
+  description: text("description"), // 單集說明（show notes）
+  imageUrl: text("image_url"), // 單集封面（itunes:image，未設定時平台使用節目封面）
+
+  // 發佈時的音檔資訊（feed 透過轉址路由提供，audioKey 存在時每次重新簽發網址）
+  audioUrl: text("audio_url").notNull(),
+  audioKey: text("audio_key"),
+  audioBytes: int("audio_bytes").default(0).notNull(),
+  durationSeconds: int("duration_seconds").default(0).notNull(),
+
+  publishedAt: timestamp("published_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  showTaskIdx: uniqueIndex("show_task_idx").on(table.showId, table.taskId),
+}));
+
+export type PodcastShowEpisode = typeof podcastShowEpisodes.$inferSelect;
+export type InsertPodcastShowEpisode = typeof podcastShowEpisodes.$inferInsert;
+
+/**
+ * 批次任務表
+ * YouTube 播放清單或頻道展開後，每部影片建立一筆 podcast_tasks（以 batch_id 關聯）
+ * 過長的文件拆成多集系列時，每一集也建立一筆
+ */
+export const podcastBatches = mysqlTable("podcast_batches", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("user_id").notNull(),
+  sourceType: mysqlEnum("source_type", ["playlist", "channel", "document"]).notNull(),
+  sourceUrl: text("source_url").notNull(), // 文件為上傳後的儲存路徑
+  title: varchar("title", { length: 512 }), // 播放清單、頻道或文件名稱
+  // 批次控制狀態（是否全部完成由各項目狀態推算）
+  status: mysqlEnum("status", ["active", "paused", "cancelled"]).default("active").notNull(),
+  options: text("options").notNull(), // 套用到每個項目的任務參數 (JSON)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type PodcastBatch = typeof podcastBatches.$inferSelect;
+export type InsertPodcastBatch = typeof podcastBatches.$inferInsert;
+
+/**
+ * 來源訂閱表：定期檢查 YouTube 頻道 / 播放清單或 RSS feed，自動為新內容建立任務
+ */
+export const sourceSubscriptions = mysqlTable("source_subscriptions", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("user_id").notNull(),
+  sourceType: mysqlEnum("source_type", ["youtube", "rss"]).notNull(),
+  sourceUrl: text("source_url").notNull(), // YouTube 為正規化後的頻道 / 播放清單網址
+  title: varchar("title", { length: 512 }), // 頻道或 feed 名稱
+
+  // 自動建立任務時使用的參數（聲音沿用使用者的 voice_preferences）
+  mode: mysqlEnum("mode", ["quick", "medium", "deep"]).default("medium").notNull(),
+  style: varchar("style", { length: 64 }).default("casual").notNull(), // prompt_templates.style_key
+  outputLanguage: varchar("output_language", { length: 16 }).default("zh-TW").notNull(), // 節目輸出語言（shared/outputLanguage）
+  introText: text("intro_text"),
+  outroText: text("outro_text"),
+
+  // 排程
+  enabled: boolean("enabled").default(true).notNull(),
+  checkIntervalHours: int("check_interval_hours").default(24).notNull(),
+  nextCheckAt: timestamp("next_check_at").defaultNow().notNull(), // 領取檢查時會先往後推，避免多個實例重複檢查
+  lastCheckedAt: timestamp("last_checked_at"),
+  lastError: text("last_error"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type SourceSubscription = typeof sourceSubscriptions.$inferSelect;
+export type InsertSourceSubscription = typeof sourceSubscriptions.$inferInsert;
+
+/**
+ * 訂閱已處理項目表（去重）：同一使用者的同一部影片 / 文章只會產生一次
+ */
+export const subscriptionItems = mysqlTable("subscription_items", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("user_id").notNull(),
+  subscriptionId: int("subscription_id").notNull(), // 關聯到 source_subscriptions
+  itemKey: varchar("item_key", { length: 255 }).notNull(), // YouTube 影片 ID，或 RSS 項目的 guid / 連結
+  title: varchar("title", { length: 512 }),
+  taskId: int("task_id"), // 產生的任務；訂閱建立時已存在的項目只記錄不產生（null）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  userItemIdx: uniqueIndex("user_item_idx").on(table.userId, table.itemKey),
+}));
+
+export type SubscriptionItem = typeof subscriptionItems.$inferSelect;
+export type InsertSubscriptionItem = typeof subscriptionItems.$inferInsert;
+
+/**
+ * 節目風格提示詞模板表（版本化）：每次編輯新增一個版本，同一風格只有一個啟用中的版本
+ * 內建風格（educational / casual / professional）尚未編輯時使用程式內的預設模板
+ */
+export const promptTemplates = mysqlTable("prompt_templates", {
+  id: int("id").autoincrement().primaryKey(),
+  styleKey: varchar("style_key", { length: 64 }).notNull(), // 例如 casual、news_briefing
+  version: int("version").notNull(),
+  name: varchar("name", { length: 100 }).notNull(), // 顯示在風格選單的名稱
+  description: text("description"),
+  summaryPrompt: text("summary_prompt").notNull(), // 摘要的撰寫方式
+  scriptPrompt: text("script_prompt").notNull(), // 對話的角色分工、語氣與結構
+  isActive: boolean("is_active").default(false).notNull(),
+  createdBy: int("created_by"), // 建立此版本的管理員
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  styleVersionIdx: uniqueIndex("style_version_idx").on(table.styleKey, table.version),
+}));
+
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type InsertPromptTemplate = typeof promptTemplates.$inferInsert;
+
+/**
+ * 內容快取表：同一部影片或同一份文字 / 文章重複提交時，重用轉錄與分析結果
+ * variant_key 為空字串的項目是轉錄結果；其他項目是特定分析參數（風格、模式、語言）的摘要與腳本
+ */
+export const contentCache = mysqlTable("content_cache", {
+  id: int("id").autoincrement().primaryKey(),
+  sourceType: mysqlEnum("source_type", ["youtube", "text", "article"]).notNull(),
+  sourceKey: varchar("source_key", { length: 64 }).notNull(), // YouTube 影片 ID，或文字 / 文章內容的 SHA-256
+  variantKey: varchar("variant_key", { length: 64 }).default("").notNull(), // 分析參數的 SHA-256（轉錄結果為空字串）
+
+  title: varchar("title", { length: 512 }),
+  transcription: mediumtext("transcription"),
+  segments: mediumtext("segments"), // 轉錄片段 (JSON)，重新分析時用於分段
+  language: varchar("language", { length: 16 }),
+  duration: int("duration").default(0).notNull(), // 秒
+  audioFileKey: varchar("audio_file_key", { length: 512 }), // 轉錄時上傳的原始音檔（使用字幕時為空；讀取時重新簽發網址）
+
+  summary: mediumtext("summary"),
+  podcastScript: mediumtext("podcast_script"),
+
+  hitCount: int("hit_count").default(0).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  sourceVariantIdx: uniqueIndex("source_variant_idx").on(table.sourceType, table.sourceKey, table.variantKey),
+}));
+
+export type ContentCacheEntry = typeof contentCache.$inferSelect;
+export type InsertContentCacheEntry = typeof contentCache.$inferInsert;
+
+/**
+ * 節目設定表：將固定節目的主持人、聲音、模式、風格、語言、開場 / 結尾模板與封面存成具名設定，建立任務時一鍵套用
+ */
+export const showProfiles = mysqlTable("show_profiles", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("user_id").notNull(),
+  name: varchar("name", { length: 100 }).notNull(), // 設定名稱（同一使用者不可重複）
+
+  hosts: text("hosts").notNull(), // 主持人名稱、聲音與人設（JSON，HostConfig[]）
+  mode: mysqlEnum("mode", ["quick", "medium", "deep"]).default("medium").notNull(),
+  style: varchar("style", { length: 64 }).default("casual").notNull(), // prompt_templates.style_key
+  outputLanguage: varchar("output_language", { length: 16 }).default("zh-TW").notNull(),
+  ttsProvider: varchar("tts_provider", { length: 16 }), // 未設定時使用預設引擎
+  introText: text("intro_text"), // 開場模板（可使用 {date}、{title} 等變數）
+  outroText: text("outro_text"),
+  coverImageUrl: text("cover_image_url"),
+  music: text("music"), // 開場音樂、結尾音效與背景音樂（JSON，shared/music 的 PodcastMusicSelection）
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  userNameIdx: uniqueIndex("user_name_idx").on(table.userId, table.name),
+}));
+
+export type ShowProfile = typeof showProfiles.$inferSelect;
+export type InsertShowProfile = typeof showProfiles.$inferInsert;
+
+/**
+ * 發音辭典表：合成語音前將詞條替換為拼讀寫法（產品名稱、縮寫、人名），詞條也作為轉錄的詞彙提示
+ * show_profile_id 為空時套用到使用者的所有節目；voice_id 有值時只套用到該聲音（覆蓋同詞條的通用寫法）
+ */
+export const pronunciationEntries = mysqlTable("pronunciation_entries", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("user_id").notNull(),
+  showProfileId: int("show_profile_id"), // 關聯到 show_profiles（空值表示所有節目）
+  term: varchar("term", { length: 128 }).notNull(), // 原文寫法，例如「GPT」
+  replacement: varchar("replacement", { length: 256 }).notNull(), // 念法，例如「G P T」或「吉批踢」
+  voiceId: varchar("voice_id", { length: 64 }), // 只套用到特定聲音（空值表示所有聲音）
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type PronunciationEntry = typeof pronunciationEntries.$inferSelect;
+export type InsertPronunciationEntry = typeof pronunciationEntries.$inferInsert;
+
+/**
+ * 音樂庫：開場音樂（jingle）、結尾音效（stinger）與背景音樂（bed），合併音訊時混入人聲
+ * 音檔來自分塊上傳（audio_key）或外部網址（audio_url），license 記錄授權來源與使用條件
+ */
+export const musicTracks = mysqlTable("music_tracks", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("user_id").notNull(),
+  name: varchar("name", { length: 128 }).notNull(),
+  kind: mysqlEnum("kind", ["jingle", "stinger", "bed"]).notNull(),
+  audioKey: text("audio_key"), // 上傳的音檔儲存路徑（uploads/{userId}/...）
+  audioUrl: text("audio_url"), // 外部音檔網址（未上傳時使用）
+  durationSeconds: int("duration_seconds"),
+  license: text("license"), // 授權說明，例如「CC BY 4.0，作者 xxx，需於節目說明標註」
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().onUpdateNow().notNull(),
+});
+
+export type MusicTrack = typeof musicTracks.$inferSelect;
+export type InsertMusicTrack = typeof musicTracks.$inferInsert;
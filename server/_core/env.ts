@@ -23,8 +23,20 @@ export const ENV = {
   backblazeRegion: process.env.BACKBLAZE_REGION ?? "us-west-004",
   backblazeEndpoint: process.env.BACKBLAZE_ENDPOINT ?? "", // Optional: custom endpoint
   backblazePublicUrl: process.env.BACKBLAZE_PUBLIC_URL ?? "", // Optional: custom public URL
+  // LLM providers, tried in order when one fails (quota, timeout): "gemini", "openai", "local"
+  llmProviders: process.env.LLM_PROVIDERS ?? "gemini",
+  llmTimeoutMs: parseInt(process.env.LLM_TIMEOUT_MS ?? "120000"), // 單一供應商的逾時
   // Google Gemini API for LLM (content analysis)
   googleGeminiApiKey: process.env.GOOGLE_GEMINI_API_KEY ?? "",
+  geminiModels: process.env.GEMINI_MODELS ?? "gemini-2.0-flash,gemini-1.5-pro-latest,gemini-2.0-flash-exp",
+  // Any OpenAI-compatible chat completions endpoint (OpenAI, OpenRouter, Groq, ...)
+  openaiApiKey: process.env.OPENAI_API_KEY ?? "",
+  openaiBaseUrl: process.env.OPENAI_BASE_URL ?? "https://api.openai.com/v1",
+  openaiModel: process.env.OPENAI_MODEL ?? "gpt-4o-mini",
+  // Local model server with an OpenAI-compatible API (Ollama: http://localhost:11434/v1, llama.cpp: http://localhost:8080/v1)
+  localLlmBaseUrl: process.env.LOCAL_LLM_BASE_URL ?? "",
+  localLlmModel: process.env.LOCAL_LLM_MODEL ?? "llama3.1",
+  localLlmApiKey: process.env.LOCAL_LLM_API_KEY ?? "",
   // Google OAuth (optional, for Google login)
   googleClientId: process.env.GOOGLE_CLIENT_ID ?? "",
   googleClientSecret: process.env.GOOGLE_CLIENT_SECRET ?? "",
@@ -33,4 +45,22 @@ export const ENV = {
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
   ownerOpenId: process.env.OWNER_OPEN_ID ?? "",
+  // Public site URL used in RSS feeds (defaults to the request host)
+  publicBaseUrl: process.env.PUBLIC_BASE_URL ?? "",
+  // TTS providers: "listenhub" (cloud) or "local" (Piper / espeak-ng CLI, offline)
+  ttsDefaultProvider: process.env.TTS_DEFAULT_PROVIDER ?? "listenhub",
+  piperBin: process.env.PIPER_BIN ?? "piper",
+  piperVoicesDir: process.env.PIPER_VOICES_DIR ?? "/opt/piper-voices", // 放置 *.onnx 聲音模型的目錄
+  espeakBin: process.env.ESPEAK_BIN ?? "espeak-ng",
+  // Background job queue (podcast / avatar video pipelines)
+  jobWorkerConcurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY ?? "2"),
+  jobLeaseMs: parseInt(process.env.JOB_LEASE_MS ?? "120000"), // 租約長度，worker 中斷後多久可被接手
+  jobPollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS ?? "3000"),
+  jobShutdownTimeoutMs: parseInt(process.env.JOB_SHUTDOWN_TIMEOUT_MS ?? "8000"), // 關閉時等待執行中工作的時間（需短於強制關閉的 10 秒）
+  // Task events (SSE): 多實例部署時 worker 的進度事件不會經過本行程，改由定期讀取資料庫補上；0 表示停用（僅單一行程部署）
+  taskEventPollIntervalMs: parseInt(process.env.TASK_EVENT_POLL_INTERVAL_MS ?? "5000"),
+  // Subscriptions (scheduled YouTube channel / RSS checks)
+  subscriptionPollIntervalMs: parseInt(process.env.SUBSCRIPTION_POLL_INTERVAL_MS ?? "300000"),
+  // Content cache (transcripts / analysis results reused by repeated submissions)
+  contentCacheTtlDays: parseInt(process.env.CONTENT_CACHE_TTL_DAYS ?? "30"), // 0 表示停用快取
 };
@@ -14,6 +14,7 @@ export enum ErrorCode {
   LLM_INVOKE_FAILED = "LLM_INVOKE_FAILED",
   STORAGE_UPLOAD_FAILED = "STORAGE_UPLOAD_FAILED",
   PODCAST_GENERATION_FAILED = "PODCAST_GENERATION_FAILED",
+  CONTENT_UNAVAILABLE = "CONTENT_UNAVAILABLE", // 付費牆、Cookie 牆等無法取得全文的來源
   
   // 配置錯誤
   CONFIGURATION_ERROR = "CONFIGURATION_ERROR",
@@ -147,6 +148,7 @@ export function getUserFriendlyMessage(error: AppError): string {
     [ErrorCode.LLM_INVOKE_FAILED]: "AI 分析失敗",
     [ErrorCode.STORAGE_UPLOAD_FAILED]: "檔案上傳失敗",
     [ErrorCode.PODCAST_GENERATION_FAILED]: "Podcast 生成失敗",
+    [ErrorCode.CONTENT_UNAVAILABLE]: "無法取得文章全文",
     [ErrorCode.CONFIGURATION_ERROR]: "系統配置錯誤",
     [ErrorCode.API_KEY_MISSING]: "API 金鑰未設定",
     [ErrorCode.DATABASE_ERROR]: "資料庫錯誤",
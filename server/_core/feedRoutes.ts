@@ -0,0 +1,58 @@
+import type { Express, Request, Response } from "express";
+import * as db from "../db";
+import { buildPodcastFeed, getFeedPath, resolveEpisodeAudioUrl } from "../services/podcastFeedService";
+import { ENV } from "./env";
+
+/**
+ * 取得對外網址（反向代理後方請設定 PUBLIC_BASE_URL，避免 feed 內出現內部網址）
+ */
+function getBaseUrl(req: Request): string {
+  if (ENV.publicBaseUrl) {
+    return ENV.publicBaseUrl.replace(/\/+$/, "");
+  }
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+export function registerFeedRoutes(app: Express) {
+  // 公開的 Podcast RSS feed（不需登入，供 Apple Podcasts / Spotify 等平台訂閱）
+  app.get("/api/feeds/:slug/feed.xml", async (req: Request, res: Response) => {
+    try {
+      const show = await db.getShowBySlug(req.params.slug);
+      if (!show) {
+        res.status(404).type("text/plain").send("Feed not found");
+        return;
+      }
+
+      const episodes = await db.getShowEpisodes(show.id);
+      const baseUrl = getBaseUrl(req);
+      const xml = buildPodcastFeed(show, episodes, {
+        feedUrl: `${baseUrl}${getFeedPath(show.slug)}`,
+        siteUrl: baseUrl,
+      });
+
+      res.set("Cache-Control", "public, max-age=300");
+      res.type("application/rss+xml; charset=utf-8").send(xml);
+    } catch (error) {
+      console.error("[PodcastFeed] Failed to render feed:", error);
+      res.status(500).type("text/plain").send("Failed to render feed");
+    }
+  });
+
+  // 單集音檔（enclosure）：每次請求重新簽發儲存空間網址後轉址，避免舊單集的簽章過期
+  app.get("/api/feeds/:slug/episodes/:guid.mp3", async (req: Request, res: Response) => {
+    try {
+      const show = await db.getShowBySlug(req.params.slug);
+      const episode = show && await db.getShowEpisodeByGuid(show.id, req.params.guid);
+      if (!episode) {
+        res.status(404).type("text/plain").send("Episode not found");
+        return;
+      }
+
+      res.set("Cache-Control", "no-store");
+      res.redirect(302, await resolveEpisodeAudioUrl(episode));
+    } catch (error) {
+      console.error("[PodcastFeed] Failed to resolve episode audio:", error);
+      res.status(500).type("text/plain").send("Failed to resolve episode audio");
+    }
+  });
+}
@@ -4,6 +4,7 @@ import { createServer } from "http";
 import net from "net";
 import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
+import { registerFeedRoutes } from "./feedRoutes";
 import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
@@ -59,6 +60,8 @@ async function startServer() {
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
   // Google OAuth routes
   registerOAuthRoutes(app);
+  // Podcast RSS feeds（公開）
+  registerFeedRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -85,6 +88,14 @@ async function startServer() {
     console.log(`Server running on http://localhost:${port}/`);
   });
 
+  // 啟動背景工作佇列（接續上次中斷的任務）
+  const { startJobWorker, stopJobWorker } = await import("../services/jobQueueService");
+  await startJobWorker();
+
+  // 啟動訂閱排程（定期檢查 YouTube 頻道 / RSS 的新內容）
+  const { startSubscriptionWatcher, stopSubscriptionWatcher } = await import("../services/subscriptionService");
+  startSubscriptionWatcher();
+
   // 優雅關閉處理
   const gracefulShutdown = async (signal: string) => {
     console.log(`[Server] Received ${signal}, starting graceful shutdown...`);
@@ -92,6 +103,12 @@ async function startServer() {
     server.close(async () => {
       console.log("[Server] HTTP server closed");
       
+      // 停止訂閱排程
+      stopSubscriptionWatcher();
+
+      // 停止背景工作，釋放租約讓下一個實例立即接手
+      await stopJobWorker();
+
       // 關閉資料庫連接池
       const { closeDb } = await import("../db");
       await closeDb();
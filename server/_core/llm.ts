@@ -1,5 +1,10 @@
+/**
+ * LLM 呼叫介面（OpenAI 相容格式）
+ * 依 LLM_PROVIDERS 的順序嘗試各供應商（Gemini、OpenAI 相容端點、本機 Ollama / llama.cpp），
+ * 前一個失敗（額度用盡、逾時、服務錯誤）時自動改用下一個
+ */
+
 import { ENV } from "./env";
-import { GoogleGenerativeAI } from "@google/generative-ai";
 
 export type Role = "system" | "user" | "assistant" | "tool" | "function";
 
@@ -31,6 +36,7 @@ export type Message = {
   content: MessageContent | MessageContent[];
   name?: string;
   tool_call_id?: string;
+  tool_calls?: ToolCall[]; // assistant 訊息中先前的工具呼叫（多輪工具使用時帶回）
 };
 
 export type Tool = {
@@ -67,6 +73,8 @@ export type InvokeParams = {
   output_schema?: OutputSchema;
   responseFormat?: ResponseFormat;
   response_format?: ResponseFormat;
+  timeoutMs?: number; // 單一供應商的逾時（預設 LLM_TIMEOUT_MS）
+  providers?: LlmProviderId[]; // 只使用這些供應商（例如需要 Gemini 特有能力時），仍依 LLM_PROVIDERS 的順序
 };
 
 export type ToolCall = {
@@ -111,7 +119,7 @@ export type ResponseFormat =
   | { type: "json_object" }
   | { type: "json_schema"; json_schema: JsonSchema };
 
-const ensureArray = (
+export const ensureArray = (
   value: MessageContent | MessageContent[]
 ): MessageContent[] => (Array.isArray(value) ? value : [value]);
 
@@ -137,8 +145,8 @@ const normalizeContentPart = (
   throw new Error("Unsupported message content part");
 };
 
-const normalizeMessage = (message: Message) => {
-  const { role, name, tool_call_id } = message;
+export const normalizeMessage = (message: Message) => {
+  const { role, name, tool_call_id, tool_calls } = message;
 
   if (role === "tool" || role === "function") {
     const content = ensureArray(message.content)
@@ -161,6 +169,7 @@ const normalizeMessage = (message: Message) => {
       role,
       name,
       content: contentParts[0].text,
+      ...(tool_calls?.length ? { tool_calls } : {}),
     };
   }
 
@@ -168,10 +177,11 @@ const normalizeMessage = (message: Message) => {
     role,
     name,
     content: contentParts,
+    ...(tool_calls?.length ? { tool_calls } : {}),
   };
 };
 
-const normalizeToolChoice = (
+export const normalizeToolChoice = (
   toolChoice: ToolChoice | undefined,
   tools: Tool[] | undefined
 ): "none" | "auto" | ToolChoiceExplicit | undefined => {
@@ -210,25 +220,7 @@ const normalizeToolChoice = (
   return toolChoice;
 };
 
-const assertApiKey = () => {
-  if (!ENV.googleGeminiApiKey) {
-    throw new Error("GOOGLE_GEMINI_API_KEY must be configured");
-  }
-};
-
-// Initialize Gemini client (singleton)
-let geminiClient: GoogleGenerativeAI | null = null;
-
-const getGeminiClient = (): GoogleGenerativeAI => {
-  if (geminiClient) {
-    return geminiClient;
-  }
-  assertApiKey();
-  geminiClient = new GoogleGenerativeAI(ENV.googleGeminiApiKey);
-  return geminiClient;
-};
-
-const normalizeResponseFormat = ({
+export const normalizeResponseFormat = ({
   responseFormat,
   response_format,
   outputSchema,
@@ -273,247 +265,119 @@ const normalizeResponseFormat = ({
   };
 };
 
-export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
-  assertApiKey();
 
+// ============================================
+// 供應商註冊表
+// ============================================
+
+export const LLM_PROVIDER_IDS = ["gemini", "openai", "local"] as const;
+export type LlmProviderId = (typeof LLM_PROVIDER_IDS)[number];
+
+/**
+ * 正規化後交給供應商的請求
+ */
+export interface LlmRequest {
+  messages: Message[];
+  tools?: Tool[];
+  toolChoice?: "none" | "auto" | ToolChoiceExplicit;
+  responseFormat?: ResponseFormat;
+  maxTokens?: number;
+  timeoutMs: number;
+  signal: AbortSignal;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly name: string;
+  /** 是否支援工具呼叫（不支援時，帶 tools 的請求會跳過此供應商） */
+  readonly supportsTools: boolean;
+  /** 是否已設定（API Key / 端點），未設定的供應商不會出現在備援順序中 */
+  isConfigured(): boolean;
+  invoke(request: LlmRequest): Promise<InvokeResult>;
+}
+
+// 延遲載入各供應商，避免未使用的 SDK 在啟動時就被載入
+const PROVIDER_LOADERS: Record<LlmProviderId, () => Promise<LlmProvider>> = {
+  gemini: async () => (await import("./llmGemini")).geminiProvider,
+  openai: async () => (await import("./llmOpenAI")).openAIProvider,
+  local: async () => (await import("./llmOpenAI")).localLlmProvider,
+};
+
+export function isLlmProviderId(value: unknown): value is LlmProviderId {
+  return typeof value === "string" && (LLM_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * 解析 LLM_PROVIDERS（逗號分隔，依序備援），忽略未知或重複的項目
+ */
+export function parseProviderOrder(value: string): LlmProviderId[] {
+  const ids = value
+    .split(",")
+    .map(id => id.trim().toLowerCase())
+    .filter(isLlmProviderId);
+  const unique = Array.from(new Set(ids));
+  return unique.length > 0 ? unique : ["gemini"];
+}
+
+/**
+ * 取得已設定的供應商（依備援順序）
+ */
+export async function getLlmProviderChain(): Promise<LlmProvider[]> {
+  const providers = await Promise.all(parseProviderOrder(ENV.llmProviders).map(id => PROVIDER_LOADERS[id]()));
+  return providers.filter(provider => provider.isConfigured());
+}
+
+export async function invokeLLM(params: InvokeParams): Promise<InvokeResult> {
   const {
     messages,
     tools,
     toolChoice,
     tool_choice,
+    maxTokens,
+    max_tokens,
     outputSchema,
     output_schema,
     responseFormat,
     response_format,
+    timeoutMs = ENV.llmTimeoutMs,
+    providers,
   } = params;
 
-  // Use Google Gemini API
-  const normalizedResponseFormat = normalizeResponseFormat({
-    responseFormat,
-    response_format,
-    outputSchema,
-    output_schema,
-  });
-
-  // Convert messages to Gemini format
-  const geminiMessages = messages.map(msg => {
-    const normalized = normalizeMessage(msg);
-    const content = typeof normalized.content === "string" 
-      ? normalized.content 
-      : JSON.stringify(normalized.content);
-    
-    // Gemini uses different role names
-    let role = normalized.role;
-    if (role === "system") {
-      // System messages need to be converted to user messages with special formatting
-      return {
-        role: "user" as const,
-        parts: [{ text: `[系統指令] ${content}` }],
-      };
-    }
-    
-    return {
-      role: role === "assistant" ? "model" : "user" as "user" | "model",
-      parts: [{ text: content }],
-    };
-  });
-
-  // Build request payload
-  const payload: any = {
-    contents: geminiMessages,
-    generationConfig: {
-      temperature: 0.7,
-      maxOutputTokens: 4096, // Reduced for faster response
-    },
+  const request: Omit<LlmRequest, "signal"> = {
+    messages,
+    tools: tools?.length ? tools : undefined,
+    toolChoice: normalizeToolChoice(toolChoice || tool_choice, tools),
+    responseFormat: normalizeResponseFormat({ responseFormat, response_format, outputSchema, output_schema }),
+    maxTokens: maxTokens || max_tokens,
+    timeoutMs,
   };
 
-  // Gemini 2.0+ supports responseMimeType for structured output
-  if (normalizedResponseFormat?.type === "json_object" || normalizedResponseFormat?.type === "json_schema") {
-    // Use responseMimeType for structured JSON output (Gemini 2.0+)
-    payload.generationConfig.responseMimeType = "application/json";
-    
-    // Also add instruction to return JSON in the prompt for better compatibility
-    const lastMessage = geminiMessages[geminiMessages.length - 1];
-    if (lastMessage && lastMessage.role === "user" && lastMessage.parts) {
-      const lastPart = lastMessage.parts[lastMessage.parts.length - 1];
-      if (lastPart && "text" in lastPart) {
-        lastPart.text = `${lastPart.text}\n\n請以 JSON 格式回應。`;
-      }
-    }
+  const chain = (await getLlmProviderChain()).filter(provider => !providers || providers.includes(provider.id));
+  if (chain.length === 0) {
+    throw new Error(`LLM invoke failed: no LLM provider is configured (LLM_PROVIDERS=${ENV.llmProviders}${providers ? `, required: ${providers.join(",")}` : ""}). Please set GOOGLE_GEMINI_API_KEY, OPENAI_API_KEY or LOCAL_LLM_BASE_URL.`);
   }
 
-  // Use official SDK instead of direct REST API calls
-  const client = getGeminiClient();
-  
-  // Note: Gemini 1.5 series was deprecated in September 2025
-  // Use Gemini 2.x series models
-  // 優先使用穩定版本，實驗版本可能不在免費層
-  const modelNames = [
-    "gemini-2.0-flash", // 穩定版本，優先使用
-    "gemini-1.5-pro-latest", // Fallback
-    "gemini-2.0-flash-exp", // 實驗版本，最後嘗試（可能不在免費層）
-  ];
-  
-  let lastError: Error | null = null;
-  let usedModel = "";
-  let result: InvokeResult | null = null;
-  
-  for (const modelName of modelNames) {
+  const failures: string[] = [];
+  for (const provider of chain) {
+    if (request.tools && !provider.supportsTools) {
+      console.warn(`[LLM] Skipping ${provider.name}: tool calls are not supported`);
+      continue;
+    }
+
     try {
-      console.log(`[LLM] Trying model: ${modelName}`);
-      
-      // Build generation config with optional responseMimeType
-      const generationConfig: any = {
-        temperature: 0.7,
-        maxOutputTokens: 4096,
-      };
-      
-      // Add responseMimeType for JSON output (Gemini 2.0+)
-      if (normalizedResponseFormat?.type === "json_object" || normalizedResponseFormat?.type === "json_schema") {
-        generationConfig.responseMimeType = "application/json";
-      }
-      
-      const model = client.getGenerativeModel({ 
-        model: modelName,
-        generationConfig,
-      });
-      
-      // Use generateContent instead of chat for simpler API
-      // Combine all messages into a single prompt
-      const prompt = geminiMessages.map(msg => {
-        const text = msg.parts.map(p => p.text).join(" ");
-        return msg.role === "model" ? `Assistant: ${text}` : `User: ${text}`;
-      }).join("\n\n");
-      
-      const response = await model.generateContent(prompt);
-      const responseText = response.response.text();
-      
-      if (!responseText) {
-        throw new Error("Gemini 未返回內容");
-      }
-      
-      usedModel = modelName;
-      console.log(`[LLM] Successfully using model: ${modelName}`);
-      
-      // Convert SDK response to our format
-      result = {
-        id: `gemini-${Date.now()}`,
-        created: Math.floor(Date.now() / 1000),
-        model: modelName,
-        choices: [{
-          index: 0,
-          message: {
-            role: "assistant" as Role,
-            content: responseText,
-          },
-          finish_reason: response.response.candidates?.[0]?.finishReason || null,
-        }],
-        usage: response.response.usageMetadata ? {
-          prompt_tokens: response.response.usageMetadata.promptTokenCount || 0,
-          completion_tokens: response.response.usageMetadata.candidatesTokenCount || 0,
-          total_tokens: response.response.usageMetadata.totalTokenCount || 0,
-        } : undefined,
-      };
-      
-      break;
-    } catch (error: any) {
-      const errorMessage = error.message || String(error);
-      console.warn(`[LLM] Model ${modelName} failed:`, errorMessage);
-      lastError = error instanceof Error ? error : new Error(String(error));
-      
-      // 處理速率限制錯誤（429）- 嘗試下一個模型或等待重試
-      if (errorMessage.includes("429") || 
-          errorMessage.includes("quota") || 
-          errorMessage.includes("rate limit") ||
-          errorMessage.includes("Too Many Requests")) {
-        console.warn(`[LLM] Rate limit exceeded for ${modelName}, trying next model...`);
-        
-        // 如果是第一個模型（穩定版本）也遇到速率限制，等待後重試
-        if (modelName === "gemini-2.0-flash") {
-          // 提取重試延遲時間
-          const retryDelayMatch = errorMessage.match(/retry in ([\d.]+)s/i);
-          if (retryDelayMatch) {
-            const delaySeconds = Math.ceil(parseFloat(retryDelayMatch[1]));
-            console.log(`[LLM] Waiting ${delaySeconds} seconds before retry...`);
-            await new Promise(resolve => setTimeout(resolve, delaySeconds * 1000));
-            
-            // 重試一次
-            try {
-              const model = client.getGenerativeModel({ 
-                model: modelName,
-                generationConfig: {
-                  temperature: 0.7,
-                  maxOutputTokens: 4096,
-                },
-              });
-              
-              const prompt = geminiMessages.map(msg => {
-                const text = msg.parts.map(p => p.text).join(" ");
-                return msg.role === "model" ? `Assistant: ${text}` : `User: ${text}`;
-              }).join("\n\n");
-              
-              const response = await model.generateContent(prompt);
-              const responseText = response.response.text();
-              
-              if (responseText) {
-                usedModel = modelName;
-                console.log(`[LLM] Successfully using model: ${modelName} after retry`);
-                
-                result = {
-                  id: `gemini-${Date.now()}`,
-                  created: Math.floor(Date.now() / 1000),
-                  model: modelName,
-                  choices: [{
-                    index: 0,
-                    message: {
-                      role: "assistant" as Role,
-                      content: responseText,
-                    },
-                    finish_reason: response.response.candidates?.[0]?.finishReason || null,
-                  }],
-                  usage: response.response.usageMetadata ? {
-                    prompt_tokens: response.response.usageMetadata.promptTokenCount || 0,
-                    completion_tokens: response.response.usageMetadata.candidatesTokenCount || 0,
-                    total_tokens: response.response.usageMetadata.totalTokenCount || 0,
-                  } : undefined,
-                };
-                
-                break;
-              }
-            } catch (retryError) {
-              // 重試也失敗，繼續嘗試下一個模型
-              console.warn(`[LLM] Retry also failed for ${modelName}, trying next model...`);
-              continue;
-            }
-          } else {
-            // 沒有重試延遲資訊，直接嘗試下一個模型
-            continue;
-          }
-        } else {
-          // 其他模型遇到速率限制，直接嘗試下一個
-          continue;
-        }
-      }
-      
-      // 如果是 404 或模型不存在錯誤，嘗試下一個模型
-      if (errorMessage.includes("404") || 
-          errorMessage.includes("not found") || 
-          errorMessage.includes("NOT_FOUND")) {
-        continue;
-      }
-      
-      // 對於其他錯誤，如果是第一個模型失敗，嘗試下一個；否則拋出
-      if (modelName === modelNames[0]) {
-        continue; // 第一個模型失敗，嘗試下一個
-      } else {
-        throw error; // 其他模型失敗，拋出錯誤
+      const result = await provider.invoke({ ...request, signal: AbortSignal.timeout(timeoutMs) });
+      if (failures.length > 0) {
+        console.log(`[LLM] ✅ Fell back to ${provider.name} (${result.model})`);
       }
+      return result;
+    } catch (error) {
+      const message = error instanceof Error && error.name === "TimeoutError"
+        ? `timed out after ${timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      console.warn(`[LLM] ⚠️  ${provider.name} failed: ${message}`);
+      failures.push(`${provider.id}: ${message}`);
     }
   }
-  
-  if (!result) {
-    throw new Error(`LLM invoke failed: All models failed. Last error: ${lastError?.message}. Please check GOOGLE_GEMINI_API_KEY is correctly set in Railway.`);
-  }
-  
-  return result;
+
+  throw new Error(`LLM invoke failed: all providers failed. ${failures.join(" | ") || "No provider supports this request"}`);
 }
@@ -0,0 +1,245 @@
+/**
+ * Gemini LLM 供應商
+ * 使用官方 SDK：system 訊息轉為 systemInstruction、工具轉為 functionDeclarations、
+ * JSON Schema 轉為 responseSchema；額度用盡或模型不存在時依 GEMINI_MODELS 順序改用下一個模型
+ */
+
+import {
+  FunctionCallingMode,
+  GoogleGenerativeAI,
+  type Content,
+  type FunctionDeclaration,
+  type GenerationConfig,
+  type Part,
+  type ToolConfig,
+} from "@google/generative-ai";
+import { ENV } from "./env";
+import {
+  ensureArray,
+  type InvokeResult,
+  type LlmProvider,
+  type LlmRequest,
+  type Message,
+  type Role,
+  type ToolCall,
+} from "./llm";
+
+// Gemini responseSchema 支援的欄位（OpenAPI 子集），其餘如 additionalProperties 會被拒絕
+const SCHEMA_KEYS = ["type", "format", "description", "nullable", "enum", "items", "properties", "required", "minItems", "maxItems"];
+
+/**
+ * 將 JSON Schema 轉為 Gemini 支援的格式
+ */
+export function toGeminiSchema(schema: unknown): any {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return schema;
+  }
+
+  const source = schema as Record<string, unknown>;
+  const result: Record<string, unknown> = {};
+  for (const key of SCHEMA_KEYS) {
+    if (source[key] === undefined) continue;
+    if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(source.properties as Record<string, unknown>).map(([name, value]) => [name, toGeminiSchema(value)])
+      );
+    } else if (key === "items") {
+      result.items = toGeminiSchema(source.items);
+    } else {
+      result[key] = source[key];
+    }
+  }
+
+  // ["string", "null"] → type: "string", nullable: true
+  if (Array.isArray(source.type)) {
+    const types = source.type.filter(type => type !== "null");
+    result.type = types[0];
+    if (types.length < source.type.length) {
+      result.nullable = true;
+    }
+  }
+  return result;
+}
+
+function textOf(message: Message): string {
+  return ensureArray(message.content)
+    .map(part => {
+      if (typeof part === "string") return part;
+      if (part.type === "text") return part.text;
+      return JSON.stringify(part);
+    })
+    .join("\n");
+}
+
+function parseArguments(value: string): object {
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * 轉換訊息：system 合併為 systemInstruction，其餘轉為 Gemini 的 contents
+ */
+export function toGeminiContents(messages: Message[]): { systemInstruction?: string; contents: Content[] } {
+  const systemTexts: string[] = [];
+  const contents: Content[] = [];
+  // tool 訊息需要對應的函式名稱，從先前的 tool_calls 查回
+  const toolNames = new Map<string, string>();
+
+  for (const message of messages) {
+    if (message.role === "system") {
+      systemTexts.push(textOf(message));
+      continue;
+    }
+
+    if (message.role === "tool" || message.role === "function") {
+      const name = message.name || (message.tool_call_id && toolNames.get(message.tool_call_id)) || "tool";
+      contents.push({
+        role: "function",
+        parts: [{ functionResponse: { name, response: { content: textOf(message) } } }],
+      });
+      continue;
+    }
+
+    const parts: Part[] = [];
+    const text = textOf(message);
+    if (text) {
+      parts.push({ text });
+    }
+    for (const call of message.tool_calls || []) {
+      toolNames.set(call.id, call.function.name);
+      parts.push({ functionCall: { name: call.function.name, args: parseArguments(call.function.arguments) } });
+    }
+    contents.push({ role: message.role === "assistant" ? "model" : "user", parts: parts.length > 0 ? parts : [{ text: "" }] });
+  }
+
+  return {
+    systemInstruction: systemTexts.length > 0 ? systemTexts.join("\n\n") : undefined,
+    contents,
+  };
+}
+
+function toToolConfig(toolChoice: LlmRequest["toolChoice"]): ToolConfig | undefined {
+  if (!toolChoice) return undefined;
+  if (toolChoice === "none") return { functionCallingConfig: { mode: FunctionCallingMode.NONE } };
+  if (toolChoice === "auto") return { functionCallingConfig: { mode: FunctionCallingMode.AUTO } };
+  return {
+    functionCallingConfig: {
+      mode: FunctionCallingMode.ANY,
+      allowedFunctionNames: [toolChoice.function.name],
+    },
+  };
+}
+
+function isModelUnavailable(message: string): boolean {
+  return /429|quota|rate limit|Too Many Requests|RESOURCE_EXHAUSTED|404|not found|NOT_FOUND/i.test(message);
+}
+
+let geminiClient: GoogleGenerativeAI | null = null;
+
+const getGeminiClient = (): GoogleGenerativeAI => {
+  if (!geminiClient) {
+    geminiClient = new GoogleGenerativeAI(ENV.googleGeminiApiKey);
+  }
+  return geminiClient;
+};
+
+export const geminiProvider: LlmProvider = {
+  id: "gemini",
+  name: "Gemini",
+  supportsTools: true,
+
+  isConfigured() {
+    return !!ENV.googleGeminiApiKey;
+  },
+
+  async invoke(request: LlmRequest): Promise<InvokeResult> {
+    const { systemInstruction, contents } = toGeminiContents(request.messages);
+
+    const generationConfig: GenerationConfig = {
+      temperature: 0.7,
+      maxOutputTokens: request.maxTokens || 4096,
+    };
+    if (request.responseFormat?.type === "json_object" || request.responseFormat?.type === "json_schema") {
+      generationConfig.responseMimeType = "application/json";
+    }
+    if (request.responseFormat?.type === "json_schema") {
+      generationConfig.responseSchema = toGeminiSchema(request.responseFormat.json_schema.schema);
+    }
+
+    const functionDeclarations: FunctionDeclaration[] | undefined = request.tools?.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters ? toGeminiSchema(tool.function.parameters) : undefined,
+    }));
+
+    const modelNames = ENV.geminiModels.split(",").map(name => name.trim()).filter(Boolean);
+    let lastError: Error | null = null;
+
+    for (const modelName of modelNames) {
+      try {
+        console.log(`[LLM] Trying Gemini model: ${modelName}`);
+        const model = getGeminiClient().getGenerativeModel({
+          model: modelName,
+          generationConfig,
+          ...(systemInstruction && { systemInstruction }),
+          ...(functionDeclarations && { tools: [{ functionDeclarations }] }),
+          ...(request.tools && { toolConfig: toToolConfig(request.toolChoice) }),
+        });
+
+        const response = await model.generateContent(
+          { contents },
+          { timeout: request.timeoutMs, signal: request.signal }
+        );
+        const responseText = response.response.text();
+        const functionCalls = response.response.functionCalls() || [];
+
+        if (!responseText && functionCalls.length === 0) {
+          throw new Error("Gemini 未返回內容");
+        }
+
+        const toolCalls: ToolCall[] = functionCalls.map((call, index) => ({
+          id: `call_${Date.now()}_${index}`,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.args || {}) },
+        }));
+
+        console.log(`[LLM] Successfully using Gemini model: ${modelName}`);
+        return {
+          id: `gemini-${Date.now()}`,
+          created: Math.floor(Date.now() / 1000),
+          model: modelName,
+          choices: [{
+            index: 0,
+            message: {
+              role: "assistant" as Role,
+              content: responseText,
+              ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+            },
+            finish_reason: toolCalls.length > 0 ? "tool_calls" : response.response.candidates?.[0]?.finishReason || null,
+          }],
+          usage: response.response.usageMetadata ? {
+            prompt_tokens: response.response.usageMetadata.promptTokenCount || 0,
+            completion_tokens: response.response.usageMetadata.candidatesTokenCount || 0,
+            total_tokens: response.response.usageMetadata.totalTokenCount || 0,
+          } : undefined,
+        };
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        // 已逾時就不再嘗試其他模型，交給下一個供應商
+        if (request.signal.aborted) {
+          throw lastError;
+        }
+        console.warn(`[LLM] Gemini model ${modelName} failed:`, lastError.message);
+        if (!isModelUnavailable(lastError.message)) {
+          throw lastError;
+        }
+      }
+    }
+
+    throw new Error(`All Gemini models failed. Last error: ${lastError?.message}`);
+  },
+};
@@ -0,0 +1,127 @@
+/**
+ * OpenAI 相容 LLM 供應商
+ * 適用 OpenAI 及任何相容 /chat/completions 的端點（OpenRouter、Groq、本機 Ollama / llama.cpp 等）
+ */
+
+import { ENV } from "./env";
+import {
+  normalizeMessage,
+  type InvokeResult,
+  type LlmProvider,
+  type LlmProviderId,
+  type LlmRequest,
+  type ResponseFormat,
+} from "./llm";
+
+export interface OpenAICompatibleConfig {
+  id: LlmProviderId;
+  name: string;
+  baseUrl: () => string;
+  apiKey: () => string;
+  model: () => string;
+  /** 端點支援 response_format json_schema；不支援時改用 json_object 並把 schema 附在提示詞中 */
+  supportsJsonSchema: boolean;
+  /** 未設定 API Key 也可使用（本機伺服器） */
+  keyOptional?: boolean;
+}
+
+/**
+ * 端點不支援 json_schema 時改為 json_object，並把 schema 加到 system 訊息
+ */
+export function downgradeJsonSchema(request: LlmRequest): { messages: LlmRequest["messages"]; responseFormat?: ResponseFormat } {
+  const format = request.responseFormat;
+  if (format?.type !== "json_schema") {
+    return { messages: request.messages, responseFormat: format };
+  }
+
+  const instruction = `請只輸出符合以下 JSON Schema 的 JSON，不要加任何說明或 markdown：\n${JSON.stringify(format.json_schema.schema)}`;
+  return {
+    messages: [{ role: "system", content: instruction }, ...request.messages],
+    responseFormat: { type: "json_object" },
+  };
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LlmProvider {
+  return {
+    id: config.id,
+    name: config.name,
+    supportsTools: true,
+
+    isConfigured() {
+      return !!config.baseUrl() && (config.keyOptional || !!config.apiKey());
+    },
+
+    async invoke(request: LlmRequest): Promise<InvokeResult> {
+      const { messages, responseFormat } = config.supportsJsonSchema
+        ? { messages: request.messages, responseFormat: request.responseFormat }
+        : downgradeJsonSchema(request);
+      const model = config.model();
+
+      const body: Record<string, unknown> = {
+        model,
+        messages: messages.map(normalizeMessage),
+        temperature: 0.7,
+        max_tokens: request.maxTokens || 4096,
+      };
+      if (request.tools) {
+        body.tools = request.tools;
+        if (request.toolChoice) body.tool_choice = request.toolChoice;
+      }
+      if (responseFormat) {
+        body.response_format = responseFormat;
+      }
+
+      const apiKey = config.apiKey();
+      const response = await fetch(`${config.baseUrl().replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify(body),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "");
+        throw new Error(`${config.name} API error (HTTP ${response.status}): ${errorText.substring(0, 300)}`);
+      }
+
+      const result = (await response.json()) as InvokeResult;
+      const message = result.choices?.[0]?.message;
+      if (!message || (!message.content && !message.tool_calls?.length)) {
+        throw new Error(`${config.name} 未返回內容`);
+      }
+
+      console.log(`[LLM] Successfully using ${config.name} model: ${result.model || model}`);
+      return {
+        ...result,
+        model: result.model || model,
+        choices: result.choices.map(choice => ({
+          ...choice,
+          message: { ...choice.message, content: choice.message.content ?? "" },
+        })),
+      };
+    },
+  };
+}
+
+export const openAIProvider = createOpenAICompatibleProvider({
+  id: "openai",
+  name: "OpenAI",
+  baseUrl: () => ENV.openaiBaseUrl,
+  apiKey: () => ENV.openaiApiKey,
+  model: () => ENV.openaiModel,
+  supportsJsonSchema: true,
+});
+
+export const localLlmProvider = createOpenAICompatibleProvider({
+  id: "local",
+  name: "Local LLM",
+  baseUrl: () => ENV.localLlmBaseUrl,
+  apiKey: () => ENV.localLlmApiKey,
+  model: () => ENV.localLlmModel,
+  // Ollama / llama.cpp 對 json_schema 的支援依版本而異，統一使用 json_object
+  supportsJsonSchema: false,
+  keyOptional: true,
+});
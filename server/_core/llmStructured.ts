@@ -0,0 +1,148 @@
+/**
+ * 結構化 LLM 輸出
+ * 以 zod schema 描述期望的 JSON，呼叫時同時作為 response_format 送出；
+ * 回應無法解析或不符合 schema 時，把驗證錯誤回饋給模型要求修正（有次數上限），
+ * 最終仍失敗時拋出 LLM_INVOKE_FAILED 的 AppError
+ */
+
+import { z } from "zod";
+import { AppError, ErrorCode } from "./errorHandler";
+import { invokeLLM, type InvokeParams, type InvokeResult, type Message } from "./llm";
+
+export interface StructuredOptions
+  extends Omit<InvokeParams, "messages" | "outputSchema" | "output_schema" | "responseFormat" | "response_format"> {
+  /** response_format 中的 schema 名稱 */
+  name?: string;
+  /** 驗證失敗後要求模型修正的次數上限 */
+  maxRepairs?: number;
+}
+
+// 預設修正次數（含第一次呼叫最多呼叫 LLM 3 次）
+const DEFAULT_MAX_REPAIRS = 2;
+// 回饋給模型的驗證錯誤數量上限
+const MAX_REPORTED_ISSUES = 10;
+
+/**
+ * 從模型回應中取出 JSON：移除 markdown 代碼塊與控制字元，擷取第一個物件或陣列
+ */
+export function extractJson(text: string): string {
+  const cleaned = text
+    .replace(/```(?:json)?/gi, "")
+    // 保留 \t \n \r，其餘控制字元會讓 JSON.parse 失敗
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]/g, "");
+
+  const firstBrace = cleaned.indexOf("{");
+  const firstBracket = cleaned.indexOf("[");
+  const isArray = firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace);
+  const start = isArray ? firstBracket : firstBrace;
+  const end = isArray ? cleaned.lastIndexOf("]") : cleaned.lastIndexOf("}");
+
+  if (start !== -1 && end > start) {
+    return cleaned.substring(start, end + 1);
+  }
+  return cleaned.trim();
+}
+
+/**
+ * 將 zod 驗證錯誤整理成給模型看的條列
+ */
+export function formatValidationIssues(error: z.ZodError): string {
+  const lines = error.issues.slice(0, MAX_REPORTED_ISSUES).map(issue => {
+    const path = issue.path.length > 0 ? issue.path.join(".") : "(root)";
+    return `- ${path}: ${issue.message}`;
+  });
+  if (error.issues.length > MAX_REPORTED_ISSUES) {
+    lines.push(`- …另有 ${error.issues.length - MAX_REPORTED_ISSUES} 個錯誤`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * 將 zod schema 轉為送給供應商的 JSON Schema
+ */
+export function toResponseSchema(schema: z.ZodType): Record<string, unknown> {
+  const { $schema: _ignored, ...jsonSchema } = z.toJSONSchema(schema, { io: "input", unrepresentable: "any" });
+  return jsonSchema;
+}
+
+function responseText(result: InvokeResult): string {
+  const content = result.choices[0]?.message?.content;
+  if (!content) return "";
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+type ParseOutcome<T> = { success: true; data: T } | { success: false; problem: string };
+
+function parseResponse<T>(schema: z.ZodType<T>, text: string): ParseOutcome<T> {
+  if (!text.trim()) {
+    return { success: false, problem: "回應是空的" };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(extractJson(text));
+  } catch (error) {
+    return { success: false, problem: `不是有效的 JSON（${error instanceof Error ? error.message : String(error)}）` };
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { success: false, problem: `不符合要求的格式：\n${formatValidationIssues(result.error)}` };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * 呼叫 LLM 並回傳通過 schema 驗證的結果
+ */
+export async function invokeStructured<T>(
+  schema: z.ZodType<T>,
+  messages: Message[],
+  options: StructuredOptions = {}
+): Promise<T> {
+  const { name = "structured_output", maxRepairs = DEFAULT_MAX_REPAIRS, ...params } = options;
+  const responseFormat = {
+    type: "json_schema" as const,
+    json_schema: { name, schema: toResponseSchema(schema) },
+  };
+
+  const conversation = [...messages];
+  let problem = "";
+
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    let result: InvokeResult;
+    try {
+      result = await invokeLLM({ ...params, messages: conversation, responseFormat });
+    } catch (error) {
+      const cause = error instanceof Error ? error : new Error(String(error));
+      throw new AppError(ErrorCode.LLM_INVOKE_FAILED, cause.message, { schema: name, attempts: attempt + 1 }, cause);
+    }
+
+    const text = responseText(result);
+    const outcome = parseResponse(schema, text);
+    if (outcome.success) {
+      if (attempt > 0) {
+        console.log(`[LLM] ✅ ${name} passed validation after ${attempt} repair(s)`);
+      }
+      return outcome.data;
+    }
+
+    problem = outcome.problem;
+    console.warn(`[LLM] ⚠️  ${name} attempt ${attempt + 1}/${maxRepairs + 1} invalid: ${problem.split("\n").join(" ").substring(0, 300)}`);
+
+    // 把模型的回應與錯誤帶回對話，要求修正
+    conversation.push(
+      { role: "assistant", content: text },
+      {
+        role: "user",
+        content: `你上一個回應${problem}\n\n請修正上述問題，只輸出符合 JSON Schema 的 JSON，不要加任何說明或 markdown 代碼塊。`,
+      }
+    );
+  }
+
+  throw new AppError(
+    ErrorCode.LLM_INVOKE_FAILED,
+    `LLM 回應格式不正確（${name}，已嘗試 ${maxRepairs + 1} 次）：${problem}`,
+    { schema: name, attempts: maxRepairs + 1 }
+  );
+}
@@ -5,6 +5,16 @@ import type { TrpcContext } from "./context";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
+  sse: {
+    // 定期送出 ping，避免代理伺服器切斷閒置的 SSE 連線
+    ping: {
+      enabled: true,
+      intervalMs: 15_000,
+    },
+    client: {
+      reconnectAfterInactivityMs: 30_000,
+    },
+  },
 });
 
 export const router = t.router;
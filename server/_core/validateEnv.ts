@@ -32,8 +32,12 @@ export function validateEnvironmentVariables(): ValidationResult {
   }
 
   // 檢查 API Keys（至少需要一個 LLM 和一個轉錄服務）
-  if (!ENV.googleGeminiApiKey || ENV.googleGeminiApiKey.trim() === "") {
-    missing.push("GOOGLE_GEMINI_API_KEY");
+  const hasLlm =
+    !!ENV.googleGeminiApiKey.trim() ||
+    !!ENV.openaiApiKey.trim() ||
+    !!ENV.localLlmBaseUrl.trim();
+  if (!hasLlm) {
+    missing.push("GOOGLE_GEMINI_API_KEY（或 OPENAI_API_KEY / LOCAL_LLM_BASE_URL）");
   }
 
   if (!ENV.assemblyaiApiKey || ENV.assemblyaiApiKey.trim() === "") {
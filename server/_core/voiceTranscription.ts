@@ -29,8 +29,9 @@ import { AssemblyAI } from 'assemblyai';
 
 export type TranscribeOptions = {
   audioUrl: string; // URL to the audio file (e.g., S3 URL)
-  language?: string; // Optional: specify language code (e.g., "en", "es", "zh")
+  language?: string; // Optional: specify language code (e.g., "en", "es", "zh"); detected automatically when omitted
   prompt?: string; // Optional: custom prompt for the transcription
+  vocabulary?: string[]; // Optional: terms to boost (product names, acronyms, people's names)
 };
 
 // AssemblyAI segment format (compatible with Whisper format)
@@ -126,15 +127,23 @@ export async function transcribeAudio(
     
     // Step 3: Submit transcription job
     // AssemblyAI can directly accept URLs, so we don't need to download the file
+    // 未指定語言時讓 AssemblyAI 自動偵測（否則預設為英文，中文音訊會轉錄成亂碼）
+    const languageCode = mapLanguageCode(options.language);
     const transcriptParams: any = {
       audio: options.audioUrl,
-      language_code: mapLanguageCode(options.language) || undefined,
+      ...(languageCode ? { language_code: languageCode } : { language_detection: true }),
     };
     
     // Add prompt if provided (AssemblyAI uses "prompt" parameter)
     if (options.prompt) {
       transcriptParams.prompt = options.prompt;
     }
+
+    // Boost recognition of known terms (from the user's pronunciation lexicon)
+    if (options.vocabulary && options.vocabulary.length > 0) {
+      transcriptParams.word_boost = options.vocabulary;
+      transcriptParams.boost_param = "high";
+    }
     
     console.log(`[AssemblyAI] Submitting transcription job...`);
     // AssemblyAI SDK automatically handles polling and returns the completed transcript
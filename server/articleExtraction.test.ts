@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { extractArticle } from "./services/articleExtractionService";
+
+const paragraph = (text: string) => `<p>${text.repeat(6)}</p>`;
+
+const articleBody = [
+  paragraph("城市裡的自行車道在過去十年增加了三倍，通勤族的習慣也跟著改變。"),
+  paragraph("研究人員追蹤了五千名騎乘者，發現短程通勤的碳排放明顯下降。"),
+  paragraph("不過，停車空間不足與路口設計仍然是許多人卻步的原因。"),
+].join("\n");
+
+function page(head: string, body: string): string {
+  return `<!DOCTYPE html><html><head><title>頁面標題 | 新聞網</title>${head}</head><body>
+    <nav class="menu"><a href="/">首頁</a><a href="/news">新聞</a></nav>
+    ${body}
+    <footer>© 新聞網</footer>
+  </body></html>`;
+}
+
+describe("extractArticle", () => {
+  it("should extract the body and read metadata from JSON-LD", () => {
+    const html = page(
+      `<script type="application/ld+json">${JSON.stringify({
+        "@context": "https://schema.org",
+        "@graph": [
+          { "@type": "WebSite", name: "新聞網" },
+          {
+            "@type": "NewsArticle",
+            headline: "自行車道改變通勤",
+            author: [{ "@type": "Person", name: "王小明" }, { "@type": "Person", name: "李小華" }],
+            datePublished: "2026-10-01T08:00:00+08:00",
+          },
+        ],
+      })}</script>`,
+      `<article><h1>自行車道改變通勤</h1>${articleBody}</article>`
+    );
+
+    const result = extractArticle(html, "https://news.example.com/bike");
+
+    expect(result.title).toBe("自行車道改變通勤");
+    expect(result.author).toBe("王小明、李小華");
+    expect(result.publishedAt?.toISOString()).toBe("2026-10-01T00:00:00.000Z");
+    expect(result.blocked).toBeUndefined();
+    expect(result.content).toContain("研究人員追蹤了五千名騎乘者");
+    expect(result.content).not.toContain("首頁");
+    // 段落之間以空行分隔
+    expect(result.content.split("\n\n").length).toBeGreaterThanOrEqual(3);
+  });
+
+  it("should fall back to OpenGraph and meta tags", () => {
+    const html = page(
+      `<meta property="og:title" content="OG 標題">
+       <meta property="article:author" content="https://news.example.com/authors/wang">
+       <meta name="author" content="王小明">
+       <meta property="article:published_time" content="2026-09-30">`,
+      `<article>${articleBody}</article>`
+    );
+
+    const result = extractArticle(html, "https://news.example.com/bike");
+
+    expect(result.title).toBe("OG 標題");
+    expect(result.author).toBe("王小明");
+    expect(result.publishedAt?.toISOString().slice(0, 10)).toBe("2026-09-30");
+  });
+
+  it("should detect paywalled previews", () => {
+    const html = page(
+      `<script type="application/ld+json">{"@type": "NewsArticle", "headline": "獨家報導", "isAccessibleForFree": "False"}</script>`,
+      `<article>${paragraph("這是一段試閱內容。")}<div class="paywall-prompt">Subscribe to continue reading</div></article>`
+    );
+
+    expect(extractArticle(html, "https://news.example.com/exclusive").blocked).toBe("paywall");
+  });
+
+  it("should detect cookie walls with no readable content", () => {
+    const html = page("", `<div id="cookie-consent"><p>We use cookies to improve your experience.</p><button>Accept all cookies</button></div>`);
+
+    const result = extractArticle(html, "https://news.example.com/consent");
+
+    expect(result.blocked).toBe("cookie_wall");
+    expect(result.content.length).toBeLessThan(200);
+  });
+
+  it("should not flag full articles that mention cookies in the footer", () => {
+    const html = page("", `<article>${articleBody}</article><div class="cookie-banner">We use cookies.</div>`);
+
+    const result = extractArticle(html, "https://news.example.com/bike");
+
+    expect(result.blocked).toBeUndefined();
+    expect(result.content.length).toBeGreaterThan(200);
+  });
+});
@@ -3,13 +3,62 @@
  * 抓取網頁內容並轉換為 Podcast 所需的格式
  */
 
-import { invokeLLM } from "./_core/llm";
+import { z } from "zod";
+import { AppError, ErrorCode } from "./_core/errorHandler";
+import { invokeStructured } from "./_core/llmStructured";
 import { processTextToPodcast } from "./textService";
+import type { AnalysisOptions } from "./services/summarizationService";
+import { extractArticle, MIN_ARTICLE_CHARS, type ArticleBlockReason } from "./services/articleExtractionService";
+
+const articleExtractionSchema = z.object({
+  title: z.string().describe("文章標題"),
+  content: z.string().min(1).describe("文章內容"),
+});
+
+export interface ArticleContent {
+  title: string;
+  content: string;
+  author: string | null;
+  publishedAt: Date | null;
+}
+
+const WALL_MESSAGES: Record<ArticleBlockReason, string> = {
+  paywall: "此文章需要付費訂閱才能閱讀全文，請改用「文字」輸入貼上文章內容",
+  cookie_wall: "此網頁需要先同意 Cookie 才能顯示內容，請改用「文字」輸入貼上文章內容",
+};
+
+/**
+ * 移除 HTML 中與正文無關的大區塊，讓送給 LLM 的 50,000 字元涵蓋更多內容
+ */
+function stripNonContentHtml(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg|iframe)\b[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/\s{2,}/g, " ");
+}
+
+/**
+ * 使用 LLM 從 HTML 中提取文章內容和標題（本機擷取失敗時使用）
+ */
+async function extractArticleWithLLM(html: string): Promise<{ title: string; content: string }> {
+  const extracted = await invokeStructured(articleExtractionSchema, [
+    {
+      role: "system",
+      content: "你是一個專業的網頁內容提取專家。請從 HTML 中提取文章的標題和主要內容，移除廣告、導航欄、側邊欄等無關內容。請以 JSON 格式回傳，包含 title 和 content 兩個欄位。"
+    },
+    {
+      role: "user",
+      content: `請從以下 HTML 中提取文章的標題和主要內容，以 JSON 格式回傳 {"title": "標題", "content": "內容"}\uff1a\n\n${stripNonContentHtml(html).substring(0, 50000)}` // 限制長度避免超過 token 限制
+    }
+  ], { name: "article_extraction" });
+  return { title: extracted.title, content: extracted.content };
+}
 
 /**
  * 從網頁 URL 抓取文章內容
+ * 先在本機以 Readability 擷取正文與 metadata，內容不足時才交給 LLM
  */
-async function fetchArticleContent(url: string): Promise<{ title: string; content: string }> {
+export async function fetchArticleContent(url: string): Promise<ArticleContent> {
   console.log(`[ArticleService] Fetching article from: ${url}`);
 
   try {
@@ -25,74 +74,65 @@ async function fetchArticleContent(url: string): Promise<{ title: string; conten
 
     const html = await response.text();
 
-    // 使用 LLM 從 HTML 中提取文章內容和標題
-    const extractResponse = await invokeLLM({
-      messages: [
-        {
-          role: "system",
-          content: "你是一個專業的網頁內容提取專家。請從 HTML 中提取文章的標題和主要內容，移除廣告、導航欄、側邊欄等無關內容。請以 JSON 格式回傳，包含 title 和 content 兩個欄位。"
-        },
-        {
-          role: "user",
-          content: `請從以下 HTML 中提取文章的標題和主要內容，以 JSON 格式回傳 {"title": "標題", "content": "內容"}\uff1a\n\n${html.substring(0, 50000)}` // 限制長度避免超過 token 限制
-        }
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "article_extraction",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              title: { type: "string", description: "文章標題" },
-              content: { type: "string", description: "文章內容" },
-            },
-            required: ["title", "content"],
-            additionalProperties: false,
-          },
-        },
-      },
-    });
-
-    const messageContent = extractResponse.choices[0]?.message?.content;
-    if (!messageContent || typeof messageContent !== 'string') {
-      throw new Error('Failed to extract article content');
+    const extraction = extractArticle(html, url);
+    if (extraction.blocked) {
+      console.warn(`[ArticleService] ⚠️  Article blocked by ${extraction.blocked}: ${url}`);
+      throw new AppError(ErrorCode.CONTENT_UNAVAILABLE, WALL_MESSAGES[extraction.blocked], { url, reason: extraction.blocked });
     }
 
-    const extracted = JSON.parse(messageContent);
-    const articleTitle = extracted.title || '文章 Podcast';
-    const articleContent = extracted.content || '';
+    let articleTitle = extraction.title;
+    let articleContent = extraction.content;
+    if (articleContent.length >= MIN_ARTICLE_CHARS) {
+      console.log(`[ArticleService] Extracted locally with Readability`);
+    } else {
+      console.log(`[ArticleService] Local extraction found ${articleContent.length} characters, falling back to LLM`);
+      const extracted = await extractArticleWithLLM(html);
+      articleTitle = articleTitle || extracted.title;
+      articleContent = extracted.content;
+    }
 
     if (!articleContent || articleContent.length < 100) {
       throw new Error('Failed to extract article content');
     }
 
     console.log(`[ArticleService] Article extracted - Title: ${articleTitle}, Content: ${articleContent.length} characters`);
-    return { title: articleTitle, content: articleContent };
+    return {
+      title: articleTitle || '文章 Podcast',
+      content: articleContent,
+      author: extraction.author || null,
+      publishedAt: extraction.publishedAt || null,
+    };
 
   } catch (error) {
     console.error(`[ArticleService] Failed to fetch article:`, error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`無法抓取文章內容：${error instanceof Error ? error.message : '未知錯誤'}`);
   }
 }
 
 /**
  * 處理文章網址，生成摘要和 Podcast 腳本
+ * 另外回傳原文的作者與發佈日期
  */
-export async function processArticleToPodcast(articleUrl: string) {
+export async function processArticleToPodcast(articleUrl: string, options: AnalysisOptions = {}) {
   console.log(`[ArticleService] Processing article URL: ${articleUrl}`);
 
-  // 抓取文章內容和標題
-  const { title, content } = await fetchArticleContent(articleUrl);
+  // 抓取文章內容、標題、作者與發佈日期
+  const { title, content, author, publishedAt } = await fetchArticleContent(articleUrl);
 
   // 使用文字處理服務處理文章內容
-  const result = await processTextToPodcast(content);
+  const result = await processTextToPodcast(content, options, "article");
 
   // 使用從網頁提取的標題覆蓋 LLM 生成的標題
   result.title = title;
 
   console.log(`[ArticleService] Article processing completed`);
 
-  return result;
+  return {
+    ...result,
+    sourceAuthor: author, // 原文作者與發佈日期（單集說明使用）
+    sourcePublishedAt: publishedAt,
+  };
 }
@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import type { PodcastTask } from "../drizzle/schema";
+import { parseYoutubeCollectionUrl } from "@shared/youtubeUrl";
+import * as db from "./db";
+import * as jobQueue from "./services/jobQueueService";
+import { requeueFailedTask, summarizeBatch } from "./services/batchService";
+
+vi.mock("./db", () => ({
+  getLatestJobByRef: vi.fn(),
+  transitionPodcastTaskStatus: vi.fn(),
+}));
+
+vi.mock("./services/jobQueueService", () => ({
+  enqueueJob: vi.fn(),
+}));
+
+vi.mock("./services/progressService", () => ({
+  updateProgress: vi.fn(),
+}));
+
+describe("parseYoutubeCollectionUrl", () => {
+  it("should detect playlists", () => {
+    expect(parseYoutubeCollectionUrl("https://www.youtube.com/playlist?list=PL123abc&si=x")).toEqual({
+      type: "playlist",
+      url: "https://www.youtube.com/playlist?list=PL123abc",
+    });
+  });
+
+  it("should detect channels and default to the videos tab", () => {
+    expect(parseYoutubeCollectionUrl("https://youtube.com/@someone")?.url).toBe("https://www.youtube.com/@someone/videos");
+    expect(parseYoutubeCollectionUrl("https://m.youtube.com/channel/UCabc/streams")?.url).toBe(
+      "https://www.youtube.com/channel/UCabc/streams"
+    );
+    expect(parseYoutubeCollectionUrl("https://www.youtube.com/c/name/featured")?.type).toBe("channel");
+  });
+
+  it("should treat single videos as non-collections", () => {
+    expect(parseYoutubeCollectionUrl("https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PL123abc")).toBeNull();
+    expect(parseYoutubeCollectionUrl("https://youtu.be/dQw4w9WgXcQ")).toBeNull();
+    expect(parseYoutubeCollectionUrl("not a url")).toBeNull();
+  });
+});
+
+describe("summarizeBatch", () => {
+  it("should count finished items as complete progress", () => {
+    const summary = summarizeBatch([
+      { status: "completed", progressPercent: 100 },
+      { status: "failed", progressPercent: 30 },
+      { status: "processing", progressPercent: 50 },
+      { status: "pending", progressPercent: 0 },
+    ]);
+
+    expect(summary).toMatchObject({ total: 4, completed: 1, failed: 1, processing: 1, pending: 1, finished: false });
+    expect(summary.percent).toBe(63);
+  });
+
+  it("should be finished when every item completed or failed", () => {
+    expect(summarizeBatch([{ status: "completed", progressPercent: 100 }, { status: "failed", progressPercent: 0 }]).finished).toBe(true);
+    expect(summarizeBatch([]).finished).toBe(false);
+  });
+});
+
+describe("requeueFailedTask", () => {
+  it("should enqueue only the request that moves the task out of failed", async () => {
+    const task = { id: 5, checkpointStage: "content" } as PodcastTask;
+    vi.mocked(db.getLatestJobByRef).mockResolvedValue({ payload: JSON.stringify({ taskId: 5 }) } as any);
+    vi.mocked(db.transitionPodcastTaskStatus).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    const results = await Promise.all([requeueFailedTask(task), requeueFailedTask(task)]);
+
+    expect(results).toEqual(["requeued", "not_failed"]);
+    expect(db.transitionPodcastTaskStatus).toHaveBeenCalledWith(5, "failed", { status: "pending", errorMessage: null });
+    expect(jobQueue.enqueueJob).toHaveBeenCalledTimes(1);
+    expect(jobQueue.enqueueJob).toHaveBeenCalledWith("podcast", 5, { taskId: 5 }, { paused: undefined });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { parseSubtitles, selectCaptionTrack } from "./services/captionService";
+
+describe("parseSubtitles", () => {
+  it("should parse SRT cues into transcript segments", () => {
+    const srt = "1\r\n00:00:01,000 --> 00:00:03,500\r\n大家好，<i>歡迎收聽</i>\r\n\r\n2\r\n00:01:02,250 --> 00:01:05,000\r\n今天聊 AI &amp; 音樂\r\n第二行\r\n";
+
+    const segments = parseSubtitles(srt, "srt");
+
+    expect(segments).toHaveLength(2);
+    expect(segments[0]).toMatchObject({ id: 0, start: 1, end: 3.5, text: "大家好，歡迎收聽", tokens: [] });
+    expect(segments[1]).toMatchObject({ id: 1, start: 62.25, end: 65, text: "今天聊 AI & 音樂 第二行" });
+  });
+
+  it("should drop repeated lines from YouTube rolling auto captions", () => {
+    const vtt = [
+      "WEBVTT",
+      "Kind: captions",
+      "Language: en",
+      "",
+      "00:00:00.000 --> 00:00:02.000 align:start position:0%",
+      "hello<00:00:00.500><c> everyone</c>",
+      "",
+      "00:00:02.000 --> 00:00:02.010 align:start position:0%",
+      "hello everyone",
+      "",
+      "00:00:02.010 --> 00:00:04.000 align:start position:0%",
+      "hello everyone",
+      "welcome<00:00:02.500><c> to</c><00:00:03.000><c> the show</c>",
+      "",
+      "1:00:04.000 --> 1:00:05.000",
+      "goodbye",
+    ].join("\n");
+
+    const segments = parseSubtitles(vtt, "vtt");
+
+    expect(segments.map(segment => segment.text)).toEqual(["hello everyone", "welcome to the show", "goodbye"]);
+    expect(segments[1].start).toBe(2.01);
+    expect(segments[2].start).toBe(3604);
+  });
+});
+
+describe("selectCaptionTrack", () => {
+  it("should prefer manual subtitles in the original language", () => {
+    expect(selectCaptionTrack({
+      language: "ja",
+      subtitles: { live_chat: [], en: [], ja: [] },
+      automatic_captions: { "ja-orig": [] },
+    })).toEqual({ language: "ja", automatic: false });
+
+    expect(selectCaptionTrack({
+      subtitles: { fr: [], "zh-TW": [] },
+    })).toEqual({ language: "zh-TW", automatic: false });
+  });
+
+  it("should only use auto captions in the original language", () => {
+    expect(selectCaptionTrack({
+      language: "en",
+      automatic_captions: { fr: [], "en-orig": [], en: [] },
+    })).toEqual({ language: "en-orig", automatic: true });
+
+    expect(selectCaptionTrack({
+      language: "en-US",
+      automatic_captions: { fr: [], en: [] },
+    })).toEqual({ language: "en", automatic: true });
+
+    expect(selectCaptionTrack({
+      language: "ko",
+      automatic_captions: { fr: [], en: [] },
+    })).toBeNull();
+  });
+});
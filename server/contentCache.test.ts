@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import * as db from "./db";
+import { ENV } from "./_core/env";
+import {
+  analysisVariantKey,
+  getCachedAnalysis,
+  getCachedTranscript,
+  saveCachedTranscript,
+  textCacheSource,
+  youtubeCacheSource,
+} from "./services/contentCacheService";
+import { BUILTIN_STYLE_PROMPTS } from "./services/promptTemplateService";
+import type { ContentCacheEntry } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getContentCacheEntry: vi.fn(),
+  recordContentCacheHit: vi.fn(),
+  saveContentCacheEntry: vi.fn(),
+}));
+
+vi.mock("./storage", () => ({
+  storageGet: vi.fn(async (key: string) => ({ key, url: `https://cdn.example.com/${key}?signature=fresh` })),
+}));
+
+function makeEntry(overrides: Partial<ContentCacheEntry>): ContentCacheEntry {
+  return {
+    id: 7,
+    sourceType: "youtube",
+    sourceKey: "dQw4w9WgXcQ",
+    variantKey: "",
+    title: "影片標題",
+    transcription: "逐字稿",
+    segments: null,
+    language: "en",
+    duration: 212,
+    audioFileKey: null,
+    summary: null,
+    podcastScript: null,
+    hitCount: 0,
+    expiresAt: new Date("2026-11-18T00:00:00Z"),
+    createdAt: new Date("2026-10-19T00:00:00Z"),
+    updatedAt: new Date("2026-10-19T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("contentCacheService", () => {
+  const originalTtl = ENV.contentCacheTtlDays;
+
+  beforeEach(() => {
+    ENV.contentCacheTtlDays = 30;
+    vi.mocked(db.getContentCacheEntry).mockReset().mockResolvedValue(undefined);
+    vi.mocked(db.recordContentCacheHit).mockReset().mockResolvedValue(undefined);
+    vi.mocked(db.saveContentCacheEntry).mockReset().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    ENV.contentCacheTtlDays = originalTtl;
+  });
+
+  it("should key text by content hash and analysis by its options", () => {
+    expect(textCacheSource("text", " 同一份內容\n").key).toBe(textCacheSource("text", "同一份內容").key);
+    expect(textCacheSource("text", "內容").key).toMatch(/^[0-9a-f]{64}$/);
+
+    const [casual, educational] = BUILTIN_STYLE_PROMPTS;
+    const base = analysisVariantKey({ style: casual, mode: "medium", language: "zh-TW" });
+    expect(analysisVariantKey({ style: casual })).toBe(base);
+    expect(analysisVariantKey({ style: educational })).not.toBe(base);
+    expect(analysisVariantKey({ style: casual, language: "en" })).not.toBe(base);
+    expect(analysisVariantKey({ style: { ...casual, scriptPrompt: "改過的模板" } })).not.toBe(base);
+  });
+
+  it("should return cached transcripts with their segments and count the hit", async () => {
+    vi.mocked(db.getContentCacheEntry).mockResolvedValueOnce(makeEntry({
+      segments: JSON.stringify([{ start: 0, end: 2.5, text: "逐字稿" }]),
+    }));
+
+    const transcript = await getCachedTranscript(youtubeCacheSource("dQw4w9WgXcQ"));
+
+    expect(db.getContentCacheEntry).toHaveBeenCalledWith("youtube", "dQw4w9WgXcQ", "");
+    expect(transcript).toMatchObject({ text: "逐字稿", language: "en", duration: 212, title: "影片標題" });
+    expect(transcript?.segments).toEqual([{ start: 0, end: 2.5, text: "逐字稿" }]);
+    expect(db.recordContentCacheHit).toHaveBeenCalledWith(7);
+  });
+
+  it("should only treat entries with a summary and script as cached analysis", async () => {
+    vi.mocked(db.getContentCacheEntry).mockResolvedValueOnce(makeEntry({ summary: "摘要", podcastScript: null }));
+    expect(await getCachedAnalysis(youtubeCacheSource("dQw4w9WgXcQ"), {})).toBeNull();
+  });
+
+  it("should store compact segments with an expiry based on the TTL", async () => {
+    await saveCachedTranscript(youtubeCacheSource("dQw4w9WgXcQ"), {
+      text: "hello",
+      segments: [{ start: 0, end: 1, text: "hello", tokens: [1, 2], avg_logprob: -0.1 } as any],
+      language: "en",
+      duration: 61.6,
+      audioUrl: "https://cdn.example.com/a.mp3",
+      audioFileKey: "podcast-audio/a.mp3",
+    });
+
+    const saved = vi.mocked(db.saveContentCacheEntry).mock.calls[0][0];
+    expect(saved).toMatchObject({ sourceType: "youtube", sourceKey: "dQw4w9WgXcQ", variantKey: "", duration: 62 });
+    expect(JSON.parse(saved.segments!)).toEqual([{ start: 0, end: 1, text: "hello" }]);
+    const ttlDays = (saved.expiresAt.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(ttlDays).toBeGreaterThan(29.9);
+    expect(ttlDays).toBeLessThanOrEqual(30);
+    // 只保存儲存路徑，不保存會過期的簽章網址
+    expect(saved).toMatchObject({ audioFileKey: "podcast-audio/a.mp3" });
+    expect(saved).not.toHaveProperty("audioUrl");
+  });
+
+  it("should re-sign the audio URL of cached entries on read", async () => {
+    vi.mocked(db.getContentCacheEntry).mockResolvedValueOnce(makeEntry({ audioFileKey: "podcast-audio/a.mp3" }));
+
+    const transcript = await getCachedTranscript(youtubeCacheSource("dQw4w9WgXcQ"));
+
+    expect(transcript).toMatchObject({
+      audioUrl: "https://cdn.example.com/podcast-audio/a.mp3?signature=fresh",
+      audioFileKey: "podcast-audio/a.mp3",
+    });
+  });
+
+  it("should bypass the cache when disabled or when the database fails", async () => {
+    ENV.contentCacheTtlDays = 0;
+    expect(await getCachedTranscript(youtubeCacheSource("dQw4w9WgXcQ"))).toBeNull();
+    expect(db.getContentCacheEntry).not.toHaveBeenCalled();
+
+    ENV.contentCacheTtlDays = 30;
+    vi.mocked(db.getContentCacheEntry).mockRejectedValueOnce(new Error("connection lost"));
+    expect(await getCachedTranscript(youtubeCacheSource("dQw4w9WgXcQ"))).toBeNull();
+  });
+});
@@ -326,6 +326,27 @@ export async function updatePodcastTask(
   await db.update(podcastTasks).set(updates).where(eq(podcastTasks.id, taskId));
 }
 
+/**
+ * 僅在任務仍處於指定狀態時更新（用於核准、重試等只能執行一次的狀態轉換）
+ * @returns 是否更新成功（false 代表已被其他請求搶先轉換）
+ */
+export async function transitionPodcastTaskStatus(
+  taskId: number,
+  fromStatus: PodcastTask["status"],
+  updates: Partial<Omit<PodcastTask, "id" | "userId" | "createdAt" | "updatedAt">>
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .update(podcastTasks)
+    .set(updates)
+    .where(and(eq(podcastTasks.id, taskId), eq(podcastTasks.status, fromStatus)));
+  return result.affectedRows === 1;
+}
+
 /**
  * 獲取使用者的所有 podcast 任務
  */
@@ -342,6 +363,43 @@ export async function getUserPodcastTasks(userId: number): Promise<PodcastTask[]
     .orderBy(desc(podcastTasks.createdAt));
 }
 
+export type PodcastTaskProgress = Pick<
+  PodcastTask,
+  "id" | "status" | "progressStage" | "progressPercent" | "progressMessage" | "estimatedTimeRemaining"
+>;
+
+/**
+ * 獲取使用者任務的進度欄位（即時事件輪詢用，不讀取逐字稿與腳本等大欄位）
+ * 範圍為指定狀態的任務，加上 taskIds 指定的任務（不論狀態）
+ */
+export async function getUserPodcastTaskProgress(
+  userId: number,
+  statuses: PodcastTask["status"][],
+  taskIds: number[] = []
+): Promise<PodcastTaskProgress[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  const inScope = taskIds.length > 0
+    ? or(inArray(podcastTasks.status, statuses), inArray(podcastTasks.id, taskIds))
+    : inArray(podcastTasks.status, statuses);
+
+  return await db
+    .select({
+      id: podcastTasks.id,
+      status: podcastTasks.status,
+      progressStage: podcastTasks.progressStage,
+      progressPercent: podcastTasks.progressPercent,
+      progressMessage: podcastTasks.progressMessage,
+      estimatedTimeRemaining: podcastTasks.estimatedTimeRemaining,
+    })
+    .from(podcastTasks)
+    .where(and(eq(podcastTasks.userId, userId), inScope))
+    .orderBy(desc(podcastTasks.createdAt));
+}
+
 /**
  * 獲取單一 podcast 任務
  */
@@ -394,30 +452,48 @@ export async function getVoicePreference(userId: number): Promise<VoicePreferenc
 }
 
 /**
- * 儲存使用者的聲音偏好設定
+ * 讀取偏好設定中依主持人順序的聲音（舊資料只有 host1 / host2 欄位）
+ */
+export function getPreferredVoiceIds(preference: VoicePreference | undefined): string[] {
+  if (!preference) return [];
+  if (preference.hostVoiceIds) {
+    try {
+      const voiceIds = JSON.parse(preference.hostVoiceIds);
+      if (Array.isArray(voiceIds)) {
+        return voiceIds.filter((voiceId): voiceId is string => typeof voiceId === "string" && voiceId.length > 0);
+      }
+    } catch {
+      // 格式錯誤時退回舊欄位
+    }
+  }
+  return [preference.host1VoiceId, preference.host2VoiceId].filter((voiceId): voiceId is string => !!voiceId);
+}
+
+/**
+ * 儲存使用者的聲音偏好設定（依主持人順序）
  */
 export async function saveVoicePreference(
   userId: number,
-  host1VoiceId: string,
-  host2VoiceId: string
+  voiceIds: string[]
 ): Promise<void> {
   const db = await getDb();
   if (!db) {
     throw new Error("Database not available");
   }
 
+  const values = {
+    host1VoiceId: voiceIds[0] || null,
+    host2VoiceId: voiceIds[1] || null,
+    hostVoiceIds: JSON.stringify(voiceIds),
+  };
+
   // 使用 upsert （插入或更新）
   await db
     .insert(voicePreferences)
-    .values({
-      userId,
-      host1VoiceId,
-      host2VoiceId,
-    })
+    .values({ userId, ...values })
     .onDuplicateKeyUpdate({
       set: {
-        host1VoiceId,
-        host2VoiceId,
+        ...values,
         updatedAt: new Date(),
       },
     });
@@ -516,6 +592,9 @@ export async function deletePodcastTask(taskId: number, userId: number): Promise
 
   // 刪除任務（級聯刪除會自動刪除精華片段和虛擬主播影片）
   await db.delete(podcastTasks).where(eq(podcastTasks.id, taskId));
+
+  // 從所有節目中移除該單集（RSS feed 不應再指向已刪除的任務）
+  await db.delete(podcastShowEpisodes).where(eq(podcastShowEpisodes.taskId, taskId));
 }
 
 
@@ -568,6 +647,27 @@ export async function getHighlightAvatarVideos(highlightId: number, userId: numb
     .orderBy(desc(avatarVideoTasks.createdAt));
 }
 
+/**
+ * 取得使用者所有進行中的虛擬主播影片任務
+ */
+export async function getUserActiveAvatarVideoTasks(userId: number): Promise<AvatarVideoTask[]> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  return db
+    .select()
+    .from(avatarVideoTasks)
+    .where(
+      and(
+        eq(avatarVideoTasks.userId, userId),
+        inArray(avatarVideoTasks.status, ["pending", "submitted", "processing"])
+      )
+    )
+    .orderBy(desc(avatarVideoTasks.createdAt));
+}
+
 export async function updateAvatarVideoTask(id: number, updates: Partial<AvatarVideoTask>): Promise<void> {
   const db = await getDb();
   if (!db) {
@@ -576,3 +676,1056 @@ export async function updateAvatarVideoTask(id: number, updates: Partial<AvatarV
 
   await db.update(avatarVideoTasks).set(updates).where(eq(avatarVideoTasks.id, id));
 }
+
+
+// ============================================
+// Job Queue 相關查詢
+// ============================================
+
+import { jobQueue, InsertJob, Job } from "../drizzle/schema";
+import { or, lt, lte, isNull, sql, inArray } from "drizzle-orm";
+
+/**
+ * 新增工作到佇列
+ */
+export async function createJob(job: Omit<InsertJob, "id" | "createdAt" | "updatedAt">): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(jobQueue).values(job);
+  return Number(result[0].insertId);
+}
+
+export async function getJob(jobId: number): Promise<Job | undefined> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.select().from(jobQueue).where(eq(jobQueue.id, jobId)).limit(1);
+  return result[0];
+}
+
+/**
+ * 取得某個任務最新的一筆工作（用於重試時沿用原始參數）
+ */
+export async function getLatestJobByRef(type: Job["type"], refId: number): Promise<Job | undefined> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db
+    .select()
+    .from(jobQueue)
+    .where(and(eq(jobQueue.type, type), eq(jobQueue.refId, refId)))
+    .orderBy(desc(jobQueue.id))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * 變更尚未開始的工作狀態（暫停 / 恢復 / 取消）
+ * @returns 實際更新的筆數
+ */
+export async function updateWaitingJobsStatus(
+  type: Job["type"],
+  refIds: number[],
+  fromStatuses: Job["status"][],
+  toStatus: Job["status"]
+): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  if (refIds.length === 0) {
+    return 0;
+  }
+
+  const [result] = await db
+    .update(jobQueue)
+    .set({ status: toStatus, runAfter: new Date() })
+    .where(
+      and(
+        eq(jobQueue.type, type),
+        inArray(jobQueue.refId, refIds),
+        inArray(jobQueue.status, fromStatuses)
+      )
+    );
+
+  return result.affectedRows;
+}
+
+/**
+ * 可被領取的工作條件：排隊中且已到執行時間，或執行中但租約已過期（worker 中斷）
+ */
+const claimableCondition = (now: Date) =>
+  or(
+    and(eq(jobQueue.status, "queued"), lte(jobQueue.runAfter, now)),
+    and(
+      eq(jobQueue.status, "running"),
+      or(isNull(jobQueue.leaseExpiresAt), lt(jobQueue.leaseExpiresAt, now))
+    )
+  );
+
+/**
+ * 列出目前可被領取的工作 ID（依建立順序）
+ */
+export async function listClaimableJobIds(limit: number): Promise<number[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ id: jobQueue.id })
+    .from(jobQueue)
+    .where(claimableCondition(new Date()))
+    .orderBy(jobQueue.id)
+    .limit(limit);
+
+  return rows.map(row => row.id);
+}
+
+/**
+ * 嘗試領取工作（樂觀鎖：只有在工作仍可被領取時才會更新成功）
+ * @returns 領取成功時回傳最新的工作資料，否則回傳 undefined
+ */
+export async function claimJob(jobId: number, workerId: string, leaseMs: number): Promise<Job | undefined> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const now = new Date();
+  const [result] = await db
+    .update(jobQueue)
+    .set({
+      status: "running",
+      leaseOwner: workerId,
+      leaseExpiresAt: new Date(now.getTime() + leaseMs),
+      heartbeatAt: now,
+      attempts: sql`${jobQueue.attempts} + 1`,
+    })
+    .where(and(eq(jobQueue.id, jobId), claimableCondition(now)));
+
+  if (result.affectedRows !== 1) {
+    return undefined;
+  }
+
+  return getJob(jobId);
+}
+
+/**
+ * 延長工作租約（心跳）
+ * @returns 是否仍持有租約
+ */
+export async function heartbeatJob(jobId: number, workerId: string, leaseMs: number): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    return false;
+  }
+
+  const now = new Date();
+  const [result] = await db
+    .update(jobQueue)
+    .set({
+      leaseExpiresAt: new Date(now.getTime() + leaseMs),
+      heartbeatAt: now,
+    })
+    .where(and(eq(jobQueue.id, jobId), eq(jobQueue.leaseOwner, workerId), eq(jobQueue.status, "running")));
+
+  return result.affectedRows === 1;
+}
+
+/**
+ * 更新工作狀態（釋放租約）
+ * 只有仍持有租約的 worker 能更新，租約過期被接手後的舊 worker 不會覆寫新的執行結果
+ * @returns 是否更新成功
+ */
+export async function finishJob(
+  jobId: number,
+  workerId: string,
+  updates: Pick<Partial<Job>, "status" | "lastError" | "runAfter">
+): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [result] = await db
+    .update(jobQueue)
+    .set({
+      ...updates,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+    })
+    .where(and(eq(jobQueue.id, jobId), eq(jobQueue.leaseOwner, workerId), eq(jobQueue.status, "running")));
+
+  return result.affectedRows === 1;
+}
+
+/**
+ * 將指定 worker 持有的執行中工作放回佇列（用於優雅關閉，呼叫前應先等待或中止執行中的處理器）
+ */
+export async function releaseWorkerJobs(workerId: string): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    return 0;
+  }
+
+  const [result] = await db
+    .update(jobQueue)
+    .set({
+      status: "queued",
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      attempts: sql`GREATEST(${jobQueue.attempts} - 1, 0)`, // 主動釋放不算一次失敗的嘗試
+    })
+    .where(and(eq(jobQueue.status, "running"), eq(jobQueue.leaseOwner, workerId)));
+
+  return result.affectedRows;
+}
+
+/**
+ * 將租約已過期的執行中工作放回佇列（用於啟動時接續中斷的工作）
+ */
+export async function requeueExpiredJobs(): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    return 0;
+  }
+
+  const now = new Date();
+  const [result] = await db
+    .update(jobQueue)
+    .set({
+      status: "queued",
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      runAfter: now,
+    })
+    .where(
+      and(
+        eq(jobQueue.status, "running"),
+        or(isNull(jobQueue.leaseExpiresAt), lt(jobQueue.leaseExpiresAt, now))
+      )
+    );
+
+  return result.affectedRows;
+}
+
+// ============================================
+// Podcast 節目（RSS Feed）相關查詢
+// ============================================
+
+import { podcastShows, podcastShowEpisodes, InsertPodcastShow, PodcastShow, InsertPodcastShowEpisode, PodcastShowEpisode } from "../drizzle/schema";
+
+export async function createShow(show: Omit<InsertPodcastShow, "id" | "createdAt" | "updatedAt">): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(podcastShows).values(show);
+  return Number(result[0].insertId);
+}
+
+export async function updateShow(
+  showId: number,
+  updates: Partial<Omit<PodcastShow, "id" | "userId" | "slug" | "createdAt" | "updatedAt">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(podcastShows).set(updates).where(eq(podcastShows.id, showId));
+}
+
+export async function getUserShows(userId: number): Promise<PodcastShow[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(podcastShows)
+    .where(eq(podcastShows.userId, userId))
+    .orderBy(desc(podcastShows.createdAt));
+}
+
+export async function getShow(showId: number, userId: number): Promise<PodcastShow | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(podcastShows)
+    .where(and(eq(podcastShows.id, showId), eq(podcastShows.userId, userId)))
+    .limit(1);
+
+  return result[0];
+}
+
+/**
+ * 依公開識別碼取得節目（RSS feed 使用，不檢查使用者）
+ */
+export async function getShowBySlug(slug: string): Promise<PodcastShow | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(podcastShows)
+    .where(eq(podcastShows.slug, slug))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function deleteShow(showId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const show = await getShow(showId, userId);
+  if (!show) {
+    throw new Error("Show not found or does not belong to user");
+  }
+
+  await db.delete(podcastShowEpisodes).where(eq(podcastShowEpisodes.showId, showId));
+  await db.delete(podcastShows).where(eq(podcastShows.id, showId));
+}
+
+export async function addShowEpisode(episode: Omit<InsertPodcastShowEpisode, "id" | "createdAt">): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(podcastShowEpisodes).values(episode);
+  return Number(result[0].insertId);
+}
+
+export async function removeShowEpisode(showId: number, taskId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .delete(podcastShowEpisodes)
+    .where(and(eq(podcastShowEpisodes.showId, showId), eq(podcastShowEpisodes.taskId, taskId)));
+}
+
+/**
+ * 取得節目的所有單集（最新發佈的在前，與 RSS 排序一致）
+ */
+export async function getShowEpisodeByGuid(showId: number, guid: string): Promise<PodcastShowEpisode | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(podcastShowEpisodes)
+    .where(and(eq(podcastShowEpisodes.showId, showId), eq(podcastShowEpisodes.guid, guid)))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function getShowEpisodes(showId: number): Promise<PodcastShowEpisode[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(podcastShowEpisodes)
+    .where(eq(podcastShowEpisodes.showId, showId))
+    .orderBy(desc(podcastShowEpisodes.publishedAt));
+}
+
+// ============================================
+// 批次任務相關查詢
+// ============================================
+
+import { podcastBatches, InsertPodcastBatch, PodcastBatch } from "../drizzle/schema";
+
+export async function createBatch(batch: Omit<InsertPodcastBatch, "id" | "createdAt" | "updatedAt">): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(podcastBatches).values(batch);
+  return Number(result[0].insertId);
+}
+
+export async function updateBatch(
+  batchId: number,
+  updates: Partial<Omit<PodcastBatch, "id" | "userId" | "createdAt" | "updatedAt">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(podcastBatches).set(updates).where(eq(podcastBatches.id, batchId));
+}
+
+export async function getBatch(batchId: number, userId: number): Promise<PodcastBatch | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(podcastBatches)
+    .where(and(eq(podcastBatches.id, batchId), eq(podcastBatches.userId, userId)))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function getUserBatches(userId: number): Promise<PodcastBatch[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(podcastBatches)
+    .where(eq(podcastBatches.userId, userId))
+    .orderBy(desc(podcastBatches.createdAt));
+}
+
+/**
+ * 取得批次中的所有任務（依建立順序，與清單順序一致）
+ */
+export async function getBatchTasks(batchId: number): Promise<PodcastTask[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(podcastTasks)
+    .where(eq(podcastTasks.batchId, batchId))
+    .orderBy(podcastTasks.id);
+}
+
+// ============================================
+// 來源訂閱相關查詢
+// ============================================
+
+import { sourceSubscriptions, subscriptionItems, InsertSourceSubscription, SourceSubscription } from "../drizzle/schema";
+
+export async function createSubscription(
+  subscription: Omit<InsertSourceSubscription, "id" | "createdAt" | "updatedAt">
+): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(sourceSubscriptions).values(subscription);
+  return Number(result[0].insertId);
+}
+
+export async function updateSubscription(
+  subscriptionId: number,
+  updates: Partial<Omit<SourceSubscription, "id" | "userId" | "createdAt" | "updatedAt">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(sourceSubscriptions).set(updates).where(eq(sourceSubscriptions.id, subscriptionId));
+}
+
+export async function getSubscription(subscriptionId: number, userId: number): Promise<SourceSubscription | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(sourceSubscriptions)
+    .where(and(eq(sourceSubscriptions.id, subscriptionId), eq(sourceSubscriptions.userId, userId)))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function getUserSubscriptions(userId: number): Promise<SourceSubscription[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(sourceSubscriptions)
+    .where(eq(sourceSubscriptions.userId, userId))
+    .orderBy(desc(sourceSubscriptions.createdAt));
+}
+
+/**
+ * 刪除訂閱（連同去重記錄；已產生的任務保留在作品庫）
+ */
+export async function deleteSubscription(subscriptionId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .delete(sourceSubscriptions)
+    .where(and(eq(sourceSubscriptions.id, subscriptionId), eq(sourceSubscriptions.userId, userId)));
+  await db.delete(subscriptionItems).where(eq(subscriptionItems.subscriptionId, subscriptionId));
+}
+
+/**
+ * 列出已到檢查時間的訂閱 ID
+ */
+export async function listDueSubscriptionIds(limit: number): Promise<number[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ id: sourceSubscriptions.id })
+    .from(sourceSubscriptions)
+    .where(and(eq(sourceSubscriptions.enabled, true), lte(sourceSubscriptions.nextCheckAt, new Date())))
+    .orderBy(sourceSubscriptions.nextCheckAt)
+    .limit(limit);
+
+  return rows.map(row => row.id);
+}
+
+/**
+ * 領取一次訂閱檢查（樂觀鎖：先把下次檢查時間往後推，只有一個實例會更新成功）
+ * @returns 領取成功時回傳訂閱資料，否則回傳 undefined
+ */
+export async function claimSubscriptionCheck(subscriptionId: number): Promise<SourceSubscription | undefined> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const rows = await db.select().from(sourceSubscriptions).where(eq(sourceSubscriptions.id, subscriptionId)).limit(1);
+  const subscription = rows[0];
+  const now = new Date();
+  if (!subscription || !subscription.enabled || subscription.nextCheckAt > now) {
+    return undefined;
+  }
+
+  const nextCheckAt = new Date(now.getTime() + subscription.checkIntervalHours * 60 * 60 * 1000);
+  const [result] = await db
+    .update(sourceSubscriptions)
+    .set({ nextCheckAt })
+    .where(and(
+      eq(sourceSubscriptions.id, subscriptionId),
+      eq(sourceSubscriptions.nextCheckAt, subscription.nextCheckAt)
+    ));
+
+  if (result.affectedRows !== 1) {
+    return undefined;
+  }
+
+  return { ...subscription, nextCheckAt };
+}
+
+/**
+ * 記錄已處理的項目（去重）
+ * @returns 首次出現時回傳 true；同一使用者已處理過則回傳 false
+ */
+export async function recordSubscriptionItem(item: {
+  userId: number;
+  subscriptionId: number;
+  itemKey: string;
+  title?: string | null;
+  taskId?: number | null;
+}): Promise<boolean> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  // 重複時不更新任何欄位，affectedRows 為 0
+  const [result] = await db
+    .insert(subscriptionItems)
+    .values(item)
+    .onDuplicateKeyUpdate({ set: { itemKey: sql`${subscriptionItems.itemKey}` } });
+
+  return result.affectedRows === 1;
+}
+
+/**
+ * 取得使用者已處理過的項目（用於建立任務前先排除）
+ */
+export async function getRecordedSubscriptionItemKeys(userId: number, itemKeys: string[]): Promise<Set<string>> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+  if (itemKeys.length === 0) {
+    return new Set();
+  }
+
+  const rows = await db
+    .select({ itemKey: subscriptionItems.itemKey })
+    .from(subscriptionItems)
+    .where(and(eq(subscriptionItems.userId, userId), inArray(subscriptionItems.itemKey, itemKeys)));
+  return new Set(rows.map(row => row.itemKey));
+}
+
+// ============================================
+// 節目風格提示詞模板相關查詢
+// ============================================
+
+import { promptTemplates, InsertPromptTemplate, PromptTemplate } from "../drizzle/schema";
+
+/**
+ * 取得所有模板版本（依風格、版本新到舊排序）
+ */
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return db
+    .select()
+    .from(promptTemplates)
+    .orderBy(promptTemplates.styleKey, desc(promptTemplates.version));
+}
+
+export async function getPromptTemplate(templateId: number): Promise<PromptTemplate | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db.select().from(promptTemplates).where(eq(promptTemplates.id, templateId)).limit(1);
+  return result[0];
+}
+
+/**
+ * 取得風格目前啟用的模板版本
+ */
+export async function getActivePromptTemplate(styleKey: string): Promise<PromptTemplate | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(promptTemplates)
+    .where(and(eq(promptTemplates.styleKey, styleKey), eq(promptTemplates.isActive, true)))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * 新增模板版本（版本號自動遞增）並設為啟用
+ * @returns 新版本的 ID
+ */
+export async function createPromptTemplateVersion(
+  template: Omit<InsertPromptTemplate, "id" | "version" | "isActive" | "createdAt">
+): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const [latest] = await db
+    .select({ version: sql<number>`max(${promptTemplates.version})` })
+    .from(promptTemplates)
+    .where(eq(promptTemplates.styleKey, template.styleKey));
+
+  // 同時儲存同一風格時，唯一索引 (style_key, version) 會讓較晚的一方失敗
+  const result = await db.insert(promptTemplates).values({
+    ...template,
+    version: Number(latest?.version || 0) + 1,
+    isActive: false,
+  });
+  const templateId = Number(result[0].insertId);
+
+  await activatePromptTemplate(templateId);
+  return templateId;
+}
+
+/**
+ * 啟用指定版本（同一風格的其他版本會停用，可用於回復舊版本）
+ */
+export async function activatePromptTemplate(templateId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const template = await getPromptTemplate(templateId);
+  if (!template) {
+    throw new Error(`Prompt template ${templateId} not found`);
+  }
+
+  await db
+    .update(promptTemplates)
+    .set({ isActive: false })
+    .where(eq(promptTemplates.styleKey, template.styleKey));
+  await db
+    .update(promptTemplates)
+    .set({ isActive: true })
+    .where(eq(promptTemplates.id, templateId));
+}
+
+// ============================================
+// 內容快取相關查詢
+// ============================================
+
+import { contentCache, InsertContentCacheEntry, ContentCacheEntry } from "../drizzle/schema";
+
+/**
+ * 取得未過期的快取項目
+ */
+export async function getContentCacheEntry(
+  sourceType: ContentCacheEntry["sourceType"],
+  sourceKey: string,
+  variantKey: string
+): Promise<ContentCacheEntry | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(contentCache)
+    .where(and(
+      eq(contentCache.sourceType, sourceType),
+      eq(contentCache.sourceKey, sourceKey),
+      eq(contentCache.variantKey, variantKey),
+      sql`${contentCache.expiresAt} > NOW()`
+    ))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * 新增或覆寫快取項目（同一來源與分析參數只保留一筆）
+ */
+export async function saveContentCacheEntry(
+  entry: Omit<InsertContentCacheEntry, "id" | "hitCount" | "createdAt" | "updatedAt">
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    return;
+  }
+
+  const { sourceType: _sourceType, sourceKey: _sourceKey, variantKey: _variantKey, ...updates } = entry;
+  await db.insert(contentCache).values(entry).onDuplicateKeyUpdate({ set: updates });
+}
+
+export async function recordContentCacheHit(entryId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    return;
+  }
+
+  await db
+    .update(contentCache)
+    .set({ hitCount: sql`${contentCache.hitCount} + 1` })
+    .where(eq(contentCache.id, entryId));
+}
+
+/**
+ * 刪除快取項目
+ * @param filter.sourceKey 只刪除指定來源（例如某部影片）的所有項目
+ * @param filter.expiredOnly 只刪除已過期的項目
+ * @returns 刪除的筆數
+ */
+export async function deleteContentCacheEntries(filter: {
+  sourceType?: ContentCacheEntry["sourceType"];
+  sourceKey?: string;
+  expiredOnly?: boolean;
+} = {}): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const conditions = [
+    filter.sourceType ? eq(contentCache.sourceType, filter.sourceType) : undefined,
+    filter.sourceKey ? eq(contentCache.sourceKey, filter.sourceKey) : undefined,
+    filter.expiredOnly ? sql`${contentCache.expiresAt} <= NOW()` : undefined,
+  ].filter(condition => condition !== undefined);
+
+  const [result] = await db
+    .delete(contentCache)
+    .where(conditions.length > 0 ? and(...conditions) : undefined);
+  return result.affectedRows;
+}
+
+/**
+ * 快取統計（依來源類型）
+ */
+export async function getContentCacheStats(): Promise<Array<{
+  sourceType: ContentCacheEntry["sourceType"];
+  entries: number;
+  expired: number;
+  hits: number;
+}>> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      sourceType: contentCache.sourceType,
+      entries: sql<number>`count(*)`,
+      expired: sql<number>`sum(case when ${contentCache.expiresAt} <= NOW() then 1 else 0 end)`,
+      hits: sql<number>`sum(${contentCache.hitCount})`,
+    })
+    .from(contentCache)
+    .groupBy(contentCache.sourceType);
+
+  return rows.map(row => ({
+    sourceType: row.sourceType,
+    entries: Number(row.entries || 0),
+    expired: Number(row.expired || 0),
+    hits: Number(row.hits || 0),
+  }));
+}
+
+// ============================================
+// 節目設定相關查詢
+// ============================================
+
+import { showProfiles, InsertShowProfile, ShowProfile } from "../drizzle/schema";
+
+export async function createShowProfile(profile: Omit<InsertShowProfile, "id" | "createdAt" | "updatedAt">): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(showProfiles).values(profile);
+  return Number(result[0].insertId);
+}
+
+export async function updateShowProfile(
+  profileId: number,
+  updates: Partial<Omit<ShowProfile, "id" | "userId" | "createdAt" | "updatedAt">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(showProfiles).set(updates).where(eq(showProfiles.id, profileId));
+}
+
+export async function getUserShowProfiles(userId: number): Promise<ShowProfile[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(showProfiles)
+    .where(eq(showProfiles.userId, userId))
+    .orderBy(showProfiles.name);
+}
+
+export async function getShowProfile(profileId: number, userId: number): Promise<ShowProfile | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(showProfiles)
+    .where(and(eq(showProfiles.id, profileId), eq(showProfiles.userId, userId)))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function deleteShowProfile(profileId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .delete(showProfiles)
+    .where(and(eq(showProfiles.id, profileId), eq(showProfiles.userId, userId)));
+  // 節目專屬的發音詞條一併刪除
+  await db
+    .delete(pronunciationEntries)
+    .where(and(eq(pronunciationEntries.showProfileId, profileId), eq(pronunciationEntries.userId, userId)));
+}
+
+// ============================================
+// 發音辭典相關查詢
+// ============================================
+
+import { pronunciationEntries, InsertPronunciationEntry, PronunciationEntry } from "../drizzle/schema";
+
+export async function createPronunciationEntry(entry: Omit<InsertPronunciationEntry, "id" | "createdAt" | "updatedAt">): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(pronunciationEntries).values(entry);
+  return Number(result[0].insertId);
+}
+
+export async function updatePronunciationEntry(
+  entryId: number,
+  updates: Partial<Omit<PronunciationEntry, "id" | "userId" | "createdAt" | "updatedAt">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(pronunciationEntries).set(updates).where(eq(pronunciationEntries.id, entryId));
+}
+
+/**
+ * 取得使用者的所有發音詞條（含各節目專屬的詞條）
+ */
+export async function getUserPronunciationEntries(userId: number): Promise<PronunciationEntry[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(pronunciationEntries)
+    .where(eq(pronunciationEntries.userId, userId))
+    .orderBy(pronunciationEntries.term);
+}
+
+export async function getPronunciationEntry(entryId: number, userId: number): Promise<PronunciationEntry | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(pronunciationEntries)
+    .where(and(eq(pronunciationEntries.id, entryId), eq(pronunciationEntries.userId, userId)))
+    .limit(1);
+
+  return result[0];
+}
+
+export async function deletePronunciationEntry(entryId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .delete(pronunciationEntries)
+    .where(and(eq(pronunciationEntries.id, entryId), eq(pronunciationEntries.userId, userId)));
+}
+
+// ============================================
+// 音樂庫相關查詢
+// ============================================
+
+import { musicTracks, InsertMusicTrack, MusicTrack } from "../drizzle/schema";
+
+export async function createMusicTrack(track: Omit<InsertMusicTrack, "id" | "createdAt" | "updatedAt">): Promise<number> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  const result = await db.insert(musicTracks).values(track);
+  return Number(result[0].insertId);
+}
+
+export async function updateMusicTrack(
+  trackId: number,
+  updates: Partial<Pick<MusicTrack, "name" | "license">>
+): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db.update(musicTracks).set(updates).where(eq(musicTracks.id, trackId));
+}
+
+export async function getUserMusicTracks(userId: number): Promise<MusicTrack[]> {
+  const db = await getDb();
+  if (!db) {
+    return [];
+  }
+
+  return await db
+    .select()
+    .from(musicTracks)
+    .where(eq(musicTracks.userId, userId))
+    .orderBy(musicTracks.kind, musicTracks.name);
+}
+
+export async function getMusicTrack(trackId: number, userId: number): Promise<MusicTrack | undefined> {
+  const db = await getDb();
+  if (!db) {
+    return undefined;
+  }
+
+  const result = await db
+    .select()
+    .from(musicTracks)
+    .where(and(eq(musicTracks.id, trackId), eq(musicTracks.userId, userId)))
+    .limit(1);
+
+  return result[0];
+}
+
+/**
+ * 刪除音樂（節目設定中引用此音樂的欄位在套用時會被忽略）
+ */
+export async function deleteMusicTrack(trackId: number, userId: number): Promise<void> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available");
+  }
+
+  await db
+    .delete(musicTracks)
+    .where(and(eq(musicTracks.id, trackId), eq(musicTracks.userId, userId)));
+}
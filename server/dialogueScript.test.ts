@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { invokeStructured } from "./_core/llmStructured";
+import { buildDialogueHosts, generateDialogueScript } from "./services/dialogueScriptService";
+import { BUILTIN_STYLE_PROMPTS } from "./services/promptTemplateService";
+import { HOST_FORMAT_PRESETS } from "@shared/hosts";
+
+vi.mock("./_core/llmStructured", () => ({
+  invokeStructured: vi.fn(),
+}));
+
+const style = BUILTIN_STYLE_PROMPTS[0];
+
+function promptOf(callIndex = 0): string {
+  const [, messages] = vi.mocked(invokeStructured).mock.calls[callIndex];
+  return messages[1].content as string;
+}
+
+describe("dialogueScriptService hosts", () => {
+  beforeEach(() => {
+    vi.mocked(invokeStructured).mockReset();
+  });
+
+  it("should build hosts in order with their voices and personas", () => {
+    const interview = HOST_FORMAT_PRESETS.find(preset => preset.id === "interview")!;
+    const hosts = buildDialogueHosts(interview.hosts, ["v1", "v2", "v3"]);
+
+    expect(hosts.map(host => [host.id, host.name, host.speakerId])).toEqual([
+      ["host1", "主持人", "v1"],
+      ["host2", "來賓 A", "v2"],
+      ["host3", "來賓 B", "v3"],
+    ]);
+    expect(hosts[0].persona).toContain("提問");
+    expect(buildDialogueHosts([{ name: "阿明", persona: "  " }], ["v1"])[0]).not.toHaveProperty("persona");
+  });
+
+  it("should ask for solo narration when there is only one host", async () => {
+    vi.mocked(invokeStructured).mockResolvedValue({ lines: [{ host: 1, content: "大家好，今天聊聊城市交通。" }] });
+
+    const script = await generateDialogueScript("城市交通", {
+      style,
+      hosts: [{ id: "host1", name: "小安", speakerId: "v1" }],
+    });
+
+    expect(promptOf()).toContain("單人主講");
+    expect(promptOf()).toContain("單人獨白節目");
+    expect(script.lines).toEqual([{ hostId: "host1", content: "大家好，今天聊聊城市交通。" }]);
+  });
+
+  it("should include personas and map lines for panels of three or more", async () => {
+    vi.mocked(invokeStructured).mockResolvedValue({
+      lines: [
+        { host: 1, content: "歡迎兩位來賓。" },
+        { host: 3, content: "我補充一點。" },
+        { host: 9, content: "超出範圍的編號歸給最後一位。" },
+      ],
+    });
+
+    const hosts = buildDialogueHosts(HOST_FORMAT_PRESETS.find(preset => preset.id === "interview")!.hosts, ["v1", "v2", "v3"]);
+    const script = await generateDialogueScript("城市交通", { style, hosts });
+
+    expect(promptOf()).toContain("1. 主持人：節目主持人，負責開場");
+    expect(promptOf()).toContain("這是 3 人節目");
+    expect(promptOf()).toContain("符合其人設");
+    expect(script.lines.map(line => line.hostId)).toEqual(["host1", "host3", "host3"]);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import JSZip from "jszip";
+import { parseDocument, selectChapters } from "./services/documentService";
+import { planDocumentEpisodes } from "@shared/document";
+
+/**
+ * 產生含書籤的最小 PDF（每頁一行文字）
+ */
+function buildPdf(pages: string[], outline: { title: string; page: number }[]): Buffer {
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  const outlineId = 4 + pages.length * 2;
+  const itemIds = outline.map((_, i) => outlineId + 1 + i);
+
+  objects[1] = `<< /Type /Catalog /Pages 2 0 R${outline.length ? ` /Outlines ${outlineId} 0 R` : ""} >>`;
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  pages.forEach((text, i) => {
+    const stream = `BT /F1 12 Tf 20 250 Td (${text}) Tj ET`;
+    objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 300 300] /Contents ${pageIds[i] + 1} 0 R /Resources << /Font << /F1 3 0 R >> >> >>`;
+    objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+  if (outline.length) {
+    objects[outlineId] = `<< /Type /Outlines /First ${itemIds[0]} 0 R /Last ${itemIds[itemIds.length - 1]} 0 R /Count ${outline.length} >>`;
+    outline.forEach((item, i) => {
+      const links = [i > 0 ? `/Prev ${itemIds[i - 1]} 0 R` : "", i < outline.length - 1 ? `/Next ${itemIds[i + 1]} 0 R` : ""].join(" ");
+      objects[itemIds[i]] = `<< /Title (${item.title}) /Parent ${outlineId} 0 R ${links} /Dest [${pageIds[item.page]} 0 R /Fit] >>`;
+    });
+  }
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return Buffer.from(pdf, "latin1");
+}
+
+async function buildEpub(): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("mimetype", "application/epub+zip");
+  zip.file("META-INF/container.xml", `<?xml version="1.0"?>
+    <container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+      <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+    </container>`);
+  zip.file("OEBPS/content.opf", `<?xml version="1.0"?>
+    <package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+      <metadata xmlns:dc="http://purl.org/dc/elements/1.1/"><dc:title>海洋簡史</dc:title></metadata>
+      <manifest>
+        <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+        <item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>
+        <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>
+        <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>
+      </manifest>
+      <spine><itemref idref="cover"/><itemref idref="ch2"/><itemref idref="ch1"/></spine>
+    </package>`);
+  zip.file("OEBPS/nav.xhtml", `<html xmlns:epub="http://www.idpf.org/2007/ops"><body>
+      <nav epub:type="toc"><ol>
+        <li><a href="text/ch1.xhtml">第一章 潮汐</a></li>
+        <li><a href="text/ch2.xhtml#start">第二章 洋流</a></li>
+      </ol></nav>
+    </body></html>`);
+  zip.file("OEBPS/text/cover.xhtml", `<html><body><img src="cover.jpg"/></body></html>`);
+  zip.file("OEBPS/text/ch1.xhtml", `<html><body><h1>潮汐</h1><p>月球的引力造成潮汐。</p></body></html>`);
+  zip.file("OEBPS/text/ch2.xhtml", `<html><body><h1 id="start">洋流</h1><p>洋流把熱量帶往高緯度。</p><h2>墨西哥灣流</h2><p>灣流影響歐洲氣候。</p></body></html>`);
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("parseDocument", () => {
+  it("should split Markdown by the first repeated heading level and ignore code fences", async () => {
+    const markdown = [
+      "# 使用手冊",
+      "本手冊說明安裝與設定。",
+      "## 安裝",
+      "執行安裝程式。",
+      "```sh",
+      "# 這不是標題",
+      "npm install",
+      "```",
+      "### 系統需求",
+      "需要 Node.js 20。",
+      "",
+      "設定",
+      "----",
+      "編輯設定檔。",
+    ].join("\n");
+
+    const document = await parseDocument(Buffer.from(markdown), "uploads/1/abc/manual.md");
+
+    expect(document.title).toBe("使用手冊");
+    expect(document.chapters.map(chapter => chapter.title)).toEqual(["前言", "安裝", "設定"]);
+    expect(document.chapters[1].text).toContain("# 這不是標題\nnpm install");
+    expect(document.chapters[1].text).toContain("### 系統需求");
+  });
+
+  it("should follow the EPUB spine, use TOC titles and skip empty documents", async () => {
+    const document = await parseDocument(await buildEpub(), "uploads/1/abc/ocean.epub");
+
+    expect(document.title).toBe("海洋簡史");
+    expect(document.chapters.map(chapter => [chapter.index, chapter.title])).toEqual([[0, "第二章 洋流"], [1, "第一章 潮汐"]]);
+    expect(document.chapters[0].text).toContain("## 墨西哥灣流");
+  });
+
+  it("should split PDFs by their top-level bookmarks", async () => {
+    const pdf = buildPdf(["Cover page", "Tides are caused by the moon", "More on tides", "Currents move heat"], [
+      { title: "Tides", page: 1 },
+      { title: "Currents", page: 3 },
+    ]);
+
+    const document = await parseDocument(pdf, "uploads/1/abc/ocean-notes.pdf");
+
+    expect(document.title).toBe("ocean-notes");
+    expect(document.chapters.map(chapter => chapter.title)).toEqual(["前言", "Tides", "Currents"]);
+    expect(document.chapters[1].text).toBe("Tides are caused by the moon\n\nMore on tides");
+  });
+
+  it("should reject unknown chapter selections", async () => {
+    const document = await parseDocument(Buffer.from("# A\n\n內容一\n\n# B\n\n內容二"), "notes.md");
+
+    expect(selectChapters(document, [1]).map(chapter => chapter.title)).toEqual(["B"]);
+    expect(selectChapters(document).length).toBe(2);
+    expect(() => selectChapters(document, [0, 5])).toThrow("選擇的章節不存在");
+  });
+});
+
+describe("planDocumentEpisodes", () => {
+  it("should group consecutive chapters and give oversized chapters their own episode", () => {
+    const chapters = [
+      { index: 0, charCount: 4000 },
+      { index: 2, charCount: 5000 },
+      { index: 3, charCount: 25000 },
+      { index: 4, charCount: 3000 },
+      { index: 5, charCount: 2000 },
+    ];
+
+    expect(planDocumentEpisodes(chapters, 10000)).toEqual([[0, 2], [3], [4, 5]]);
+    expect(planDocumentEpisodes(chapters, 100000)).toEqual([[0, 2, 3, 4, 5]]);
+    expect(planDocumentEpisodes([])).toEqual([]);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Job } from "../drizzle/schema";
+import * as db from "./db";
+import * as processor from "./services/podcastTaskProcessor";
+import { executeJob, enqueueJob, startJobWorker, stopJobWorker } from "./services/jobQueueService";
+import { ENV } from "./_core/env";
+
+vi.mock("./db", () => ({
+  createJob: vi.fn(),
+  listClaimableJobIds: vi.fn(),
+  claimJob: vi.fn(),
+  heartbeatJob: vi.fn(),
+  finishJob: vi.fn(),
+  releaseWorkerJobs: vi.fn(),
+  requeueExpiredJobs: vi.fn(),
+  updateWaitingJobsStatus: vi.fn(),
+}));
+
+vi.mock("./services/podcastTaskProcessor", () => ({
+  processPodcastTask: vi.fn(),
+  markPodcastTaskRetrying: vi.fn(),
+  markPodcastTaskFailed: vi.fn(),
+}));
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    type: "podcast",
+    refId: 42,
+    payload: JSON.stringify({ taskId: 42, inputContent: "https://youtu.be/dQw4w9WgXcQ" }),
+    status: "running",
+    attempts: 1,
+    maxAttempts: 3,
+    runAfter: new Date(),
+    leaseOwner: "worker",
+    leaseExpiresAt: new Date(),
+    heartbeatAt: new Date(),
+    lastError: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe("jobQueueService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.finishJob).mockResolvedValue(true);
+    vi.mocked(db.heartbeatJob).mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should requeue a failed attempt with backoff and report the retry", async () => {
+    vi.mocked(processor.processPodcastTask).mockRejectedValueOnce(new Error("LLM timeout"));
+
+    await executeJob(makeJob({ attempts: 1 }));
+
+    expect(db.finishJob).toHaveBeenCalledWith(1, expect.any(String), expect.objectContaining({
+      status: "queued",
+      lastError: "LLM timeout",
+      runAfter: expect.any(Date),
+    }));
+    const retryAt = vi.mocked(db.finishJob).mock.calls[0][2].runAfter as Date;
+    expect(retryAt.getTime() - Date.now()).toBeGreaterThan(25_000);
+    expect(processor.markPodcastTaskRetrying).toHaveBeenCalledWith(42, expect.any(Error), retryAt);
+    expect(processor.markPodcastTaskFailed).not.toHaveBeenCalled();
+  });
+
+  it("should mark the task failed once all attempts are used", async () => {
+    const error = new Error("LLM timeout");
+    vi.mocked(processor.processPodcastTask).mockRejectedValueOnce(error);
+
+    await executeJob(makeJob({ attempts: 3 }));
+
+    expect(db.finishJob).toHaveBeenCalledWith(1, expect.any(String), { status: "failed", lastError: "LLM timeout" });
+    expect(processor.markPodcastTaskFailed).toHaveBeenCalledWith(42, error);
+    expect(processor.markPodcastTaskRetrying).not.toHaveBeenCalled();
+  });
+
+  it("should abort the handler and leave the job alone after losing the lease", async () => {
+    vi.useFakeTimers();
+    vi.mocked(db.heartbeatJob).mockResolvedValue(false);
+    vi.mocked(db.finishJob).mockResolvedValue(false);
+    let signal: AbortSignal | undefined;
+    vi.mocked(processor.processPodcastTask).mockImplementationOnce((_options, handlerSignal) => {
+      signal = handlerSignal;
+      return new Promise((_resolve, reject) => {
+        handlerSignal?.addEventListener("abort", () => reject(handlerSignal.reason));
+      });
+    });
+
+    const execution = executeJob(makeJob({ attempts: 3 }));
+    await vi.advanceTimersByTimeAsync(ENV.jobLeaseMs / 3);
+    await execution;
+
+    expect(signal?.aborted).toBe(true);
+    expect(processor.markPodcastTaskFailed).not.toHaveBeenCalled();
+  });
+
+  it("should not exceed concurrency and wait for running jobs before releasing them", async () => {
+    const originalUrl = process.env.DATABASE_URL;
+    process.env.DATABASE_URL = "mysql://test";
+    const resolvers: (() => void)[] = [];
+    vi.mocked(db.requeueExpiredJobs).mockResolvedValue(0);
+    vi.mocked(db.releaseWorkerJobs).mockResolvedValue(0);
+    vi.mocked(db.createJob).mockResolvedValue(9);
+    // 查詢較慢時，多次輪詢會互相重疊
+    vi.mocked(db.listClaimableJobIds).mockImplementation(
+      () => new Promise(resolve => setTimeout(() => resolve([1, 2, 3, 4]), 5))
+    );
+    vi.mocked(db.claimJob).mockImplementation(
+      (jobId) => new Promise(resolve => setTimeout(() => resolve(makeJob({ id: jobId })), 1))
+    );
+    vi.mocked(processor.processPodcastTask).mockImplementation(
+      () => new Promise<void>(resolve => resolvers.push(resolve))
+    );
+
+    try {
+      // 啟動時的輪詢與新增工作觸發的輪詢同時進行
+      await Promise.all([startJobWorker(), enqueueJob("podcast", 42, {}), enqueueJob("podcast", 43, {})]);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(db.claimJob).toHaveBeenCalledTimes(ENV.jobWorkerConcurrency);
+
+      const stopping = stopJobWorker();
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(db.releaseWorkerJobs).not.toHaveBeenCalled();
+
+      resolvers.forEach(resolve => resolve());
+      await stopping;
+      expect(db.releaseWorkerJobs).toHaveBeenCalledTimes(1);
+      expect(db.finishJob).toHaveBeenCalledTimes(ENV.jobWorkerConcurrency);
+    } finally {
+      process.env.DATABASE_URL = originalUrl;
+    }
+  });
+});
@@ -1,6 +1,6 @@
 /**
  * ListenHub API Integration Service
- * 用於生成中文男女對話 Podcast
+ * 用於生成男女對話 Podcast（預設中文，可指定其他語言）
  */
 
 const LISTENHUB_API_BASE = "https://api.marswave.ai/openapi/v1";
@@ -21,7 +21,7 @@ export interface ListenHubSpeaker {
 export interface CreatePodcastRequest {
   query: string; // 內容文字（摘要或腳本）
   speakers: Array<{ speakerId: string }>;
-  language: "zh" | "en";
+  language: string; // zh、en、ja…
   mode: "quick" | "deep" | "debate";
   type?: "podcast" | "flowspeech" | "narration"; // 可能的類型參數
   format?: "dialogue" | "narration" | "flowspeech"; // 可能的格式參數
@@ -43,15 +43,15 @@ export interface PodcastEpisode {
 }
 
 /**
- * 獲取所有可用的聲音列表（包含 Clone 的聲音）
+ * 獲取指定語言的聲音列表（包含 Clone 的聲音）
  */
-export async function getVoices(): Promise<ListenHubSpeaker[]> {
+export async function getVoices(language: string = "zh"): Promise<ListenHubSpeaker[]> {
   if (!API_KEY) {
     throw new Error("ListenHub API Key not configured");
   }
 
   try {
-    const response = await fetch(`${LISTENHUB_API_BASE}/speakers/list?language=zh`, {
+    const response = await fetch(`${LISTENHUB_API_BASE}/speakers/list?language=${encodeURIComponent(language)}`, {
       method: "GET",
       headers: {
         "Authorization": `Bearer ${API_KEY}`,
@@ -110,11 +110,11 @@ export async function getChineseSpeakers(): Promise<ListenHubSpeaker[]> {
 /**
  * 選擇一男一女聲音（用於對話）
  */
-export async function selectMaleFemaleSpeakers(): Promise<{
+export async function selectMaleFemaleSpeakers(language: string = "zh"): Promise<{
   male: ListenHubSpeaker;
   female: ListenHubSpeaker;
 }> {
-  const speakers = await getChineseSpeakers();
+  const speakers = await getVoices(language);
 
   const males = speakers.filter((s) => s.gender === "male");
   const females = speakers.filter((s) => s.gender === "female");
@@ -326,16 +326,20 @@ export async function waitForPodcastCompletion(
 }
 
 /**
- * 一鍵生成中文對話 Podcast
+ * 一鍵生成對話 Podcast
  * @param content 內容文字（摘要或腳本）
  * @param mode 生成模式
  * @param customVoiceIds 自訂聲音 ID（可選）
+ * @param onEpisodeCreated Episode 建立後立即呼叫（可選，用於儲存檢查點以便中斷後接續輪詢）
+ * @param language 對話語言（預設中文）
  * @returns 完成的 Episode（包含音檔 URL）
  */
-export async function generateChinesePodcast(
+export async function generateDialoguePodcast(
   content: string,
   mode: "quick" | "medium" | "deep" = "deep",
-  customVoiceIds?: { host1: string; host2: string }
+  customVoiceIds?: { host1: string; host2: string },
+  onEpisodeCreated?: (episodeId: string) => Promise<void>,
+  language: string = "zh"
 ): Promise<PodcastEpisode> {
   let speakerIds: string[];
   
@@ -347,7 +351,7 @@ export async function generateChinesePodcast(
     );
   } else {
     // 使用預設聲音（一男一女）
-    const { male, female } = await selectMaleFemaleSpeakers();
+    const { male, female } = await selectMaleFemaleSpeakers(language);
     speakerIds = [male.speakerId, female.speakerId];
     console.log(
       `[ListenHub] Selected speakers: ${male.name} (male) and ${female.name} (female)`
@@ -360,12 +364,16 @@ export async function generateChinesePodcast(
   const episodeId = await createPodcastEpisode({
     query: content,
     speakers: speakerIds.map(id => ({ speakerId: id })),
-    language: "zh",
+    language,
     mode: apiMode,
   });
 
   console.log(`[ListenHub] Created episode: ${episodeId}`);
 
+  if (onEpisodeCreated) {
+    await onEpisodeCreated(episodeId);
+  }
+
   // 3. 等待完成
   const episode = await waitForPodcastCompletion(episodeId);
 
@@ -380,11 +388,13 @@ export async function generateChinesePodcast(
  * 
  * @param text 要讀出的文字
  * @param speakerId 主要 speaker ID（會用於生成音訊）
+ * @param language 文字語言（預設中文）
  * @returns 完成的 Episode（包含音檔 URL）
  */
 export async function generateDirectNarration(
   text: string,
-  speakerId: string
+  speakerId: string,
+  language: string = "zh"
 ): Promise<PodcastEpisode> {
   if (!API_KEY) {
     throw new Error("ListenHub API Key not configured");
@@ -490,7 +500,7 @@ ${text}
       const request: CreatePodcastRequest = {
         query: strategy.query,
         speakers: strategy.speakers,
-        language: "zh",
+        language,
         mode: "quick", // 使用 quick 模式以加快速度
       };
       
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as listenHub from "./listenHubService";
+import * as flowSpeech from "./services/flowSpeechService";
+import * as timeline from "./services/timelineService";
+import { listenHubTtsProvider } from "./services/listenHubTtsProvider";
+
+vi.mock("./listenHubService", () => ({
+  createPodcastEpisode: vi.fn(),
+  generateDialoguePodcast: vi.fn(),
+  generateDirectNarration: vi.fn(),
+  getVoices: vi.fn(),
+  waitForPodcastCompletion: vi.fn(),
+}));
+
+vi.mock("./services/flowSpeechService", () => ({
+  generateFlowSpeech: vi.fn(),
+}));
+
+vi.mock("./services/timelineService", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./services/timelineService")>()),
+  getAudioDuration: vi.fn(),
+}));
+
+vi.mock("./services/audioMergeService", () => ({
+  mergeAudioSegments: vi.fn(async () => "/tmp/merged.mp3"),
+}));
+
+vi.mock("./storage", () => ({
+  storagePut: vi.fn(async (key: string) => ({ key, url: `https://cdn.example.com/${key}` })),
+}));
+
+vi.mock("fs/promises", () => ({
+  readFile: vi.fn(async () => Buffer.from("mp3")),
+  unlink: vi.fn(async () => undefined),
+}));
+
+describe("listenHubTtsProvider.synthesizeScript", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(flowSpeech.generateFlowSpeech).mockImplementation(async (text) => ({
+      audioUrl: `https://listenhub.example.com/${encodeURIComponent(text)}.mp3`,
+    }) as Awaited<ReturnType<typeof flowSpeech.generateFlowSpeech>>);
+    vi.mocked(timeline.getAudioDuration).mockResolvedValueOnce(2.5).mockResolvedValueOnce(4);
+  });
+
+  it("should read approved two-host lines word for word and return their timeline", async () => {
+    const lines = [
+      { speakerId: "voice-a", speakerName: "主持人 A", content: "歡迎收聽，今天聊核准過的內容。" },
+      { speakerId: "voice-b", speakerName: "主持人 B", content: "-10 度的天氣也要照稿念。" },
+    ];
+
+    const result = await listenHubTtsProvider.synthesizeScript(lines, { language: "zh" });
+
+    expect(vi.mocked(flowSpeech.generateFlowSpeech).mock.calls).toEqual([
+      ["歡迎收聽，今天聊核准過的內容。", "voice-a", "zh"],
+      ["-10 度的天氣也要照稿念。", "voice-b", "zh"],
+    ]);
+    expect(listenHub.createPodcastEpisode).not.toHaveBeenCalled();
+    expect(result.timeline?.map(line => [line.content, line.startTime, line.endTime])).toEqual([
+      ["歡迎收聽，今天聊核准過的內容。", 0, 2.5],
+      ["-10 度的天氣也要照稿念。", 2.5, 6.5],
+    ]);
+    expect(result.audioKey).toMatch(/^tts\/listenhub\//);
+  });
+});
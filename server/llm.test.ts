@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ENV } from "./_core/env";
+import { invokeLLM, parseProviderOrder, type LlmRequest } from "./_core/llm";
+import { toGeminiContents, toGeminiSchema } from "./_core/llmGemini";
+import { downgradeJsonSchema } from "./_core/llmOpenAI";
+
+const mocks = vi.hoisted(() => ({
+  gemini: vi.fn(),
+  openai: vi.fn(),
+  local: vi.fn(),
+  configured: { gemini: true, openai: true, local: false },
+}));
+
+vi.mock("./_core/llmGemini", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./_core/llmGemini")>()),
+  geminiProvider: {
+    id: "gemini",
+    name: "Gemini",
+    supportsTools: true,
+    isConfigured: () => mocks.configured.gemini,
+    invoke: mocks.gemini,
+  },
+}));
+
+vi.mock("./_core/llmOpenAI", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("./_core/llmOpenAI")>()),
+  openAIProvider: {
+    id: "openai",
+    name: "OpenAI",
+    supportsTools: true,
+    isConfigured: () => mocks.configured.openai,
+    invoke: mocks.openai,
+  },
+  localLlmProvider: {
+    id: "local",
+    name: "Local LLM",
+    supportsTools: false,
+    isConfigured: () => mocks.configured.local,
+    invoke: mocks.local,
+  },
+}));
+
+function reply(model: string) {
+  return {
+    id: "1",
+    created: 0,
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content: "ok" }, finish_reason: "stop" }],
+  };
+}
+
+describe("parseProviderOrder", () => {
+  it("should keep known providers in order without duplicates", () => {
+    expect(parseProviderOrder("openai, Gemini,unknown,openai")).toEqual(["openai", "gemini"]);
+    expect(parseProviderOrder("")).toEqual(["gemini"]);
+  });
+});
+
+describe("invokeLLM provider chain", () => {
+  const originalProviders = ENV.llmProviders;
+
+  beforeEach(() => {
+    mocks.gemini.mockReset();
+    mocks.openai.mockReset();
+    mocks.local.mockReset();
+    mocks.configured.local = false;
+    ENV.llmProviders = "gemini,openai,local";
+  });
+
+  afterEach(() => {
+    ENV.llmProviders = originalProviders;
+  });
+
+  it("should fall back to the next provider when one fails", async () => {
+    mocks.gemini.mockRejectedValueOnce(new Error("429 quota exceeded"));
+    mocks.openai.mockResolvedValueOnce(reply("gpt-4o-mini"));
+
+    const result = await invokeLLM({ messages: [{ role: "user", content: "hi" }] });
+    expect(result.model).toBe("gpt-4o-mini");
+    expect(mocks.gemini).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pass normalized options and a timeout signal to providers", async () => {
+    mocks.gemini.mockResolvedValueOnce(reply("gemini-2.0-flash"));
+
+    await invokeLLM({
+      messages: [{ role: "user", content: "hi" }],
+      tools: [{ type: "function", function: { name: "lookup" } }],
+      tool_choice: "required",
+      output_schema: { name: "answer", schema: { type: "object" } },
+      timeoutMs: 5000,
+    });
+
+    const request: LlmRequest = mocks.gemini.mock.calls[0][0];
+    expect(request.toolChoice).toEqual({ type: "function", function: { name: "lookup" } });
+    expect(request.responseFormat).toEqual({ type: "json_schema", json_schema: { name: "answer", schema: { type: "object" } } });
+    expect(request.timeoutMs).toBe(5000);
+    expect(request.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it("should skip unconfigured providers and providers without tool support", async () => {
+    mocks.configured.local = true;
+    ENV.llmProviders = "local,gemini";
+    mocks.gemini.mockResolvedValueOnce(reply("gemini-2.0-flash"));
+
+    await invokeLLM({
+      messages: [{ role: "user", content: "hi" }],
+      tools: [{ type: "function", function: { name: "lookup" } }],
+    });
+    expect(mocks.local).not.toHaveBeenCalled();
+    expect(mocks.gemini).toHaveBeenCalledTimes(1);
+  });
+
+  it("should report every failure when all providers fail", async () => {
+    mocks.gemini.mockRejectedValueOnce(new Error("quota"));
+    mocks.openai.mockRejectedValueOnce(new Error("HTTP 500"));
+
+    await expect(invokeLLM({ messages: [{ role: "user", content: "hi" }] }))
+      .rejects.toThrow("LLM invoke failed: all providers failed. gemini: quota | openai: HTTP 500");
+  });
+});
+
+describe("Gemini conversion", () => {
+  it("should move system messages to systemInstruction and map tool turns", () => {
+    const { systemInstruction, contents } = toGeminiContents([
+      { role: "system", content: "你是編輯" },
+      { role: "user", content: "查天氣" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "weather", arguments: "{\"city\":\"台北\"}" } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "晴天" },
+    ]);
+
+    expect(systemInstruction).toBe("你是編輯");
+    expect(contents).toEqual([
+      { role: "user", parts: [{ text: "查天氣" }] },
+      { role: "model", parts: [{ functionCall: { name: "weather", args: { city: "台北" } } }] },
+      { role: "function", parts: [{ functionResponse: { name: "weather", response: { content: "晴天" } } }] },
+    ]);
+  });
+
+  it("should strip unsupported JSON Schema keywords", () => {
+    expect(toGeminiSchema({
+      type: "object",
+      additionalProperties: false,
+      properties: {
+        lines: { type: "array", items: { type: "object", additionalProperties: false, properties: { host: { type: "integer" } } } },
+        note: { type: ["string", "null"] },
+      },
+      required: ["lines"],
+    })).toEqual({
+      type: "object",
+      properties: {
+        lines: { type: "array", items: { type: "object", properties: { host: { type: "integer" } } } },
+        note: { type: "string", nullable: true },
+      },
+      required: ["lines"],
+    });
+  });
+});
+
+describe("downgradeJsonSchema", () => {
+  it("should turn json_schema into json_object with the schema in a system message", () => {
+    const result = downgradeJsonSchema({
+      messages: [{ role: "user", content: "hi" }],
+      responseFormat: { type: "json_schema", json_schema: { name: "x", schema: { type: "object" } } },
+      timeoutMs: 1000,
+      signal: new AbortController().signal,
+    });
+
+    expect(result.responseFormat).toEqual({ type: "json_object" });
+    expect(result.messages[0].role).toBe("system");
+    expect(result.messages[0].content).toContain("{\"type\":\"object\"}");
+    expect(result.messages[1]).toEqual({ role: "user", content: "hi" });
+  });
+});
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { z } from "zod";
+import * as llm from "./_core/llm";
+import { AppError, ErrorCode } from "./_core/errorHandler";
+import { extractJson, invokeStructured, toResponseSchema } from "./_core/llmStructured";
+
+vi.mock("./_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+function llmReply(content: string) {
+  return { choices: [{ message: { content } }] } as any;
+}
+
+const schema = z.object({
+  summary: z.string().min(1),
+  tags: z.array(z.string()),
+});
+
+describe("extractJson", () => {
+  it("should strip markdown fences and surrounding text", () => {
+    expect(extractJson("好的：\n```json\n{\"a\": 1}\n```\n以上")).toBe("{\"a\": 1}");
+    expect(extractJson("```\n[1, 2]\n```")).toBe("[1, 2]");
+  });
+});
+
+describe("toResponseSchema", () => {
+  it("should convert the zod schema without the $schema keyword", () => {
+    const jsonSchema = toResponseSchema(schema);
+    expect(jsonSchema.$schema).toBeUndefined();
+    expect(jsonSchema.type).toBe("object");
+    expect(jsonSchema.required).toEqual(["summary", "tags"]);
+  });
+});
+
+describe("invokeStructured", () => {
+  beforeEach(() => {
+    vi.mocked(llm.invokeLLM).mockReset();
+  });
+
+  it("should return parsed data and send the schema as response_format", async () => {
+    vi.mocked(llm.invokeLLM).mockResolvedValueOnce(llmReply("```json\n{\"summary\": \"摘要\", \"tags\": [\"a\"]}\n```"));
+
+    const result = await invokeStructured(schema, [{ role: "user", content: "hi" }], { name: "test_output" });
+
+    expect(result).toEqual({ summary: "摘要", tags: ["a"] });
+    const params = vi.mocked(llm.invokeLLM).mock.calls[0][0];
+    expect(params.responseFormat).toMatchObject({ type: "json_schema", json_schema: { name: "test_output" } });
+  });
+
+  it("should feed validation errors back to the model and retry", async () => {
+    vi.mocked(llm.invokeLLM)
+      .mockResolvedValueOnce(llmReply("{\"summary\": \"\"}"))
+      .mockResolvedValueOnce(llmReply("{\"summary\": \"摘要\", \"tags\": []}"));
+
+    const result = await invokeStructured(schema, [{ role: "user", content: "hi" }]);
+
+    expect(result).toEqual({ summary: "摘要", tags: [] });
+    const repairMessages = vi.mocked(llm.invokeLLM).mock.calls[1][0].messages;
+    expect(repairMessages).toHaveLength(3);
+    expect(repairMessages[1]).toEqual({ role: "assistant", content: "{\"summary\": \"\"}" });
+    expect(repairMessages[2].content).toContain("- summary:");
+    expect(repairMessages[2].content).toContain("- tags:");
+  });
+
+  it("should throw LLM_INVOKE_FAILED after the repair attempts run out", async () => {
+    vi.mocked(llm.invokeLLM).mockResolvedValue(llmReply("不是 JSON"));
+
+    const error = await invokeStructured(schema, [{ role: "user", content: "hi" }], { maxRepairs: 1 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe(ErrorCode.LLM_INVOKE_FAILED);
+    expect(error.message).toContain("已嘗試 2 次");
+    expect(llm.invokeLLM).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wrap provider failures without retrying", async () => {
+    vi.mocked(llm.invokeLLM).mockRejectedValueOnce(new Error("LLM invoke failed: all providers failed. gemini: quota"));
+
+    const error = await invokeStructured(schema, [{ role: "user", content: "hi" }]).catch(e => e);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error.code).toBe(ErrorCode.LLM_INVOKE_FAILED);
+    expect(error.message).toContain("gemini: quota");
+    expect(llm.invokeLLM).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { buildClipFilter, buildMasteringFilterGraph, parseSilenceRange } from "./services/audioMasteringService";
+import { DEFAULT_MASTERING_SETTINGS, parseMasteringSettings } from "@shared/mastering";
+
+const SILENCEDETECT_OUTPUT = `
+[silencedetect @ 0x1] silence_start: 0
+[silencedetect @ 0x1] silence_end: 1.00004 | silence_duration: 1.00004
+[silencedetect @ 0x1] silence_start: 12.5
+[silencedetect @ 0x1] silence_end: 13.1 | silence_duration: 0.6
+[silencedetect @ 0x1] silence_start: 30.01154
+[silencedetect @ 0x1] silence_end: 31 | silence_duration: 0.988458
+`;
+
+describe("audioMasteringService", () => {
+  it("should trim only leading and trailing silence", () => {
+    // 容器長度含編碼延遲，略長於最後一段靜音的結束時間
+    expect(parseSilenceRange(SILENCEDETECT_OUTPUT, 31.06)).toEqual({ start: 0.85, end: 30.162 });
+    // 舊版 FFmpeg 在檔案結尾不輸出 silence_end
+    expect(parseSilenceRange("silence_start: 8.2", 10)).toEqual({ start: 0, end: 8.35 });
+    expect(parseSilenceRange("", 10)).toEqual({ start: 0, end: 10 });
+  });
+
+  it("should crossfade segments and report where each segment lands", () => {
+    const { filter, segmentOffsets, duration } = buildMasteringFilterGraph(
+      [{ start: 0.5, end: 4.5 }, { start: 1, end: 61 }, { start: 0, end: 3 }],
+      DEFAULT_MASTERING_SETTINGS
+    );
+
+    expect(filter).toContain("[0:a]atrim=start=0.5:end=4.5,asetpts=PTS-STARTPTS");
+    expect(filter).toContain("[s0][s1]acrossfade=d=0.5:c1=tri:c2=tri[x1]");
+    expect(filter).toContain("[x1][s2]acrossfade=d=0.5:c1=tri:c2=tri[x2]");
+    expect(filter).toContain("[x2]loudnorm=I=-16:TP=-1.5:LRA=11,aresample=44100[out]");
+    // 主要內容原本 1 秒處的台詞，在成品中位於 4 - 0.5 = 3.5 秒
+    expect(segmentOffsets).toEqual([-0.5, 2.5, 63]);
+    expect(duration).toBe(66);
+  });
+
+  it("should concatenate without crossfade and apply optional processing", () => {
+    const { filter, segmentOffsets } = buildMasteringFilterGraph(
+      [{ start: 0, end: 2 }, { start: 0, end: 10 }],
+      { ...DEFAULT_MASTERING_SETTINGS, crossfadeSeconds: 0, compress: true, deEss: true, targetLufs: -19 }
+    );
+
+    expect(filter).toContain("[s0][s1]concat=n=2:v=0:a=1[mix]");
+    expect(filter).toMatch(/\[mix\]acompressor=[^,]+,equalizer=[^,]+,loudnorm=I=-19:/);
+    expect(segmentOffsets).toEqual([0, 2]);
+
+    // 淡化長度不超過最短片段的一半
+    expect(buildMasteringFilterGraph([{ start: 0, end: 0.6 }, { start: 0, end: 10 }], DEFAULT_MASTERING_SETTINGS).filter)
+      .toContain("acrossfade=d=0.3:");
+  });
+
+  it("should mix show music around and under the speech", () => {
+    const { filter, segmentOffsets, duration } = buildMasteringFilterGraph(
+      [{ start: 0, end: 4 }, { start: 0.5, end: 60.5 }],
+      DEFAULT_MASTERING_SETTINGS,
+      { jingleLength: 5, stingerLength: 2, bedVolume: 20 }
+    );
+
+    // 輸入順序：人聲片段、開場音樂、結尾音效、背景音樂
+    expect(filter).toContain("[4:a]aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo,atrim=duration=63.5,volume=0.2,");
+    expect(filter).toContain("afade=t=out:st=60.5:d=3[bed]");
+    expect(filter).toContain("[x1]asplit=2[voice][sidechain]");
+    expect(filter).toContain("[bed][sidechain]sidechaincompress=");
+    expect(filter).toContain("[2:a]aresample=44100,aformat=sample_fmts=fltp:channel_layouts=stereo[jingle];[jingle][bedmix]acrossfade=d=1:");
+    expect(filter).toContain("[withjingle][stinger]acrossfade=d=0.5:");
+    expect(filter).toMatch(/\[withstinger\]loudnorm=[^;]+\[out\]$/);
+    // 開場音樂與人聲重疊 1 秒，人聲整體往後 4 秒
+    expect(segmentOffsets).toEqual([4, 7]);
+    expect(duration).toBe(69);
+  });
+
+  it("should only concatenate and mix music when mastering is disabled", () => {
+    const { filter, segmentOffsets } = buildMasteringFilterGraph(
+      [{ start: 0, end: 3 }, { start: 0, end: 30 }],
+      { ...DEFAULT_MASTERING_SETTINGS, enabled: false },
+      { bedVolume: 10 }
+    );
+
+    expect(filter).toContain("concat=n=2:v=0:a=1[mix]");
+    expect(filter).toContain("[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0,volume=2[bedmix];[bedmix]aresample=44100[out]");
+    expect(filter).not.toContain("loudnorm");
+    expect(segmentOffsets).toEqual([0, 3]);
+  });
+
+  it("should fade and normalize highlight clips", () => {
+    const filter = buildClipFilter({ ...DEFAULT_MASTERING_SETTINGS, trimSilence: false });
+    expect(filter).toBe("areverse,afade=t=in:d=0.3,areverse,afade=t=in:d=0.05,loudnorm=I=-16:TP=-1.5:LRA=11,aresample=44100");
+  });
+
+  it("should fall back to defaults for missing or invalid settings", () => {
+    expect(parseMasteringSettings(null)).toEqual(DEFAULT_MASTERING_SETTINGS);
+    expect(parseMasteringSettings("not json")).toEqual(DEFAULT_MASTERING_SETTINGS);
+    expect(parseMasteringSettings(JSON.stringify({ enabled: false, targetLufs: -40, crossfadeSeconds: 1 }))).toEqual({
+      ...DEFAULT_MASTERING_SETTINGS,
+      enabled: false,
+      crossfadeSeconds: 1,
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchArticleContent } from "./articleService";
+import { getYoutubeTranscript } from "./youtubeService";
+import { invokeStructured } from "./_core/llmStructured";
+import { ingestSources, processSourcesToPodcast } from "./services/multiSourceService";
+
+vi.mock("./articleService", () => ({
+  fetchArticleContent: vi.fn(),
+}));
+
+vi.mock("./youtubeService", () => ({
+  getYoutubeTranscript: vi.fn(),
+}));
+
+vi.mock("./_core/llmStructured", () => ({
+  invokeStructured: vi.fn(),
+}));
+
+const ARTICLE_URL = "https://news.example.com/bike";
+const VIDEO_URL = "https://www.youtube.com/watch?v=dQw4w9WgXcQ";
+
+describe("multiSourceService", () => {
+  beforeEach(() => {
+    vi.mocked(fetchArticleContent).mockReset().mockResolvedValue({
+      title: "自行車道改變通勤",
+      content: "研究人員追蹤了五千名騎乘者。",
+      author: "王小明",
+      publishedAt: new Date("2026-10-01T00:00:00Z"),
+    });
+    vi.mocked(getYoutubeTranscript).mockReset().mockResolvedValue({
+      text: "今天來談城市交通。",
+      segments: [],
+      language: "zh",
+      duration: 600,
+      title: "城市交通講座",
+      audioUrl: "",
+      audioFileKey: "",
+    });
+    vi.mocked(invokeStructured).mockReset().mockResolvedValue({
+      title: "本週交通新聞",
+      summary: "總覽（來源 1）",
+      podcastScript: "根據《自行車道改變通勤》這篇文章……",
+    });
+  });
+
+  it("should ingest every source with its attribution", async () => {
+    const sources = await ingestSources([
+      { type: "article", value: ARTICLE_URL },
+      { type: "youtube", value: VIDEO_URL },
+      { type: "text", value: "# 會議筆記\n討論停車空間。" },
+    ]);
+
+    expect(sources.map(({ content: _content, segments: _segments, ...attribution }) => attribution)).toEqual([
+      { index: 1, type: "article", title: "自行車道改變通勤", url: ARTICLE_URL, author: "王小明", publishedAt: "2026-10-01T00:00:00.000Z" },
+      { index: 2, type: "youtube", title: "城市交通講座", url: VIDEO_URL },
+      { index: 3, type: "text", title: "會議筆記" },
+    ]);
+  });
+
+  it("should skip failed sources but fail when too few remain", async () => {
+    vi.mocked(fetchArticleContent).mockRejectedValueOnce(new Error("無法取得文章全文"));
+
+    const sources = await ingestSources([
+      { type: "article", value: ARTICLE_URL },
+      { type: "youtube", value: VIDEO_URL },
+      { type: "text", value: "補充說明" },
+    ]);
+    expect(sources.map(source => [source.index, source.type])).toEqual([[1, "youtube"], [2, "text"]]);
+
+    vi.mocked(fetchArticleContent).mockRejectedValueOnce(new Error("無法取得文章全文"));
+    await expect(ingestSources([
+      { type: "article", value: ARTICLE_URL },
+      { type: "text", value: "補充說明" },
+    ])).rejects.toThrow("來源 1：無法取得文章全文");
+  });
+
+  it("should label each source in the prompt and return the source list", async () => {
+    const result = await processSourcesToPodcast([
+      { type: "article", value: ARTICLE_URL },
+      { type: "youtube", value: VIDEO_URL },
+    ], { format: "comparison" });
+
+    const [, messages] = vi.mocked(invokeStructured).mock.calls[0];
+    expect(messages[0].content).toContain("觀點比較");
+    expect(messages[1].content).toContain(`【來源 1】《自行車道改變通勤》\n類型：文章｜作者：王小明｜發佈日期：2026-10-01｜網址：${ARTICLE_URL}`);
+    expect(messages[1].content).toContain("【來源 2】《城市交通講座》");
+
+    expect(result.title).toBe("本週交通新聞");
+    expect(result.transcription).toContain("研究人員追蹤了五千名騎乘者。");
+    expect(result.sources).toHaveLength(2);
+    expect(result.sources[1]).toEqual({ index: 2, type: "youtube", title: "城市交通講座", url: VIDEO_URL });
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import { buildDefaultShowNotes, buildPodcastFeed, formatItunesDuration } from "./services/podcastFeedService";
+import type { PodcastShow, PodcastShowEpisode } from "../drizzle/schema";
+
+const show: PodcastShow = {
+  id: 1,
+  userId: 1,
+  slug: "abc123",
+  title: "科技 & 生活",
+  description: "每週聊聊 <AI> 與生活",
+  author: "Podcast Team",
+  ownerEmail: "team@example.com",
+  language: "zh-tw",
+  category: "Technology",
+  coverImageUrl: "https://example.com/cover.jpg",
+  explicit: false,
+  createdAt: new Date("2025-01-01T00:00:00Z"),
+  updatedAt: new Date("2025-01-01T00:00:00Z"),
+};
+
+const episode: PodcastShowEpisode = {
+  id: 10,
+  showId: 1,
+  taskId: 5,
+  guid: "3f1c2d7e-0000-4000-8000-000000000001",
+  title: "第一集：AI 的未來",
+  description: "本集重點]]>摘要",
+  imageUrl: null,
+  audioUrl: "https://example.com/audio.mp3?a=1&b=2",
+  audioKey: "podcasts/1/5/merged.mp3",
+  audioBytes: 1234567,
+  durationSeconds: 3725,
+  publishedAt: new Date("2025-02-03T04:05:06Z"),
+  createdAt: new Date("2025-02-03T04:05:06Z"),
+};
+
+describe("podcast RSS feed", () => {
+  it("should format iTunes durations", () => {
+    expect(formatItunesDuration(0)).toBe("00:00:00");
+    expect(formatItunesDuration(59.6)).toBe("00:01:00");
+    expect(formatItunesDuration(3725)).toBe("01:02:05");
+  });
+
+  it("should render an iTunes-compatible channel and items", () => {
+    const xml = buildPodcastFeed(show, [episode], {
+      feedUrl: "https://podcast.example.com/api/feeds/abc123/feed.xml",
+      siteUrl: "https://podcast.example.com",
+    });
+
+    expect(xml).toContain('xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"');
+    expect(xml).toContain("<title>科技 &amp; 生活</title>");
+    expect(xml).toContain('<atom:link href="https://podcast.example.com/api/feeds/abc123/feed.xml" rel="self"');
+    expect(xml).toContain('<itunes:image href="https://example.com/cover.jpg"/>');
+    expect(xml).toContain("<itunes:email>team@example.com</itunes:email>");
+    // enclosure 指向會重新簽發網址的轉址路由，而不是會過期的儲存空間網址
+    expect(xml).toContain(
+      '<enclosure url="https://podcast.example.com/api/feeds/abc123/episodes/3f1c2d7e-0000-4000-8000-000000000001.mp3" length="1234567" type="audio/mpeg"/>'
+    );
+    expect(xml).toContain("<itunes:duration>01:02:05</itunes:duration>");
+    expect(xml).toContain("<pubDate>Mon, 03 Feb 2025 04:05:06 GMT</pubDate>");
+    expect(xml).toContain('<guid isPermaLink="false">3f1c2d7e-0000-4000-8000-000000000001</guid>');
+    // CDATA 中的 "]]>" 需要被拆開
+    expect(xml).toContain("<![CDATA[本集重點]]]]><![CDATA[>摘要]]>");
+  });
+
+  it("should render per-episode cover art from the show profile", () => {
+    const xml = buildPodcastFeed({ ...show, coverImageUrl: null }, [{ ...episode, imageUrl: "https://example.com/ep.jpg?s=1&t=2" }], {
+      feedUrl: "https://podcast.example.com/api/feeds/abc123/feed.xml",
+      siteUrl: "https://podcast.example.com",
+    });
+
+    expect(xml).toMatch(/<item>.*<itunes:image href="https:\/\/example\.com\/ep\.jpg\?s=1&amp;t=2"\/>.*<\/item>/s);
+  });
+
+  it("should omit optional tags when not configured", () => {
+    const xml = buildPodcastFeed({ ...show, coverImageUrl: null, ownerEmail: null }, [], {
+      feedUrl: "https://podcast.example.com/api/feeds/abc123/feed.xml",
+      siteUrl: "https://podcast.example.com",
+    });
+
+    expect(xml).not.toContain("<itunes:image");
+    expect(xml).not.toContain("<itunes:owner>");
+    expect(xml).not.toContain("<item>");
+  });
+
+  it("should credit the article author and date in default show notes", () => {
+    expect(buildDefaultShowNotes({
+      summary: "本集摘要",
+      youtubeUrl: "[article] https://news.example.com/bike",
+      sourceAuthor: "王小明",
+      sourcePublishedAt: new Date("2026-10-01T00:00:00Z"),
+    })).toBe("本集摘要\n\n來源：https://news.example.com/bike\n作者：王小明｜發佈日期：2026-10-01");
+
+    expect(buildDefaultShowNotes({
+      summary: null,
+      youtubeUrl: "[text] 貼上的文字",
+      sourceAuthor: null,
+      sourcePublishedAt: null,
+    })).toBeNull();
+  });
+
+  it("should list every source of multi-source episodes", () => {
+    expect(buildDefaultShowNotes({
+      summary: "本週重點",
+      youtubeUrl: "[multi] 3 個來源",
+      sourceAuthor: null,
+      sourcePublishedAt: null,
+      sources: JSON.stringify([
+        { index: 1, type: "article", title: "自行車道改變通勤", url: "https://news.example.com/bike", author: "王小明", publishedAt: "2026-10-01T00:00:00.000Z" },
+        { index: 2, type: "youtube", title: "城市交通講座", url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ" },
+        { index: 3, type: "text", title: "會議筆記" },
+      ]),
+    })).toBe([
+      "本週重點",
+      "",
+      "來源：",
+      "1. 自行車道改變通勤（王小明｜2026-10-01）",
+      "   https://news.example.com/bike",
+      "2. 城市交通講座",
+      "   https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      "3. 會議筆記",
+    ].join("\n"));
+  });
+});
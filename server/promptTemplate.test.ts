@@ -0,0 +1,103 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as db from "./db";
+import {
+  BUILTIN_STYLE_PROMPTS,
+  STYLE_KEY_PATTERN,
+  formatStyleInstructions,
+  isAvailableStyle,
+  listAvailableStyles,
+  resolveStylePrompt,
+} from "./services/promptTemplateService";
+import type { PromptTemplate } from "../drizzle/schema";
+
+vi.mock("./db", () => ({
+  getActivePromptTemplate: vi.fn(),
+  listPromptTemplates: vi.fn(),
+}));
+
+function makeTemplate(overrides: Partial<PromptTemplate>): PromptTemplate {
+  return {
+    id: 1,
+    styleKey: "casual",
+    version: 1,
+    name: "輕鬆閒聊",
+    description: null,
+    summaryPrompt: "摘要",
+    scriptPrompt: "對話",
+    isActive: true,
+    createdBy: 1,
+    createdAt: new Date("2026-10-19T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+describe("promptTemplateService", () => {
+  beforeEach(() => {
+    vi.mocked(db.getActivePromptTemplate).mockReset().mockResolvedValue(undefined);
+    vi.mocked(db.listPromptTemplates).mockReset().mockResolvedValue([]);
+  });
+
+  it("should give each built-in style distinct instructions", () => {
+    const keys = BUILTIN_STYLE_PROMPTS.map(style => style.styleKey);
+    expect(keys).toEqual(["casual", "educational", "professional"]);
+    expect(keys.every(key => STYLE_KEY_PATTERN.test(key))).toBe(true);
+    expect(new Set(BUILTIN_STYLE_PROMPTS.map(style => style.scriptPrompt)).size).toBe(3);
+    expect(new Set(BUILTIN_STYLE_PROMPTS.map(style => style.summaryPrompt)).size).toBe(3);
+  });
+
+  it("should validate style keys", () => {
+    expect(STYLE_KEY_PATTERN.test("news_briefing")).toBe(true);
+    expect(STYLE_KEY_PATTERN.test("News")).toBe(false);
+    expect(STYLE_KEY_PATTERN.test("debate style")).toBe(false);
+    expect(STYLE_KEY_PATTERN.test("")).toBe(false);
+  });
+
+  it("should prefer the active database version over the built-in template", async () => {
+    vi.mocked(db.getActivePromptTemplate).mockResolvedValueOnce(
+      makeTemplate({ version: 3, scriptPrompt: "兩人像老朋友吐槽" })
+    );
+
+    const style = await resolveStylePrompt("casual");
+    expect(style.version).toBe(3);
+    expect(style.scriptPrompt).toBe("兩人像老朋友吐槽");
+  });
+
+  it("should fall back to built-in and default styles", async () => {
+    expect((await resolveStylePrompt("educational")).version).toBe(0);
+    expect((await resolveStylePrompt("educational")).name).toBe("教育講解");
+
+    const unknown = await resolveStylePrompt("removed_style");
+    expect(unknown.styleKey).toBe("casual");
+  });
+
+  it("should list built-in styles first, then custom styles", async () => {
+    vi.mocked(db.listPromptTemplates).mockResolvedValueOnce([
+      makeTemplate({ id: 2, styleKey: "debate", name: "正反辯論", version: 1 }),
+      makeTemplate({ id: 3, styleKey: "professional", name: "深度訪談", version: 2 }),
+      makeTemplate({ id: 4, styleKey: "professional", name: "舊版", version: 1, isActive: false }),
+    ]);
+
+    const styles = await listAvailableStyles();
+    expect(styles.map(style => `${style.styleKey}:${style.name}`)).toEqual([
+      "casual:輕鬆閒聊",
+      "educational:教育講解",
+      "professional:深度訪談",
+      "debate:正反辯論",
+    ]);
+  });
+
+  it("should only accept built-in or created styles", async () => {
+    expect(await isAvailableStyle("professional")).toBe(true);
+    expect(await isAvailableStyle("debate")).toBe(false);
+
+    vi.mocked(db.getActivePromptTemplate).mockResolvedValueOnce(makeTemplate({ styleKey: "debate" }));
+    expect(await isAvailableStyle("debate")).toBe(true);
+  });
+
+  it("should include style name, summary and script requirements in analysis prompts", () => {
+    const instructions = formatStyleInstructions(BUILTIN_STYLE_PROMPTS[1]);
+    expect(instructions).toContain("教育講解");
+    expect(instructions).toContain(BUILTIN_STYLE_PROMPTS[1].summaryPrompt);
+    expect(instructions).toContain(BUILTIN_STYLE_PROMPTS[1].scriptPrompt);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyPronunciations,
+  getVocabularyHints,
+  resolvePronunciationRules,
+  withPronunciations,
+  type PronunciationRule,
+} from "./services/pronunciationService";
+import type { TtsProvider } from "./services/ttsService";
+
+const RULES: PronunciationRule[] = [
+  { term: "AI", replacement: "A I" },
+  { term: "GPT", replacement: "G P T" },
+  { term: "GPT-4", replacement: "G P T four" },
+  { term: "SQL", replacement: "sequel" },
+  { term: "SQL", replacement: "S Q L", voiceId: "voice-b" },
+];
+
+describe("pronunciationService", () => {
+  it("should replace whole terms case-insensitively, preferring longer terms", () => {
+    expect(applyPronunciations("AI 與 email 都很常見，ai 更是", RULES)).toBe("A I 與 email 都很常見，A I 更是");
+    expect(applyPronunciations("GPT-4 比 GPT 更強", RULES)).toBe("G P T four 比 G P T 更強");
+    // 念法不會再被其他詞條替換
+    expect(applyPronunciations("SQL", [{ term: "SQL", replacement: "sequel AI" }, ...RULES.slice(0, 1)])).toBe("sequel AI");
+  });
+
+  it("should apply voice-specific rules only to that voice", () => {
+    expect(applyPronunciations("學 SQL", RULES)).toBe("學 sequel");
+    expect(applyPronunciations("學 SQL", RULES, "voice-a")).toBe("學 sequel");
+    expect(applyPronunciations("學 SQL", RULES, "voice-b")).toBe("學 S Q L");
+  });
+
+  it("should let show-specific entries override user-wide entries", () => {
+    const entries = [
+      { term: "Nginx", replacement: "engine X", voiceId: null, showProfileId: 7 },
+      { term: "nginx", replacement: "N ginx", voiceId: null, showProfileId: null },
+      { term: "Kubernetes", replacement: "Koo-ber-net-ees", voiceId: null, showProfileId: 8 },
+    ];
+
+    expect(resolvePronunciationRules(entries, 7)).toEqual([
+      { term: "Nginx", replacement: "engine X", voiceId: null },
+    ]);
+    expect(resolvePronunciationRules(entries)).toEqual([
+      { term: "nginx", replacement: "N ginx", voiceId: null },
+    ]);
+  });
+
+  it("should respell scripts before synthesis and restore the original transcript", async () => {
+    const provider: TtsProvider = {
+      id: "local",
+      name: "測試",
+      listVoices: vi.fn(),
+      synthesizeUtterance: vi.fn().mockResolvedValue({ audioUrl: "utterance.mp3" }),
+      synthesizeScript: vi.fn().mockImplementation(async lines => ({
+        audioUrl: "script.mp3",
+        scripts: lines,
+        timeline: lines.map((line: { content: string }, index: number) => ({ ...line, startTime: index, endTime: index + 1 })),
+      })),
+    };
+    const tts = withPronunciations(provider, RULES);
+
+    await tts.synthesizeUtterance("歡迎來到 AI 節目", "voice-a");
+    expect(provider.synthesizeUtterance).toHaveBeenCalledWith("歡迎來到 A I 節目", "voice-a", undefined);
+
+    const result = await tts.synthesizeScript([
+      { speakerId: "voice-a", content: "今天聊 SQL" },
+      { speakerId: "voice-b", content: "SQL 很實用" },
+    ]);
+    expect(vi.mocked(provider.synthesizeScript).mock.calls[0][0].map(line => line.content)).toEqual([
+      "今天聊 sequel",
+      "S Q L 很實用",
+    ]);
+    expect(result.scripts?.map(line => line.content)).toEqual(["今天聊 SQL", "SQL 很實用"]);
+    expect(result.timeline?.[1]).toMatchObject({ content: "SQL 很實用", startTime: 1 });
+  });
+
+  it("should build de-duplicated vocabulary hints", () => {
+    expect(getVocabularyHints([
+      ...RULES,
+      { term: "a very long product name with seven words", replacement: "x" },
+    ])).toEqual(["AI", "GPT", "GPT-4", "SQL"]);
+  });
+});
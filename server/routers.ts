@@ -1,13 +1,347 @@
 import { COOKIE_NAME } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { adminProcedure, publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { createPodcastTask, updatePodcastTask, getUserPodcastTasks, getPodcastTask } from "./db";
-import { isValidYoutubeUrl, processYoutubeToPodcast } from "./youtubeService";
-import { generateChinesePodcast } from "./listenHubService";
-import { AppError, ErrorCode, normalizeError, logError, getUserFriendlyMessage } from "./_core/errorHandler";
+import { extractVideoId, isValidYoutubeUrl } from "./youtubeService";
+import { parseYoutubeCollectionUrl } from "@shared/youtubeUrl";
+import { MAX_DOCUMENT_EPISODES, planDocumentEpisodes } from "@shared/document";
+import { EPISODE_SOURCE_TYPES, MAX_EPISODE_SOURCES, MIN_EPISODE_SOURCES, ROUNDUP_FORMATS } from "@shared/episodeSources";
+import { DOCUMENT_EXTENSIONS, getDocumentExtension, getUploadExtension, MAX_DOCUMENT_BYTES, MAX_UPLOAD_BYTES, UPLOAD_EXTENSIONS } from "@shared/upload";
+import { DEFAULT_OUTPUT_LANGUAGE, getOutputLanguageInfo, isOutputLanguage, OUTPUT_LANGUAGES } from "@shared/outputLanguage";
+import { AppError, ErrorCode } from "./_core/errorHandler";
+import { isTtsProviderId, TTS_PROVIDER_IDS } from "./services/ttsService";
+import { MAX_HOSTS, MAX_PERSONA_LENGTH, MIN_HOSTS, parseHostConfigs } from "@shared/hosts";
+import { MAX_CROSSFADE_SECONDS, MAX_TARGET_LUFS, MIN_TARGET_LUFS, parseMasteringSettings } from "@shared/mastering";
+import { MAX_BED_VOLUME, MAX_MUSIC_TRACKS, MIN_BED_VOLUME, MUSIC_TRACK_KINDS, parseMusicSelection, type MusicTrackKind, type PodcastMusicSelection } from "@shared/music";
+import type { PronunciationEntry, ShowProfile } from "../drizzle/schema";
+import { STYLE_KEY_PATTERN } from "./services/promptTemplateService";
+
+// 節目風格（prompt_templates 的 style key，管理員可新增）
+const styleKeySchema = z.string().regex(STYLE_KEY_PATTERN, '風格代碼只能使用小寫英文、數字與底線');
+
+// 主持人設定（1 人獨白到 4 人座談；未指定時為兩位主持人，聲音使用 voiceId1 / voiceId2）
+const hostsSchema = z.array(z.object({
+  name: z.string().trim().min(1, '請輸入主持人名稱').max(32),
+  voiceId: z.string().optional(),
+  persona: z.string().trim().max(MAX_PERSONA_LENGTH, `人設描述不可超過 ${MAX_PERSONA_LENGTH} 字`).optional(),
+})).min(MIN_HOSTS).max(MAX_HOSTS, `主持人最多 ${MAX_HOSTS} 位`);
+
+// 音訊後製設定（shared/mastering）
+const masteringSchema = z.object({
+  enabled: z.boolean(),
+  targetLufs: z.number().min(MIN_TARGET_LUFS).max(MAX_TARGET_LUFS),
+  trimSilence: z.boolean(),
+  crossfadeSeconds: z.number().min(0).max(MAX_CROSSFADE_SECONDS),
+  deEss: z.boolean(),
+  compress: z.boolean(),
+});
+
+// 節目音樂（shared/music，ID 為音樂庫項目）
+const musicSelectionSchema = z.object({
+  introJingleId: z.number().nullable().optional(),
+  outroStingerId: z.number().nullable().optional(),
+  musicBedId: z.number().nullable().optional(),
+  bedVolume: z.number().min(MIN_BED_VOLUME).max(MAX_BED_VOLUME).optional(),
+});
+
+/**
+ * 確認選用的音樂屬於使用者且類型正確
+ */
+async function assertMusicSelection(music: PodcastMusicSelection | null | undefined, userId: number) {
+  if (!music) return;
+  const { getMusicTrack } = await import('./db');
+  const selected: [number | null | undefined, MusicTrackKind][] = [
+    [music.introJingleId, 'jingle'],
+    [music.outroStingerId, 'stinger'],
+    [music.musicBedId, 'bed'],
+  ];
+  for (const [trackId, kind] of selected) {
+    if (!trackId) continue;
+    const track = await getMusicTrack(trackId, userId);
+    if (!track || track.kind !== kind) {
+      throw new TRPCError({
+        code: 'NOT_FOUND',
+        message: '找不到選用的節目音樂',
+      });
+    }
+  }
+}
+
+/**
+ * 確認節目風格存在（內建或已由管理員建立）
+ */
+async function assertStyleAvailable(styleKey: string | undefined) {
+  if (!styleKey) return;
+  const { isAvailableStyle } = await import('./services/promptTemplateService');
+  if (!(await isAvailableStyle(styleKey))) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: '找不到此節目風格',
+    });
+  }
+}
+
+// 對話腳本（腳本審閱模式）
+const dialogueScriptSchema = z.object({
+  hosts: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1).max(64),
+  })).min(1).max(4),
+  lines: z.array(z.object({
+    hostId: z.string().min(1),
+    content: z.string().min(1).max(2000),
+  })).min(1).max(500),
+});
+
+/**
+ * 取得等待審閱的任務（確認擁有者與狀態）
+ */
+async function getDraftReviewTask(taskId: number, userId: number) {
+  const task = await getPodcastTask(taskId, userId);
+  if (!task) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: '找不到該任務',
+    });
+  }
+  if (task.status !== 'awaiting_review' || !task.draftScript) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: '該任務目前不在等待審閱腳本的狀態',
+    });
+  }
+  return task;
+}
+
+/**
+ * 取得使用者的上傳工作階段
+ */
+async function getOwnedUploadSession(uploadId: string, userId: number) {
+  const { getUploadSession } = await import('./services/uploadService');
+  const session = await getUploadSession(uploadId, userId);
+  if (!session) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: '上傳已過期，請重新上傳',
+    });
+  }
+  return session;
+}
+
+/**
+ * 讀取使用者上傳的文件並解析章節
+ */
+async function loadOwnedDocument(uploadKey: string | undefined, userId: number) {
+  const { getUploadKeyPrefix } = await import('./services/uploadService');
+  if (!uploadKey || !uploadKey.startsWith(getUploadKeyPrefix(userId)) || !getDocumentExtension(uploadKey)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: '請先上傳文件',
+    });
+  }
+
+  const { loadDocument } = await import('./services/documentService');
+  try {
+    return await loadDocument(uploadKey);
+  } catch (error) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * 解析播放清單 / 頻道網址
+ */
+function parseCollectionUrl(url: string) {
+  const collection = parseYoutubeCollectionUrl(url);
+  if (!collection) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: '請輸入 YouTube 播放清單或頻道網址',
+    });
+  }
+  return collection;
+}
+
+// 訂閱自動建立任務時使用的參數
+const subscriptionSettingsSchema = z.object({
+  mode: z.enum(['quick', 'medium', 'deep']).optional(),
+  style: styleKeySchema.optional(),
+  outputLanguage: z.enum(OUTPUT_LANGUAGES).optional(), // 節目輸出語言（預設繁體中文）
+  introText: z.string().optional(),
+  outroText: z.string().optional(),
+  checkIntervalHours: z.number().int().min(1).max(168).optional(), // 檢查間隔（小時）
+});
+
+/**
+ * 取得使用者擁有的訂閱
+ */
+async function getOwnedSubscription(subscriptionId: number, userId: number) {
+  const { getSubscription } = await import('./db');
+  const subscription = await getSubscription(subscriptionId, userId);
+  if (!subscription) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: '找不到該訂閱',
+    });
+  }
+  return subscription;
+}
+
+/**
+ * 取得使用者擁有的批次
+ */
+async function getOwnedBatch(batchId: number, userId: number) {
+  const { getBatch } = await import('./db');
+  const batch = await getBatch(batchId, userId);
+  if (!batch) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: '找不到該批次',
+    });
+  }
+  return batch;
+}
+
+// 節目資訊（對應 RSS channel 欄位）
+const showInfoSchema = z.object({
+  title: z.string().min(1).max(256),
+  description: z.string().max(4000).optional(),
+  author: z.string().max(256).optional(),
+  ownerEmail: z.string().email().max(320).optional(),
+  language: z.string().min(2).max(16).optional(),
+  category: z.string().min(1).max(128).optional(),
+  coverImageUrl: z.string().url().optional(),
+  explicit: z.boolean().optional(),
+});
+
+/**
+ * 取得使用者擁有的節目
+ */
+async function getOwnedShow(showId: number, userId: number) {
+  const { getShow } = await import('./db');
+  const show = await getShow(showId, userId);
+  if (!show) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: '找不到該節目',
+    });
+  }
+  return show;
+}
+
+// 節目設定（建立任務時一鍵套用的主持人、聲音與節目參數）
+const showProfileSchema = z.object({
+  name: z.string().trim().min(1, '請輸入設定名稱').max(100),
+  hosts: hostsSchema,
+  mode: z.enum(['quick', 'medium', 'deep']).optional(),
+  style: styleKeySchema.optional(),
+  outputLanguage: z.enum(OUTPUT_LANGUAGES).optional(),
+  ttsProvider: z.enum(TTS_PROVIDER_IDS).nullable().optional(),
+  introText: z.string().max(2000).nullable().optional(),
+  outroText: z.string().max(2000).nullable().optional(),
+  coverImageUrl: z.string().url().nullable().optional(),
+  music: musicSelectionSchema.nullable().optional(),
+});
+
+// 每位使用者可建立的節目設定數量上限
+const MAX_SHOW_PROFILES = 20;
+
+/**
+ * 取得使用者擁有的節目設定
+ */
+async function getOwnedShowProfile(profileId: number, userId: number) {
+  const { getShowProfile } = await import('./db');
+  const profile = await getShowProfile(profileId, userId);
+  if (!profile) {
+    throw new TRPCError({
+      code: 'NOT_FOUND',
+      message: '找不到該節目設定',
+    });
+  }
+  return profile;
+}
+
+/**
+ * 節目設定的 API 格式（主持人解析為陣列，語言與引擎限定為已知的值）
+ */
+function toShowProfileView(profile: ShowProfile) {
+  return {
+    ...profile,
+    hosts: parseHostConfigs(profile.hosts),
+    outputLanguage: isOutputLanguage(profile.outputLanguage) ? profile.outputLanguage : DEFAULT_OUTPUT_LANGUAGE,
+    ttsProvider: isTtsProviderId(profile.ttsProvider) ? profile.ttsProvider : null,
+    music: parseMusicSelection(profile.music),
+  };
+}
+
+/**
+ * 確認設定名稱沒有與使用者的其他設定重複
+ */
+async function assertShowProfileNameAvailable(userId: number, name: string, exceptProfileId?: number) {
+  const { getUserShowProfiles } = await import('./db');
+  const profiles = await getUserShowProfiles(userId);
+  if (profiles.some(profile => profile.name === name && profile.id !== exceptProfileId)) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: '已有同名的節目設定',
+    });
+  }
+  return profiles;
+}
+
+// 發音詞條（showProfileId 為空表示套用到所有節目，voiceId 為空表示所有聲音）
+const pronunciationEntrySchema = z.object({
+  term: z.string().trim().min(1, '請輸入詞條').max(128),
+  replacement: z.string().trim().min(1, '請輸入念法').max(256),
+  voiceId: z.string().max(64).nullable().optional(),
+  showProfileId: z.number().nullable().optional(),
+});
+
+// 每位使用者可建立的發音詞條數量上限
+const MAX_PRONUNCIATION_ENTRIES = 500;
+
+/**
+ * 整理發音詞條欄位並確認節目設定屬於使用者
+ */
+async function normalizePronunciationEntry(input: z.infer<typeof pronunciationEntrySchema>, userId: number) {
+  if (input.showProfileId) {
+    await getOwnedShowProfile(input.showProfileId, userId);
+  }
+  return {
+    term: input.term,
+    replacement: input.replacement,
+    voiceId: input.voiceId || null,
+    showProfileId: input.showProfileId || null,
+  };
+}
+
+/**
+ * 同一範圍（節目與聲音）內的詞條不可重複
+ */
+function assertPronunciationEntryUnique(
+  entries: Pick<PronunciationEntry, "id" | "term" | "voiceId" | "showProfileId">[],
+  entry: { term: string; voiceId: string | null; showProfileId: number | null },
+  exceptEntryId?: number
+) {
+  const duplicate = entries.find(existing =>
+    existing.id !== exceptEntryId
+    && existing.term.toLowerCase() === entry.term.toLowerCase()
+    && (existing.voiceId || null) === entry.voiceId
+    && (existing.showProfileId || null) === entry.showProfileId
+  );
+  if (duplicate) {
+    throw new TRPCError({
+      code: 'CONFLICT',
+      message: `詞條「${entry.term}」已存在`,
+    });
+  }
+}
 
 export const appRouter = router({
   // if you need to use socket.io, read and register route in server/_core/index.ts, all api should start with '/api/' so that the gateway can route correctly
@@ -153,20 +487,48 @@ export const appRouter = router({
         youtubeUrl: z.string().url().optional(),
         textContent: z.string().optional(),
         articleUrl: z.string().url().optional(),
-        inputType: z.enum(['youtube', 'text', 'article']),
+        uploadKey: z.string().optional(), // upload.complete 回傳的儲存路徑
+        inputType: z.enum(['youtube', 'text', 'article', 'upload', 'document', 'multi']),
+        documentChapters: z.array(z.number().int().min(0)).optional(), // 文件輸入：要納入的章節（document.inspect 回傳的 index）
+        sources: z.array(z.object({ // 多來源單集：影片、文章與文字混合
+          type: z.enum(EPISODE_SOURCE_TYPES),
+          value: z.string(),
+        })).max(MAX_EPISODE_SOURCES).optional(),
+        roundupFormat: z.enum(ROUNDUP_FORMATS).optional(), // 多來源單集的節目形式（預設綜合整理）
         voiceId1: z.string().optional(),
         voiceId2: z.string().optional(),
+        hosts: hostsSchema.optional(), // 主持人名稱、聲音與人設（優先於 voiceId1 / voiceId2）
+        coverImageUrl: z.string().url().optional(), // 單集封面（由節目設定帶入）
+        showProfileId: z.number().optional(), // 套用的節目設定（節目專屬的發音詞條）
+        mastering: masteringSchema.optional(), // 音訊後製設定（未指定時使用預設設定）
+        music: musicSelectionSchema.optional(), // 開場音樂、結尾音效與背景音樂
         mode: z.enum(['quick', 'medium', 'deep']).optional(),
-        style: z.enum(['educational', 'casual', 'professional']).optional(),
+        style: styleKeySchema.optional(),
         introText: z.string().optional(), // 開場白文字（選填）
         outroText: z.string().optional(), // 結尾語文字（選填）
+        ttsProvider: z.enum(TTS_PROVIDER_IDS).optional(), // TTS 引擎（未指定時使用預設值）
+        scriptReview: z.boolean().optional(), // 先產生對話腳本供審閱，核准後才合成語音
+        outputLanguage: z.enum(OUTPUT_LANGUAGES).optional(), // 節目輸出語言（預設繁體中文）
       }))
       .mutation(async ({ input, ctx }) => {
-        const { youtubeUrl, textContent, articleUrl, inputType, voiceId1, voiceId2, mode, style, introText, outroText } = input;
+        const { youtubeUrl, textContent, articleUrl, uploadKey, inputType, documentChapters, sources, roundupFormat, voiceId1, voiceId2, hosts, coverImageUrl, showProfileId, mastering, music, mode, style, introText, outroText, ttsProvider, scriptReview, outputLanguage } = input;
         
+        await assertStyleAvailable(style);
+        if (showProfileId) {
+          await getOwnedShowProfile(showProfileId, ctx.user.id);
+        }
+        await assertMusicSelection(music, ctx.user.id);
+
         // 驗證輸入
         let inputContent = "";
+        let sourceListLabel = ""; // 多來源單集：任務記錄顯示的來源清單
         if (inputType === 'youtube') {
+          if (youtubeUrl && parseYoutubeCollectionUrl(youtubeUrl)) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: '播放清單或頻道網址請使用批次建立',
+            });
+          }
           if (!youtubeUrl || !isValidYoutubeUrl(youtubeUrl)) {
             throw new TRPCError({
               code: 'BAD_REQUEST',
@@ -190,11 +552,90 @@ export const appRouter = router({
             });
           }
           inputContent = articleUrl;
+        } else if (inputType === 'upload') {
+          const { getUploadKeyPrefix } = await import('./services/uploadService');
+          if (!uploadKey || !uploadKey.startsWith(getUploadKeyPrefix(ctx.user.id))) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: '請先上傳錄音檔',
+            });
+          }
+          inputContent = uploadKey;
+        } else if (inputType === 'document') {
+          const document = await loadOwnedDocument(uploadKey, ctx.user.id);
+          const { selectChapters } = await import('./services/documentService');
+          let chapters;
+          try {
+            chapters = selectChapters(document, documentChapters);
+          } catch (error) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: error instanceof Error ? error.message : String(error),
+            });
+          }
+
+          // 過長的文件拆成多集系列，每集一個任務
+          const episodes = planDocumentEpisodes(chapters.map(chapter => ({ index: chapter.index, charCount: chapter.text.length })));
+          if (episodes.length > MAX_DOCUMENT_EPISODES) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `選擇的內容會產生 ${episodes.length} 集，超過 ${MAX_DOCUMENT_EPISODES} 集上限，請減少章節`,
+            });
+          }
+          if (episodes.length > 1) {
+            const { createDocumentSeriesBatch } = await import('./services/batchService');
+            const { batchId, taskIds } = await createDocumentSeriesBatch(ctx.user.id, { fileKey: uploadKey!, title: document.title }, episodes, {
+              mode: mode || 'medium',
+              style: style || 'casual',
+              voiceId1,
+              voiceId2,
+              hosts,
+              coverImageUrl,
+              showProfileId,
+              mastering,
+              music,
+              introText: introText?.trim(),
+              outroText: outroText?.trim(),
+              ttsProvider,
+              scriptReview,
+              outputLanguage,
+            });
+            return { taskId: taskIds[0], batchId, episodeCount: taskIds.length };
+          }
+          inputContent = uploadKey!;
+        } else if (inputType === 'multi') {
+          const validSources = (sources || [])
+            .map(source => ({ type: source.type, value: source.value.trim() }))
+            .filter(source => source.value);
+          if (validSources.length < MIN_EPISODE_SOURCES) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: `請至少提供 ${MIN_EPISODE_SOURCES} 個來源`,
+            });
+          }
+          validSources.forEach((source, i) => {
+            const invalid = source.type === 'youtube'
+              ? !isValidYoutubeUrl(source.value) || !!parseYoutubeCollectionUrl(source.value)
+              : source.type === 'article' && !/^https?:\/\/\S+$/i.test(source.value);
+            if (invalid) {
+              throw new TRPCError({
+                code: 'BAD_REQUEST',
+                message: `來源 ${i + 1} 不是有效的${source.type === 'youtube' ? ' YouTube 影片' : '文章'}網址`,
+              });
+            }
+          });
+          inputContent = JSON.stringify(validSources);
+          sourceListLabel = validSources.map(source => source.type === 'text' ? '（文字）' : source.value).join(' | ');
         }
 
         // 建立任務記錄（確保儲存正確的 URL）
         // 驗證：記錄實際儲存的 URL 以便追蹤
-        const urlToStore = inputType === 'youtube' ? inputContent : `[${inputType}] ${inputContent.substring(0, 100)}`;
+        // 文章保留完整網址（單集說明的來源連結使用），文字只保留開頭
+        const urlToStore = inputType === 'youtube'
+          ? inputContent
+          : inputType === 'multi'
+            ? `[multi] ${sourceListLabel}`.substring(0, 500)
+            : `[${inputType}] ${inputContent.substring(0, inputType === 'article' ? 500 : 100)}`;
         console.log(`[CreateTask] Creating task with URL: ${urlToStore}`);
         console.log(`[CreateTask] Input type: ${inputType}, User ID: ${ctx.user.id}`);
         
@@ -204,6 +645,9 @@ export const appRouter = router({
           status: 'pending',
           introText: introText?.trim() || null, // 儲存開場白文字（如果提供）
           outroText: outroText?.trim() || null, // 儲存結尾語文字（如果提供）
+          coverImageUrl: coverImageUrl || null,
+          masteringSettings: mastering ? JSON.stringify(mastering) : null,
+          ...(outputLanguage && { outputLanguage }),
         });
         
         console.log(`[CreateTask] Task ${taskId} created successfully with URL: ${urlToStore}`);
@@ -214,22 +658,206 @@ export const appRouter = router({
           console.log(`[CreateTask] Outro text provided: ${outroText.substring(0, 50)}...`);
         }
 
-        // 儲存使用者的聲音偏好（如果有提供）
-        if (voiceId1 && voiceId2) {
+        // 儲存使用者的聲音偏好（如果有提供；偏好設定只記錄預設語言的 ListenHub 聲音）
+        const chosenVoiceIds = hosts ? hosts.map(host => host.voiceId) : [voiceId1, voiceId2];
+        if (chosenVoiceIds.every(voiceId => !!voiceId) && (!ttsProvider || ttsProvider === 'listenhub') && (!outputLanguage || outputLanguage === DEFAULT_OUTPUT_LANGUAGE)) {
           const { saveVoicePreference } = await import('./db');
-          await saveVoicePreference(ctx.user.id, voiceId1, voiceId2).catch(err => {
+          await saveVoicePreference(ctx.user.id, chosenVoiceIds as string[]).catch(err => {
             console.error('Failed to save voice preference:', err);
           });
         }
 
-        // 在背景處理任務（不阻塞回應）
-        processPodcastTask(taskId, inputContent, mode || 'medium', voiceId1, voiceId2, inputType, style || 'casual', introText?.trim(), outroText?.trim()).catch((error) => {
-          console.error(`Task ${taskId} processing failed:`, error);
+        // 加入背景工作佇列（持久化，伺服器重啟後會自動接續）
+        const { enqueueJob } = await import('./services/jobQueueService');
+        await enqueueJob('podcast', taskId, {
+          taskId,
+          inputContent,
+          inputType,
+          mode: mode || 'medium',
+          style: style || 'casual',
+          voiceId1,
+          voiceId2,
+          hosts,
+          showProfileId,
+          music,
+          introText: introText?.trim(),
+          outroText: outroText?.trim(),
+          ttsProvider,
+          scriptReview,
+          outputLanguage,
+          roundupFormat,
         });
 
         return { taskId };
       }),
 
+    // 重試失敗的任務（從最後成功的檢查點繼續，不重新轉錄與分析）
+    retry: protectedProcedure
+      .input(z.object({
+        taskId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const task = await getPodcastTask(input.taskId, ctx.user.id);
+        if (!task) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: '找不到該任務',
+          });
+        }
+
+        if (task.status !== 'failed') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '只有失敗的任務可以重試',
+          });
+        }
+
+        // 沿用原始工作的參數（模式、風格、聲音等）；所屬批次暫停中時先以暫停狀態排入
+        let paused = false;
+        if (task.batchId) {
+          const { getBatch } = await import('./db');
+          paused = (await getBatch(task.batchId, ctx.user.id))?.status === 'paused';
+        }
+
+        const { requeueFailedTask } = await import('./services/batchService');
+        const requeued = await requeueFailedTask(task, { paused });
+        if (requeued === 'missing_params') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '找不到該任務的原始參數，請重新建立任務',
+          });
+        }
+        if (requeued === 'not_failed') {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: '任務已重新排入佇列',
+          });
+        }
+
+        return {
+          taskId: task.id,
+          resumeFrom: task.checkpointStage,
+        };
+      }),
+
+    // 獲取對話腳本草稿（腳本審閱模式）
+    getDraftScript: protectedProcedure
+      .input(z.object({
+        taskId: z.number(),
+      }))
+      .query(async ({ input, ctx }) => {
+        const task = await getPodcastTask(input.taskId, ctx.user.id);
+        if (!task) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: '找不到該任務',
+          });
+        }
+        if (!task.draftScript) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: '該任務沒有對話腳本草稿',
+          });
+        }
+
+        const { parseDialogueScript } = await import('./services/dialogueScriptService');
+        return {
+          taskId: task.id,
+          title: task.title,
+          status: task.status,
+          approved: !!task.scriptApprovedAt,
+          script: parseDialogueScript(task.draftScript),
+        };
+      }),
+
+    // 更新對話腳本草稿（只能在等待審閱時修改）
+    updateDraftScript: protectedProcedure
+      .input(z.object({
+        taskId: z.number(),
+        script: dialogueScriptSchema,
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const task = await getDraftReviewTask(input.taskId, ctx.user.id);
+        const { script } = input;
+
+        const hostIds = new Set(script.hosts.map(host => host.id));
+        const unknownLine = script.lines.find(line => !hostIds.has(line.hostId));
+        if (unknownLine) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `台詞指定了不存在的主持人：${unknownLine.hostId}`,
+          });
+        }
+
+        // 聲音與人設由任務決定，編輯器只能修改主持人名稱與台詞
+        const { parseDialogueScript } = await import('./services/dialogueScriptService');
+        const original = parseDialogueScript(task.draftScript!);
+        const originalById = new Map(original.hosts.map(host => [host.id, host]));
+        const updated = {
+          hosts: script.hosts.map(host => {
+            const originalHost = originalById.get(host.id);
+            return {
+              id: host.id,
+              name: host.name.trim(),
+              speakerId: originalHost?.speakerId || original.hosts[0].speakerId,
+              ...(originalHost?.persona && { persona: originalHost.persona }),
+            };
+          }),
+          lines: script.lines.map(line => ({
+            hostId: line.hostId,
+            content: line.content.trim(),
+          })),
+        };
+
+        await updatePodcastTask(task.id, { draftScript: JSON.stringify(updated) });
+        return { success: true };
+      }),
+
+    // 核准對話腳本並開始合成語音
+    approveDraftScript: protectedProcedure
+      .input(z.object({
+        taskId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const task = await getDraftReviewTask(input.taskId, ctx.user.id);
+
+        const { getLatestJobByRef } = await import('./db');
+        const previousJob = await getLatestJobByRef('podcast', task.id);
+        if (!previousJob) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '找不到該任務的原始參數，請重新建立任務',
+          });
+        }
+
+        // 條件更新移出 awaiting_review，重複送出的核准只會排入一次工作
+        const { transitionPodcastTaskStatus } = await import('./db');
+        const approved = await transitionPodcastTaskStatus(task.id, 'awaiting_review', {
+          status: 'processing',
+          scriptApprovedAt: new Date(),
+        });
+        if (!approved) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: '腳本已核准，正在合成語音',
+          });
+        }
+
+        const { updateProgress } = await import('./services/progressService');
+        await updateProgress({
+          taskId: task.id,
+          stage: 'generating',
+          percent: 70,
+          message: '腳本已核准，準備開始合成語音...',
+        });
+
+        const { enqueueJob } = await import('./services/jobQueueService');
+        await enqueueJob('podcast', task.id, JSON.parse(previousJob.payload));
+
+        console.log(`[DraftScript] Task ${task.id} script approved, synthesis queued`);
+        return { taskId: task.id };
+      }),
+
     // 獲取使用者的所有任務
     list: protectedProcedure.query(async ({ ctx }) => {
       return await getUserPodcastTasks(ctx.user.id);
@@ -274,20 +902,34 @@ export const appRouter = router({
         };
       }),
 
-    // 獲取 ListenHub 聲音列表
-    getVoices: protectedProcedure.query(async () => {
-      const { getVoices } = await import("./listenHubService");
-      return getVoices();
+    // 即時任務事件（SSE）：podcast 進度與虛擬主播影片狀態變更，連線時會重播最新狀態
+    onTaskEvents: protectedProcedure.subscription(async function* ({ ctx, signal }) {
+      const { streamTaskEvents } = await import('./services/taskEventService');
+      yield* streamTaskEvents(ctx.user.id, signal);
     }),
+
+    // 獲取 TTS 聲音列表（預設為 ListenHub）
+    getVoices: protectedProcedure
+      .input(z.object({
+        provider: z.enum(TTS_PROVIDER_IDS).optional(),
+        language: z.enum(OUTPUT_LANGUAGES).optional(), // 只列出支援此輸出語言的聲音
+      }).optional())
+      .query(async ({ input }) => {
+        const { getTtsProvider } = await import("./services/ttsService");
+        const provider = await getTtsProvider(input?.provider ?? "listenhub");
+        return provider.listVoices(input?.language && getOutputLanguageInfo(input.language).ttsLanguage);
+      }),
     
     // 獲取使用者的聲音偏好設定
     getVoicePreference: protectedProcedure.query(async ({ ctx }) => {
       const { getVoicePreference } = await import("./db");
+      const { getPreferredVoiceIds } = await import("./db");
       const pref = await getVoicePreference(ctx.user.id);
       if (!pref) return null;
       return {
         voiceId1: pref.host1VoiceId,
         voiceId2: pref.host2VoiceId,
+        voiceIds: getPreferredVoiceIds(pref), // 依主持人順序（最多 4 位）
       };
     }),
 
@@ -356,8 +998,14 @@ export const appRouter = router({
         }
 
         // 使用 AI 識別精華片段
+        // 逐句時間軸對應的是 podcastScripts 與 Podcast 音檔，其他來源只能估算時間
+        const { parseTimeline } = await import('./services/timelineService');
+        const timeline = task.podcastScripts && audioUrl === task.podcastAudioUrl
+          ? parseTimeline(task.lineTimings)
+          : null;
+
         const { identifyHighlights } = await import('./services/highlightService');
-        const highlights = await identifyHighlights(scripts, targetDuration);
+        const highlights = await identifyHighlights(scripts, targetDuration, timeline, isOutputLanguage(task.outputLanguage) ? task.outputLanguage : undefined);
 
         // 剪輯並上傳精華片段
         const { clipFromUrlAndUpload } = await import('./services/audioClipService');
@@ -381,7 +1029,8 @@ export const appRouter = router({
               highlight.startTime,
               highlight.duration,
               ctx.user.id,
-              taskId
+              taskId,
+              parseMasteringSettings(task.masteringSettings)
             );
             
             // 驗證剪輯結果
@@ -529,9 +1178,14 @@ export const appRouter = router({
           status: 'pending',
         });
 
-        // 背景處理影片生成
-        processAvatarVideoGeneration(taskId, avatarImageUrl, highlight.audioUrl, mode, prompt).catch(error => {
-          console.error(`[AvatarVideo] Task ${taskId} failed:`, error);
+        // 加入背景工作佇列處理影片生成
+        const { enqueueJob } = await import('./services/jobQueueService');
+        await enqueueJob('avatar_video', taskId, {
+          taskId,
+          avatarImageUrl,
+          audioUrl: highlight.audioUrl,
+          mode,
+          prompt,
         });
 
         return { 
@@ -572,521 +1226,905 @@ export const appRouter = router({
 
   }),
 
-  // TODO: add feature routers here
-  
-  voice: router({
-    // 獲取 ListenHub 聲音列表
-    list: protectedProcedure.query(async () => {
-      const { getVoices } = await import("./listenHubService");
-      return getVoices();
-    }),
-    
-    // 獲取使用者的聲音偏好設定
-    getPreference: protectedProcedure.query(async ({ ctx }) => {
-      const { getVoicePreference } = await import("./db");
-      return getVoicePreference(ctx.user.id);
-    }),
-    
-    // 儲存使用者的聲音偏好設定
-    savePreference: protectedProcedure
+  // 文件輸入（PDF / DOCX / EPUB / Markdown）
+  document: router({
+    // 解析上傳的文件，回傳章節供使用者選擇
+    inspect: protectedProcedure
       .input(z.object({
-        host1VoiceId: z.string(),
-        host2VoiceId: z.string(),
+        uploadKey: z.string(),
       }))
-      .mutation(async ({ ctx, input }) => {
-        const { saveVoicePreference } = await import("./db");
-        await saveVoicePreference(ctx.user.id, input.host1VoiceId, input.host2VoiceId);
-        return { success: true };
+      .query(async ({ input, ctx }) => {
+        const document = await loadOwnedDocument(input.uploadKey, ctx.user.id);
+        const { summarizeChapters } = await import('./services/documentService');
+        const chapters = summarizeChapters(document);
+        return {
+          title: document.title,
+          format: document.format,
+          totalChars: chapters.reduce((sum, chapter) => sum + chapter.charCount, 0),
+          chapters,
+        };
       }),
   }),
-});
 
-/**
- * 背景處理 podcast 任務
- */
-async function processPodcastTask(
-  taskId: number, 
-  inputContent: string, 
-  mode: 'quick' | 'medium' | 'deep' = 'medium',
-  voiceId1?: string,
-  voiceId2?: string,
-  inputType: 'youtube' | 'text' | 'article' = 'youtube',
-  style: 'educational' | 'casual' | 'professional' = 'casual',
-  introText?: string,
-  outroText?: string
-) {
-  try {
-    // 導入進度更新服務
-    const { updateProgress } = await import('./services/progressService');
-    
-    // 驗證：從資料庫獲取任務資訊，確保使用正確的 URL
-    const { getPodcastTask } = await import('./db');
-    const { extractVideoId } = await import('./youtubeService');
-    const dbTask = await getPodcastTask(taskId, -1); // 使用 -1 跳過 userId 檢查
-    if (!dbTask) {
-      throw new Error(`Task ${taskId} not found in database`);
-    }
-    
-    // 驗證 URL 是否匹配（防止並發或參數錯誤）
-    if (inputType === 'youtube') {
-      const dbUrl = dbTask.youtubeUrl;
-      
-      // 提取 video ID 進行比較（因為 URL 格式可能不同）
-      const inputVideoId = extractVideoId(inputContent);
-      const dbVideoId = extractVideoId(dbUrl);
-      
-      if (inputVideoId && dbVideoId && inputVideoId !== dbVideoId) {
-        console.error(`[Task ${taskId}] ⚠️  URL mismatch detected!`);
-        console.error(`[Task ${taskId}] Input URL: ${inputContent} (Video ID: ${inputVideoId})`);
-        console.error(`[Task ${taskId}] DB URL: ${dbUrl} (Video ID: ${dbVideoId})`);
-        console.error(`[Task ${taskId}] 🔧 Using DB URL to ensure correctness`);
-        // 使用資料庫中的 URL，確保正確性
-        inputContent = dbUrl;
-      } else if (!inputVideoId && dbVideoId) {
-        // 如果輸入的 URL 無法解析，使用資料庫中的 URL
-        console.warn(`[Task ${taskId}] ⚠️  Input URL cannot be parsed, using DB URL: ${dbUrl}`);
-        inputContent = dbUrl;
-      } else if (inputVideoId && dbVideoId && inputVideoId === dbVideoId) {
-        // URL 匹配，記錄確認
-        console.log(`[Task ${taskId}] ✅ URL verified: ${inputContent} (Video ID: ${inputVideoId})`);
-      }
-      
-      console.log(`[Task ${taskId}] Processing YouTube URL: ${inputContent}`);
-    }
-    
-    // 更新狀態為處理中
-    await updatePodcastTask(taskId, { status: 'processing' });
-    await updateProgress({
-      taskId,
-      stage: 'queued',
-      percent: 0,
-      message: '任務已加入佇列，準備開始處理...',
-    });
+  // 錄音 / 影片檔與文件分塊上傳（可中斷續傳）
+  upload: router({
+    // 建立上傳工作階段
+    init: protectedProcedure
+      .input(z.object({
+        fileName: z.string().min(1).max(255),
+        size: z.number().int().positive(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const isDocument = !!getDocumentExtension(input.fileName);
+        if (!isDocument && !getUploadExtension(input.fileName)) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `不支援的檔案格式，請上傳 ${[...UPLOAD_EXTENSIONS, ...DOCUMENT_EXTENSIONS].map(ext => ext.toUpperCase()).join(' / ')}`,
+          });
+        }
+        const maxBytes = isDocument ? MAX_DOCUMENT_BYTES : MAX_UPLOAD_BYTES;
+        if (input.size > maxBytes) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `檔案超過 ${maxBytes / 1024 / 1024}MB 上限`,
+          });
+        }
 
-    // 根據 inputType 處理不同類型的輸入
-    let result;
-    if (inputType === 'youtube') {
-      // 處理 YouTube 影片
-      await updateProgress({
-        taskId,
-        stage: 'analyzing',
-        percent: 20,
-        message: '正在使用 AI 分析 YouTube 影片內容...',
-      });
-      
-      // 再次驗證 URL（確保使用正確的 URL）
-      const { extractVideoId } = await import('./youtubeService');
-      const finalVideoId = extractVideoId(inputContent);
-      if (!finalVideoId) {
-        throw new Error(`無法從 URL 中提取 Video ID: ${inputContent}`);
-      }
-      
-      console.log(`[Task ${taskId}] 🔍 Final verification - Processing URL: ${inputContent}`);
-      console.log(`[Task ${taskId}] 🔍 Video ID: ${finalVideoId}`);
-      console.log(`[Task ${taskId}] 🔍 Calling processYoutubeToPodcast...`);
-      
-      result = await processYoutubeToPodcast(inputContent);
-      
-      // 驗證返回的結果是否包含正確的標題
-      if (result.title) {
-        console.log(`[Task ${taskId}] ✅ Processing completed. Title: ${result.title}`);
-      } else {
-        console.warn(`[Task ${taskId}] ⚠️  Processing completed but title is missing`);
-      }
-      
-      await updateProgress({
-        taskId,
-        stage: 'analyzing',
-        percent: 60,
-        message: '內容分析完成',
-      });
-    } else if (inputType === 'text') {
-      // 處理文字輸入
-      await updateProgress({
-        taskId,
-        stage: 'analyzing',
-        percent: 50,
-        message: '正在分析文字內容...',
-      });
-      const { processTextToPodcast } = await import('./textService');
-      result = await processTextToPodcast(inputContent);
-    } else if (inputType === 'article') {
-      // 處理文章網址
-      await updateProgress({
-        taskId,
-        stage: 'downloading',
-        percent: 10,
-        message: '正在擷取文章內容...',
-      });
-      const { processArticleToPodcast } = await import('./articleService');
-      result = await processArticleToPodcast(inputContent);
-    } else {
-      throw new Error(`不支援的輸入類型: ${inputType}`);
-    }
+        const { createUploadSession } = await import('./services/uploadService');
+        const session = await createUploadSession(ctx.user.id, input.fileName, input.size);
+        return { uploadId: session.uploadId, totalChunks: session.totalChunks };
+      }),
 
-    // 任務資訊已在開頭獲取，這裡不需要再次獲取
-    // 但為了確保一致性，我們再次驗證
-    if (!dbTask) {
-      throw new Error(`Task ${taskId} not found`);
-    }
-    const task = dbTask;
+    // 查詢已收到的分塊（續傳用）
+    status: protectedProcedure
+      .input(z.object({
+        uploadId: z.string(),
+      }))
+      .query(async ({ input, ctx }) => {
+        const session = await getOwnedUploadSession(input.uploadId, ctx.user.id);
+        const { listReceivedChunks } = await import('./services/uploadService');
+        return {
+          totalChunks: session.totalChunks,
+          receivedChunks: await listReceivedChunks(session),
+        };
+      }),
 
-    // 決定使用哪個聲音：優先使用傳入的參數，否則使用使用者偏好
-    let finalVoiceId1 = voiceId1;
-    let finalVoiceId2 = voiceId2;
-    
-    if (!finalVoiceId1 || !finalVoiceId2) {
-      const { getVoicePreference } = await import('./db');
-      const voicePreference = await getVoicePreference(task.userId);
-      if (voicePreference) {
-        finalVoiceId1 = finalVoiceId1 || voicePreference.host1VoiceId || undefined;
-        finalVoiceId2 = finalVoiceId2 || voicePreference.host2VoiceId || undefined;
-      }
-    }
+    // 上傳單一分塊（base64）
+    chunk: protectedProcedure
+      .input(z.object({
+        uploadId: z.string(),
+        index: z.number().int().min(0),
+        data: z.string(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const session = await getOwnedUploadSession(input.uploadId, ctx.user.id);
+        if (input.index >= session.totalChunks) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '分塊編號超出範圍',
+          });
+        }
 
-    const customVoices = finalVoiceId1 && finalVoiceId2
-      ? { host1: finalVoiceId1, host2: finalVoiceId2 }
-      : undefined;
-
-    // 處理模板變數替換
-    const { replaceTemplateVariables, formatDate, formatDuration } = await import('./services/templateService');
-    const templateVars = {
-      date: formatDate(),
-      topic: result.title || result.summary?.substring(0, 50) || '本期內容',
-      title: result.title || '本期 Podcast',
-      duration: formatDuration(result.duration || 0),
-    };
-
-    let processedIntroText = introText ? replaceTemplateVariables(introText, templateVars) : undefined;
-    let processedOutroText = outroText ? replaceTemplateVariables(outroText, templateVars) : undefined;
-
-    // 生成開場音訊（如果有提供開場文字）
-    // 注意：開場和結尾應該直接讀出文字，而不是轉換成對話
-    // 將文字包裝成明確的單人敘述格式，讓 ListenHub 知道這只是要讀出的文字
-    let introEpisode: { audioUrl?: string } | null = null;
-    if (processedIntroText) {
-      console.log(`[Task ${taskId}] Generating intro audio...`);
-      await updateProgress({
-        taskId,
-        stage: 'generating',
-        percent: 65,
-        message: '正在生成開場音訊...',
-      });
-      try {
-        // **嘗試使用 FlowSpeech API**：如果可用，使用 FlowSpeech 生成簡單的 TTS（直接讀出文字）
-        // 否則回退到使用 podcast API（會轉換成對話）
+        const { saveUploadChunk } = await import('./services/uploadService');
         try {
-          const { generateFlowSpeech } = await import('./services/flowSpeechService');
-          const { selectMaleFemaleSpeakers } = await import('./listenHubService');
-          
-          // 獲取 speaker ID
-          let speakerId: string;
-          if (customVoices?.host1) {
-            speakerId = customVoices.host1;
-          } else {
-            const speakers = await selectMaleFemaleSpeakers();
-            speakerId = speakers.male.speakerId;
-          }
-          
-          console.log(`[Task ${taskId}] Attempting to use FlowSpeech API for intro (speaker: ${speakerId})...`);
-          const flowSpeechResult = await generateFlowSpeech(processedIntroText, speakerId, 'zh');
-          
-          if (flowSpeechResult.audioUrl) {
-            console.log(`[Task ${taskId}] ✅ Intro audio generated using FlowSpeech: ${flowSpeechResult.audioUrl}`);
-            introEpisode = { audioUrl: flowSpeechResult.audioUrl };
-          } else {
-            throw new Error("FlowSpeech API returned no audio URL");
-          }
-        } catch (flowSpeechError) {
-          console.log(`[Task ${taskId}] FlowSpeech API not available, falling back to direct narration:`, flowSpeechError instanceof Error ? flowSpeechError.message : String(flowSpeechError));
-          
-          // 回退到使用直接敘述模式（單一 speaker，明確指示直接讀出文字）
-          const { generateDirectNarration } = await import('./listenHubService');
-          const { selectMaleFemaleSpeakers } = await import('./listenHubService');
-          
-          // 獲取單一 speaker ID
-          let narrationSpeakerId: string;
-          if (customVoices?.host1) {
-            narrationSpeakerId = customVoices.host1;
-          } else {
-            const speakers = await selectMaleFemaleSpeakers();
-            narrationSpeakerId = speakers.male.speakerId;
-          }
-          
-          console.log(`[Task ${taskId}] Generating intro audio using direct narration mode (speaker: ${narrationSpeakerId}): "${processedIntroText.substring(0, 50)}..."`);
-          introEpisode = await generateDirectNarration(processedIntroText, narrationSpeakerId);
-          console.log(`[Task ${taskId}] ✅ Intro audio generated: ${introEpisode.audioUrl}`);
+          await saveUploadChunk(session, input.index, Buffer.from(input.data, 'base64'));
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: error instanceof Error ? error.message : String(error),
+          });
         }
-      } catch (error) {
-        console.error(`[Task ${taskId}] ❌ Failed to generate intro audio:`, error);
-        // 如果開場生成失敗，繼續處理主要內容，但不使用開場
-        introEpisode = null;
-      }
-    }
+        return { success: true };
+      }),
 
-    // 限制 summary 長度，根據模式控制（避免生成過長的 podcast）
-    let processedSummary = result.summary;
-    const summaryLengthLimits = {
-      quick: 500,   // 4-5 分鐘對應約 500 字
-      medium: 800,  // 7-8 分鐘對應約 800 字
-      deep: 1200,  // 10-12 分鐘對應約 1200 字
-    };
-    const maxLength = summaryLengthLimits[mode] || summaryLengthLimits.medium;
-    
-    if (processedSummary.length > maxLength) {
-      console.log(`[Task ${taskId}] Summary too long (${processedSummary.length} chars), truncating to ${maxLength} chars for ${mode} mode`);
-      processedSummary = processedSummary.substring(0, maxLength) + '...';
-    }
-    
-    console.log(`[Task ${taskId}] Using summary length: ${processedSummary.length} chars for ${mode} mode`);
-
-    // 生成主要 ListenHub Podcast
-    console.log(`[Task ${taskId}] Generating main ListenHub podcast with mode: ${mode}...`);
-    await updateProgress({
-      taskId,
-      stage: 'generating',
-      percent: 75,
-      message: '正在生成主要 Podcast 音檔...',
-    });
-    
-    const podcastEpisode = await generateChinesePodcast(processedSummary, mode, customVoices);
-    
-    console.log(`[Task ${taskId}] Main podcast generated: ${podcastEpisode.audioUrl}`);
-
-    // 生成結尾音訊（如果有提供結尾文字）
-    // 注意：結尾應該直接讀出文字，而不是轉換成對話
-    // 將文字包裝成明確的單人敘述格式，讓 ListenHub 知道這只是要讀出的文字
-    let outroEpisode: { audioUrl?: string } | null = null;
-    if (processedOutroText) {
-      console.log(`[Task ${taskId}] Generating outro audio...`);
-      await updateProgress({
-        taskId,
-        stage: 'generating',
-        percent: 85,
-        message: '正在生成結尾音訊...',
-      });
-      try {
-        // **嘗試使用 FlowSpeech API**：如果可用，使用 FlowSpeech 生成簡單的 TTS（直接讀出文字）
-        // 否則回退到使用 podcast API（會轉換成對話）
+    // 所有分塊上傳完成後合併並存入儲存空間
+    complete: protectedProcedure
+      .input(z.object({
+        uploadId: z.string(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const session = await getOwnedUploadSession(input.uploadId, ctx.user.id);
+        const { completeUpload, getUploadTitle } = await import('./services/uploadService');
         try {
-          const { generateFlowSpeech } = await import('./services/flowSpeechService');
-          const { selectMaleFemaleSpeakers } = await import('./listenHubService');
-          const speakers = await selectMaleFemaleSpeakers();
-          const speakerId = customVoices?.host1 || speakers.male.speakerId;
-          
-          console.log(`[Task ${taskId}] Attempting to use FlowSpeech API for outro...`);
-          const flowSpeechResult = await generateFlowSpeech(processedOutroText, speakerId, 'zh');
-          
-          if (flowSpeechResult.audioUrl) {
-            console.log(`[Task ${taskId}] ✅ Outro audio generated using FlowSpeech: ${flowSpeechResult.audioUrl}`);
-            outroEpisode = { audioUrl: flowSpeechResult.audioUrl };
-          } else {
-            throw new Error("FlowSpeech API returned no audio URL");
-          }
-        } catch (flowSpeechError) {
-          console.log(`[Task ${taskId}] FlowSpeech API not available, falling back to direct narration:`, flowSpeechError instanceof Error ? flowSpeechError.message : String(flowSpeechError));
-          
-          // 回退到使用直接敘述模式（單一 speaker，明確指示直接讀出文字）
-          const { generateDirectNarration } = await import('./listenHubService');
-          const { selectMaleFemaleSpeakers } = await import('./listenHubService');
-          
-          // 獲取單一 speaker ID
-          let narrationSpeakerId: string;
-          if (customVoices?.host1) {
-            narrationSpeakerId = customVoices.host1;
-          } else {
-            const speakers = await selectMaleFemaleSpeakers();
-            narrationSpeakerId = speakers.male.speakerId;
+          const { fileKey, sizeMB } = await completeUpload(session);
+          return { fileKey, title: getUploadTitle(fileKey), sizeMB };
+        } catch (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: `上傳失敗：${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      }),
+  }),
+
+  // 批次任務（YouTube 播放清單 / 頻道）
+  batch: router({
+    // 預覽播放清單或頻道中的影片
+    preview: protectedProcedure
+      .input(z.object({
+        url: z.string().url(),
+      }))
+      .mutation(async ({ input }) => {
+        const collection = parseCollectionUrl(input.url);
+        const { listYoutubeCollectionVideos } = await import('./youtubeService');
+        const { MAX_BATCH_ITEMS } = await import('./services/batchService');
+        const { title, videos } = await listYoutubeCollectionVideos(collection.url, MAX_BATCH_ITEMS);
+        return {
+          type: collection.type,
+          title,
+          count: videos.length,
+          videos: videos.slice(0, 10),
+        };
+      }),
+
+    // 建立批次（每部影片一個任務）
+    create: protectedProcedure
+      .input(z.object({
+        url: z.string().url(),
+        maxItems: z.number().int().min(1).max(200).optional(),
+        voiceId1: z.string().optional(),
+        voiceId2: z.string().optional(),
+        hosts: hostsSchema.optional(),
+        coverImageUrl: z.string().url().optional(),
+        showProfileId: z.number().optional(),
+        mastering: masteringSchema.optional(),
+        music: musicSelectionSchema.optional(),
+        mode: z.enum(['quick', 'medium', 'deep']).optional(),
+        style: styleKeySchema.optional(),
+        introText: z.string().optional(),
+        outroText: z.string().optional(),
+        ttsProvider: z.enum(TTS_PROVIDER_IDS).optional(),
+        scriptReview: z.boolean().optional(),
+        outputLanguage: z.enum(OUTPUT_LANGUAGES).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { url, maxItems, mode, style, introText, outroText, ...rest } = input;
+        await assertStyleAvailable(style);
+        if (rest.showProfileId) {
+          await getOwnedShowProfile(rest.showProfileId, ctx.user.id);
+        }
+        await assertMusicSelection(rest.music, ctx.user.id);
+        const collection = parseCollectionUrl(url);
+
+        const { createBatchFromCollection } = await import('./services/batchService');
+        const { batchId, taskIds } = await createBatchFromCollection(ctx.user.id, collection, {
+          ...rest,
+          mode: mode || 'medium',
+          style: style || 'casual',
+          introText: introText?.trim() || undefined,
+          outroText: outroText?.trim() || undefined,
+        }, maxItems);
+
+        return { batchId, taskCount: taskIds.length };
+      }),
+
+    // 獲取使用者的所有批次（含整體進度）
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserBatches, getBatchTasks } = await import('./db');
+      const { summarizeBatch } = await import('./services/batchService');
+      const batches = await getUserBatches(ctx.user.id);
+      return Promise.all(batches.map(async batch => ({
+        ...batch,
+        summary: summarizeBatch(await getBatchTasks(batch.id)),
+      })));
+    }),
+
+    // 獲取批次詳情與各項目狀態
+    get: protectedProcedure
+      .input(z.object({
+        batchId: z.number(),
+      }))
+      .query(async ({ input, ctx }) => {
+        const batch = await getOwnedBatch(input.batchId, ctx.user.id);
+        const { getBatchTasks } = await import('./db');
+        const { summarizeBatch } = await import('./services/batchService');
+        const tasks = await getBatchTasks(batch.id);
+        return {
+          ...batch,
+          summary: summarizeBatch(tasks),
+          items: tasks.map(task => ({
+            id: task.id,
+            title: task.title,
+            youtubeUrl: task.youtubeUrl,
+            status: task.status,
+            progressPercent: task.progressPercent,
+            progressMessage: task.progressMessage,
+            errorMessage: task.errorMessage,
+          })),
+        };
+      }),
+
+    // 暫停批次（進行中的項目會繼續完成）
+    pause: protectedProcedure
+      .input(z.object({
+        batchId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const batch = await getOwnedBatch(input.batchId, ctx.user.id);
+        if (batch.status !== 'active') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '只有執行中的批次可以暫停',
+          });
+        }
+        const { pauseBatch } = await import('./services/batchService');
+        return { paused: await pauseBatch(batch) };
+      }),
+
+    // 恢復批次
+    resume: protectedProcedure
+      .input(z.object({
+        batchId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const batch = await getOwnedBatch(input.batchId, ctx.user.id);
+        if (batch.status !== 'paused') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '只有已暫停的批次可以恢復',
+          });
+        }
+        const { resumeBatch } = await import('./services/batchService');
+        return { resumed: await resumeBatch(batch) };
+      }),
+
+    // 取消批次（尚未開始的項目標記為失敗，之後仍可重試）
+    cancel: protectedProcedure
+      .input(z.object({
+        batchId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const batch = await getOwnedBatch(input.batchId, ctx.user.id);
+        if (batch.status === 'cancelled') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '批次已取消',
+          });
+        }
+        const { cancelBatch } = await import('./services/batchService');
+        return { cancelled: await cancelBatch(batch) };
+      }),
+
+    // 重試批次中所有失敗的項目（單一項目請使用 podcast.retry）
+    retryFailed: protectedProcedure
+      .input(z.object({
+        batchId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const batch = await getOwnedBatch(input.batchId, ctx.user.id);
+        const { retryFailedBatchItems } = await import('./services/batchService');
+        return { requeued: await retryFailedBatchItems(batch) };
+      }),
+  }),
+
+  // 來源訂閱（定期檢查 YouTube 頻道 / RSS，自動產生新單集）
+  subscription: router({
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserSubscriptions } = await import('./db');
+      return getUserSubscriptions(ctx.user.id);
+    }),
+
+    // 建立訂閱（訂閱前已存在的內容不會產生任務）
+    create: protectedProcedure
+      .input(z.object({
+        url: z.string().url(),
+        ...subscriptionSettingsSchema.shape,
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { url, mode, style, outputLanguage, introText, outroText, checkIntervalHours } = input;
+        await assertStyleAvailable(style);
+        const { createSubscriptionFromUrl } = await import('./services/subscriptionService');
+        try {
+          return await createSubscriptionFromUrl(ctx.user.id, url, {
+            mode: mode || 'medium',
+            style: style || 'casual',
+            outputLanguage: outputLanguage || DEFAULT_OUTPUT_LANGUAGE,
+            checkIntervalHours: checkIntervalHours || 24,
+            introText: introText?.trim() || null,
+            outroText: outroText?.trim() || null,
+          });
+        } catch (error) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `無法讀取訂閱來源：${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      }),
+
+    update: protectedProcedure
+      .input(z.object({
+        subscriptionId: z.number(),
+        enabled: z.boolean().optional(),
+        ...subscriptionSettingsSchema.shape,
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { subscriptionId, introText, outroText, ...updates } = input;
+        const subscription = await getOwnedSubscription(subscriptionId, ctx.user.id);
+        await assertStyleAvailable(updates.style);
+
+        const { updateSubscription } = await import('./db');
+        await updateSubscription(subscription.id, {
+          ...updates,
+          ...(introText !== undefined && { introText: introText.trim() || null }),
+          ...(outroText !== undefined && { outroText: outroText.trim() || null }),
+          // 重新啟用時從現在起算下一次檢查
+          ...(updates.enabled && !subscription.enabled && { nextCheckAt: new Date() }),
+        });
+        return { success: true };
+      }),
+
+    delete: protectedProcedure
+      .input(z.object({
+        subscriptionId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await getOwnedSubscription(input.subscriptionId, ctx.user.id);
+        const { deleteSubscription } = await import('./db');
+        await deleteSubscription(input.subscriptionId, ctx.user.id);
+        return { success: true };
+      }),
+
+    // 立即檢查一次（不影響排程）
+    checkNow: protectedProcedure
+      .input(z.object({
+        subscriptionId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const subscription = await getOwnedSubscription(input.subscriptionId, ctx.user.id);
+        const { checkSubscription } = await import('./services/subscriptionService');
+        const created = await checkSubscription(subscription);
+
+        const { getSubscription } = await import('./db');
+        const updated = await getSubscription(subscription.id, ctx.user.id);
+        return { created, lastError: updated?.lastError ?? null };
+      }),
+  }),
+
+  // 節目風格提示詞模板
+  promptTemplate: router({
+    // 可選用的風格（工作區與訂閱的風格選單）
+    styles: protectedProcedure.query(async () => {
+      const { listAvailableStyles } = await import('./services/promptTemplateService');
+      const styles = await listAvailableStyles();
+      return styles.map(({ styleKey, name, description }) => ({ styleKey, name, description }));
+    }),
+
+    // 管理員：所有風格與歷史版本
+    list: adminProcedure.query(async () => {
+      const { listAvailableStyles } = await import('./services/promptTemplateService');
+      const { listPromptTemplates } = await import('./db');
+      return {
+        styles: await listAvailableStyles(),
+        versions: await listPromptTemplates(),
+      };
+    }),
+
+    // 管理員：儲存為新版本並啟用（styleKey 不存在時即新增風格）
+    save: adminProcedure
+      .input(z.object({
+        styleKey: styleKeySchema,
+        name: z.string().trim().min(1).max(100),
+        description: z.string().max(500).optional(),
+        summaryPrompt: z.string().trim().min(1).max(4000),
+        scriptPrompt: z.string().trim().min(1).max(4000),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { createPromptTemplateVersion } = await import('./db');
+        const templateId = await createPromptTemplateVersion({
+          ...input,
+          description: input.description?.trim() || null,
+          createdBy: ctx.user.id,
+        });
+        return { templateId };
+      }),
+
+    // 管理員：啟用指定版本（回復舊版本）
+    activate: adminProcedure
+      .input(z.object({
+        templateId: z.number(),
+      }))
+      .mutation(async ({ input }) => {
+        const { getPromptTemplate, activatePromptTemplate } = await import('./db');
+        const template = await getPromptTemplate(input.templateId);
+        if (!template) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: '找不到該模板版本',
+          });
+        }
+        await activatePromptTemplate(template.id);
+        return { success: true };
+      }),
+  }),
+
+  // 內容快取（重複提交時重用轉錄與分析結果）
+  contentCache: router({
+    // 管理員：快取統計
+    stats: adminProcedure.query(async () => {
+      const { getContentCacheStats } = await import('./db');
+      const { ENV } = await import('./_core/env');
+      return {
+        ttlDays: ENV.contentCacheTtlDays,
+        sources: await getContentCacheStats(),
+      };
+    }),
+
+    // 管理員：清除快取（可指定影片或來源類型，或只清除已過期的項目）
+    purge: adminProcedure
+      .input(z.object({
+        youtubeUrl: z.string().url().optional(),
+        sourceType: z.enum(['youtube', 'text', 'article']).optional(),
+        expiredOnly: z.boolean().default(false),
+      }))
+      .mutation(async ({ input }) => {
+        let sourceKey: string | undefined;
+        if (input.youtubeUrl) {
+          const videoId = extractVideoId(input.youtubeUrl);
+          if (!videoId) {
+            throw new TRPCError({
+              code: 'BAD_REQUEST',
+              message: '無效的 YouTube 網址',
+            });
           }
-          
-          console.log(`[Task ${taskId}] Generating outro audio using direct narration mode (speaker: ${narrationSpeakerId}): "${processedOutroText.substring(0, 50)}..."`);
-          outroEpisode = await generateDirectNarration(processedOutroText, narrationSpeakerId);
-          console.log(`[Task ${taskId}] ✅ Outro audio generated: ${outroEpisode.audioUrl}`);
+          sourceKey = videoId;
         }
-      } catch (error) {
-        console.error(`[Task ${taskId}] ❌ Failed to generate outro audio:`, error);
-        // 如果結尾生成失敗，繼續處理，但不使用結尾
-        outroEpisode = null;
-      }
-    }
 
-    // 如果有開場或結尾，合併音訊（確保等待所有音訊生成完成）
-    let finalAudioUrl = podcastEpisode.audioUrl;
-    const hasIntro = introEpisode?.audioUrl;
-    const hasOutro = outroEpisode?.audioUrl;
-    
-    // 詳細日誌：確認開場和結尾的狀態
-    console.log(`[Task ${taskId}] Audio segments status:`);
-    console.log(`[Task ${taskId}] - Intro: ${hasIntro ? `✅ ${introEpisode?.audioUrl}` : '❌ Not generated'}`);
-    console.log(`[Task ${taskId}] - Main: ✅ ${podcastEpisode.audioUrl}`);
-    console.log(`[Task ${taskId}] - Outro: ${hasOutro ? `✅ ${outroEpisode?.audioUrl}` : '❌ Not generated'}`);
-    
-    if (hasIntro || hasOutro) {
-      console.log(`[Task ${taskId}] Merging audio segments...`);
-      await updateProgress({
-        taskId,
-        stage: 'generating',
-        percent: 90,
-        message: '正在合併音訊片段...',
-      });
+        const { deleteContentCacheEntries } = await import('./db');
+        const deleted = await deleteContentCacheEntries({
+          sourceType: input.youtubeUrl ? 'youtube' : input.sourceType,
+          sourceKey,
+          expiredOnly: input.expiredOnly,
+        });
+        console.log(`[ContentCache] 管理員清除快取 ${deleted} 筆`, input);
+        return { deleted };
+      }),
+  }),
 
-      try {
-        const { mergePodcastAudio } = await import('./services/audioMergeService');
-        const { storagePut } = await import('./storage');
-        const fs = await import('fs/promises');
-
-        console.log(`[Task ${taskId}] Calling mergePodcastAudio with:`);
-        console.log(`[Task ${taskId}] - introUrl: ${hasIntro ? introEpisode?.audioUrl : 'null'}`);
-        console.log(`[Task ${taskId}] - mainUrl: ${podcastEpisode.audioUrl}`);
-        console.log(`[Task ${taskId}] - outroUrl: ${hasOutro ? outroEpisode?.audioUrl : 'null'}`);
-
-        // 合併音訊
-        const mergedAudioPath = await mergePodcastAudio(
-          introEpisode?.audioUrl,
-          podcastEpisode.audioUrl,
-          outroEpisode?.audioUrl
-        );
-        
-        console.log(`[Task ${taskId}] ✅ Audio merged successfully: ${mergedAudioPath}`);
+  // Podcast 節目（RSS feed 發佈）
+  showProfile: router({
+    // 獲取使用者的所有節目設定
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserShowProfiles } = await import('./db');
+      const profiles = await getUserShowProfiles(ctx.user.id);
+      return profiles.map(toShowProfileView);
+    }),
+
+    // 建立節目設定
+    create: protectedProcedure
+      .input(showProfileSchema)
+      .mutation(async ({ input, ctx }) => {
+        await assertStyleAvailable(input.style);
+        const profiles = await assertShowProfileNameAvailable(ctx.user.id, input.name);
+        if (profiles.length >= MAX_SHOW_PROFILES) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `節目設定最多 ${MAX_SHOW_PROFILES} 個`,
+          });
+        }
+
+        const { hosts, introText, outroText, music, ...settings } = input;
+        await assertMusicSelection(music, ctx.user.id);
+        const { createShowProfile } = await import('./db');
+        const profileId = await createShowProfile({
+          ...settings,
+          userId: ctx.user.id,
+          hosts: JSON.stringify(hosts),
+          music: music ? JSON.stringify(music) : null,
+          introText: introText?.trim() || null,
+          outroText: outroText?.trim() || null,
+        });
+        return { profileId };
+      }),
 
-        // 讀取合併後的音訊檔案
-        const mergedAudioBuffer = await fs.readFile(mergedAudioPath);
+    // 更新節目設定
+    update: protectedProcedure
+      .input(showProfileSchema.partial().extend({
+        profileId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { profileId, hosts, introText, outroText, music, ...settings } = input;
+        await getOwnedShowProfile(profileId, ctx.user.id);
+        await assertStyleAvailable(settings.style);
+        await assertMusicSelection(music, ctx.user.id);
+        if (settings.name) {
+          await assertShowProfileNameAvailable(ctx.user.id, settings.name, profileId);
+        }
+
+        const { updateShowProfile } = await import('./db');
+        await updateShowProfile(profileId, {
+          ...settings,
+          ...(hosts && { hosts: JSON.stringify(hosts) }),
+          ...(music !== undefined && { music: music ? JSON.stringify(music) : null }),
+          ...(introText !== undefined && { introText: introText?.trim() || null }),
+          ...(outroText !== undefined && { outroText: outroText?.trim() || null }),
+        });
+        return { success: true };
+      }),
 
-        // 上傳到存儲
-        const timestamp = Date.now();
-        const randomSuffix = Math.random().toString(36).substring(7);
-        const fileKey = `podcasts/${task.userId}/${taskId}/merged_${timestamp}_${randomSuffix}.mp3`;
-        const { url } = await storagePut(fileKey, mergedAudioBuffer, 'audio/mpeg');
+    // 刪除節目設定（已建立的任務不受影響）
+    delete: protectedProcedure
+      .input(z.object({
+        profileId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await getOwnedShowProfile(input.profileId, ctx.user.id);
+        const { deleteShowProfile } = await import('./db');
+        await deleteShowProfile(input.profileId, ctx.user.id);
+        return { success: true };
+      }),
+  }),
 
-        finalAudioUrl = url;
-        console.log(`[Task ${taskId}] Merged audio uploaded: ${finalAudioUrl}`);
+  music: router({
+    // 獲取使用者的音樂庫（含試聽網址）
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserMusicTracks } = await import('./db');
+      const { getMusicTrackUrl } = await import('./services/musicService');
+      const tracks = await getUserMusicTracks(ctx.user.id);
+      return Promise.all(tracks.map(async track => ({
+        ...track,
+        playUrl: await getMusicTrackUrl(track).catch(() => undefined),
+      })));
+    }),
 
-        // 清理臨時檔案
+    // 新增音樂（上傳的音檔或外部網址）
+    create: protectedProcedure
+      .input(z.object({
+        name: z.string().trim().min(1, '請輸入音樂名稱').max(128),
+        kind: z.enum(MUSIC_TRACK_KINDS),
+        uploadKey: z.string().optional(), // upload.complete 回傳的儲存路徑
+        audioUrl: z.string().url().optional(),
+        license: z.string().trim().max(1000).optional(), // 授權說明
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { uploadKey, audioUrl, license, ...track } = input;
+        const { getUploadKeyPrefix } = await import('./services/uploadService');
+        if (uploadKey
+          ? !uploadKey.startsWith(getUploadKeyPrefix(ctx.user.id)) || getDocumentExtension(uploadKey)
+          : !audioUrl) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '請上傳音檔或提供音檔網址',
+          });
+        }
+
+        const { getUserMusicTracks, createMusicTrack } = await import('./db');
+        const tracks = await getUserMusicTracks(ctx.user.id);
+        if (tracks.length >= MAX_MUSIC_TRACKS) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `音樂庫最多 ${MAX_MUSIC_TRACKS} 首`,
+          });
+        }
+
+        // 讀取長度供列表顯示（外部網址無法讀取時仍允許新增，合併時才會下載）
+        const { getMusicTrackUrl } = await import('./services/musicService');
+        const { getAudioDuration } = await import('./services/timelineService');
+        const source = uploadKey ? { audioKey: uploadKey, audioUrl: null } : { audioKey: null, audioUrl: audioUrl! };
+        let durationSeconds: number | null = null;
         try {
-          await fs.unlink(mergedAudioPath);
+          const url = await getMusicTrackUrl(source);
+          durationSeconds = url ? Math.round(await getAudioDuration(url)) : null;
         } catch (error) {
-          console.warn(`[Task ${taskId}] Failed to clean up merged audio file:`, error);
+          console.warn(`[Music] Cannot read duration of "${track.name}":`, error instanceof Error ? error.message : error);
         }
-      } catch (error) {
-        console.error(`[Task ${taskId}] Failed to merge audio:`, error);
-        // 如果合併失敗，使用主要 podcast 音訊
-        console.warn(`[Task ${taskId}] Using main podcast audio only due to merge failure`);
-      }
-    }
 
-    // 更新任務結果
-    await updateProgress({
-      taskId,
-      stage: 'completed',
-      percent: 100,
-      message: 'Podcast 生成完成！',
-    });
-    await updatePodcastTask(taskId, {
-      status: 'completed',
-      title: result.title || null,
-      transcription: result.transcription,
-      summary: result.summary,
-      podcastScript: result.podcastScript,
-      audioUrl: result.audioUrl,
-      audioFileKey: result.audioFileKey,
-      listenHubEpisodeId: podcastEpisode.episodeId,
-      podcastAudioUrl: finalAudioUrl || null, // 使用合併後的音訊 URL（如果有的話）
-      podcastTitle: podcastEpisode.title || null,
-      podcastScripts: podcastEpisode.scripts ? JSON.stringify(podcastEpisode.scripts) : null,
-    });
-  } catch (error) {
-    // 使用統一的錯誤處理
-    const appError = normalizeError(error);
-    logError(appError, { taskId, inputType, mode });
-    
-    const { updateProgress } = await import('./services/progressService');
-    const userMessage = getUserFriendlyMessage(appError);
-    
-    await updateProgress({
-      taskId,
-      stage: 'failed',
-      percent: 0,
-      message: userMessage,
-    });
-    await updatePodcastTask(taskId, {
-      status: 'failed',
-      errorMessage: userMessage,
-    });
-  }
-}
+        const trackId = await createMusicTrack({
+          ...track,
+          ...source,
+          userId: ctx.user.id,
+          durationSeconds,
+          license: license || null,
+        });
+        return { trackId };
+      }),
 
-/**
- * 背景處理虛擬主播影片生成任務（使用 HeyGen API）
- */
-async function processAvatarVideoGeneration(
-  taskId: number,
-  avatarImageUrl: string,
-  audioUrl: string,
-  mode: 'std' | 'pro' = 'std',
-  prompt?: string
-) {
-  try {
-    const { updateAvatarVideoTask } = await import('./db');
-    const { createAvatarVideo, pollVideoStatus } = await import('./services/heygenService');
-    
-    console.log(`[AvatarVideo] Task ${taskId}: Starting avatar video generation with HeyGen`);
-    console.log(`[AvatarVideo] Audio URL: ${audioUrl}`);
-    console.log(`[AvatarVideo] Test mode: ${mode === 'std'}`);
-    
-    // 更新狀態為 submitted
-    await updateAvatarVideoTask(taskId, { status: 'submitted' });
-    
-    // 創建 HeyGen 影片任務
-    // 注意：test: true 不消耗額度，但會有浮水印
-    const response = await createAvatarVideo({
-      audioUrl,
-      test: mode === 'std', // std 模式使用測試模式（免費但有浮水印）
-    });
-    
-    const heygenVideoId = response.data.video_id;
-    console.log(`[AvatarVideo] Task ${taskId}: HeyGen video task created: ${heygenVideoId}`);
-    
-    // 更新 HeyGen 影片 ID 和狀態
-    await updateAvatarVideoTask(taskId, {
-      apiVideoId: heygenVideoId,
-      status: 'processing',
-    });
-    
-    // 輪詢任務狀態（最多 60 次，每 10 秒一次，共 10 分鐘）
-    console.log(`[AvatarVideo] Task ${taskId}: Polling HeyGen video status...`);
-    const result = await pollVideoStatus(heygenVideoId, 60, 10000);
-    
-    // 獲取影片 URL
-    const videoUrl = result.data.video_url;
-    const thumbnailUrl = result.data.thumbnail_url;
-    const duration = result.data.duration;
-    
-    if (!videoUrl) {
-      throw new Error('No video URL returned');
-    }
-    
-    console.log(`[AvatarVideo] Task ${taskId}: Video generated successfully`);
-    console.log(`[AvatarVideo] Video URL: ${videoUrl}`);
-    console.log(`[AvatarVideo] Duration: ${duration}s`);
+    // 更新音樂名稱與授權說明
+    update: protectedProcedure
+      .input(z.object({
+        trackId: z.number(),
+        name: z.string().trim().min(1, '請輸入音樂名稱').max(128).optional(),
+        license: z.string().trim().max(1000).nullable().optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { trackId, name, license } = input;
+        const { getMusicTrack, updateMusicTrack } = await import('./db');
+        if (!await getMusicTrack(trackId, ctx.user.id)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: '找不到該音樂',
+          });
+        }
+        await updateMusicTrack(trackId, {
+          ...(name && { name }),
+          ...(license !== undefined && { license: license || null }),
+        });
+        return { success: true };
+      }),
+
+    // 刪除音樂（已完成的單集不受影響，節目設定中引用的音樂會被略過）
+    delete: protectedProcedure
+      .input(z.object({
+        trackId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { deleteMusicTrack } = await import('./db');
+        await deleteMusicTrack(input.trackId, ctx.user.id);
+        return { success: true };
+      }),
+  }),
+
+  pronunciation: router({
+    // 獲取使用者的所有發音詞條（含各節目專屬的詞條）
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserPronunciationEntries } = await import('./db');
+      return getUserPronunciationEntries(ctx.user.id);
+    }),
+
+    // 新增發音詞條
+    create: protectedProcedure
+      .input(pronunciationEntrySchema)
+      .mutation(async ({ input, ctx }) => {
+        const entry = await normalizePronunciationEntry(input, ctx.user.id);
+        const { getUserPronunciationEntries, createPronunciationEntry } = await import('./db');
+        const entries = await getUserPronunciationEntries(ctx.user.id);
+        if (entries.length >= MAX_PRONUNCIATION_ENTRIES) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: `發音詞條最多 ${MAX_PRONUNCIATION_ENTRIES} 個`,
+          });
+        }
+        assertPronunciationEntryUnique(entries, entry);
+
+        const entryId = await createPronunciationEntry({ ...entry, userId: ctx.user.id });
+        return { entryId };
+      }),
+
+    // 更新發音詞條
+    update: protectedProcedure
+      .input(pronunciationEntrySchema.extend({
+        entryId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { entryId, ...fields } = input;
+        const { getPronunciationEntry, getUserPronunciationEntries, updatePronunciationEntry } = await import('./db');
+        if (!await getPronunciationEntry(entryId, ctx.user.id)) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: '找不到該發音詞條',
+          });
+        }
+        const entry = await normalizePronunciationEntry(fields, ctx.user.id);
+        assertPronunciationEntryUnique(await getUserPronunciationEntries(ctx.user.id), entry, entryId);
+
+        await updatePronunciationEntry(entryId, entry);
+        return { success: true };
+      }),
+
+    // 刪除發音詞條
+    delete: protectedProcedure
+      .input(z.object({
+        entryId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { deletePronunciationEntry } = await import('./db');
+        await deletePronunciationEntry(input.entryId, ctx.user.id);
+        return { success: true };
+      }),
+
+    // 試聽念法：套用發音辭典後合成一句話
+    preview: protectedProcedure
+      .input(z.object({
+        text: z.string().trim().min(1, '請輸入試聽句子').max(200),
+        voiceId: z.string().optional(),
+        showProfileId: z.number().nullable().optional(),
+        provider: z.enum(TTS_PROVIDER_IDS).optional(),
+        language: z.enum(OUTPUT_LANGUAGES).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { getTtsProvider, selectDefaultVoices } = await import('./services/ttsService');
+        const { applyPronunciations, loadPronunciationRules } = await import('./services/pronunciationService');
+        const tts = await getTtsProvider(input.provider);
+        const ttsLanguage = getOutputLanguageInfo(input.language).ttsLanguage;
+        const voiceId = input.voiceId || (await selectDefaultVoices(tts, 1, ttsLanguage))[0];
+
+        const rules = await loadPronunciationRules(ctx.user.id, input.showProfileId);
+        const spokenText = applyPronunciations(input.text, rules, voiceId);
+        try {
+          const { audioUrl } = await tts.synthesizeUtterance(spokenText, voiceId, { language: ttsLanguage });
+          return { audioUrl, spokenText };
+        } catch (error) {
+          throw new TRPCError({
+            code: 'INTERNAL_SERVER_ERROR',
+            message: `試聽合成失敗：${error instanceof Error ? error.message : String(error)}`,
+          });
+        }
+      }),
+  }),
+
+  show: router({
+    // 獲取使用者的所有節目
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const { getUserShows, getShowEpisodes } = await import('./db');
+      const { getFeedPath } = await import('./services/podcastFeedService');
+      const shows = await getUserShows(ctx.user.id);
+      return Promise.all(shows.map(async show => ({
+        ...show,
+        feedPath: getFeedPath(show.slug),
+        episodeCount: (await getShowEpisodes(show.id)).length,
+      })));
+    }),
+
+    // 獲取節目詳情與單集
+    get: protectedProcedure
+      .input(z.object({
+        showId: z.number(),
+      }))
+      .query(async ({ input, ctx }) => {
+        const show = await getOwnedShow(input.showId, ctx.user.id);
+        const { getShowEpisodes } = await import('./db');
+        const { getFeedPath } = await import('./services/podcastFeedService');
+        return {
+          ...show,
+          feedPath: getFeedPath(show.slug),
+          episodes: await getShowEpisodes(show.id),
+        };
+      }),
+
+    // 建立節目
+    create: protectedProcedure
+      .input(showInfoSchema)
+      .mutation(async ({ input, ctx }) => {
+        const { createShow } = await import('./db');
+        const { generateShowSlug } = await import('./services/podcastFeedService');
+        const showId = await createShow({
+          ...input,
+          userId: ctx.user.id,
+          slug: generateShowSlug(),
+        });
+        return { showId };
+      }),
+
+    // 更新節目資訊
+    update: protectedProcedure
+      .input(showInfoSchema.partial().extend({
+        showId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { showId, ...updates } = input;
+        await getOwnedShow(showId, ctx.user.id);
+        const { updateShow } = await import('./db');
+        await updateShow(showId, updates);
+        return { success: true };
+      }),
+
+    // 刪除節目（feed 會立即失效）
+    delete: protectedProcedure
+      .input(z.object({
+        showId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const { deleteShow } = await import('./db');
+        await deleteShow(input.showId, ctx.user.id);
+        return { success: true };
+      }),
+
+    // 將完成的任務發佈為節目單集
+    addEpisode: protectedProcedure
+      .input(z.object({
+        showId: z.number(),
+        taskId: z.number(),
+        title: z.string().max(256).optional(),
+        description: z.string().max(10000).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        const show = await getOwnedShow(input.showId, ctx.user.id);
+
+        const task = await getPodcastTask(input.taskId, ctx.user.id);
+        if (!task) {
+          throw new TRPCError({
+            code: 'NOT_FOUND',
+            message: '找不到該任務',
+          });
+        }
+        if (task.status !== 'completed' || !task.podcastAudioUrl) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '只能發佈已完成且有 Podcast 音檔的任務',
+          });
+        }
+
+        const { getShowEpisodes, addShowEpisode } = await import('./db');
+        const existing = await getShowEpisodes(show.id);
+        if (existing.some(episode => episode.taskId === task.id)) {
+          throw new TRPCError({
+            code: 'CONFLICT',
+            message: '該任務已在此節目中',
+          });
+        }
+
+        // enclosure 需要音檔大小與長度，發佈時讀取一次並保存
+        const { buildDefaultShowNotes, generateEpisodeGuid, getAudioByteLength, resolveEpisodeAudioUrl } = await import('./services/podcastFeedService');
+        const { getAudioDuration } = await import('./services/timelineService');
+        const audioUrl = await resolveEpisodeAudioUrl({ audioUrl: task.podcastAudioUrl, audioKey: task.podcastAudioKey });
+        const audioBytes = await getAudioByteLength(audioUrl);
+        const durationSeconds = await getAudioDuration(audioUrl).catch((error) => {
+          console.warn(`[Show] Cannot read duration for task ${task.id}:`, error instanceof Error ? error.message : String(error));
+          return 0;
+        });
+
+        const episodeId = await addShowEpisode({
+          showId: show.id,
+          taskId: task.id,
+          guid: generateEpisodeGuid(),
+          title: input.title?.trim() || task.podcastTitle || task.title || `Episode ${existing.length + 1}`,
+          description: input.description?.trim() || buildDefaultShowNotes(task),
+          imageUrl: task.coverImageUrl,
+          audioUrl: task.podcastAudioUrl,
+          audioKey: task.podcastAudioKey,
+          audioBytes,
+          durationSeconds: Math.round(durationSeconds),
+        });
+
+        console.log(`[Show] Published task ${task.id} to show ${show.id} as episode ${episodeId}`);
+        return { episodeId };
+      }),
+
+    // 從節目移除單集
+    removeEpisode: protectedProcedure
+      .input(z.object({
+        showId: z.number(),
+        taskId: z.number(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await getOwnedShow(input.showId, ctx.user.id);
+        const { removeShowEpisode } = await import('./db');
+        await removeShowEpisode(input.showId, input.taskId);
+        return { success: true };
+      }),
+  }),
+
+  // TODO: add feature routers here
+  
+  voice: router({
+    // 獲取 TTS 聲音列表（預設為 ListenHub）
+    list: protectedProcedure
+      .input(z.object({
+        provider: z.enum(TTS_PROVIDER_IDS).optional(),
+        language: z.enum(OUTPUT_LANGUAGES).optional(), // 只列出支援此輸出語言的聲音
+      }).optional())
+      .query(async ({ input }) => {
+        const { getTtsProvider } = await import("./services/ttsService");
+        const provider = await getTtsProvider(input?.provider ?? "listenhub");
+        return provider.listVoices(input?.language && getOutputLanguageInfo(input.language).ttsLanguage);
+      }),
     
-    // 更新任務狀態為完成
-    await updateAvatarVideoTask(taskId, {
-      status: 'completed',
-      videoUrl,
-      thumbnailUrl,
-      duration,
-      statusMessage: '影片生成成功',
-    });
+    // 獲取使用者的聲音偏好設定
+    getPreference: protectedProcedure.query(async ({ ctx }) => {
+      const { getVoicePreference, getPreferredVoiceIds } = await import("./db");
+      const preference = await getVoicePreference(ctx.user.id);
+      return preference && { ...preference, voiceIds: getPreferredVoiceIds(preference) };
+    }),
     
-  } catch (error) {
-    console.error(`[AvatarVideo] Task ${taskId} failed:`, error);
-    const { updateAvatarVideoTask } = await import('./db');
-    await updateAvatarVideoTask(taskId, {
-      status: 'failed',
-      errorMessage: error instanceof Error ? error.message : '影片生成失敗',
-      statusMessage: error instanceof Error ? error.message : '影片生成失敗',
-    });
-  }
-}
+    // 儲存使用者的聲音偏好設定（voiceIds 依主持人順序，舊版用戶端只傳 host1 / host2）
+    savePreference: protectedProcedure
+      .input(z.object({
+        host1VoiceId: z.string().optional(),
+        host2VoiceId: z.string().optional(),
+        voiceIds: z.array(z.string().min(1)).min(MIN_HOSTS).max(MAX_HOSTS).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const voiceIds = input.voiceIds || [input.host1VoiceId, input.host2VoiceId].filter((voiceId): voiceId is string => !!voiceId);
+        if (voiceIds.length === 0) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: '請至少選擇一個聲音',
+          });
+        }
+        const { saveVoicePreference } = await import("./db");
+        await saveVoicePreference(ctx.user.id, voiceIds);
+        return { success: true };
+      }),
+  }),
+});
 
 export type AppRouter = typeof appRouter;
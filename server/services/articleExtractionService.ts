@@ -0,0 +1,225 @@
+/**
+ * 文章擷取服務
+ * 在本機以 Readability 的 DOM 評分擷取正文，並從 JSON-LD / OpenGraph / meta 標籤讀取標題、作者與發佈日期；
+ * 偵測付費牆與 Cookie 牆（這類頁面交給 LLM 也無法取得全文）
+ * 只有在擷取不到足夠內容時，呼叫端才需要改用 LLM
+ */
+
+import { Readability } from "@mozilla/readability";
+import { parseHTML } from "linkedom";
+
+export type ArticleBlockReason = "paywall" | "cookie_wall";
+
+export interface ArticleMetadata {
+  title?: string;
+  author?: string;
+  publishedAt?: Date;
+  siteName?: string;
+  isAccessibleForFree?: boolean;
+}
+
+export interface ArticleExtraction extends ArticleMetadata {
+  title: string;
+  content: string; // 純文字正文，段落以空行分隔
+  blocked?: ArticleBlockReason;
+}
+
+// 正文少於此長度視為擷取失敗
+export const MIN_ARTICLE_CHARS = 200;
+// 有付費牆跡象且正文少於此長度時，判定只拿到試閱段落
+const PAYWALL_MAX_PREVIEW_CHARS = 1500;
+
+const ARTICLE_TYPES = new Set(["Article", "NewsArticle", "BlogPosting", "Report", "ScholarlyArticle", "TechArticle", "AnalysisNewsArticle"]);
+
+const PAYWALL_ATTRIBUTE_PATTERN = /paywall|regwall|subscriber-only|subscribers-only|metered-content|piano-(?:offer|template)|premium-(?:content|lock)/i;
+const PAYWALL_TEXT_PATTERN = /subscribe to (?:continue|keep) reading|subscribe to read|this (?:article|story) is (?:for|available to) (?:subscribers|members)|already a subscriber\?|訂閱(?:後|以)?(?:即可)?(?:繼續|完整)?閱讀|付費會員(?:專屬|限定)|成為會員(?:後|即可)閱讀/i;
+const COOKIE_ATTRIBUTE_PATTERN = /cookie|consent|gdpr|onetrust|cmp-/i;
+const COOKIE_TEXT_PATTERN = /accept (?:all )?cookies|we use cookies|cookie (?:settings|preferences|policy)|consent to (?:the use of )?cookies|(?:同意|接受)(?:所有|使用)?\s*cookie|本網站使用\s*cookie/i;
+
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "BR", "DD", "DIV", "DL", "DT", "FIGCAPTION", "FIGURE",
+  "FOOTER", "H1", "H2", "H3", "H4", "H5", "H6", "HEADER", "HR", "LI", "MAIN", "OL", "P", "PRE",
+  "SECTION", "TABLE", "TR", "UL",
+]);
+
+function clean(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = value.replace(/\s+/g, " ").trim();
+  return text || undefined;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  const text = clean(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * JSON-LD 的 author 可能是字串、{ name } 或陣列
+ */
+function authorName(value: unknown): string | undefined {
+  if (Array.isArray(value)) {
+    const names = value.map(authorName).filter((name): name is string => !!name);
+    return names.length > 0 ? names.join("、") : undefined;
+  }
+  if (value && typeof value === "object") {
+    return clean((value as { name?: unknown }).name);
+  }
+  return clean(value);
+}
+
+function isArticleType(type: unknown): boolean {
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(item => typeof item === "string" && ARTICLE_TYPES.has(item));
+}
+
+function readJsonLd(document: Document): ArticleMetadata {
+  const nodes: any[] = [];
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      const data = JSON.parse(script.textContent || "");
+      const items = Array.isArray(data) ? data : [data];
+      for (const item of items) {
+        nodes.push(item, ...(Array.isArray(item?.["@graph"]) ? item["@graph"] : []));
+      }
+    } catch {
+      // 網站常有格式錯誤的 JSON-LD，忽略即可
+    }
+  }
+
+  const article = nodes.find(node => node && isArticleType(node["@type"]));
+  if (!article) return {};
+
+  const free = article.isAccessibleForFree;
+  return {
+    title: clean(article.headline) || clean(article.name),
+    author: authorName(article.author),
+    publishedAt: parseDate(article.datePublished) || parseDate(article.dateCreated),
+    siteName: clean(article.publisher?.name),
+    isAccessibleForFree: free === false || free === "False" || free === "false" ? false : undefined,
+  };
+}
+
+function readMetaTags(document: Document): ArticleMetadata {
+  const meta = new Map<string, string>();
+  for (const element of Array.from(document.querySelectorAll("meta"))) {
+    const key = (element.getAttribute("property") || element.getAttribute("name") || element.getAttribute("itemprop") || "").toLowerCase();
+    const content = clean(element.getAttribute("content"));
+    if (key && content && !meta.has(key)) meta.set(key, content);
+  }
+
+  // article:author 常是作者頁面網址，不適合當作名稱
+  const author = [meta.get("author"), meta.get("article:author"), meta.get("parsely-author"), meta.get("dc.creator")]
+    .find(value => value && !/^https?:\/\//i.test(value));
+  const publishedAt =
+    parseDate(meta.get("article:published_time")) ||
+    parseDate(meta.get("datepublished")) ||
+    parseDate(meta.get("parsely-pub-date")) ||
+    parseDate(meta.get("pubdate")) ||
+    parseDate(meta.get("dc.date")) ||
+    parseDate(document.querySelector("time[datetime]")?.getAttribute("datetime"));
+
+  return {
+    title: meta.get("og:title") || meta.get("twitter:title"),
+    author,
+    publishedAt,
+    siteName: meta.get("og:site_name"),
+  };
+}
+
+/**
+ * 讀取文章的標題、作者與發佈日期（JSON-LD 優先，其次 OpenGraph / meta 標籤）
+ */
+export function extractArticleMetadata(document: Document): ArticleMetadata {
+  const jsonLd = readJsonLd(document);
+  const tags = readMetaTags(document);
+  return {
+    title: jsonLd.title || tags.title || clean(document.title),
+    author: jsonLd.author || tags.author,
+    publishedAt: jsonLd.publishedAt || tags.publishedAt,
+    siteName: jsonLd.siteName || tags.siteName,
+    isAccessibleForFree: jsonLd.isAccessibleForFree,
+  };
+}
+
+/**
+ * 將 DOM 節點轉為純文字，區塊元素之間以空行分隔
+ */
+function toPlainText(node: Node): string {
+  const parts: string[] = [];
+  const walk = (current: Node) => {
+    if (current.nodeType === 3) {
+      parts.push(current.textContent || "");
+      return;
+    }
+    if (current.nodeType !== 1) return;
+    const isBlock = BLOCK_TAGS.has((current as Element).tagName.toUpperCase());
+    if (isBlock) parts.push("\n");
+    current.childNodes.forEach(walk);
+    if (isBlock) parts.push("\n");
+  };
+  walk(node);
+
+  return parts
+    .join("")
+    .replace(/[ \t\f\v\u00a0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{2,}/g, "\n\n")
+    .trim();
+}
+
+function hasMarker(document: Document, attributePattern: RegExp, textPattern: RegExp): boolean {
+  for (const element of Array.from(document.querySelectorAll("[class], [id]"))) {
+    if (attributePattern.test(`${element.getAttribute("class") || ""} ${element.getAttribute("id") || ""}`)) {
+      return true;
+    }
+  }
+  return textPattern.test(document.body?.textContent || "");
+}
+
+/**
+ * 從 HTML 擷取文章
+ * @returns 擷取不到正文時 content 為空字串；偵測到付費牆 / Cookie 牆時設定 blocked
+ */
+export function extractArticle(html: string, url: string): ArticleExtraction {
+  const { document } = parseHTML(html);
+  const metadata = extractArticleMetadata(document);
+
+  // 牆的標記常在 Readability 清除的區塊中，先在原始 DOM 上檢查
+  const paywallMarker = hasMarker(document, PAYWALL_ATTRIBUTE_PATTERN, PAYWALL_TEXT_PATTERN);
+  const cookieMarker = hasMarker(document, COOKIE_ATTRIBUTE_PATTERN, COOKIE_TEXT_PATTERN);
+
+  let content = "";
+  let readabilityTitle: string | undefined;
+  try {
+    // Readability 會修改傳入的 DOM，使用另一份
+    const { document: readerDocument } = parseHTML(html);
+    const article = new Readability<Node>(readerDocument as unknown as Document, {
+      charThreshold: MIN_ARTICLE_CHARS,
+      serializer: node => node,
+    }).parse();
+    if (article?.content) {
+      content = toPlainText(article.content);
+      readabilityTitle = clean(article.title);
+    }
+    if (!metadata.author) metadata.author = clean(article?.byline);
+    if (!metadata.publishedAt) metadata.publishedAt = parseDate(article?.publishedTime);
+  } catch (error) {
+    console.warn(`[ArticleExtraction] Readability 擷取失敗 (${url}):`, error instanceof Error ? error.message : error);
+  }
+
+  let blocked: ArticleBlockReason | undefined;
+  if ((paywallMarker || metadata.isAccessibleForFree === false) && content.length < PAYWALL_MAX_PREVIEW_CHARS) {
+    blocked = "paywall";
+  } else if (cookieMarker && content.length < MIN_ARTICLE_CHARS) {
+    blocked = "cookie_wall";
+  }
+
+  return {
+    ...metadata,
+    title: metadata.title || readabilityTitle || "",
+    content,
+    blocked,
+  };
+}
@@ -9,6 +9,8 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import { storagePut } from "../storage";
 import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import type { MasteringSettings } from "@shared/mastering";
+import { buildClipFilter } from "./audioMasteringService";
 
 const execFileAsync = promisify(execFile);
 const FFMPEG_PATH = ffmpegInstaller.path;
@@ -18,6 +20,7 @@ export interface ClipOptions {
   startTime: number; // 開始時間（秒）
   duration: number; // 持續時間（秒）
   outputPath?: string; // 輸出路徑（可選，預設自動生成）
+  mastering?: MasteringSettings; // 後製設定（啟用時裁掉頭尾靜音、淡入淡出並標準化響度）
 }
 
 /**
@@ -26,7 +29,7 @@ export interface ClipOptions {
  * @returns 剪輯後的音檔路徑
  */
 export async function clipAudio(options: ClipOptions): Promise<string> {
-  const { inputPath, startTime, duration, outputPath } = options;
+  const { inputPath, startTime, duration, outputPath, mastering } = options;
 
   // 檢查輸入檔案是否存在
   try {
@@ -49,6 +52,7 @@ export async function clipAudio(options: ClipOptions): Promise<string> {
     `${startTime}`,
     "-t",
     `${duration}`,
+    ...(mastering?.enabled ? ["-af", buildClipFilter(mastering)] : []),
     "-acodec",
     "libmp3lame",
     "-b:a",
@@ -155,6 +159,7 @@ export async function downloadAudio(audioUrl: string): Promise<string> {
  * @param duration 持續時間（秒）
  * @param userId 使用者 ID
  * @param taskId 任務 ID
+ * @param mastering 後製設定（可選）
  * @returns S3 URL 和檔案 key
  */
 export async function clipFromUrlAndUpload(
@@ -162,7 +167,8 @@ export async function clipFromUrlAndUpload(
   startTime: number,
   duration: number,
   userId: number,
-  taskId: number
+  taskId: number,
+  mastering?: MasteringSettings
 ): Promise<{ url: string; fileKey: string }> {
   let downloadedFilePath: string | null = null;
 
@@ -176,6 +182,7 @@ export async function clipFromUrlAndUpload(
         inputPath: downloadedFilePath,
         startTime,
         duration,
+        mastering,
       },
       userId,
       taskId
@@ -0,0 +1,303 @@
+/**
+ * 音訊後製服務
+ * 將開場、主要內容與結尾處理成一致的成品：去除頭尾靜音、片段間交叉淡化、選用的壓縮與齒音柔化，最後做 EBU R128 響度標準化
+ * 有節目音樂時一併混音：開場音樂與結尾音效以交叉淡化接在人聲前後，背景音樂依人聲做 sidechain 壓低並淡入淡出
+ *
+ * 頭尾靜音以 silencedetect 偵測後用 atrim 裁切（而非 silenceremove + areverse），
+ * 不需把整集音訊載入記憶體，也能精確算出每個片段在成品中的位移，讓逐句時間軸保持正確
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as path from "path";
+import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import type { MasteringSettings } from "@shared/mastering";
+import { DEFAULT_BED_VOLUME } from "@shared/music";
+import { getAudioDuration } from "./timelineService";
+
+const execFileAsync = promisify(execFile);
+const FFMPEG_PATH = ffmpegInstaller.path;
+
+const SILENCE_THRESHOLD_DB = -50;
+const MIN_SILENCE_SECONDS = 0.3;
+const SILENCE_PADDING_SECONDS = 0.15; // 裁切後保留的靜音，避免切到字首的氣音
+const EDGE_TOLERANCE_SECONDS = 0.1; // MP3 編碼延遲讓容器長度略長於實際解碼長度
+const TRUE_PEAK_DB = -1.5;
+const LOUDNESS_RANGE = 11;
+const CLIP_FADE_SECONDS = 0.3;
+const SAMPLE_RATE = 44100;
+const JINGLE_CROSSFADE_SECONDS = 1; // 開場音樂尾端與人聲重疊的長度
+const STINGER_CROSSFADE_SECONDS = 0.5;
+const BED_FADE_IN_SECONDS = 2;
+const BED_FADE_OUT_SECONDS = 3;
+
+export interface SegmentRange {
+  start: number; // 保留範圍的起點（秒，相對於原始片段）
+  end: number; // 保留範圍的終點（秒）
+}
+
+export interface MusicInputs {
+  jinglePath?: string; // 開場音樂
+  stingerPath?: string; // 結尾音效
+  bedPath?: string; // 背景音樂（長度不足時循環播放）
+  bedVolume?: number; // 背景音樂音量（百分比）
+}
+
+// 建立 filter graph 所需的音樂資訊（輸入順序：人聲片段、開場音樂、結尾音效、背景音樂）
+export interface MusicLayout {
+  jingleLength?: number;
+  stingerLength?: number;
+  bedVolume?: number; // 有背景音樂時為音量百分比
+}
+
+export interface MasteredAudio {
+  path: string;
+  duration: number; // 成品長度（秒，依裁切與淡化計算）
+  segmentOffsets: number[]; // 各片段原始時間加上此值即為成品中的時間
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 1000) / 1000;
+}
+
+/**
+ * 由 silencedetect 的輸出取得片段去除頭尾靜音後的範圍（整段都是靜音時保留原始範圍）
+ */
+export function parseSilenceRange(stderr: string, duration: number): SegmentRange {
+  const silences: { start: number; end?: number }[] = [];
+  for (const match of Array.from(stderr.matchAll(/silence_(start|end): (-?\d+(?:\.\d+)?)/g))) {
+    const seconds = Number(match[2]);
+    if (match[1] === "start") {
+      silences.push({ start: Math.max(0, seconds) });
+    } else if (silences.length > 0 && silences[silences.length - 1].end === undefined) {
+      silences[silences.length - 1].end = seconds;
+    }
+  }
+
+  let start = 0;
+  let end = duration;
+  const first = silences[0];
+  if (first && first.start <= EDGE_TOLERANCE_SECONDS && first.end !== undefined) {
+    start = Math.max(0, first.end - SILENCE_PADDING_SECONDS);
+  }
+  // 舊版 FFmpeg 在檔案結尾不會輸出 silence_end
+  const last = silences[silences.length - 1];
+  if (last && last.start > EDGE_TOLERANCE_SECONDS && (last.end === undefined || last.end >= duration - EDGE_TOLERANCE_SECONDS)) {
+    end = Math.min(duration, last.start + SILENCE_PADDING_SECONDS);
+  }
+
+  if (end - start <= 0) return { start: 0, end: duration };
+  return { start: round(start), end: round(end) };
+}
+
+async function detectSilenceRange(inputPath: string, duration: number): Promise<SegmentRange> {
+  const { stderr } = await execFileAsync(FFMPEG_PATH, [
+    "-hide_banner",
+    "-nostats",
+    "-i",
+    inputPath,
+    "-af",
+    `silencedetect=noise=${SILENCE_THRESHOLD_DB}dB:d=${MIN_SILENCE_SECONDS}`,
+    "-f",
+    "null",
+    "-",
+  ], { maxBuffer: 1024 * 1024 * 10 });
+  return parseSilenceRange(stderr, duration);
+}
+
+/**
+ * 成品的整體處理：壓縮 → 齒音柔化 → 響度標準化
+ */
+function buildFinishingFilters(settings: MasteringSettings): string[] {
+  const filters: string[] = [];
+  if (settings.compress) {
+    filters.push("acompressor=threshold=-20dB:ratio=3:attack=10:release=200:makeup=2");
+  }
+  if (settings.deEss) {
+    // 內建的 FFmpeg 沒有 deesser，以 7 kHz 附近的窄頻衰減柔化齒音
+    filters.push("equalizer=f=7000:t=q:w=1.5:g=-5");
+  }
+  filters.push(
+    `loudnorm=I=${settings.targetLufs}:TP=${TRUE_PEAK_DB}:LRA=${LOUDNESS_RANGE}`,
+    // loudnorm 會把取樣率提高到 192 kHz，輸出前轉回
+    `aresample=${SAMPLE_RATE}`
+  );
+  return filters;
+}
+
+function normalizeFormat(): string {
+  return `aresample=${SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=stereo`;
+}
+
+/**
+ * 兩段音訊交叉淡化的長度（不超過任一段的一半，否則 acrossfade 會吃掉整段）
+ */
+function crossfadeLength(seconds: number, ...lengths: number[]): number {
+  return round(Math.max(0, Math.min(seconds, ...lengths.map(length => length / 2))));
+}
+
+/**
+ * 建立多個片段的 filter_complex，並計算各片段在成品中的位移
+ * 未啟用後製時（只混入節目音樂）不做交叉淡化與響度處理
+ */
+export function buildMasteringFilterGraph(
+  ranges: SegmentRange[],
+  settings: MasteringSettings,
+  music: MusicLayout = {}
+): { filter: string; segmentOffsets: number[]; duration: number } {
+  if (ranges.length === 0) {
+    throw new Error("No audio segments to master");
+  }
+
+  const lengths = ranges.map(range => range.end - range.start);
+  const crossfade = ranges.length > 1 && settings.enabled
+    ? crossfadeLength(settings.crossfadeSeconds, ...lengths)
+    : 0;
+
+  const chains = ranges.map((range, index) =>
+    `[${index}:a]atrim=start=${range.start}:end=${range.end},asetpts=PTS-STARTPTS,${normalizeFormat()}[s${index}]`
+  );
+
+  let mixed = "s0";
+  if (ranges.length > 1 && crossfade > 0) {
+    for (let i = 1; i < ranges.length; i++) {
+      const output = `x${i}`;
+      chains.push(`[${mixed}][s${i}]acrossfade=d=${crossfade}:c1=tri:c2=tri[${output}]`);
+      mixed = output;
+    }
+  } else if (ranges.length > 1) {
+    chains.push(`${ranges.map((_, index) => `[s${index}]`).join("")}concat=n=${ranges.length}:v=0:a=1[mix]`);
+    mixed = "mix";
+  }
+
+  const segmentOffsets: number[] = [];
+  let position = 0;
+  for (let i = 0; i < ranges.length; i++) {
+    segmentOffsets.push(round(position - ranges[i].start));
+    position += lengths[i] - (i < ranges.length - 1 ? crossfade : 0);
+  }
+  const speechLength = round(position);
+
+  let nextInput = ranges.length;
+  const jingleInput = music.jingleLength ? nextInput++ : undefined;
+  const stingerInput = music.stingerLength ? nextInput++ : undefined;
+  const bedInput = music.bedVolume ? nextInput++ : undefined;
+
+  // 背景音樂：裁成人聲長度、淡入淡出，再以人聲作為 sidechain 壓低後混音（amix 會把各輸入減半，混音後補回）
+  if (bedInput !== undefined) {
+    const fadeOutStart = round(Math.max(0, speechLength - BED_FADE_OUT_SECONDS));
+    chains.push(
+      `[${bedInput}:a]${normalizeFormat()},atrim=duration=${speechLength},volume=${music.bedVolume! / 100},` +
+      `afade=t=in:d=${BED_FADE_IN_SECONDS},afade=t=out:st=${fadeOutStart}:d=${BED_FADE_OUT_SECONDS}[bed]`,
+      `[${mixed}]asplit=2[voice][sidechain]`,
+      `[bed][sidechain]sidechaincompress=threshold=0.02:ratio=8:attack=20:release=500[ducked]`,
+      `[voice][ducked]amix=inputs=2:duration=first:dropout_transition=0,volume=2[bedmix]`
+    );
+    mixed = "bedmix";
+  }
+
+  let duration = speechLength;
+  if (jingleInput !== undefined) {
+    const jingleCrossfade = crossfadeLength(JINGLE_CROSSFADE_SECONDS, music.jingleLength!, speechLength);
+    chains.push(
+      `[${jingleInput}:a]${normalizeFormat()}[jingle]`,
+      `[jingle][${mixed}]acrossfade=d=${jingleCrossfade}:c1=tri:c2=tri[withjingle]`
+    );
+    mixed = "withjingle";
+    const shift = music.jingleLength! - jingleCrossfade;
+    for (let i = 0; i < segmentOffsets.length; i++) {
+      segmentOffsets[i] = round(segmentOffsets[i] + shift);
+    }
+    duration += shift;
+  }
+  if (stingerInput !== undefined) {
+    const stingerCrossfade = crossfadeLength(STINGER_CROSSFADE_SECONDS, music.stingerLength!, speechLength);
+    chains.push(
+      `[${stingerInput}:a]${normalizeFormat()}[stinger]`,
+      `[${mixed}][stinger]acrossfade=d=${stingerCrossfade}:c1=tri:c2=tri[withstinger]`
+    );
+    mixed = "withstinger";
+    duration += music.stingerLength! - stingerCrossfade;
+  }
+
+  const finishing = settings.enabled ? buildFinishingFilters(settings) : [`aresample=${SAMPLE_RATE}`];
+  chains.push(`[${mixed}]${finishing.join(",")}[out]`);
+
+  return { filter: chains.join(";"), segmentOffsets, duration: round(duration) };
+}
+
+/**
+ * 後製並串接本地音訊檔（依序），有節目音樂時一併混音
+ */
+export async function masterAudioFiles(
+  inputPaths: string[],
+  settings: MasteringSettings,
+  music: MusicInputs = {},
+  outputPath?: string
+): Promise<MasteredAudio> {
+  const output = outputPath || path.join(
+    "/tmp",
+    `mastered_${Date.now()}_${Math.random().toString(36).substring(7)}.mp3`
+  );
+
+  const ranges: SegmentRange[] = [];
+  for (const inputPath of inputPaths) {
+    const duration = await getAudioDuration(inputPath);
+    ranges.push(settings.enabled && settings.trimSilence
+      ? await detectSilenceRange(inputPath, duration)
+      : { start: 0, end: duration });
+  }
+  const layout: MusicLayout = {
+    jingleLength: music.jinglePath ? await getAudioDuration(music.jinglePath) : undefined,
+    stingerLength: music.stingerPath ? await getAudioDuration(music.stingerPath) : undefined,
+    bedVolume: music.bedPath ? music.bedVolume || DEFAULT_BED_VOLUME : undefined,
+  };
+  const { filter, segmentOffsets, duration } = buildMasteringFilterGraph(ranges, settings, layout);
+
+  const args = [
+    "-hide_banner",
+    "-y",
+    ...inputPaths.flatMap(inputPath => ["-i", inputPath]),
+    ...(music.jinglePath ? ["-i", music.jinglePath] : []),
+    ...(music.stingerPath ? ["-i", music.stingerPath] : []),
+    ...(music.bedPath ? ["-stream_loop", "-1", "-i", music.bedPath] : []),
+    "-filter_complex",
+    filter,
+    "-map",
+    "[out]",
+    "-c:a",
+    "libmp3lame",
+    "-b:a",
+    "192k",
+    output,
+  ];
+
+  console.log(
+    `[AudioMastering] Mastering ${inputPaths.length} segments` +
+    (settings.enabled ? ` (${settings.targetLufs} LUFS, crossfade ${settings.crossfadeSeconds}s)` : "") +
+    (music.jinglePath || music.stingerPath || music.bedPath ? " with show music" : "")
+  );
+  await execFileAsync(FFMPEG_PATH, args, { maxBuffer: 1024 * 1024 * 10 });
+  console.log(`[AudioMastering] Mastered audio written: ${output}`);
+
+  return { path: output, duration, segmentOffsets };
+}
+
+/**
+ * 精華片段的後製濾鏡：去除頭尾靜音、淡入淡出，再套用與單集相同的整體處理
+ * 片段很短，直接用 areverse 處理結尾（不需事先知道裁切後的長度）
+ */
+export function buildClipFilter(settings: MasteringSettings): string {
+  const trim = settings.trimSilence
+    ? [`silenceremove=start_periods=1:start_threshold=${SILENCE_THRESHOLD_DB}dB:start_silence=${SILENCE_PADDING_SECONDS}`]
+    : [];
+  return [
+    ...trim,
+    "areverse",
+    ...trim,
+    `afade=t=in:d=${CLIP_FADE_SECONDS}`,
+    "areverse",
+    "afade=t=in:d=0.05",
+    ...buildFinishingFilters(settings),
+  ].join(",");
+}
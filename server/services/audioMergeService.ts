@@ -8,6 +8,8 @@ import { promisify } from "util";
 import * as fs from "fs/promises";
 import * as path from "path";
 import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import { DEFAULT_MASTERING_SETTINGS, type MasteringSettings } from "@shared/mastering";
+import { masterAudioFiles, type MusicInputs } from "./audioMasteringService";
 
 const execFileAsync = promisify(execFile);
 const FFMPEG_PATH = ffmpegInstaller.path;
@@ -17,6 +19,18 @@ export interface AudioSegment {
   localPath?: string; // 本地檔案路徑（如果已下載）
 }
 
+export interface PodcastMusicUrls {
+  jingleUrl?: string; // 開場音樂
+  stingerUrl?: string; // 結尾音效
+  bedUrl?: string; // 背景音樂
+  bedVolume?: number; // 背景音樂音量（百分比）
+}
+
+export interface MergedPodcastAudio {
+  path: string; // 合併後的音訊檔案路徑
+  mainOffset?: number; // 主要內容在成品中的位移（秒；未經後製時為 undefined，由呼叫端依開場長度計算）
+}
+
 /**
  * 下載音訊檔案到本地臨時目錄
  */
@@ -163,18 +177,55 @@ export async function mergeAudioSegments(
   }
 }
 
+/**
+ * 下載片段與節目音樂並經過後製串接（見 audioMasteringService）
+ */
+async function masterAudioSegments(segments: AudioSegment[], mastering: MasteringSettings, music: PodcastMusicUrls) {
+  const downloaded: string[] = [];
+  const download = async (url: string) => {
+    const localPath = await downloadAudio(url);
+    downloaded.push(localPath);
+    return localPath;
+  };
+  try {
+    const localPaths: string[] = [];
+    for (const segment of segments) {
+      localPaths.push(segment.localPath || await download(segment.url));
+    }
+    const musicInputs: MusicInputs = {
+      jinglePath: music.jingleUrl ? await download(music.jingleUrl) : undefined,
+      stingerPath: music.stingerUrl ? await download(music.stingerUrl) : undefined,
+      bedPath: music.bedUrl ? await download(music.bedUrl) : undefined,
+      bedVolume: music.bedVolume,
+    };
+    return await masterAudioFiles(localPaths, mastering, musicInputs);
+  } finally {
+    for (const localPath of downloaded) {
+      try {
+        await fs.unlink(localPath);
+      } catch (error) {
+        console.warn(`[AudioMerge] Failed to clean up temp file: ${localPath}`, error);
+      }
+    }
+  }
+}
+
 /**
  * 合併 intro、main 和 outro 音訊
  * @param introUrl 開場音訊 URL（可選）
  * @param mainUrl 主要內容音訊 URL
  * @param outroUrl 結尾音訊 URL（可選）
- * @returns 合併後的音訊檔案路徑
+ * @param mastering 後製設定（啟用時即使只有主要內容也會處理；後製失敗時改為直接串接）
+ * @param music 節目音樂（開場音樂、結尾音效與背景音樂）
+ * @returns 合併後的音訊檔案路徑與主要內容的位移
  */
 export async function mergePodcastAudio(
   introUrl?: string,
   mainUrl?: string,
-  outroUrl?: string
-): Promise<string> {
+  outroUrl?: string,
+  mastering?: MasteringSettings,
+  music: PodcastMusicUrls = {}
+): Promise<MergedPodcastAudio> {
   const segments: AudioSegment[] = [];
 
   console.log(`[AudioMerge] mergePodcastAudio called with:`);
@@ -206,6 +257,21 @@ export async function mergePodcastAudio(
   console.log(`[AudioMerge] Total segments to merge: ${segments.length}`);
   console.log(`[AudioMerge] Segment order: ${segments.map((s, i) => `${i + 1}. ${s.url ? 'URL' : 'local'}`).join(' → ')}`);
 
-  return await mergeAudioSegments(segments);
-}
+  if (mastering?.enabled || music.jingleUrl || music.stingerUrl || music.bedUrl) {
+    try {
+      const mastered = await masterAudioSegments(
+        segments,
+        mastering ?? { ...DEFAULT_MASTERING_SETTINGS, enabled: false },
+        music
+      );
+      return { path: mastered.path, mainOffset: mastered.segmentOffsets[introUrl ? 1 : 0] };
+    } catch (error) {
+      console.warn(
+        `[AudioMerge] Mastering failed, falling back to plain concatenation without show music:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
 
+  return { path: await mergeAudioSegments(segments) };
+}
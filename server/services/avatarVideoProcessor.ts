@@ -0,0 +1,112 @@
+/**
+ * 虛擬主播影片生成流程
+ * 由背景工作佇列（jobQueueService）執行：建立 HeyGen 影片 → 輪詢狀態 → 儲存結果
+ */
+
+import type { AvatarVideoTask } from '../../drizzle/schema';
+
+/**
+ * 虛擬主播影片任務參數（會以 JSON 形式存放在 job_queue.payload）
+ */
+export interface AvatarVideoTaskOptions {
+  taskId: number;
+  avatarImageUrl: string;
+  audioUrl: string;
+  mode?: 'std' | 'pro';
+  prompt?: string;
+}
+
+/**
+ * 更新虛擬主播影片任務狀態，並即時推送給任務擁有者
+ */
+export async function updateAvatarVideoStatus(taskId: number, updates: Partial<AvatarVideoTask>): Promise<void> {
+  const { updateAvatarVideoTask, getAvatarVideoTask } = await import('../db');
+  await updateAvatarVideoTask(taskId, updates);
+
+  try {
+    const task = await getAvatarVideoTask(taskId);
+    if (task) {
+      const { publishTaskEvent, toAvatarVideoEvent } = await import('./taskEventService');
+      publishTaskEvent(task.userId, toAvatarVideoEvent(task));
+    }
+  } catch (error) {
+    console.warn(`[AvatarVideo] Failed to publish status for task ${taskId}:`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * 背景處理虛擬主播影片生成任務（使用 HeyGen API，由 job queue 呼叫）
+ * 失敗時拋出錯誤，由工作佇列決定自動重試或將任務標記為失敗
+ * @param signal 工作租約遺失時中止，不再寫入任務狀態
+ */
+export async function processAvatarVideoGeneration(options: AvatarVideoTaskOptions, signal?: AbortSignal) {
+  const { taskId, audioUrl, mode = 'std' } = options;
+
+  try {
+    const { getAvatarVideoTask } = await import('../db');
+    const { createAvatarVideo, pollVideoStatus } = await import('./heygenService');
+    
+    console.log(`[AvatarVideo] Task ${taskId}: Starting avatar video generation with HeyGen`);
+    console.log(`[AvatarVideo] Audio URL: ${audioUrl}`);
+    console.log(`[AvatarVideo] Test mode: ${mode === 'std'}`);
+    
+    // 如果先前已建立 HeyGen 影片（伺服器重啟後接續），直接恢復輪詢，避免重複建立消耗額度
+    const existingTask = await getAvatarVideoTask(taskId);
+    let heygenVideoId = existingTask?.apiVideoId || null;
+
+    if (heygenVideoId) {
+      console.log(`[AvatarVideo] Task ${taskId}: Resuming existing HeyGen video: ${heygenVideoId}`);
+    } else {
+      // 更新狀態為 submitted
+      await updateAvatarVideoStatus(taskId, { status: 'submitted' });
+      
+      // 創建 HeyGen 影片任務
+      // 注意：test: true 不消耗額度，但會有浮水印
+      const response = await createAvatarVideo({
+        audioUrl,
+        test: mode === 'std', // std 模式使用測試模式（免費但有浮水印）
+      });
+      
+      heygenVideoId = response.data.video_id;
+      console.log(`[AvatarVideo] Task ${taskId}: HeyGen video task created: ${heygenVideoId}`);
+    }
+    
+    // 更新 HeyGen 影片 ID 和狀態
+    signal?.throwIfAborted();
+    await updateAvatarVideoStatus(taskId, {
+      apiVideoId: heygenVideoId,
+      status: 'processing',
+    });
+    
+    // 輪詢任務狀態（最多 60 次，每 10 秒一次，共 10 分鐘）
+    console.log(`[AvatarVideo] Task ${taskId}: Polling HeyGen video status...`);
+    const result = await pollVideoStatus(heygenVideoId, 60, 10000);
+    
+    // 獲取影片 URL
+    const videoUrl = result.data.video_url;
+    const thumbnailUrl = result.data.thumbnail_url;
+    const duration = result.data.duration;
+    
+    if (!videoUrl) {
+      throw new Error('No video URL returned');
+    }
+    
+    console.log(`[AvatarVideo] Task ${taskId}: Video generated successfully`);
+    console.log(`[AvatarVideo] Video URL: ${videoUrl}`);
+    console.log(`[AvatarVideo] Duration: ${duration}s`);
+    
+    // 更新任務狀態為完成
+    signal?.throwIfAborted();
+    await updateAvatarVideoStatus(taskId, {
+      status: 'completed',
+      videoUrl,
+      thumbnailUrl,
+      duration,
+      statusMessage: '影片生成成功',
+    });
+    
+  } catch (error) {
+    console.error(`[AvatarVideo] Task ${taskId} failed:`, error);
+    throw error;
+  }
+}
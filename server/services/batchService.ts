@@ -0,0 +1,257 @@
+/**
+ * 批次任務服務
+ * 將 YouTube 播放清單或頻道（或過長的文件）展開成多個 podcast 任務，並提供整體進度、暫停 / 恢復 / 取消與重試
+ */
+
+import type { PodcastBatch, PodcastTask } from "../../drizzle/schema";
+import type { YoutubeCollection } from "@shared/youtubeUrl";
+import type { PodcastTaskOptions } from "./podcastTaskProcessor";
+import {
+  createBatch,
+  createPodcastTask,
+  getBatchTasks,
+  getLatestJobByRef,
+  transitionPodcastTaskStatus,
+  updateBatch,
+  updatePodcastTask,
+} from "../db";
+import { cancelJobs, enqueueJob, pauseJobs, resumeJobs } from "./jobQueueService";
+
+/**
+ * 套用到批次中每個項目的任務參數
+ */
+export type BatchTaskOptions = Omit<PodcastTaskOptions, "taskId" | "inputContent" | "inputType">;
+
+export interface BatchSummary {
+  total: number;
+  pending: number;
+  processing: number;
+  awaitingReview: number;
+  completed: number;
+  failed: number;
+  percent: number; // 0-100（失敗的項目視為已結束）
+  finished: boolean; // 所有項目都已完成或失敗
+}
+
+// 單一批次的影片數上限（避免整個頻道一次塞滿佇列）
+export const MAX_BATCH_ITEMS = 200;
+
+/**
+ * 展開播放清單 / 頻道並建立批次，每部影片一個任務
+ */
+export async function createBatchFromCollection(
+  userId: number,
+  collection: YoutubeCollection,
+  options: BatchTaskOptions,
+  maxItems = MAX_BATCH_ITEMS
+): Promise<{ batchId: number; taskIds: number[] }> {
+  const { listYoutubeCollectionVideos } = await import("../youtubeService");
+  const { title, videos } = await listYoutubeCollectionVideos(collection.url, Math.min(maxItems, MAX_BATCH_ITEMS));
+  if (videos.length === 0) {
+    throw new Error("播放清單或頻道中沒有可處理的影片");
+  }
+
+  const batchId = await createBatch({
+    userId,
+    sourceType: collection.type,
+    sourceUrl: collection.url,
+    title,
+    status: "active",
+    options: JSON.stringify(options),
+  });
+
+  const taskIds: number[] = [];
+  for (const video of videos) {
+    const taskId = await createPodcastTask({
+      userId,
+      batchId,
+      youtubeUrl: video.url,
+      title: video.title,
+      status: "pending",
+      introText: options.introText || null,
+      outroText: options.outroText || null,
+      coverImageUrl: options.coverImageUrl || null,
+      masteringSettings: options.mastering ? JSON.stringify(options.mastering) : null,
+      ...(options.outputLanguage && { outputLanguage: options.outputLanguage }),
+    });
+    await enqueueJob("podcast", taskId, {
+      ...options,
+      taskId,
+      inputContent: video.url,
+      inputType: "youtube",
+    });
+    taskIds.push(taskId);
+  }
+
+  console.log(`[Batch] Created batch ${batchId} (${collection.type}: ${title}) with ${taskIds.length} tasks`);
+  return { batchId, taskIds };
+}
+
+/**
+ * 將文件的分集規劃建立為系列批次，每集一個任務
+ * @param episodes 每集包含的章節索引（planDocumentEpisodes 的結果）
+ */
+export async function createDocumentSeriesBatch(
+  userId: number,
+  document: { fileKey: string; title: string },
+  episodes: number[][],
+  options: BatchTaskOptions
+): Promise<{ batchId: number; taskIds: number[] }> {
+  const batchId = await createBatch({
+    userId,
+    sourceType: "document",
+    sourceUrl: document.fileKey,
+    title: document.title.substring(0, 512),
+    status: "active",
+    options: JSON.stringify(options),
+  });
+
+  const taskIds: number[] = [];
+  for (let i = 0; i < episodes.length; i++) {
+    const seriesPart = { index: i + 1, total: episodes.length };
+    const taskId = await createPodcastTask({
+      userId,
+      batchId,
+      youtubeUrl: `[document] ${document.fileKey}`.substring(0, 500),
+      title: `${document.title}（第 ${seriesPart.index}/${seriesPart.total} 集）`.substring(0, 512),
+      status: "pending",
+      introText: options.introText || null,
+      outroText: options.outroText || null,
+      coverImageUrl: options.coverImageUrl || null,
+      masteringSettings: options.mastering ? JSON.stringify(options.mastering) : null,
+      ...(options.outputLanguage && { outputLanguage: options.outputLanguage }),
+    });
+    await enqueueJob("podcast", taskId, {
+      ...options,
+      taskId,
+      inputContent: document.fileKey,
+      inputType: "document",
+      documentChapters: episodes[i],
+      seriesPart,
+    });
+    taskIds.push(taskId);
+  }
+
+  console.log(`[Batch] Created document series batch ${batchId} (${document.title}) with ${taskIds.length} episodes`);
+  return { batchId, taskIds };
+}
+
+/**
+ * 計算批次的整體進度
+ */
+export function summarizeBatch(tasks: Pick<PodcastTask, "status" | "progressPercent">[]): BatchSummary {
+  const count = (status: PodcastTask["status"]) => tasks.filter(task => task.status === status).length;
+  const completed = count("completed");
+  const failed = count("failed");
+  const total = tasks.length;
+
+  const progressSum = tasks.reduce((sum, task) => {
+    if (task.status === "completed" || task.status === "failed") return sum + 100;
+    return sum + (task.progressPercent || 0);
+  }, 0);
+
+  return {
+    total,
+    pending: count("pending"),
+    processing: count("processing"),
+    awaitingReview: count("awaiting_review"),
+    completed,
+    failed,
+    percent: total > 0 ? Math.round(progressSum / total) : 0,
+    finished: total > 0 && completed + failed === total,
+  };
+}
+
+/**
+ * 重新排入佇列的結果：成功、找不到原始參數、或任務已不是失敗狀態（例如已被其他請求重試）
+ */
+export type RequeueResult = "requeued" | "missing_params" | "not_failed";
+
+/**
+ * 將失敗的任務重新排入佇列（沿用原始參數，從最後的檢查點繼續）
+ * 以條件更新將任務移出 failed 狀態，同時送出的重試只會有一個排入工作
+ */
+export async function requeueFailedTask(task: PodcastTask, options: { paused?: boolean } = {}): Promise<RequeueResult> {
+  const previousJob = await getLatestJobByRef("podcast", task.id);
+  if (!previousJob) {
+    return "missing_params";
+  }
+
+  if (!await transitionPodcastTaskStatus(task.id, "failed", { status: "pending", errorMessage: null })) {
+    return "not_failed";
+  }
+
+  const { updateProgress } = await import("./progressService");
+  await updateProgress({
+    taskId: task.id,
+    stage: "queued",
+    percent: 0,
+    message: task.checkpointStage ? "已重新排入佇列，將從上次中斷的階段繼續..." : "已重新排入佇列...",
+    status: "pending",
+  });
+
+  await enqueueJob("podcast", task.id, JSON.parse(previousJob.payload), { paused: options.paused });
+  console.log(`[RetryTask] Task ${task.id} re-queued (checkpoint: ${task.checkpointStage || "none"})`);
+  return "requeued";
+}
+
+/**
+ * 暫停批次：尚未開始的項目不會被執行，進行中的項目會繼續完成
+ */
+export async function pauseBatch(batch: PodcastBatch): Promise<number> {
+  const tasks = await getBatchTasks(batch.id);
+  await updateBatch(batch.id, { status: "paused" });
+  const paused = await pauseJobs("podcast", tasks.map(task => task.id));
+  console.log(`[Batch] Paused batch ${batch.id} (${paused} queued job(s) held)`);
+  return paused;
+}
+
+/**
+ * 恢復批次
+ */
+export async function resumeBatch(batch: PodcastBatch): Promise<number> {
+  const tasks = await getBatchTasks(batch.id);
+  await updateBatch(batch.id, { status: "active" });
+  const resumed = await resumeJobs("podcast", tasks.map(task => task.id));
+  console.log(`[Batch] Resumed batch ${batch.id} (${resumed} job(s) re-queued)`);
+  return resumed;
+}
+
+/**
+ * 取消批次：尚未開始的項目標記為失敗（之後仍可個別重試），進行中的項目會繼續完成
+ */
+export async function cancelBatch(batch: PodcastBatch): Promise<number> {
+  const tasks = await getBatchTasks(batch.id);
+  await updateBatch(batch.id, { status: "cancelled" });
+  await cancelJobs("podcast", tasks.map(task => task.id));
+
+  const waitingTasks = tasks.filter(task => task.status === "pending");
+  const { updateProgress } = await import("./progressService");
+  for (const task of waitingTasks) {
+    await updatePodcastTask(task.id, { errorMessage: "批次已取消" });
+    await updateProgress({ taskId: task.id, stage: "failed", percent: 0, message: "批次已取消" });
+  }
+
+  console.log(`[Batch] Cancelled batch ${batch.id} (${waitingTasks.length} pending task(s) cancelled)`);
+  return waitingTasks.length;
+}
+
+/**
+ * 重試批次中所有失敗的項目（批次暫停中時會以暫停狀態排入）
+ */
+export async function retryFailedBatchItems(batch: PodcastBatch): Promise<number> {
+  const tasks = await getBatchTasks(batch.id);
+  const failedTasks = tasks.filter(task => task.status === "failed");
+
+  if (batch.status === "cancelled") {
+    await updateBatch(batch.id, { status: "active" });
+  }
+
+  let requeued = 0;
+  for (const task of failedTasks) {
+    if (await requeueFailedTask(task, { paused: batch.status === "paused" }) === "requeued") {
+      requeued++;
+    }
+  }
+  return requeued;
+}
@@ -0,0 +1,232 @@
+/**
+ * YouTube 字幕服務
+ * 以 yt-dlp 下載影片的人工字幕或自動字幕並解析成轉錄片段，
+ * 有可用字幕時不需要下載音訊與呼叫轉錄 API（沒有 16MB 限制，也不產生費用）
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import os from "os";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { WhisperSegment } from "../_core/voiceTranscription";
+
+const execFileAsync = promisify(execFile);
+
+export type SubtitleFormat = "vtt" | "srt";
+
+export interface CaptionTrack {
+  language: string; // yt-dlp 的字幕語言鍵（例如 en、zh-TW、en-orig）
+  automatic: boolean;
+}
+
+export interface YoutubeCaptionResult {
+  text: string;
+  segments: WhisperSegment[];
+  language: string;
+  duration: number;
+  title?: string;
+  automatic: boolean;
+}
+
+// 字幕文字少於此長度視為無法使用（例如只有音樂標記）
+const MIN_CAPTION_CHARS = 100;
+
+// 沒有原始語言資訊時，人工字幕的偏好順序
+const PREFERRED_LANGUAGES = ["zh", "en"];
+
+const TIMESTAMP_PATTERN = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&quot;": "\"",
+  "&#39;": "'",
+  "&apos;": "'",
+  "&nbsp;": " ",
+};
+
+function parseTimestamp(value: string): number | null {
+  const match = value.match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+  const [, hours, minutes, seconds, millis] = match;
+  return (
+    parseInt(hours || "0", 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(millis.padEnd(3, "0"), 10) / 1000
+  );
+}
+
+/**
+ * 清除字幕行中的標籤（VTT 時間碼、<c>、<i>、{\an8} 等）與 HTML entity
+ */
+function cleanCaptionLine(line: string): string {
+  return line
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&(?:amp|lt|gt|quot|apos|nbsp|#39);/g, entity => HTML_ENTITIES[entity] ?? entity)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 解析 VTT / SRT 字幕為轉錄片段
+ * YouTube 自動字幕是「捲動」格式：每個 cue 會重複上一行再加上新的一行，
+ * 並穿插只有 10ms 的重複 cue，這裡只保留每個 cue 新出現的文字
+ */
+export function parseSubtitles(content: string, format: SubtitleFormat): WhisperSegment[] {
+  const blocks = content.replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  const segments: WhisperSegment[] = [];
+  let previousLines: string[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => line.includes("-->"));
+    if (timingIndex === -1) continue; // WEBVTT 標頭、NOTE、STYLE 或 SRT 的序號殘段
+
+    const [startText, endText] = lines[timingIndex].split("-->");
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(endText || "");
+    if (start === null || end === null) continue;
+
+    const textLines = lines
+      .slice(timingIndex + 1)
+      .map(cleanCaptionLine)
+      .filter(line => line.length > 0);
+    if (textLines.length === 0) continue;
+
+    // 去除與上一個 cue 重複的行（捲動字幕）
+    const newLines = format === "vtt"
+      ? textLines.filter(line => !previousLines.includes(line))
+      : textLines;
+    previousLines = textLines;
+    if (newLines.length === 0) continue;
+
+    segments.push({
+      id: segments.length,
+      seek: 0,
+      start,
+      end: Math.max(start, end),
+      text: newLines.join(" "),
+      tokens: [],
+      temperature: 0,
+      avg_logprob: 0,
+      compression_ratio: 0,
+      no_speech_prob: 0,
+    });
+  }
+
+  return segments;
+}
+
+function languageBase(language: string): string {
+  return language.toLowerCase().replace(/-orig$/, "").split(/[-_]/)[0];
+}
+
+/**
+ * 從 yt-dlp 的影片資訊挑選字幕軌
+ * 人工字幕優先（原始語言 > 中文 > 英文 > 其他）；
+ * 自動字幕只使用原始語言的軌道，其他語言是機器翻譯，品質不足以做為逐字稿
+ */
+export function selectCaptionTrack(info: {
+  language?: string | null;
+  subtitles?: Record<string, unknown> | null;
+  automatic_captions?: Record<string, unknown> | null;
+}): CaptionTrack | null {
+  const originalBase = info.language ? languageBase(info.language) : null;
+
+  const manual = Object.keys(info.subtitles || {}).filter(key => key !== "live_chat");
+  if (manual.length > 0) {
+    const preferred = [originalBase, ...PREFERRED_LANGUAGES].filter((lang): lang is string => !!lang);
+    for (const lang of preferred) {
+      const match = manual.find(key => languageBase(key) === lang);
+      if (match) return { language: match, automatic: false };
+    }
+    return { language: manual[0], automatic: false };
+  }
+
+  const automatic = Object.keys(info.automatic_captions || {});
+  const orig = automatic.find(key => key.endsWith("-orig") && (!originalBase || languageBase(key) === originalBase));
+  if (orig) return { language: orig, automatic: true };
+  if (originalBase) {
+    const match = automatic.find(key => key.toLowerCase() === info.language!.toLowerCase())
+      || automatic.find(key => key.toLowerCase() === originalBase);
+    if (match) return { language: match, automatic: true };
+  }
+
+  return null;
+}
+
+/**
+ * 下載並解析 YouTube 字幕
+ * 沒有可用字幕或下載失敗時回傳 null，由呼叫端改用音訊轉錄
+ */
+export async function fetchYoutubeCaptions(youtubeUrl: string): Promise<YoutubeCaptionResult | null> {
+  let info: any;
+  try {
+    const { stdout } = await execFileAsync("yt-dlp", [
+      "--dump-json",
+      "--skip-download",
+      "--no-warnings",
+      "--no-check-certificate",
+      youtubeUrl,
+    ], { maxBuffer: 1024 * 1024 * 20, timeout: 60000 });
+    info = JSON.parse(stdout);
+  } catch (error: any) {
+    console.warn(`[Captions] 無法取得影片資訊: ${error?.message || error}`);
+    return null;
+  }
+
+  const track = selectCaptionTrack(info);
+  if (!track) {
+    console.log(`[Captions] ℹ️  影片沒有可用字幕: ${youtubeUrl}`);
+    return null;
+  }
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "captions-"));
+  try {
+    console.log(`[Captions] 下載${track.automatic ? "自動" : "人工"}字幕 (${track.language}): ${youtubeUrl}`);
+    await execFileAsync("yt-dlp", [
+      "--skip-download",
+      track.automatic ? "--write-auto-subs" : "--write-subs",
+      "--sub-langs", track.language,
+      "--sub-format", "vtt/srt/best",
+      "--output", path.join(tempDir, "%(id)s.%(ext)s"),
+      "--no-warnings",
+      "--no-check-certificate",
+      youtubeUrl,
+    ], { maxBuffer: 1024 * 1024 * 20, timeout: 120000 });
+
+    const files = await fs.readdir(tempDir);
+    const file = files.find(name => name.endsWith(".vtt")) || files.find(name => name.endsWith(".srt"));
+    if (!file) {
+      console.warn(`[Captions] ⚠️  yt-dlp 未產生 VTT/SRT 字幕檔: ${files.join(", ") || "(無檔案)"}`);
+      return null;
+    }
+
+    const content = await fs.readFile(path.join(tempDir, file), "utf-8");
+    const segments = parseSubtitles(content, file.endsWith(".srt") ? "srt" : "vtt");
+    const text = segments.map(segment => segment.text).join(" ").trim();
+    if (text.length < MIN_CAPTION_CHARS) {
+      console.log(`[Captions] ℹ️  字幕內容過少 (${text.length} 字元)，改用音訊轉錄`);
+      return null;
+    }
+
+    console.log(`[Captions] ✅ 字幕解析完成：${segments.length} 個片段，${text.length} 字元`);
+    return {
+      text,
+      segments,
+      language: languageBase(track.language),
+      duration: info.duration || segments[segments.length - 1]?.end || 0,
+      title: info.title,
+      automatic: track.automatic,
+    };
+  } catch (error: any) {
+    console.warn(`[Captions] 字幕下載失敗: ${error?.stderr || error?.message || error}`);
+    return null;
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true }).catch(() => {});
+  }
+}
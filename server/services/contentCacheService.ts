@@ -0,0 +1,217 @@
+/**
+ * 內容快取服務
+ * 同一部 YouTube 影片（依影片 ID）或同一份文字 / 文章（依內容的 SHA-256）重複提交時，
+ * 重用先前的轉錄與分析結果，直接進入語音生成
+ *
+ * 轉錄結果與分析參數無關，分開快取：換了風格或語言時只需要重新分析，不需要重新轉錄
+ * 音檔只保存儲存路徑（簽章網址可能比快取先過期），讀取時重新簽發網址
+ * 快取失敗只記錄警告，不影響任務
+ */
+
+import crypto from "crypto";
+import { ENV } from "../_core/env";
+import { DEFAULT_OUTPUT_LANGUAGE } from "@shared/outputLanguage";
+import type { ContentCacheEntry, InsertContentCacheEntry } from "../../drizzle/schema";
+import type { AnalysisOptions, TranscriptSegment } from "./summarizationService";
+
+export type CacheSourceType = ContentCacheEntry["sourceType"];
+
+export interface CacheSource {
+  type: CacheSourceType;
+  key: string;
+}
+
+export interface CachedTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+  language: string;
+  duration: number;
+  title?: string;
+  audioUrl: string | null;
+  audioFileKey: string | null;
+}
+
+export interface CachedAnalysis {
+  title?: string;
+  transcription: string;
+  summary: string;
+  podcastScript: string;
+  language: string;
+  duration: number;
+  audioUrl: string | null;
+  audioFileKey: string | null;
+}
+
+// 轉錄結果的 variant_key
+const TRANSCRIPT_VARIANT = "";
+
+export function hashContent(content: string): string {
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+export function youtubeCacheSource(videoId: string): CacheSource {
+  return { type: "youtube", key: videoId };
+}
+
+export function textCacheSource(type: "text" | "article", content: string): CacheSource {
+  return { type, key: hashContent(content.trim()) };
+}
+
+/**
+ * 分析參數的識別碼：模式、輸出語言與風格模板（含內容，內建模板修改後不會誤用舊結果）
+ */
+export function analysisVariantKey(options: AnalysisOptions): string {
+  const { style, mode = "medium", language = DEFAULT_OUTPUT_LANGUAGE } = options;
+  return hashContent(JSON.stringify({
+    mode,
+    language,
+    style: style
+      ? { styleKey: style.styleKey, version: style.version, summaryPrompt: style.summaryPrompt, scriptPrompt: style.scriptPrompt }
+      : null,
+  }));
+}
+
+export function isContentCacheEnabled(): boolean {
+  return ENV.contentCacheTtlDays > 0;
+}
+
+function expiresAt(): Date {
+  return new Date(Date.now() + ENV.contentCacheTtlDays * 24 * 60 * 60 * 1000);
+}
+
+function parseSegments(value: string | null): TranscriptSegment[] {
+  if (!value) return [];
+  try {
+    const segments = JSON.parse(value);
+    return Array.isArray(segments) ? segments : [];
+  } catch {
+    return [];
+  }
+}
+
+async function readEntry(source: CacheSource, variantKey: string): Promise<ContentCacheEntry | undefined> {
+  if (!isContentCacheEnabled()) return undefined;
+  try {
+    const { getContentCacheEntry, recordContentCacheHit } = await import("../db");
+    const entry = await getContentCacheEntry(source.type, source.key, variantKey);
+    if (entry) {
+      await recordContentCacheHit(entry.id);
+    }
+    return entry;
+  } catch (error) {
+    console.warn(`[ContentCache] 讀取快取失敗 (${source.type}:${source.key}):`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+/**
+ * 依快取的儲存路徑重新簽發音檔網址；簽發失敗時回傳 undefined（視為快取未命中）
+ */
+async function resolveAudio(
+  source: CacheSource,
+  entry: ContentCacheEntry
+): Promise<{ audioUrl: string | null; audioFileKey: string | null } | undefined> {
+  if (!entry.audioFileKey) {
+    return { audioUrl: null, audioFileKey: null };
+  }
+  try {
+    const { storageGet } = await import("../storage");
+    const { url } = await storageGet(entry.audioFileKey);
+    return { audioUrl: url, audioFileKey: entry.audioFileKey };
+  } catch (error) {
+    console.warn(`[ContentCache] 無法重新簽發音檔網址 (${source.type}:${source.key}):`, error instanceof Error ? error.message : error);
+    return undefined;
+  }
+}
+
+/**
+ * 只保存實際上傳過的音檔路徑（字幕與 Gemini 直接分析沒有音檔）
+ */
+function storedAudioKey(audio: { audioUrl: string | null; audioFileKey: string | null }): string | null {
+  return audio.audioUrl && audio.audioFileKey ? audio.audioFileKey : null;
+}
+
+async function writeEntry(
+  source: CacheSource,
+  variantKey: string,
+  values: Omit<InsertContentCacheEntry, "id" | "sourceType" | "sourceKey" | "variantKey" | "hitCount" | "expiresAt" | "createdAt" | "updatedAt">
+): Promise<void> {
+  if (!isContentCacheEnabled()) return;
+  try {
+    const { saveContentCacheEntry } = await import("../db");
+    await saveContentCacheEntry({
+      ...values,
+      sourceType: source.type,
+      sourceKey: source.key,
+      variantKey,
+      expiresAt: expiresAt(),
+    });
+  } catch (error) {
+    console.warn(`[ContentCache] 寫入快取失敗 (${source.type}:${source.key}):`, error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * 取得快取的轉錄結果
+ */
+export async function getCachedTranscript(source: CacheSource): Promise<CachedTranscript | null> {
+  const entry = await readEntry(source, TRANSCRIPT_VARIANT);
+  if (!entry?.transcription) return null;
+  const audio = await resolveAudio(source, entry);
+  if (!audio) return null;
+
+  console.log(`[ContentCache] ♻️  使用快取的轉錄結果 (${source.type}:${source.key})`);
+  return {
+    text: entry.transcription,
+    segments: parseSegments(entry.segments),
+    language: entry.language || "",
+    duration: entry.duration,
+    title: entry.title || undefined,
+    ...audio,
+  };
+}
+
+export async function saveCachedTranscript(source: CacheSource, transcript: CachedTranscript): Promise<void> {
+  await writeEntry(source, TRANSCRIPT_VARIANT, {
+    title: transcript.title?.substring(0, 512) || null,
+    transcription: transcript.text,
+    // 只保留分段需要的欄位（AssemblyAI 的片段是逐字的，其餘欄位沒有用處）
+    segments: JSON.stringify(transcript.segments.map(({ start, end, text }) => ({ start, end, text }))),
+    language: transcript.language.substring(0, 16) || null,
+    duration: Math.round(transcript.duration || 0),
+    audioFileKey: storedAudioKey(transcript),
+  });
+}
+
+/**
+ * 取得相同分析參數的快取結果（摘要與腳本）
+ */
+export async function getCachedAnalysis(source: CacheSource, options: AnalysisOptions): Promise<CachedAnalysis | null> {
+  const entry = await readEntry(source, analysisVariantKey(options));
+  if (!entry?.summary || !entry.podcastScript) return null;
+  const audio = await resolveAudio(source, entry);
+  if (!audio) return null;
+
+  console.log(`[ContentCache] ♻️  使用快取的分析結果 (${source.type}:${source.key})`);
+  return {
+    title: entry.title || undefined,
+    transcription: entry.transcription || "",
+    summary: entry.summary,
+    podcastScript: entry.podcastScript,
+    language: entry.language || "",
+    duration: entry.duration,
+    ...audio,
+  };
+}
+
+export async function saveCachedAnalysis(source: CacheSource, options: AnalysisOptions, analysis: CachedAnalysis): Promise<void> {
+  await writeEntry(source, analysisVariantKey(options), {
+    title: analysis.title?.substring(0, 512) || null,
+    transcription: analysis.transcription,
+    language: analysis.language.substring(0, 16) || null,
+    duration: Math.round(analysis.duration || 0),
+    audioFileKey: storedAudioKey(analysis),
+    summary: analysis.summary,
+    podcastScript: analysis.podcastScript,
+  });
+}
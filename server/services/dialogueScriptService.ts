@@ -0,0 +1,176 @@
+/**
+ * 對話腳本生成服務
+ * 將摘要改寫成結構化的主持人對話腳本（host1 / host2 ...），
+ * 用於腳本審閱模式的草稿，以及不會自行撰寫對話的 TTS 供應商（例如本機引擎）逐句合成
+ */
+
+import { z } from "zod";
+import { getOutputLanguageInfo, type OutputLanguage } from "@shared/outputLanguage";
+import { invokeStructured } from "../_core/llmStructured";
+import type { TtsScriptLine } from "./ttsService";
+import type { StylePrompt } from "./promptTemplateService";
+import type { HostConfig } from "@shared/hosts";
+
+export interface DialogueHost {
+  id: string; // host1、host2 ...
+  name: string;
+  speakerId: string;
+  persona?: string; // 主持人人設（影響台詞的立場與說話方式）
+}
+
+export interface DialogueLine {
+  hostId: string;
+  content: string;
+}
+
+/**
+ * 結構化對話腳本（以 JSON 存放在 podcast_tasks.draft_script）
+ */
+export interface DialogueScript {
+  hosts: DialogueHost[];
+  lines: DialogueLine[];
+}
+
+export interface DialogueScriptOptions {
+  mode?: "quick" | "medium" | "deep";
+  style: StylePrompt;
+  hosts: DialogueHost[];
+  language?: OutputLanguage; // 台詞使用的語言（預設繁體中文）
+}
+
+const dialogueResponseSchema = z.object({
+  lines: z.array(z.object({
+    host: z.number().int().min(1),
+    content: z.string(),
+  })).min(1),
+});
+
+// 中文朗讀約每分鐘 250 字
+const TARGET_LENGTHS = {
+  quick: 1100,  // 4-5 分鐘
+  medium: 1900, // 7-8 分鐘
+  deep: 2800,   // 10-12 分鐘
+};
+
+/**
+ * 生成主持人對話腳本
+ */
+export async function generateDialogueScript(
+  content: string,
+  options: DialogueScriptOptions
+): Promise<DialogueScript> {
+  const { mode = "medium", style, hosts, language } = options;
+  if (hosts.length === 0) {
+    throw new Error("At least one host is required to generate a dialogue script");
+  }
+
+  const prompt = `請根據以下內容，撰寫一段${hosts.length === 1 ? "單人主講的 Podcast 腳本" : " Podcast 對話腳本"}。
+
+${formatHostList(hosts)}
+
+要求：
+- 風格（${style.name}）：${style.scriptPrompt}
+- 總長度約 ${TARGET_LENGTHS[mode]} 字（非中文時以相同的朗讀時間計算）
+- 包含開場、主要${hosts.length === 1 ? "內容" : "討論"}與結尾${formatFormatRequirements(hosts)}
+- 每句台詞只包含要念出的文字，不要加動作描述或括號註解
+- host 欄位為主持人編號（從 1 開始）
+- 所有台詞使用${getOutputLanguageInfo(language).promptName}
+
+內容：
+${content}`;
+
+  const parsed = await invokeStructured(dialogueResponseSchema, [
+    {
+      role: "system",
+      content: "你是一位專業的 Podcast 腳本作家。請直接返回純 JSON，不要使用 markdown 代碼塊。",
+    },
+    { role: "user", content: prompt },
+  ], { name: "dialogue_script" });
+
+  const lines = parsed.lines
+    .filter(line => line.content.trim())
+    .map(line => {
+      const hostIndex = Math.min(Math.max(line.host - 1, 0), hosts.length - 1);
+      return {
+        hostId: hosts[hostIndex].id,
+        content: line.content.trim(),
+      };
+    });
+
+  if (lines.length === 0) {
+    throw new Error("LLM 未產生任何對話內容");
+  }
+
+  console.log(`[DialogueScript] Generated ${lines.length} lines (${lines.reduce((sum, l) => sum + l.content.length, 0)} chars)`);
+  return { hosts, lines };
+}
+
+/**
+ * 主持人列表（含人設）
+ */
+function formatHostList(hosts: DialogueHost[]): string {
+  const lines = hosts.map((host, index) => {
+    const persona = host.persona?.trim();
+    return `${index + 1}. ${host.name}${persona ? `：${persona}` : ""}`;
+  });
+  return `主持人：\n${lines.join("\n")}`;
+}
+
+/**
+ * 依主持人數量決定節目形式的額外要求
+ */
+function formatFormatRequirements(hosts: DialogueHost[]): string {
+  const requirements: string[] = [];
+  if (hosts.length !== 2) {
+    requirements.push("- 主持人人數以上方列表為準（風格說明中提到的人數不適用）");
+  }
+  if (hosts.length === 1) {
+    requirements.push("- 這是單人獨白節目：由主持人直接對聽眾敘述，所有台詞的 host 都是 1，不要虛構其他對話者");
+  } else if (hosts.length > 2) {
+    requirements.push(`- 這是 ${hosts.length} 人節目：每位主持人都要有實質發言，避免只由其中兩人對話`);
+  }
+  if (hosts.some(host => host.persona?.trim())) {
+    requirements.push("- 每位主持人的台詞要符合其人設（角色分工、立場與說話方式）");
+  }
+  return requirements.map(requirement => `\n${requirement}`).join("");
+}
+
+/**
+ * 依主持人設定與對應的聲音建立腳本主持人（host1、host2 ...）
+ */
+export function buildDialogueHosts(configs: HostConfig[], speakerIds: string[]): DialogueHost[] {
+  return configs.map((config, index) => ({
+    id: `host${index + 1}`,
+    name: config.name,
+    speakerId: speakerIds[index],
+    ...(config.persona?.trim() ? { persona: config.persona.trim() } : {}),
+  }));
+}
+
+/**
+ * 解析儲存的腳本 JSON
+ */
+export function parseDialogueScript(json: string): DialogueScript {
+  const script = JSON.parse(json) as DialogueScript;
+  if (!Array.isArray(script.hosts) || !Array.isArray(script.lines)) {
+    throw new Error("Invalid dialogue script format");
+  }
+  return script;
+}
+
+/**
+ * 轉換為 TTS 供應商使用的逐句格式
+ */
+export function toTtsScriptLines(script: DialogueScript): TtsScriptLine[] {
+  const hostsById = new Map(script.hosts.map(host => [host.id, host]));
+  return script.lines
+    .filter(line => line.content.trim())
+    .map(line => {
+      const host = hostsById.get(line.hostId) || script.hosts[0];
+      return {
+        speakerId: host.speakerId,
+        speakerName: host.name,
+        content: line.content.trim(),
+      };
+    });
+}
@@ -0,0 +1,508 @@
+/**
+ * 文件輸入服務
+ * 在本機擷取 PDF / DOCX / EPUB / Markdown 的文字並保留結構（章節、標題），
+ * 使用者可選擇要納入的章節；內容過長時拆成多集系列（shared/document 的分集規劃）
+ */
+
+import path from "path";
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { DOMParser, parseHTML } from "linkedom";
+import { getDocumentExtension, type DocumentExtension } from "@shared/upload";
+import type { DocumentChapterInfo } from "@shared/document";
+import { storageGet } from "../storage";
+import { processTextToPodcast } from "../textService";
+import { getUploadTitle } from "./uploadService";
+import type { AnalysisOptions } from "./summarizationService";
+
+export interface DocumentChapter {
+  index: number;
+  title: string;
+  text: string; // 章節內文，小標題以 Markdown「#」標示
+}
+
+export interface ParsedDocument {
+  title: string;
+  format: DocumentExtension;
+  chapters: DocumentChapter[];
+}
+
+export interface SeriesPart {
+  index: number; // 從 1 開始
+  total: number;
+}
+
+type Block = { type: "heading"; level: number; text: string } | { type: "text"; text: string };
+
+// 沒有章節結構的文件，依此長度切分段落
+const UNSTRUCTURED_SECTION_CHARS = 15000;
+// 沒有書籤的 PDF，每個段落包含的頁數
+const PDF_PAGES_PER_SECTION = 10;
+
+const TEXT_BLOCK_TAGS = new Set(["P", "LI", "PRE", "BLOCKQUOTE", "TD", "TH", "DT", "DD", "CAPTION", "FIGCAPTION"]);
+const SKIPPED_TAGS = new Set(["SCRIPT", "STYLE", "NAV", "HEAD", "TEMPLATE", "NOSCRIPT"]);
+
+function normalizeWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * 依文件順序取出標題與文字區塊
+ */
+export function htmlToBlocks(root: Node): Block[] {
+  const blocks: Block[] = [];
+  const walk = (node: Node) => {
+    if (node.nodeType === 3) {
+      const text = normalizeWhitespace(node.textContent || "");
+      if (text) blocks.push({ type: "text", text });
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const tagName = (node as Element).tagName.toUpperCase();
+    if (SKIPPED_TAGS.has(tagName)) return;
+
+    const heading = tagName.match(/^H([1-6])$/);
+    if (heading) {
+      const text = normalizeWhitespace(node.textContent || "");
+      if (text) blocks.push({ type: "heading", level: Number(heading[1]), text });
+      return;
+    }
+    if (TEXT_BLOCK_TAGS.has(tagName)) {
+      const text = normalizeWhitespace(node.textContent || "");
+      if (text) blocks.push({ type: "text", text });
+      return;
+    }
+    node.childNodes.forEach(walk);
+  };
+  walk(root);
+  return blocks;
+}
+
+/**
+ * 解析 Markdown 為標題與文字區塊（支援 ATX「#」與 Setext 底線標題，略過程式碼區塊中的「#」）
+ */
+export function markdownToBlocks(markdown: string): Block[] {
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const text = paragraph.join("\n").trim();
+    if (text) blocks.push({ type: "text", text });
+    paragraph = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      paragraph.push(line);
+      continue;
+    }
+    if (inFence) {
+      paragraph.push(line);
+      continue;
+    }
+
+    const atx = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (atx) {
+      flush();
+      blocks.push({ type: "heading", level: atx[1].length, text: atx[2] });
+      continue;
+    }
+    // Setext 標題：上一行是單行文字，這一行是 === 或 ---
+    const setext = line.match(/^\s*(=+|-+)\s*$/);
+    if (setext && paragraph.length === 1 && paragraph[0].trim()) {
+      const text = paragraph[0].trim();
+      paragraph = [];
+      blocks.push({ type: "heading", level: setext[1].startsWith("=") ? 1 : 2, text });
+      continue;
+    }
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    paragraph.push(line);
+  }
+  flush();
+  return blocks;
+}
+
+function blocksToText(blocks: Block[]): string {
+  return blocks
+    .map(block => (block.type === "heading" ? `${"#".repeat(block.level)} ${block.text}` : block.text))
+    .join("\n\n");
+}
+
+/**
+ * 沒有章節結構時依長度切分
+ */
+function splitBySize(blocks: Block[]): DocumentChapter[] {
+  const chapters: DocumentChapter[] = [];
+  let current: Block[] = [];
+  let length = 0;
+  const flush = () => {
+    if (current.length === 0) return;
+    chapters.push({ index: chapters.length, title: `第 ${chapters.length + 1} 部分`, text: blocksToText(current) });
+    current = [];
+    length = 0;
+  };
+  for (const block of blocks) {
+    if (length > 0 && length + block.text.length > UNSTRUCTURED_SECTION_CHARS) flush();
+    current.push(block);
+    length += block.text.length;
+  }
+  flush();
+  return chapters;
+}
+
+/**
+ * 依標題切分章節：選擇出現至少兩次的最高層級標題作為章節（只出現一次的最高層標題通常是文件標題）
+ */
+export function blocksToChapters(blocks: Block[]): { title?: string; chapters: DocumentChapter[] } {
+  const headingLevels = blocks.filter(block => block.type === "heading").map(block => (block as { level: number }).level);
+  const chapterLevel = [1, 2, 3, 4, 5, 6].find(level => headingLevels.filter(value => value === level).length >= 2);
+
+  if (!chapterLevel) {
+    const titleBlock = blocks.find(block => block.type === "heading");
+    const body = titleBlock ? blocks.filter(block => block !== titleBlock) : blocks;
+    if (body.length === 0) {
+      return { title: titleBlock?.text, chapters: [] };
+    }
+    const chapters = splitBySize(body);
+    // 只有一個段落時以文件標題作為章節名稱
+    if (chapters.length === 1 && titleBlock) chapters[0].title = titleBlock.text;
+    return { title: titleBlock?.text, chapters };
+  }
+
+  let title: string | undefined;
+  const chapters: DocumentChapter[] = [];
+  let preface: Block[] = [];
+  let current: { title: string; blocks: Block[] } | null = null;
+
+  const flush = () => {
+    if (current && current.blocks.length > 0) {
+      chapters.push({ index: chapters.length, title: current.title, text: blocksToText(current.blocks) });
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.type === "heading" && block.level < chapterLevel) {
+      // 章節層級以上的標題：第一個作為文件標題，其餘（例如「第一部」）保留在內文
+      if (!title && !current) {
+        title = block.text;
+        continue;
+      }
+    }
+    if (block.type === "heading" && block.level === chapterLevel) {
+      flush();
+      current = { title: block.text, blocks: [] };
+      continue;
+    }
+    if (current) {
+      current.blocks.push(block);
+    } else {
+      preface.push(block);
+    }
+  }
+  flush();
+
+  if (preface.length > 0) {
+    chapters.unshift({ index: 0, title: "前言", text: blocksToText(preface) });
+    chapters.forEach((chapter, index) => { chapter.index = index; });
+  }
+  return { title, chapters };
+}
+
+async function parseMarkdown(buffer: Buffer): Promise<{ title?: string; chapters: DocumentChapter[] }> {
+  return blocksToChapters(markdownToBlocks(buffer.toString("utf-8")));
+}
+
+async function parseDocx(buffer: Buffer): Promise<{ title?: string; chapters: DocumentChapter[] }> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  const { document } = parseHTML(`<!DOCTYPE html><html><body>${html}</body></html>`);
+  return blocksToChapters(htmlToBlocks(document.body));
+}
+
+async function parsePdf(buffer: Buffer): Promise<{ title?: string; chapters: DocumentChapter[] }> {
+  const { getDocument } = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  const pdf = await getDocument({
+    data: new Uint8Array(buffer),
+    isEvalSupported: false,
+    useSystemFonts: true,
+    disableFontFace: true,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ("str" in item ? item.str + (item.hasEOL ? "\n" : "") : ""))
+        .join("")
+        .replace(/[ \t]+/g, " ")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+      pages.push(text);
+      page.cleanup();
+    }
+
+    const metadata = await pdf.getMetadata().catch(() => null);
+    const info = metadata?.info as { Title?: string } | undefined;
+    const title = normalizeWhitespace(info?.Title || "") || undefined;
+
+    // 以第一層書籤作為章節
+    const outline = (await pdf.getOutline().catch(() => null)) || [];
+    const starts: { title: string; page: number }[] = [];
+    for (const item of outline) {
+      try {
+        const dest = typeof item.dest === "string" ? await pdf.getDestination(item.dest) : item.dest;
+        if (!dest?.[0]) continue;
+        const page = typeof dest[0] === "number" ? dest[0] : await pdf.getPageIndex(dest[0]);
+        starts.push({ title: normalizeWhitespace(item.title) || `第 ${page + 1} 頁`, page });
+      } catch {
+        // 無法解析的書籤略過
+      }
+    }
+    starts.sort((a, b) => a.page - b.page);
+
+    const sections: { title: string; from: number; to: number }[] = [];
+    if (starts.length >= 2) {
+      if (starts[0].page > 0) sections.push({ title: "前言", from: 0, to: starts[0].page });
+      starts.forEach((start, i) => {
+        const to = i + 1 < starts.length ? starts[i + 1].page : pages.length;
+        if (to > start.page) sections.push({ title: start.title, from: start.page, to });
+      });
+    } else {
+      for (let from = 0; from < pages.length; from += PDF_PAGES_PER_SECTION) {
+        const to = Math.min(from + PDF_PAGES_PER_SECTION, pages.length);
+        sections.push({ title: to - from > 1 ? `第 ${from + 1}–${to} 頁` : `第 ${from + 1} 頁`, from, to });
+      }
+    }
+
+    const chapters = sections
+      .map(section => ({ title: section.title, text: pages.slice(section.from, section.to).filter(Boolean).join("\n\n") }))
+      .filter(section => section.text)
+      .map((section, index) => ({ index, ...section }));
+    return { title, chapters };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+function resolveZipPath(baseFile: string, href: string): string {
+  const cleanHref = decodeURIComponent(href.split("#")[0]);
+  return path.posix.normalize(path.posix.join(path.posix.dirname(baseFile), cleanHref)).replace(/^\.\//, "");
+}
+
+function xmlElements(root: Document | Element, tagName: string): Element[] {
+  return Array.from(root.getElementsByTagName(tagName)).concat(
+    tagName.includes(":") ? [] : Array.from(root.getElementsByTagName(`opf:${tagName}`))
+  );
+}
+
+/**
+ * 讀取 EPUB 目錄（EPUB 3 nav 或 EPUB 2 toc.ncx），回傳 章節檔案路徑 → 標題
+ */
+async function readEpubToc(zip: JSZip, opfPath: string, manifest: Map<string, { href: string; mediaType: string; properties: string }>, tocId: string | null): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+  const nav = Array.from(manifest.values()).find(item => item.properties.split(/\s+/).includes("nav"));
+  const ncx = (tocId && manifest.get(tocId)) || Array.from(manifest.values()).find(item => item.mediaType === "application/x-dtbncx+xml");
+
+  if (nav) {
+    const navPath = resolveZipPath(opfPath, nav.href);
+    const html = await zip.file(navPath)?.async("string");
+    if (html) {
+      const { document } = parseHTML(html);
+      const tocNav = Array.from(document.querySelectorAll("nav")).find(element => element.getAttribute("epub:type") === "toc")
+        || document.querySelector("nav");
+      for (const link of Array.from(tocNav?.querySelectorAll("a[href]") || [])) {
+        const target = resolveZipPath(navPath, link.getAttribute("href") || "");
+        const text = normalizeWhitespace(link.textContent || "");
+        if (text && !titles.has(target)) titles.set(target, text);
+      }
+    }
+  }
+
+  if (titles.size === 0 && ncx) {
+    const ncxPath = resolveZipPath(opfPath, ncx.href);
+    const xml = await zip.file(ncxPath)?.async("string");
+    if (xml) {
+      const document = new DOMParser().parseFromString(xml, "text/xml") as unknown as Document;
+      for (const point of xmlElements(document, "navPoint")) {
+        const label = normalizeWhitespace(point.getElementsByTagName("text")[0]?.textContent || "");
+        const src = point.getElementsByTagName("content")[0]?.getAttribute("src");
+        if (label && src) {
+          const target = resolveZipPath(ncxPath, src);
+          if (!titles.has(target)) titles.set(target, label);
+        }
+      }
+    }
+  }
+  return titles;
+}
+
+async function parseEpub(buffer: Buffer): Promise<{ title?: string; chapters: DocumentChapter[] }> {
+  const zip = await JSZip.loadAsync(buffer);
+  const containerXml = await zip.file("META-INF/container.xml")?.async("string");
+  if (!containerXml) {
+    throw new Error("EPUB 缺少 META-INF/container.xml");
+  }
+  const container = new DOMParser().parseFromString(containerXml, "text/xml") as unknown as Document;
+  const opfPath = xmlElements(container, "rootfile")[0]?.getAttribute("full-path");
+  const opfXml = opfPath ? await zip.file(opfPath)?.async("string") : undefined;
+  if (!opfPath || !opfXml) {
+    throw new Error("EPUB 缺少套件描述檔（OPF）");
+  }
+
+  const opf = new DOMParser().parseFromString(opfXml, "text/xml") as unknown as Document;
+  const title = normalizeWhitespace(opf.getElementsByTagName("dc:title")[0]?.textContent || "") || undefined;
+
+  const manifest = new Map<string, { href: string; mediaType: string; properties: string }>();
+  for (const item of xmlElements(opf, "item")) {
+    const id = item.getAttribute("id");
+    const href = item.getAttribute("href");
+    if (id && href) {
+      manifest.set(id, {
+        href,
+        mediaType: item.getAttribute("media-type") || "",
+        properties: item.getAttribute("properties") || "",
+      });
+    }
+  }
+
+  const spine = xmlElements(opf, "spine")[0];
+  const tocTitles = await readEpubToc(zip, opfPath, manifest, spine?.getAttribute("toc") || null);
+
+  const chapters: DocumentChapter[] = [];
+  for (const itemref of xmlElements(opf, "itemref")) {
+    const item = manifest.get(itemref.getAttribute("idref") || "");
+    if (!item || itemref.getAttribute("linear") === "no") continue;
+
+    const filePath = resolveZipPath(opfPath, item.href);
+    const html = await zip.file(filePath)?.async("string");
+    if (!html) continue;
+
+    const { document } = parseHTML(html);
+    const blocks = htmlToBlocks(document.body || document.documentElement);
+    const text = blocksToText(blocks);
+    if (!text.trim()) continue; // 封面、空白頁
+
+    const firstHeading = blocks.find(block => block.type === "heading")?.text;
+    chapters.push({
+      index: chapters.length,
+      title: tocTitles.get(filePath) || firstHeading || `第 ${chapters.length + 1} 章`,
+      text,
+    });
+  }
+  return { title, chapters };
+}
+
+/**
+ * 解析文件，依格式擷取章節
+ */
+export async function parseDocument(buffer: Buffer, fileName: string): Promise<ParsedDocument> {
+  const format = getDocumentExtension(fileName);
+  if (!format) {
+    throw new Error(`不支援的文件格式：${fileName}`);
+  }
+
+  let parsed: { title?: string; chapters: DocumentChapter[] };
+  try {
+    switch (format) {
+      case "pdf":
+        parsed = await parsePdf(buffer);
+        break;
+      case "docx":
+        parsed = await parseDocx(buffer);
+        break;
+      case "epub":
+        parsed = await parseEpub(buffer);
+        break;
+      default:
+        parsed = await parseMarkdown(buffer);
+    }
+  } catch (error) {
+    throw new Error(`無法讀取文件內容：${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (parsed.chapters.length === 0) {
+    throw new Error("文件中沒有可擷取的文字（掃描的 PDF 需要先進行文字辨識）");
+  }
+
+  // 沒有文件標題時使用上傳時的檔名
+  const title = parsed.title || getUploadTitle(fileName);
+  console.log(`[Document] Parsed ${format.toUpperCase()} "${title}": ${parsed.chapters.length} chapters`);
+  return { title, format, chapters: parsed.chapters };
+}
+
+/**
+ * 從儲存空間讀取上傳的文件並解析
+ */
+export async function loadDocument(fileKey: string): Promise<ParsedDocument> {
+  const { url } = await storageGet(fileKey);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`無法讀取上傳的文件（HTTP ${response.status}）`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  return parseDocument(buffer, fileKey);
+}
+
+export function summarizeChapters(document: ParsedDocument): DocumentChapterInfo[] {
+  return document.chapters.map(chapter => ({ index: chapter.index, title: chapter.title, charCount: chapter.text.length }));
+}
+
+/**
+ * 取出選擇的章節（未指定時使用全部章節）
+ */
+export function selectChapters(document: ParsedDocument, chapterIndexes?: number[]): DocumentChapter[] {
+  if (!chapterIndexes || chapterIndexes.length === 0) {
+    return document.chapters;
+  }
+  const selected = new Set(chapterIndexes);
+  const chapters = document.chapters.filter(chapter => selected.has(chapter.index));
+  if (chapters.length !== selected.size) {
+    throw new Error("選擇的章節不存在，請重新選擇");
+  }
+  return chapters;
+}
+
+/**
+ * 單集標題：系列加上集數，只選部分章節時加上章節名稱
+ */
+export function formatDocumentEpisodeTitle(
+  document: ParsedDocument,
+  chapters: DocumentChapter[],
+  seriesPart?: SeriesPart
+): string {
+  if (seriesPart && seriesPart.total > 1) {
+    const range = chapters.length > 1 ? `${chapters[0].title}～${chapters[chapters.length - 1].title}` : chapters[0].title;
+    return `${document.title}（第 ${seriesPart.index}/${seriesPart.total} 集：${range}）`;
+  }
+  if (chapters.length < document.chapters.length && chapters.length <= 3) {
+    return `${document.title}：${chapters.map(chapter => chapter.title).join("、")}`;
+  }
+  return document.title;
+}
+
+/**
+ * 處理上傳的文件：取出選擇的章節（保留章節標題）後交給文字處理流程
+ */
+export async function processDocumentToPodcast(
+  fileKey: string,
+  options: AnalysisOptions = {},
+  selection: { chapters?: number[]; seriesPart?: SeriesPart } = {}
+) {
+  const document = await loadDocument(fileKey);
+  const chapters = selectChapters(document, selection.chapters);
+  const content = chapters.map(chapter => `# ${chapter.title}\n\n${chapter.text}`).join("\n\n");
+  console.log(`[Document] Processing ${chapters.length}/${document.chapters.length} chapters (${content.length} characters) from ${fileKey}`);
+
+  const result = await processTextToPodcast(content, options);
+  return {
+    ...result,
+    title: formatDocumentEpisodeTitle(document, chapters, selection.seriesPart),
+  };
+}
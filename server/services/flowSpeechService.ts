@@ -21,7 +21,7 @@ export interface FlowSpeechResponse {
 export async function generateFlowSpeech(
   text: string,
   speakerId: string,
-  language: "zh" | "en" = "zh"
+  language: string = "zh"
 ): Promise<FlowSpeechResponse> {
   if (!API_KEY) {
     throw new Error("ListenHub API Key not configured");
@@ -3,7 +3,11 @@
  * 使用 LLM 分析 Podcast 文字稿，找出最精彩的片段
  */
 
-import { invokeLLM } from "../_core/llm";
+import { z } from "zod";
+import { getOutputLanguageInfo, type OutputLanguage } from "@shared/outputLanguage";
+import { AppError } from "../_core/errorHandler";
+import { invokeStructured } from "../_core/llmStructured";
+import type { TtsLineTiming } from "./ttsService";
 
 export interface HighlightSegment {
   title: string; // 精華片段標題
@@ -21,20 +25,42 @@ export interface PodcastScript {
   content: string;
 }
 
+/**
+ * LLM 回傳的精華片段（索引必須落在文字稿範圍內）
+ */
+function highlightResponseSchema(lineCount: number) {
+  const lineIndex = z.number().int().min(0).max(lineCount - 1);
+  return z.object({
+    segments: z.array(z.object({
+      title: z.string(),
+      description: z.string(),
+      startIndex: lineIndex,
+      endIndex: lineIndex,
+      reason: z.string(),
+    })).min(1),
+  });
+}
+
 /**
  * 分析 Podcast 文字稿，識別精華片段
  * @param scripts Podcast 對話腳本
  * @param targetDuration 目標精華片段總長度（秒），預設 60 秒
+ * @param timeline 逐句時間軸（與 scripts 一一對應），有提供時使用實際時間剪輯
+ * @param language 節目輸出語言（標題、描述與理由使用此語言）
  * @returns 精華片段列表
  */
 export async function identifyHighlights(
   scripts: PodcastScript[],
-  targetDuration: number = 60
+  targetDuration: number = 60,
+  timeline?: TtsLineTiming[] | null,
+  language?: OutputLanguage
 ): Promise<HighlightSegment[]> {
   if (!scripts || scripts.length === 0) {
     throw new Error("Podcast scripts are empty");
   }
 
+  const languageName = getOutputLanguageInfo(language).promptName;
+
   // 將對話腳本轉換為帶時間戳的文字
   const fullTranscript = scripts
     .map((script, index) => `[${index}] ${script.speakerName}: ${script.content}`)
@@ -45,7 +71,7 @@ export async function identifyHighlights(
 
 **重要要求**：
 - 你必須只找出 **1 個**最精彩的片段，長度必須**精確約 ${targetDuration} 秒**（允許 ±3 秒誤差，但必須接近 ${targetDuration} 秒）
-- 所有回應必須使用**繁體中文**，包括標題、描述和理由
+- 所有回應必須使用**${languageName}**，包括標題、描述和理由
 - 你必須直接返回純 JSON 格式，不要使用 markdown 代碼塊（不要使用 \`\`\`json 或 \`\`\`）
 - **重要**：每次調用時，你必須選擇**不同的**精彩片段，不要重複選擇相同的 startIndex 和 endIndex
 - **關鍵**：你選擇的片段長度必須接近 ${targetDuration} 秒。如果文字稿中沒有足夠長的單一片段，你可以選擇多個連續的對話（增加 endIndex - startIndex 的差值）來達到約 ${targetDuration} 秒的長度
@@ -63,11 +89,11 @@ ${fullTranscript}
 {
   "segments": [
     {
-      "title": "精華片段標題（繁體中文，簡短有吸引力，10-20 字）",
-      "description": "精華片段描述（繁體中文，說明為什麼這段精彩，30-50 字）",
+      "title": "精華片段標題（${languageName}，簡短有吸引力，10-20 字）",
+      "description": "精華片段描述（${languageName}，說明為什麼這段精彩，30-50 字）",
       "startIndex": 開始的對話索引（對應 [數字]，必須是整數）,
       "endIndex": 結束的對話索引（對應 [數字]，必須是整數）,
-      "reason": "選擇這段的理由（繁體中文，內部使用）"
+      "reason": "選擇這段的理由（${languageName}，內部使用）"
     }
   ]
 }
@@ -88,7 +114,7 @@ ${fullTranscript}
 - **重要**：確保選擇的片段字符數足夠達到 ${targetDuration} 秒的長度
 
 **重要**：你必須直接返回純 JSON 格式，不要使用 markdown 代碼塊（不要使用 \`\`\`json 或 \`\`\`）。
-**重要**：所有文字內容必須使用繁體中文。
+**重要**：所有文字內容必須使用${languageName}。
 
 請只回傳 JSON 格式，不要包含其他文字或 markdown 代碼塊。`;
 
@@ -97,184 +123,16 @@ ${fullTranscript}
   const MAX_HIGHLIGHT_DURATION = 59;
 
   try {
-    const response = await invokeLLM({
-      messages: [
-        {
-          role: "system",
-          content: "你是一位專業的 Podcast 編輯，擅長識別精華片段。**重要**：你必須直接返回純 JSON 格式，不要使用 markdown 代碼塊（不要使用 \`\`\`json 或 \`\`\`）。**重要**：所有文字內容必須使用繁體中文，包括標題、描述和理由。",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      response_format: {
-        type: "json_schema",
-        json_schema: {
-          name: "highlight_segments",
-          strict: true,
-          schema: {
-            type: "object",
-            properties: {
-              segments: {
-                type: "array",
-                items: {
-                  type: "object",
-                  properties: {
-                    title: { type: "string" },
-                    description: { type: "string" },
-                    startIndex: { type: "integer" },
-                    endIndex: { type: "integer" },
-                    reason: { type: "string" },
-                  },
-                  required: ["title", "description", "startIndex", "endIndex", "reason"],
-                  additionalProperties: false,
-                },
-              },
-            },
-            required: ["segments"],
-            additionalProperties: false,
-          },
-        },
+    const result = await invokeStructured(highlightResponseSchema(scripts.length), [
+      {
+        role: "system",
+        content: `你是一位專業的 Podcast 編輯，擅長識別精華片段。**重要**：你必須直接返回純 JSON 格式，不要使用 markdown 代碼塊（不要使用 \`\`\`json 或 \`\`\`）。**重要**：所有文字內容必須使用${languageName}，包括標題、描述和理由。`,
       },
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("LLM response is empty");
-    }
-
-    // 確保 content 是字串
-    const contentStr = typeof content === 'string' ? content : JSON.stringify(content);
-    
-    // **調試**：記錄原始回應（前500字符）
-    console.log(`[HighlightService] Raw LLM response (first 500 chars): ${contentStr.substring(0, 500)}`);
-    
-    // 清理和提取 JSON 的輔助函數（改進版，處理 markdown 代碼塊和數組格式）
-    const cleanJsonString = (text: string): string => {
-      // 1. 移除所有 markdown 代碼塊標記（```json ... ``` 或 ``` ... ```）
-      let cleaned = text
-        .replace(/^[\s\n]*```(?:json)?[\s\n]*/i, '')
-        .replace(/[\s\n]*```[\s\n]*$/i, '')
-        .replace(/```(?:json)?[\s\n]*/gi, '');
-      
-      // 2. 移除控制字符（但保留常見的轉義字符）
-      cleaned = cleaned.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F]/g, '');
-      
-      // 3. 找到 JSON 的開始和結束位置（可能是對象 {} 或數組 []）
-      const firstBrace = cleaned.indexOf('{');
-      const firstBracket = cleaned.indexOf('[');
-      const lastBrace = cleaned.lastIndexOf('}');
-      const lastBracket = cleaned.lastIndexOf(']');
-      
-      // 確定是對象還是數組
-      let startPos = -1;
-      let endPos = -1;
-      
-      if (firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace)) {
-        // 數組格式
-        startPos = firstBracket;
-        endPos = lastBracket;
-      } else if (firstBrace !== -1) {
-        // 對象格式
-        startPos = firstBrace;
-        endPos = lastBrace;
-      }
-      
-      if (startPos !== -1 && endPos !== -1 && endPos > startPos) {
-        cleaned = cleaned.substring(startPos, endPos + 1);
-      }
-      
-      // 4. 移除前後空白
-      cleaned = cleaned.trim();
-      
-      return cleaned;
-    };
-    
-    // 嘗試解析 JSON
-    let result;
-    try {
-      const cleanedContent = cleanJsonString(contentStr);
-      const parsed = JSON.parse(cleanedContent);
-      
-      // **關鍵修復**：如果返回的是數組，自動包裝成 {segments: [...]} 格式
-      if (Array.isArray(parsed)) {
-        result = { segments: parsed };
-      } else if (parsed.segments && Array.isArray(parsed.segments)) {
-        // 已經是正確格式
-        result = parsed;
-      } else if (parsed.title && typeof parsed.startIndex === 'number') {
-        // **修復**：如果返回的是單個對象而不是數組，包裝成 segments 數組
-        console.log(`[HighlightService] LLM returned single object in first parse, wrapping in segments array`);
-        result = { segments: [parsed] };
-      } else {
-        // 嘗試從對象中提取數組
-        const segments = parsed.segments || parsed.highlights || parsed.items || [];
-        if (Array.isArray(segments)) {
-          result = { segments };
-        } else {
-          // **調試**：記錄解析失敗的內容
-          console.error(`[HighlightService] Failed to parse response. Parsed object:`, JSON.stringify(parsed, null, 2).substring(0, 1000));
-          throw new Error("LLM 回應格式不正確：找不到 segments 數組或單個片段對象");
-        }
-      }
-    } catch (parseError) {
-      // 如果解析失敗，嘗試提取 JSON 部分
-      try {
-        // 先移除 markdown 代碼塊
-        let cleanedResponse = contentStr
-          .replace(/^[\s\n]*```(?:json)?[\s\n]*/i, '')
-          .replace(/[\s\n]*```[\s\n]*$/i, '')
-          .replace(/```(?:json)?[\s\n]*/gi, '');
-        
-        // 找到 JSON 的範圍（可能是對象或數組）
-        const firstBrace = cleanedResponse.indexOf('{');
-        const firstBracket = cleanedResponse.indexOf('[');
-        const lastBrace = cleanedResponse.lastIndexOf('}');
-        const lastBracket = cleanedResponse.lastIndexOf(']');
-        
-        let startPos = -1;
-        let endPos = -1;
-        
-        if (firstBracket !== -1 && (firstBrace === -1 || firstBracket < firstBrace)) {
-          startPos = firstBracket;
-          endPos = lastBracket;
-        } else if (firstBrace !== -1) {
-          startPos = firstBrace;
-          endPos = lastBrace;
-        }
-        
-        if (startPos !== -1 && endPos !== -1 && endPos > startPos) {
-          cleanedResponse = cleanedResponse.substring(startPos, endPos + 1);
-        }
-        
-        // 再次嘗試解析
-        const parsed = JSON.parse(cleanedResponse);
-        
-        // 處理數組格式
-        if (Array.isArray(parsed)) {
-          result = { segments: parsed };
-        } else if (parsed.segments && Array.isArray(parsed.segments)) {
-          result = parsed;
-        } else if (parsed.title && typeof parsed.startIndex === 'number') {
-          // **修復**：如果返回的是單個對象而不是數組，包裝成 segments 數組
-          console.log(`[HighlightService] LLM returned single object, wrapping in segments array`);
-          result = { segments: [parsed] };
-        } else {
-          // **調試**：記錄解析失敗的內容
-          console.error(`[HighlightService] Failed to parse response. Parsed object:`, JSON.stringify(parsed, null, 2).substring(0, 1000));
-          throw new Error("LLM 回應格式不正確：找不到 segments 數組或單個片段對象");
-        }
-      } catch (extractError) {
-        console.error(`[HighlightService] JSON parsing failed. Content preview: ${contentStr.substring(0, 500)}`);
-        throw new Error(`無法解析 LLM 回應為 JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-      }
-    }
-    
-    // 驗證結果格式
-    if (!result.segments || !Array.isArray(result.segments) || result.segments.length === 0) {
-      throw new Error("LLM 回應格式不正確：找不到 segments 數組或數組為空");
-    }
+      {
+        role: "user",
+        content: prompt,
+      },
+    ], { name: "highlight_segments" });
 
     // **修復**：只取第一個片段（因為我們要求只生成1個）
     const segmentsToProcess = result.segments.slice(0, 1);
@@ -284,9 +142,37 @@ ${fullTranscript}
     // 估算每個對話的平均時長（假設每個字 0.3 秒）
     const avgSecondsPerChar = 0.3;
 
+    // 時間軸與腳本句數不一致時（例如腳本被修改過）不可信，退回估算
+    const hasTimeline = !!timeline && timeline.length === scripts.length;
+    if (timeline && !hasTimeline) {
+      console.warn(`[HighlightService] Timeline has ${timeline.length} lines but script has ${scripts.length}, falling back to estimates`);
+    }
+
     for (const segment of segmentsToProcess) {
       const { title, description, startIndex, endIndex, reason } = segment;
 
+      // 有逐句時間軸：以完整句子為單位剪輯，起訖時間都落在句子邊界
+      if (hasTimeline) {
+        const maxAllowedDuration = targetDuration === 60 ? 60 : MAX_HIGHLIGHT_DURATION;
+        const range = selectTimedRange(timeline!, startIndex, endIndex, targetDuration, maxAllowedDuration);
+        const transcript = scripts
+          .slice(range.startIndex, range.endIndex + 1)
+          .map((s) => `${s.speakerName}: ${s.content}`)
+          .join("\n");
+
+        console.log(`[HighlightService] Using line timeline: lines ${range.startIndex}-${range.endIndex}, ${range.startTime}s-${range.endTime}s`);
+        segments.push({
+          title,
+          description,
+          startTime: range.startTime,
+          endTime: range.endTime,
+          duration: Math.round((range.endTime - range.startTime) * 100) / 100,
+          transcript,
+          reason,
+        });
+        continue;
+      }
+
       // 提取對應的文字內容
       const segmentScripts = scripts.slice(startIndex, endIndex + 1);
       let transcript = segmentScripts
@@ -376,10 +262,49 @@ ${fullTranscript}
     return segments;
   } catch (error) {
     console.error("[HighlightService] Failed to identify highlights:", error);
+    if (error instanceof AppError) {
+      throw error;
+    }
     throw new Error(`Failed to identify highlights: ${error instanceof Error ? error.message : "Unknown error"}`);
   }
 }
 
+/**
+ * 依逐句時間軸決定精華片段範圍
+ * 從 LLM 選定的句子開始，向後補足到接近目標長度，但不超過上限；
+ * 單句就超過上限時只能在句中截斷
+ */
+export function selectTimedRange(
+  timeline: TtsLineTiming[],
+  startIndex: number,
+  endIndex: number,
+  targetDuration: number,
+  maxDuration: number
+): { startIndex: number; endIndex: number; startTime: number; endTime: number } {
+  const lastIndex = timeline.length - 1;
+  const start = Math.min(Math.max(Math.floor(startIndex) || 0, 0), lastIndex);
+  let end = Math.min(Math.max(Math.floor(endIndex) || start, start), lastIndex);
+  const startTime = timeline[start].startTime;
+  const limit = Math.min(maxDuration, targetDuration + 3);
+
+  // 太短：向後加入完整的句子
+  while (
+    end < lastIndex &&
+    timeline[end].endTime - startTime < targetDuration * 0.8 &&
+    timeline[end + 1].endTime - startTime <= limit
+  ) {
+    end++;
+  }
+
+  // 太長：從尾端移除句子
+  while (end > start && timeline[end].endTime - startTime > limit) {
+    end--;
+  }
+
+  const endTime = Math.min(timeline[end].endTime, startTime + limit);
+  return { startIndex: start, endIndex: end, startTime, endTime };
+}
+
 /**
  * 從完整的 Podcast 音檔中提取精華片段的時間範圍
  * @param podcastDuration Podcast 總長度（秒）
@@ -0,0 +1,329 @@
+/**
+ * 背景工作佇列服務
+ * 以 job_queue 資料表持久化長時間任務，worker 迴圈透過租約（lease）+ 心跳領取工作，
+ * 伺服器重啟、部署或崩潰後，租約過期的工作會被自動接手，不再卡在 processing
+ */
+
+import os from "os";
+import crypto from "crypto";
+import type { Job } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import {
+  createJob,
+  listClaimableJobIds,
+  claimJob,
+  heartbeatJob,
+  finishJob,
+  releaseWorkerJobs,
+  requeueExpiredJobs,
+  updateWaitingJobsStatus,
+} from "../db";
+
+export type JobType = Job["type"];
+
+export interface JobHandler {
+  /**
+   * 執行工作；拋出錯誤代表本次嘗試失敗，會依 maxAttempts 重試
+   * signal 在租約遺失或 worker 關閉時中止，處理器應盡快停止並不再寫入結果
+   */
+  run: (payload: any, job: Job, signal: AbortSignal) => Promise<void>;
+  /** 本次嘗試失敗、已排定重試時呼叫，用於更新關聯任務的狀態 */
+  onRetry?: (payload: any, job: Job, error: unknown, retryAt: Date) => Promise<void>;
+  /** 所有嘗試都失敗後呼叫，用於把關聯任務標記為失敗 */
+  onExhausted?: (payload: any, job: Job, error: unknown) => Promise<void>;
+}
+
+/**
+ * 各工作類型的處理器（延遲載入，避免循環依賴）
+ */
+const JOB_HANDLERS: Record<JobType, JobHandler> = {
+  podcast: {
+    run: async (payload, _job, signal) => {
+      const { processPodcastTask } = await import("./podcastTaskProcessor");
+      await processPodcastTask(payload, signal);
+    },
+    onRetry: async (payload, _job, error, retryAt) => {
+      const { markPodcastTaskRetrying } = await import("./podcastTaskProcessor");
+      await markPodcastTaskRetrying(payload.taskId, error, retryAt);
+    },
+    onExhausted: async (payload, _job, error) => {
+      const { markPodcastTaskFailed } = await import("./podcastTaskProcessor");
+      await markPodcastTaskFailed(payload.taskId, error);
+    },
+  },
+  avatar_video: {
+    run: async (payload, _job, signal) => {
+      const { processAvatarVideoGeneration } = await import("./avatarVideoProcessor");
+      await processAvatarVideoGeneration(payload, signal);
+    },
+    onRetry: async (payload) => {
+      const { updateAvatarVideoStatus } = await import("./avatarVideoProcessor");
+      await updateAvatarVideoStatus(payload.taskId, { statusMessage: "影片生成失敗，稍後自動重試" });
+    },
+    onExhausted: async (payload, _job, error) => {
+      const { updateAvatarVideoStatus } = await import("./avatarVideoProcessor");
+      const message = error instanceof Error ? error.message : "影片生成失敗";
+      await updateAvatarVideoStatus(payload.taskId, {
+        status: "failed",
+        errorMessage: message,
+        statusMessage: message,
+      });
+    },
+  },
+};
+
+const WORKER_ID = `${os.hostname()}-${process.pid}-${crypto.randomBytes(4).toString("hex")}`;
+
+/** 重試退避：30 秒、2 分鐘、8 分鐘...（上限 30 分鐘） */
+function getRetryDelayMs(attempts: number): number {
+  return Math.min(30_000 * Math.pow(4, Math.max(0, attempts - 1)), 30 * 60 * 1000);
+}
+
+let running = false;
+let pollTimer: NodeJS.Timeout | null = null;
+let polling = false; // 同一時間只允許一次輪詢，避免並行領取超過上限
+let pollRequested = false;
+
+interface ActiveJob {
+  execution: Promise<void>;
+  controller: AbortController;
+}
+const activeJobs = new Map<number, ActiveJob>();
+
+/**
+ * 將工作加入佇列並立即觸發一次輪詢
+ */
+export async function enqueueJob(
+  type: JobType,
+  refId: number,
+  payload: Record<string, unknown>,
+  options: { maxAttempts?: number; paused?: boolean } = {}
+): Promise<number> {
+  const jobId = await createJob({
+    type,
+    refId,
+    payload: JSON.stringify(payload),
+    // 暫停中的工作不會被領取，直到呼叫 resumeJobs
+    status: options.paused ? "paused" : "queued",
+    maxAttempts: options.maxAttempts ?? 3,
+  });
+
+  console.log(`[JobQueue] Enqueued ${type} job ${jobId} (ref: ${refId})${options.paused ? " [paused]" : ""}`);
+
+  if (running && !options.paused) {
+    setImmediate(() => void pollOnce());
+  }
+
+  return jobId;
+}
+
+/**
+ * 暫停尚未開始的工作（執行中的工作不受影響）
+ */
+export async function pauseJobs(type: JobType, refIds: number[]): Promise<number> {
+  return updateWaitingJobsStatus(type, refIds, ["queued"], "paused");
+}
+
+/**
+ * 恢復暫停的工作
+ */
+export async function resumeJobs(type: JobType, refIds: number[]): Promise<number> {
+  const resumed = await updateWaitingJobsStatus(type, refIds, ["paused"], "queued");
+  if (resumed > 0 && running) {
+    setImmediate(() => void pollOnce());
+  }
+  return resumed;
+}
+
+/**
+ * 取消尚未開始的工作（排隊中或暫停中）
+ */
+export async function cancelJobs(type: JobType, refIds: number[]): Promise<number> {
+  return updateWaitingJobsStatus(type, refIds, ["queued", "paused"], "cancelled");
+}
+
+/**
+ * 執行單一已領取的工作（含心跳與重試處理）
+ */
+export async function executeJob(job: Job, controller = new AbortController()): Promise<void> {
+  const handler = JOB_HANDLERS[job.type];
+  const payload = JSON.parse(job.payload);
+  const leaseMs = ENV.jobLeaseMs;
+
+  console.log(`[JobQueue] Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, WORKER_ID, leaseMs)
+      .then(stillOwned => {
+        if (!stillOwned && !controller.signal.aborted) {
+          // 工作已被放回佇列或由其他 worker 接手，中止處理器避免兩邊同時執行
+          console.warn(`[JobQueue] ⚠️  Lost lease on job ${job.id}, aborting`);
+          controller.abort(new Error(`Lost lease on job ${job.id}`));
+        }
+      })
+      .catch(error => {
+        console.warn(`[JobQueue] Heartbeat failed for job ${job.id}:`, error instanceof Error ? error.message : error);
+      });
+  }, Math.max(1000, Math.floor(leaseMs / 3)));
+
+  try {
+    await handler.run(payload, job, controller.signal);
+    if (await finishJob(job.id, WORKER_ID, { status: "completed", lastError: null })) {
+      console.log(`[JobQueue] ✅ Job ${job.id} completed`);
+    } else {
+      console.warn(`[JobQueue] ⚠️  Job ${job.id} finished after losing its lease, result discarded`);
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts < job.maxAttempts) {
+      const delayMs = getRetryDelayMs(job.attempts);
+      const retryAt = new Date(Date.now() + delayMs);
+      const requeued = await finishJob(job.id, WORKER_ID, {
+        status: "queued",
+        lastError: message,
+        runAfter: retryAt,
+      });
+      if (!requeued) {
+        console.warn(`[JobQueue] ⚠️  Job ${job.id} stopped after losing its lease: ${message}`);
+        return;
+      }
+      console.warn(`[JobQueue] ⚠️  Job ${job.id} failed, retrying in ${delayMs / 1000}s: ${message}`);
+      await handler.onRetry?.(payload, job, error, retryAt).catch(err => {
+        console.error(`[JobQueue] onRetry handler failed for job ${job.id}:`, err);
+      });
+    } else {
+      if (!await finishJob(job.id, WORKER_ID, { status: "failed", lastError: message })) {
+        console.warn(`[JobQueue] ⚠️  Job ${job.id} stopped after losing its lease: ${message}`);
+        return;
+      }
+      console.error(`[JobQueue] ❌ Job ${job.id} failed after ${job.attempts} attempts: ${message}`);
+      await handler.onExhausted?.(payload, job, error).catch(err => {
+        console.error(`[JobQueue] onExhausted handler failed for job ${job.id}:`, err);
+      });
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * 輪詢一次：在並行上限內領取可執行的工作
+ * 進行中的輪詢結束後才會再次輪詢，領取期間的請求會合併成一次
+ */
+async function pollOnce(): Promise<void> {
+  if (!running) return;
+  if (polling) {
+    pollRequested = true;
+    return;
+  }
+
+  polling = true;
+  try {
+    const freeSlots = ENV.jobWorkerConcurrency - activeJobs.size;
+    if (freeSlots <= 0) return;
+
+    // 多取一些候選，因為其他 worker 可能同時領走部分工作
+    const candidateIds = await listClaimableJobIds(freeSlots * 2);
+
+    for (const jobId of candidateIds) {
+      if (!running || activeJobs.size >= ENV.jobWorkerConcurrency) break;
+      if (activeJobs.has(jobId)) continue;
+
+      const job = await claimJob(jobId, WORKER_ID, ENV.jobLeaseMs);
+      if (!job) continue; // 已被其他 worker 領走
+
+      const controller = new AbortController();
+      const execution = executeJob(job, controller)
+        .catch(error => {
+          console.error(`[JobQueue] Unexpected error while executing job ${jobId}:`, error);
+        })
+        .finally(() => {
+          activeJobs.delete(jobId);
+          setImmediate(() => void pollOnce());
+        });
+      activeJobs.set(jobId, { execution, controller });
+    }
+  } catch (error) {
+    console.error("[JobQueue] Poll failed:", error instanceof Error ? error.message : error);
+  } finally {
+    polling = false;
+    if (pollRequested) {
+      pollRequested = false;
+      setImmediate(() => void pollOnce());
+    }
+  }
+}
+
+/**
+ * 啟動 worker 迴圈，並接續上次中斷的工作
+ */
+export async function startJobWorker(): Promise<void> {
+  if (running) return;
+
+  if (!process.env.DATABASE_URL) {
+    console.warn("[JobQueue] DATABASE_URL not set, job worker disabled");
+    return;
+  }
+
+  running = true;
+
+  try {
+    const requeued = await requeueExpiredJobs();
+    if (requeued > 0) {
+      console.log(`[JobQueue] Resuming ${requeued} interrupted job(s)`);
+    }
+  } catch (error) {
+    console.error("[JobQueue] Failed to requeue interrupted jobs:", error);
+  }
+
+  console.log(
+    `[JobQueue] Worker ${WORKER_ID} started (concurrency: ${ENV.jobWorkerConcurrency}, lease: ${ENV.jobLeaseMs}ms)`
+  );
+
+  const loop = async () => {
+    await pollOnce();
+    if (running) {
+      pollTimer = setTimeout(loop, ENV.jobPollIntervalMs);
+    }
+  };
+  await loop();
+}
+
+/**
+ * 停止 worker：不再領取新工作，等待執行中的工作結束（最多 jobShutdownTimeoutMs），
+ * 逾時仍未結束的工作會被中止並放回佇列，讓下一個實例立即接手
+ */
+export async function stopJobWorker(): Promise<void> {
+  if (!running) return;
+
+  running = false;
+  if (pollTimer) {
+    clearTimeout(pollTimer);
+    pollTimer = null;
+  }
+
+  if (activeJobs.size > 0) {
+    console.log(`[JobQueue] Waiting for ${activeJobs.size} running job(s) to finish...`);
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.allSettled(Array.from(activeJobs.values(), active => active.execution)),
+      new Promise(resolve => {
+        timer = setTimeout(resolve, ENV.jobShutdownTimeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  // 先中止仍在執行的處理器，再釋放租約，避免與接手的實例同時執行
+  activeJobs.forEach(active => active.controller.abort(new Error("Job worker is shutting down")));
+
+  try {
+    const released = await releaseWorkerJobs(WORKER_ID);
+    if (released > 0) {
+      console.log(`[JobQueue] Released ${released} running job(s) back to the queue`);
+    }
+  } catch (error) {
+    console.error("[JobQueue] Failed to release running jobs:", error);
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * ListenHub TTS 供應商
+ * 包裝 listenHubService（對話 Podcast、直接敘述）與 flowSpeechService（單句 TTS）
+ */
+
+import {
+  createPodcastEpisode,
+  generateDialoguePodcast,
+  generateDirectNarration,
+  getVoices,
+  waitForPodcastCompletion,
+  type PodcastEpisode,
+} from "../listenHubService";
+import type { TtsProvider, TtsScriptLine, TtsScriptResult, TtsVoice } from "./ttsService";
+
+function toScriptResult(episode: PodcastEpisode): TtsScriptResult {
+  if (!episode.audioUrl) {
+    throw new Error(`ListenHub episode ${episode.episodeId} returned no audio URL`);
+  }
+
+  return {
+    audioUrl: episode.audioUrl,
+    episodeId: episode.episodeId,
+    title: episode.title,
+    scripts: episode.scripts,
+  };
+}
+
+/**
+ * 逐句以 FlowSpeech 合成後依序合併，並以每句的長度建立時間軸
+ * Podcast 端點會依 query 自行改寫對話，無法照腳本逐字讀出
+ */
+async function synthesizeLineByLine(lines: TtsScriptLine[], language = "zh"): Promise<TtsScriptResult> {
+  const spokenLines = lines.filter(line => line.content.trim());
+  if (spokenLines.length === 0) {
+    throw new Error("Script has no lines to synthesize");
+  }
+  console.log(`[ListenHubTts] Synthesizing ${spokenLines.length} lines one by one`);
+
+  const { buildTimelineFromDurations, getAudioDuration } = await import("./timelineService");
+  const segments: Array<{ url: string }> = [];
+  // 任一句無法取得長度時不提供時間軸（改由 timelineService 對齊取得）
+  let durations: number[] | null = [];
+  for (const line of spokenLines) {
+    const { audioUrl, durationSeconds } = await listenHubTtsProvider.synthesizeUtterance(line.content, line.speakerId, { language });
+    segments.push({ url: audioUrl });
+    if (durations) {
+      const duration = durationSeconds ?? await getAudioDuration(audioUrl).catch((error) => {
+        console.warn(`[ListenHubTts] Failed to read line duration, timeline will be aligned later:`, error instanceof Error ? error.message : error);
+        return null;
+      });
+      durations = duration === null ? null : [...durations, duration];
+    }
+  }
+
+  const { mergeAudioSegments } = await import("./audioMergeService");
+  const { storagePut } = await import("../storage");
+  const fs = await import("fs/promises");
+  const mergedPath = await mergeAudioSegments(segments);
+  try {
+    const fileKey = `tts/listenhub/${Date.now()}_${Math.random().toString(36).substring(7)}.mp3`;
+    const { key, url } = await storagePut(fileKey, await fs.readFile(mergedPath), "audio/mpeg");
+    console.log(`[ListenHubTts] ✅ Script merged: ${url}`);
+    return {
+      audioUrl: url,
+      audioKey: key,
+      scripts: spokenLines,
+      timeline: durations ? buildTimelineFromDurations(spokenLines, durations) : undefined,
+    };
+  } finally {
+    await fs.unlink(mergedPath).catch(() => {});
+  }
+}
+
+export const listenHubTtsProvider: TtsProvider = {
+  id: "listenhub",
+  name: "ListenHub",
+
+  async listVoices(language?: string): Promise<TtsVoice[]> {
+    const speakers = await getVoices(language);
+    return speakers
+      .filter(speaker => !language || !speaker.language || speaker.language.startsWith(language))
+      .map(speaker => ({
+        speakerId: speaker.speakerId,
+        name: speaker.name,
+        gender: speaker.gender,
+        language: speaker.language,
+        demoAudioUrl: speaker.demoAudioUrl,
+        provider: "listenhub" as const,
+      }));
+  },
+
+  async synthesizeUtterance(text, speakerId, options = {}) {
+    // 優先使用 FlowSpeech（直接讀出文字），失敗時回退到直接敘述模式
+    try {
+      const { generateFlowSpeech } = await import("./flowSpeechService");
+      const result = await generateFlowSpeech(text, speakerId, options.language || "zh");
+      if (result.audioUrl) {
+        return { audioUrl: result.audioUrl };
+      }
+      throw new Error("FlowSpeech API returned no audio URL");
+    } catch (flowSpeechError) {
+      console.log(
+        `[ListenHubTts] FlowSpeech API not available, falling back to direct narration:`,
+        flowSpeechError instanceof Error ? flowSpeechError.message : String(flowSpeechError)
+      );
+    }
+
+    const episode = await generateDirectNarration(text, speakerId, options.language);
+    return toScriptResult(episode);
+  },
+
+  async synthesizeScript(lines: TtsScriptLine[], options = {}) {
+    // 腳本（例如審閱核准的腳本）必須逐字讀出，不論主持人數都逐句合成
+    return synthesizeLineByLine(lines, options.language);
+  },
+
+  async synthesizeFromContent(content, speakerIds, options = {}) {
+    if (speakerIds.length === 1) {
+      // 單人節目：以一位主持人建立 Episode
+      const episodeId = await createPodcastEpisode({
+        query: options.styleInstructions ? `${content}\n\n敘述風格要求：${options.styleInstructions}` : content,
+        speakers: [{ speakerId: speakerIds[0] }],
+        language: options.language || "zh",
+        mode: options.mode === "deep" ? "deep" : "quick",
+      });
+      await options.onEpisodeCreated?.(episodeId);
+      return toScriptResult(await waitForPodcastCompletion(episodeId));
+    }
+
+    const customVoices = speakerIds.length >= 2
+      ? { host1: speakerIds[0], host2: speakerIds[1] }
+      : undefined;
+
+    // ListenHub 依 query 自行撰寫對話，風格要求附加在內容後
+    const query = options.styleInstructions
+      ? `${content}\n\n對話風格要求：${options.styleInstructions}`
+      : content;
+
+    const episode = await generateDialoguePodcast(query, options.mode, customVoices, options.onEpisodeCreated, options.language);
+    return toScriptResult(episode);
+  },
+};
@@ -0,0 +1,257 @@
+/**
+ * 本機離線 TTS 供應商
+ * 透過 CLI 呼叫 Piper（優先，音質較好）或 espeak-ng，不需網路與 API 額度
+ *
+ * 聲音 ID 格式：
+ * - piper:<模型檔名>   對應 PIPER_VOICES_DIR 中的 <模型檔名>.onnx
+ * - espeak:<聲音名稱>  對應 espeak-ng --voices 列出的聲音
+ */
+
+import { execFile, spawn } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs/promises";
+import * as path from "path";
+import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import { ENV } from "../_core/env";
+import { buildTimelineFromDurations } from "./timelineService";
+import type { TtsProvider, TtsScriptLine, TtsVoice } from "./ttsService";
+
+const execFileAsync = promisify(execFile);
+const FFMPEG_PATH = ffmpegInstaller.path;
+
+// 統一轉成相同格式，才能用 concat 直接串接不同引擎/模型的音訊
+const SAMPLE_RATE = 24000;
+const BYTES_PER_SECOND = SAMPLE_RATE * 2; // 16-bit mono
+
+// 本機聲音名稱（Piper 模型檔名 / eSpeak 語言代碼）；聲音 ID 來自使用者輸入，不可含路徑字元
+const LOCAL_VOICE_NAME = /^[\w.-]+$/;
+
+function tempPath(prefix: string, ext: string): string {
+  return path.join("/tmp", `${prefix}_${Date.now()}_${Math.random().toString(36).substring(7)}.${ext}`);
+}
+
+/**
+ * 將引擎的語言代碼轉為兩碼語言（zh_CN → zh、cmn → zh）
+ */
+function normalizeLanguage(code: string): string {
+  const base = code.toLowerCase().split(/[-_]/)[0];
+  if (base === "cmn" || base === "yue" || base === "hak") return "zh";
+  return base;
+}
+
+async function listPiperVoices(): Promise<TtsVoice[]> {
+  try {
+    const files = await fs.readdir(ENV.piperVoicesDir);
+    return files
+      .filter(file => file.endsWith(".onnx"))
+      .map(file => {
+        const model = file.replace(/\.onnx$/, "");
+        return {
+          speakerId: `piper:${model}`,
+          name: `Piper ${model}`,
+          language: normalizeLanguage(model),
+          provider: "local" as const,
+        };
+      });
+  } catch {
+    // 未安裝 Piper 模型
+    return [];
+  }
+}
+
+async function listEspeakVoices(): Promise<TtsVoice[]> {
+  try {
+    const { stdout } = await execFileAsync(ENV.espeakBin, ["--voices"]);
+    // 格式：Pty Language Age/Gender VoiceName File Other Languages
+    return stdout
+      .split("\n")
+      .slice(1)
+      .map(line => line.trim().split(/\s+/))
+      .filter(parts => parts.length >= 5)
+      .map(([, language, ageGender, voiceName]) => {
+        const genderFlag = ageGender.split("/")[1];
+        return {
+          speakerId: `espeak:${language}`,
+          name: `eSpeak ${voiceName.replace(/_/g, " ")}`,
+          gender: genderFlag === "F" ? "female" as const : genderFlag === "M" ? "male" as const : undefined,
+          language: normalizeLanguage(language),
+          provider: "local" as const,
+        };
+      });
+  } catch {
+    // 未安裝 espeak-ng
+    return [];
+  }
+}
+
+/**
+ * 執行 Piper（文字從 stdin 輸入）
+ */
+function runPiper(text: string, model: string, outputPath: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const modelPath = path.join(ENV.piperVoicesDir, `${model}.onnx`);
+    const child = spawn(ENV.piperBin, ["--model", modelPath, "--output_file", outputPath]);
+    let stderr = "";
+
+    child.stderr.on("data", chunk => {
+      stderr += chunk.toString();
+    });
+    child.on("error", reject);
+    child.on("close", code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Piper exited with code ${code}: ${stderr.slice(-500)}`));
+      }
+    });
+
+    child.stdin.end(text);
+  });
+}
+
+/**
+ * 合成一句話為統一格式的 WAV，回傳檔案路徑與秒數
+ */
+async function synthesizeToWav(text: string, speakerId: string): Promise<{ path: string; durationSeconds: number }> {
+  const rawPath = tempPath("tts_raw", "wav");
+  const normalizedPath = tempPath("tts_line", "wav");
+  const separatorIndex = speakerId.indexOf(":");
+  const engine = speakerId.substring(0, separatorIndex);
+  const voice = speakerId.substring(separatorIndex + 1);
+  let succeeded = false;
+
+  try {
+    if (engine === "piper") {
+      await runPiper(text, voice, rawPath);
+    } else if (engine === "espeak") {
+      // 「--」之後的參數一律視為文字（避免以 - 開頭的句子被當成選項）
+      await execFileAsync(ENV.espeakBin, ["-v", voice, "-w", rawPath, "--", text]);
+    } else {
+      throw new Error(`Unknown local voice: ${speakerId}`);
+    }
+
+    await execFileAsync(FFMPEG_PATH, ["-y", "-i", rawPath, "-ar", String(SAMPLE_RATE), "-ac", "1", "-c:a", "pcm_s16le", normalizedPath]);
+
+    const { size } = await fs.stat(normalizedPath);
+    succeeded = true;
+    return { path: normalizedPath, durationSeconds: Math.max(0, size - 44) / BYTES_PER_SECOND };
+  } finally {
+    await fs.unlink(rawPath).catch(() => {});
+    // 成功時由呼叫端串接後刪除；失敗時清除可能只寫了一半的檔案
+    if (!succeeded) {
+      await fs.unlink(normalizedPath).catch(() => {});
+    }
+  }
+}
+
+/**
+ * 將多個 WAV 串接並轉為 MP3 上傳
+ */
+async function encodeAndUpload(wavPaths: string[]): Promise<{ key: string; url: string }> {
+  const { storagePut } = await import("../storage");
+  const concatFilePath = tempPath("tts_concat", "txt");
+  const outputPath = tempPath("tts_output", "mp3");
+
+  try {
+    await fs.writeFile(
+      concatFilePath,
+      wavPaths.map(p => `file '${p.replace(/'/g, "'\\''")}'`).join("\n"),
+      "utf-8"
+    );
+    await execFileAsync(FFMPEG_PATH, [
+      "-y", "-f", "concat", "-safe", "0", "-i", concatFilePath,
+      "-c:a", "libmp3lame", "-q:a", "2",
+      outputPath,
+    ], { maxBuffer: 1024 * 1024 * 10 });
+
+    const buffer = await fs.readFile(outputPath);
+    const fileKey = `tts/local/${Date.now()}_${Math.random().toString(36).substring(7)}.mp3`;
+    return await storagePut(fileKey, buffer, "audio/mpeg");
+  } finally {
+    await fs.unlink(concatFilePath).catch(() => {});
+    await fs.unlink(outputPath).catch(() => {});
+  }
+}
+
+/**
+ * 解析聲音：非本機聲音 ID（例如 ListenHub 的 speakerId）時改用該語言的預設聲音
+ */
+async function resolveSpeakerId(speakerId: string, language: string, fallbackIndex = 0): Promise<string> {
+  if (speakerId.startsWith("piper:") || speakerId.startsWith("espeak:")) {
+    if (!LOCAL_VOICE_NAME.test(speakerId.substring(speakerId.indexOf(":") + 1))) {
+      throw new Error(`Invalid local voice: ${speakerId}`);
+    }
+    return speakerId;
+  }
+
+  const voices = await localTtsProvider.listVoices(language);
+  if (voices.length === 0) {
+    throw new Error(`No local TTS voices available for language "${language}". Install Piper models or espeak-ng.`);
+  }
+  return voices[fallbackIndex % voices.length].speakerId;
+}
+
+export const localTtsProvider: TtsProvider = {
+  id: "local",
+  name: "本機離線引擎（Piper / eSpeak）",
+
+  async listVoices(language?: string): Promise<TtsVoice[]> {
+    const voices = [...await listPiperVoices(), ...await listEspeakVoices()];
+    return language ? voices.filter(voice => voice.language === language) : voices;
+  },
+
+  async synthesizeUtterance(text, speakerId, options = {}) {
+    const resolvedId = await resolveSpeakerId(speakerId, options.language || "zh");
+    console.log(`[LocalTts] Synthesizing utterance with ${resolvedId} (${text.length} chars)`);
+
+    const wav = await synthesizeToWav(text, resolvedId);
+    try {
+      const { key, url } = await encodeAndUpload([wav.path]);
+      return { audioUrl: url, audioKey: key, durationSeconds: wav.durationSeconds };
+    } finally {
+      await fs.unlink(wav.path).catch(() => {});
+    }
+  },
+
+  async synthesizeScript(lines: TtsScriptLine[], options = {}) {
+    const language = options.language || "zh";
+    const speakerOrder = Array.from(new Set(lines.map(line => line.speakerId)));
+    const resolved = new Map<string, string>();
+    for (let index = 0; index < speakerOrder.length; index++) {
+      resolved.set(speakerOrder[index], await resolveSpeakerId(speakerOrder[index], language, index));
+    }
+
+    console.log(`[LocalTts] Synthesizing script: ${lines.length} lines, ${speakerOrder.length} speakers`);
+
+    const spokenLines = lines.filter(line => line.content.trim());
+    const wavPaths: string[] = [];
+    const durations: number[] = [];
+    try {
+      for (const line of spokenLines) {
+        const wav = await synthesizeToWav(line.content, resolved.get(line.speakerId)!);
+        wavPaths.push(wav.path);
+        durations.push(wav.durationSeconds);
+      }
+
+      if (wavPaths.length === 0) {
+        throw new Error("Script has no lines to synthesize");
+      }
+
+      const { key, url: audioUrl } = await encodeAndUpload(wavPaths);
+      const durationSeconds = durations.reduce((sum, duration) => sum + duration, 0);
+      console.log(`[LocalTts] ✅ Script synthesized (${Math.round(durationSeconds)}s): ${audioUrl}`);
+      return {
+        audioUrl,
+        audioKey: key,
+        durationSeconds,
+        scripts: spokenLines,
+        // 逐句合成後直接串接，每句長度即為實際時間軸
+        timeline: buildTimelineFromDurations(spokenLines, durations),
+      };
+    } finally {
+      for (const wavPath of wavPaths) {
+        await fs.unlink(wavPath).catch(() => {});
+      }
+    }
+  },
+};
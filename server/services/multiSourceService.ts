@@ -0,0 +1,199 @@
+/**
+ * 多來源單集服務
+ * 多篇文章、YouTube 影片與文字分別以既有的服務擷取內容，再整合成一集綜合整理或觀點比較的節目；
+ * 摘要與腳本標明每個重點的出處，來源清單另外存在任務上供單集說明使用
+ */
+
+import { z } from "zod";
+import { invokeStructured } from "../_core/llmStructured";
+import { formatLanguageInstruction, getOutputLanguageInfo } from "@shared/outputLanguage";
+import {
+  MIN_EPISODE_SOURCES,
+  type EpisodeSourceInput,
+  type EpisodeSourceType,
+  type RoundupFormat,
+  type SourceAttribution,
+} from "@shared/episodeSources";
+import { formatStyleInstructions } from "./promptTemplateService";
+import { condenseTranscript, estimateSectionCount, summaryTarget, type AnalysisOptions, type TranscriptSegment } from "./summarizationService";
+
+export interface IngestedSource extends SourceAttribution {
+  content: string;
+  segments?: TranscriptSegment[];
+}
+
+// 所有來源交給 LLM 的內容總長度上限（依來源數平均分配）
+const ROUNDUP_MAX_CHARS = 24000;
+// 每個來源至少保留的長度
+const MIN_SOURCE_CHARS = 2000;
+
+const SOURCE_TYPE_LABELS: Record<EpisodeSourceType, string> = {
+  youtube: "YouTube 影片",
+  article: "文章",
+  text: "文字",
+};
+
+const FORMAT_INSTRUCTIONS: Record<RoundupFormat, string> = {
+  roundup: "這是一集綜合整理（例如每週新聞回顧）：依主題歸納所有來源的重點，而不是逐篇摘要；相關的來源放在一起討論。",
+  comparison: "這是一集觀點比較：找出各來源共同討論的主題，比較它們的觀點、證據與結論有何異同，並指出彼此矛盾或互補之處。",
+};
+
+const roundupContentSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string().min(1),
+  podcastScript: z.string().min(1),
+});
+
+/**
+ * 文字來源以第一行作為標題
+ */
+function textSourceTitle(text: string, index: number): string {
+  const firstLine = text.trim().split("\n")[0].replace(/^#+\s*/, "").trim();
+  if (!firstLine) return `文字內容 ${index}`;
+  return firstLine.length > 40 ? `${firstLine.substring(0, 40)}…` : firstLine;
+}
+
+/**
+ * 擷取單一來源的內容（影片取得逐字稿、文章擷取正文，不做個別分析）
+ */
+export async function ingestSource(source: EpisodeSourceInput, index: number, vocabulary?: string[]): Promise<IngestedSource> {
+  if (source.type === "youtube") {
+    const { getYoutubeTranscript } = await import("../youtubeService");
+    const transcript = await getYoutubeTranscript(source.value, vocabulary);
+    return {
+      index,
+      type: "youtube",
+      title: transcript.title || source.value,
+      url: source.value,
+      content: transcript.text,
+      segments: transcript.segments,
+    };
+  }
+
+  if (source.type === "article") {
+    const { fetchArticleContent } = await import("../articleService");
+    const article = await fetchArticleContent(source.value);
+    return {
+      index,
+      type: "article",
+      title: article.title,
+      url: source.value,
+      author: article.author || undefined,
+      publishedAt: article.publishedAt?.toISOString(),
+      content: article.content,
+    };
+  }
+
+  return {
+    index,
+    type: "text",
+    title: textSourceTitle(source.value, index),
+    content: source.value.trim(),
+  };
+}
+
+/**
+ * 依序擷取所有來源；個別來源失敗時略過，成功的來源少於 MIN_EPISODE_SOURCES 時才整體失敗
+ */
+export async function ingestSources(
+  sources: EpisodeSourceInput[],
+  onProgress?: (completed: number, total: number) => Promise<void> | void,
+  vocabulary?: string[]
+): Promise<IngestedSource[]> {
+  const ingested: IngestedSource[] = [];
+  const failures: string[] = [];
+
+  for (let i = 0; i < sources.length; i++) {
+    try {
+      ingested.push(await ingestSource(sources[i], ingested.length + 1, vocabulary));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`[MultiSource] ⚠️  Source ${i + 1} (${sources[i].type}) failed, skipping: ${message}`);
+      failures.push(`來源 ${i + 1}：${message}`);
+    }
+    await onProgress?.(i + 1, sources.length);
+  }
+
+  if (ingested.length < Math.min(MIN_EPISODE_SOURCES, sources.length)) {
+    throw new Error(`可用的來源不足 ${MIN_EPISODE_SOURCES} 個（${failures.join("；")}）`);
+  }
+  return ingested;
+}
+
+/**
+ * 來源標頭（作者、日期與網址），腳本與摘要依此標註出處
+ */
+export function formatSourceHeader(source: SourceAttribution): string {
+  const details = [
+    `類型：${SOURCE_TYPE_LABELS[source.type]}`,
+    source.author && `作者：${source.author}`,
+    source.publishedAt && `發佈日期：${source.publishedAt.slice(0, 10)}`,
+    source.url && `網址：${source.url}`,
+  ].filter(Boolean).join("｜");
+  return `【來源 ${source.index}】《${source.title}》\n${details}`;
+}
+
+export function toAttribution({ content: _content, segments: _segments, ...attribution }: IngestedSource): SourceAttribution {
+  return attribution;
+}
+
+/**
+ * 整合多個來源產生單集的標題、摘要與腳本
+ */
+export async function processSourcesToPodcast(
+  sourceInputs: EpisodeSourceInput[],
+  options: AnalysisOptions & { format?: RoundupFormat } = {},
+  onProgress?: (completed: number, total: number) => Promise<void> | void
+) {
+  const { style, mode = "medium", language, format = "roundup", vocabulary } = options;
+  const languageName = getOutputLanguageInfo(language).promptName;
+  console.log(`[MultiSource] Processing ${sourceInputs.length} sources (${format})...`);
+
+  const sources = await ingestSources(sourceInputs, onProgress, vocabulary);
+
+  // 長篇來源先濃縮，讓每個來源都能完整進入分析
+  const perSourceChars = Math.max(MIN_SOURCE_CHARS, Math.floor(ROUNDUP_MAX_CHARS / sources.length));
+  const sections: string[] = [];
+  const totalChars = sources.reduce((sum, source) => sum + source.content.length, 0);
+  for (const source of sources) {
+    const { content } = await condenseTranscript(source.content, source.segments, language, perSourceChars);
+    sections.push(`${formatSourceHeader(source)}\n\n${content}`);
+  }
+
+  const systemPrompt = `你是專業的 Podcast 編輯。將多個來源整合成一集${languageName} Podcast。
+
+${formatLanguageInstruction(language)}
+
+${FORMAT_INSTRUCTIONS[format]}
+
+出處要求：
+- summary 先寫一段總覽，再依主題分小節，每個重點後面以「（來源 N）」標註出自哪個來源
+- podcastScript 引用內容時要口頭說明出處，例如「根據《標題》這篇文章」、「某某在影片中提到」；不要念出網址或「來源 N」編號
+- 不要加入來源中沒有的事實
+
+**重要**：你必須直接返回純 JSON 格式，不要使用 markdown 代碼塊。
+
+輸出格式：
+{"title": "30 字以內的單集標題", "summary": "${summaryTarget(mode, estimateSectionCount(totalChars))}字摘要", "podcastScript": "第三人稱腳本（含 intro、主要內容、outro）"}${style ? `
+
+${formatStyleInstructions(style)}` : ""}`;
+
+  const result = await invokeStructured(roundupContentSchema, [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: `整合以下 ${sources.length} 個來源，輸出${languageName} JSON：\n\n${sections.join("\n\n---\n\n")}` },
+  ], { name: "roundup_content" });
+
+  console.log(`[MultiSource] Roundup completed: ${result.title}`);
+  return {
+    title: result.title.trim(),
+    // 原始內容保留完整文字（含來源標頭）
+    transcription: sources.map(source => `${formatSourceHeader(source)}\n\n${source.content}`).join("\n\n---\n\n"),
+    summary: result.summary,
+    podcastScript: result.podcastScript,
+    language: "",
+    duration: 0,
+    audioUrl: null,
+    audioFileKey: null,
+    sources: sources.map(toAttribution),
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * 節目音樂服務
+ * 將任務選用的音樂庫項目轉為合併音訊時可下載的網址
+ */
+
+import type { MusicTrack } from "../../drizzle/schema";
+import { DEFAULT_BED_VOLUME, type MusicTrackKind, type PodcastMusicSelection } from "@shared/music";
+import { storageGet } from "../storage";
+import type { PodcastMusicUrls } from "./audioMergeService";
+
+/**
+ * 取得音樂的播放網址（上傳的音檔每次重新簽發，外部網址直接使用）
+ */
+export async function getMusicTrackUrl(track: Pick<MusicTrack, "audioKey" | "audioUrl">): Promise<string | undefined> {
+  if (track.audioUrl) return track.audioUrl;
+  if (track.audioKey) return (await storageGet(track.audioKey)).url;
+  return undefined;
+}
+
+/**
+ * 解析任務選用的節目音樂（已刪除或類型不符的音樂會被略過）
+ */
+export async function resolveMusicUrls(
+  selection: PodcastMusicSelection | undefined,
+  userId: number
+): Promise<PodcastMusicUrls> {
+  if (!selection) return {};
+  const { getMusicTrack } = await import("../db");
+
+  const resolve = async (trackId: number | null | undefined, kind: MusicTrackKind) => {
+    if (!trackId) return undefined;
+    const track = await getMusicTrack(trackId, userId);
+    if (!track || track.kind !== kind) {
+      console.warn(`[Music] Track ${trackId} (${kind}) not found, skipping`);
+      return undefined;
+    }
+    return getMusicTrackUrl(track);
+  };
+
+  return {
+    jingleUrl: await resolve(selection.introJingleId, "jingle"),
+    stingerUrl: await resolve(selection.outroStingerId, "stinger"),
+    bedUrl: await resolve(selection.musicBedId, "bed"),
+    bedVolume: selection.bedVolume ?? DEFAULT_BED_VOLUME,
+  };
+}
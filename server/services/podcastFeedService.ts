@@ -0,0 +1,203 @@
+/**
+ * Podcast RSS Feed 服務
+ * 產生相容 iTunes（Apple Podcasts）規範的 RSS 2.0 feed，Spotify 等平台也使用相同格式
+ */
+
+import crypto from "crypto";
+import type { PodcastShow, PodcastShowEpisode, PodcastTask } from "../../drizzle/schema";
+import type { SourceAttribution } from "@shared/episodeSources";
+import { storageGet } from "../storage";
+
+export interface FeedUrls {
+  feedUrl: string; // 此 feed 本身的網址（atom:link rel="self"）
+  siteUrl: string; // 節目網站（也是單集音檔轉址路由的網址前綴）
+}
+
+/**
+ * 公開 feed 的路徑（路由註冊於 _core/feedRoutes）
+ */
+export function getFeedPath(slug: string): string {
+  return `/api/feeds/${slug}/feed.xml`;
+}
+
+/**
+ * 單集音檔的固定路徑：儲存空間的簽章網址會過期，enclosure 改指向此轉址路由，每次請求重新簽發
+ */
+export function getEpisodeAudioPath(slug: string, guid: string): string {
+  return `/api/feeds/${slug}/episodes/${guid}.mp3`;
+}
+
+/**
+ * 取得單集音檔目前可用的網址（有儲存路徑時重新簽發，否則使用發佈時的網址）
+ */
+export async function resolveEpisodeAudioUrl(episode: { audioUrl: string; audioKey?: string | null }): Promise<string> {
+  if (episode.audioKey) {
+    return (await storageGet(episode.audioKey)).url;
+  }
+  return episode.audioUrl;
+}
+
+/**
+ * 產生節目公開識別碼（feed 網址不含可猜測的流水號）
+ */
+export function generateShowSlug(): string {
+  return crypto.randomBytes(12).toString("hex");
+}
+
+/**
+ * 產生單集永久識別碼（發佈後不可變更，否則平台會視為新單集）
+ */
+export function generateEpisodeGuid(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * 多來源單集的來源清單（每個來源一行，附上作者、日期與網址）
+ */
+function formatSourceList(json: string): string {
+  let sources: SourceAttribution[];
+  try {
+    sources = JSON.parse(json);
+  } catch {
+    return "";
+  }
+  if (!Array.isArray(sources) || sources.length === 0) return "";
+
+  const lines = sources.map(source => {
+    const credits = [source.author, source.publishedAt?.slice(0, 10)].filter(Boolean).join("｜");
+    const line = `${source.index}. ${source.title}${credits ? `（${credits}）` : ""}`;
+    return source.url ? `${line}\n   ${source.url}` : line;
+  });
+  return `來源：\n${lines.join("\n")}`;
+}
+
+/**
+ * 單集預設說明（show notes）：任務摘要加上來源連結，文章再附上作者與發佈日期；多來源單集列出所有來源
+ */
+export function buildDefaultShowNotes(
+  task: Pick<PodcastTask, "summary" | "youtubeUrl" | "sourceAuthor" | "sourcePublishedAt"> & Partial<Pick<PodcastTask, "sources">>
+): string | null {
+  if (task.sources) {
+    const notes = [task.summary?.trim(), formatSourceList(task.sources)].filter(Boolean).join("\n\n");
+    return notes || null;
+  }
+
+  const credits: string[] = [];
+  if (task.sourceAuthor) credits.push(`作者：${task.sourceAuthor}`);
+  if (task.sourcePublishedAt) credits.push(`發佈日期：${task.sourcePublishedAt.toISOString().slice(0, 10)}`);
+
+  // 文章任務的 youtubeUrl 為「[article] 網址」
+  const sourceUrl = task.youtubeUrl.replace(/^\[article\]\s*/, "");
+  const source = /^https?:\/\//i.test(sourceUrl) ? `來源：${sourceUrl}` : "";
+  const sourceBlock = [source, credits.join("｜")].filter(Boolean).join("\n");
+  const notes = [task.summary?.trim(), sourceBlock].filter(Boolean).join("\n\n");
+  return notes || null;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+// CDATA 內不能出現 "]]>"，需拆成兩段
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+/**
+ * 秒數轉為 itunes:duration 格式（HH:MM:SS）
+ */
+export function formatItunesDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(rest)}`;
+}
+
+/**
+ * 產生 RSS 2.0 feed XML
+ */
+export function buildPodcastFeed(show: PodcastShow, episodes: PodcastShowEpisode[], urls: FeedUrls): string {
+  const description = show.description || show.title;
+  const author = show.author || show.title;
+  const lastBuildDate = episodes.length > 0 ? episodes[0].publishedAt : show.updatedAt;
+
+  const channel: string[] = [
+    `<title>${escapeXml(show.title)}</title>`,
+    `<link>${escapeXml(urls.siteUrl)}</link>`,
+    `<atom:link href="${escapeXml(urls.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    `<description>${cdata(description)}</description>`,
+    `<language>${escapeXml(show.language)}</language>`,
+    `<lastBuildDate>${new Date(lastBuildDate).toUTCString()}</lastBuildDate>`,
+    `<itunes:author>${escapeXml(author)}</itunes:author>`,
+    `<itunes:summary>${cdata(description)}</itunes:summary>`,
+    `<itunes:type>episodic</itunes:type>`,
+    `<itunes:explicit>${show.explicit ? "true" : "false"}</itunes:explicit>`,
+    `<itunes:category text="${escapeXml(show.category)}"/>`,
+  ];
+
+  if (show.coverImageUrl) {
+    channel.push(`<itunes:image href="${escapeXml(show.coverImageUrl)}"/>`);
+    channel.push(
+      `<image><url>${escapeXml(show.coverImageUrl)}</url><title>${escapeXml(show.title)}</title><link>${escapeXml(urls.siteUrl)}</link></image>`
+    );
+  }
+
+  if (show.ownerEmail) {
+    channel.push(
+      `<itunes:owner><itunes:name>${escapeXml(author)}</itunes:name><itunes:email>${escapeXml(show.ownerEmail)}</itunes:email></itunes:owner>`
+    );
+  }
+
+  const items = episodes.map(episode => {
+    const notes = episode.description || "";
+    const item = [
+      `<title>${escapeXml(episode.title)}</title>`,
+      `<guid isPermaLink="false">${escapeXml(episode.guid)}</guid>`,
+      `<pubDate>${new Date(episode.publishedAt).toUTCString()}</pubDate>`,
+      `<enclosure url="${escapeXml(`${urls.siteUrl}${getEpisodeAudioPath(show.slug, episode.guid)}`)}" length="${episode.audioBytes}" type="audio/mpeg"/>`,
+      `<itunes:duration>${formatItunesDuration(episode.durationSeconds)}</itunes:duration>`,
+      `<itunes:episodeType>full</itunes:episodeType>`,
+      `<itunes:explicit>${show.explicit ? "true" : "false"}</itunes:explicit>`,
+    ];
+    if (episode.imageUrl) {
+      item.push(`<itunes:image href="${escapeXml(episode.imageUrl)}"/>`);
+    }
+    if (notes) {
+      item.push(`<description>${cdata(notes)}</description>`);
+      item.push(`<itunes:summary>${cdata(notes)}</itunes:summary>`);
+    }
+    return `<item>${item.join("")}</item>`;
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">`,
+    `<channel>`,
+    ...channel,
+    ...items,
+    `</channel>`,
+    `</rss>`,
+  ].join("\n");
+}
+
+/**
+ * 讀取音檔大小（bytes），enclosure 的 length 屬性使用
+ * 儲存服務沒有回傳 Content-Length 或逾時時回傳 0（RSS 規範允許，平台會自行下載取得）
+ */
+export async function getAudioByteLength(audioUrl: string): Promise<number> {
+  try {
+    const response = await fetch(audioUrl, { method: "HEAD", signal: AbortSignal.timeout(15000) });
+    const length = Number(response.headers.get("content-length"));
+    return response.ok && Number.isFinite(length) ? length : 0;
+  } catch (error) {
+    console.warn(`[PodcastFeed] Cannot read audio size for ${audioUrl}:`, error instanceof Error ? error.message : String(error));
+    return 0;
+  }
+}
@@ -0,0 +1,764 @@
+/**
+ * Podcast 任務處理流程
+ * 由背景工作佇列（jobQueueService）執行：內容分析 → 開場/主要/結尾音訊生成 → 合併上傳
+ */
+
+import type { PodcastTask } from "../../drizzle/schema";
+import { updatePodcastTask } from "../db";
+import { processYoutubeToPodcast } from "../youtubeService";
+import { getTtsProvider, selectDefaultVoices, type TtsLineTiming, type TtsProvider, type TtsProviderId, type TtsScriptResult } from "./ttsService";
+import { alignScriptToAudio, getAudioDuration, offsetTimeline, parseTimeline } from "./timelineService";
+import { normalizeError, logError, getUserFriendlyMessage } from "../_core/errorHandler";
+import type { StylePrompt } from "./promptTemplateService";
+import { DEFAULT_OUTPUT_LANGUAGE, getOutputLanguageInfo, type OutputLanguage } from "@shared/outputLanguage";
+import type { EpisodeSourceInput, RoundupFormat } from "@shared/episodeSources";
+import { createDefaultHostConfigs, type HostConfig } from "@shared/hosts";
+import { parseMasteringSettings, type MasteringSettings } from "@shared/mastering";
+import { hasMusic, type PodcastMusicSelection } from "@shared/music";
+import type { DialogueHost } from "./dialogueScriptService";
+import type { ProgressUpdate } from "./progressService";
+
+export type PodcastInputType = 'youtube' | 'text' | 'article' | 'upload' | 'document' | 'multi';
+export type PodcastMode = 'quick' | 'medium' | 'deep';
+export type PodcastStyle = string; // prompt_templates 的 style key（內建 educational / casual / professional）
+
+/**
+ * Podcast 任務參數（會以 JSON 形式存放在 job_queue.payload）
+ */
+export interface PodcastTaskOptions {
+  taskId: number;
+  inputContent: string;
+  inputType?: PodcastInputType;
+  mode?: PodcastMode;
+  style?: PodcastStyle;
+  voiceId1?: string;
+  voiceId2?: string;
+  hosts?: HostConfig[]; // 主持人名稱、聲音與人設（1-4 位；未指定時為兩位主持人，聲音使用 voiceId1 / voiceId2）
+  introText?: string;
+  outroText?: string;
+  coverImageUrl?: string; // 單集封面（建立任務時寫入 podcast_tasks，處理流程不使用）
+  mastering?: MasteringSettings; // 音訊後製設定（建立任務時寫入 podcast_tasks，處理流程與精華片段都從任務讀取）
+  music?: PodcastMusicSelection; // 開場音樂、結尾音效與背景音樂（音樂庫 ID，合併音訊時才解析網址）
+  showProfileId?: number; // 套用的節目設定（決定節目專屬的發音詞條）
+  ttsProvider?: TtsProviderId;
+  scriptReview?: boolean; // 腳本審閱模式：先產生對話腳本，核准後才合成語音
+  outputLanguage?: OutputLanguage; // 節目輸出語言（摘要、腳本與 TTS 聲音）
+  documentChapters?: number[]; // 文件輸入：要納入的章節（未指定時使用全部章節）
+  seriesPart?: { index: number; total: number }; // 文件拆成多集系列時的集數
+  roundupFormat?: RoundupFormat; // 多來源單集的節目形式（inputContent 為來源清單 JSON）
+}
+
+type CheckpointStage = NonNullable<PodcastTask['checkpointStage']>;
+const CHECKPOINT_ORDER: CheckpointStage[] = ['content', 'script', 'intro', 'main', 'outro'];
+
+/**
+ * 取兩個檢查點中較後面的階段（重試時補生成較早的音訊不應讓檢查點倒退）
+ */
+function laterCheckpoint(current: PodcastTask['checkpointStage'], next: CheckpointStage): CheckpointStage {
+  if (!current) return next;
+  return CHECKPOINT_ORDER.indexOf(current) > CHECKPOINT_ORDER.indexOf(next) ? current : next;
+}
+
+/**
+ * 背景處理 podcast 任務（由 job queue 呼叫）
+ * 每個階段完成後都會儲存檢查點，重試時會從最後成功的階段繼續
+ * 失敗時拋出錯誤，由工作佇列決定自動重試或將任務標記為失敗
+ * @param signal 工作租約遺失時中止，下一次更新進度時即停止處理
+ */
+export async function processPodcastTask(options: PodcastTaskOptions, signal?: AbortSignal) {
+  const {
+    taskId,
+    mode = 'medium',
+    voiceId1,
+    voiceId2,
+    hosts,
+    inputType = 'youtube',
+    style = 'casual',
+    introText,
+    outroText,
+    ttsProvider,
+    scriptReview = false,
+    outputLanguage = DEFAULT_OUTPUT_LANGUAGE,
+    documentChapters,
+    seriesPart,
+    roundupFormat,
+    showProfileId,
+    music,
+  } = options;
+  const ttsLanguage = getOutputLanguageInfo(outputLanguage).ttsLanguage;
+  let { inputContent } = options;
+
+  try {
+    // 導入進度更新服務（租約遺失後不再寫入，避免覆寫接手的 worker 的進度）
+    const { updateProgress: publishProgress } = await import('./progressService');
+    const updateProgress = async (update: ProgressUpdate) => {
+      signal?.throwIfAborted();
+      await publishProgress(update);
+    };
+    
+    // 驗證：從資料庫獲取任務資訊，確保使用正確的 URL
+    const { getPodcastTask } = await import('../db');
+    const { extractVideoId } = await import('../youtubeService');
+    const dbTask = await getPodcastTask(taskId, -1); // 使用 -1 跳過 userId 檢查
+    if (!dbTask) {
+      throw new Error(`Task ${taskId} not found in database`);
+    }
+    
+    // 驗證 URL 是否匹配（防止並發或參數錯誤）
+    if (inputType === 'youtube') {
+      const dbUrl = dbTask.youtubeUrl;
+      
+      // 提取 video ID 進行比較（因為 URL 格式可能不同）
+      const inputVideoId = extractVideoId(inputContent);
+      const dbVideoId = extractVideoId(dbUrl);
+      
+      if (inputVideoId && dbVideoId && inputVideoId !== dbVideoId) {
+        console.error(`[Task ${taskId}] ⚠️  URL mismatch detected!`);
+        console.error(`[Task ${taskId}] Input URL: ${inputContent} (Video ID: ${inputVideoId})`);
+        console.error(`[Task ${taskId}] DB URL: ${dbUrl} (Video ID: ${dbVideoId})`);
+        console.error(`[Task ${taskId}] 🔧 Using DB URL to ensure correctness`);
+        // 使用資料庫中的 URL，確保正確性
+        inputContent = dbUrl;
+      } else if (!inputVideoId && dbVideoId) {
+        // 如果輸入的 URL 無法解析，使用資料庫中的 URL
+        console.warn(`[Task ${taskId}] ⚠️  Input URL cannot be parsed, using DB URL: ${dbUrl}`);
+        inputContent = dbUrl;
+      } else if (inputVideoId && dbVideoId && inputVideoId === dbVideoId) {
+        // URL 匹配，記錄確認
+        console.log(`[Task ${taskId}] ✅ URL verified: ${inputContent} (Video ID: ${inputVideoId})`);
+      }
+      
+      console.log(`[Task ${taskId}] Processing YouTube URL: ${inputContent}`);
+    }
+    
+    // 更新狀態為處理中
+    const isResuming = !!dbTask.checkpointStage;
+    await updatePodcastTask(taskId, { status: 'processing', errorMessage: null });
+    await updateProgress({
+      taskId,
+      stage: 'queued',
+      percent: 0,
+      message: isResuming ? '正在從上次中斷的階段繼續處理...' : '任務已加入佇列，準備開始處理...',
+    });
+    if (isResuming) {
+      console.log(`[Task ${taskId}] ♻️  Resuming from checkpoint: ${dbTask.checkpointStage}`);
+    }
+
+    // 節目風格的提示詞模板（決定摘要與對話的寫法）
+    const { resolveStylePrompt } = await import('./promptTemplateService');
+    const stylePrompt = await resolveStylePrompt(style);
+    console.log(`[Task ${taskId}] Using style: ${stylePrompt.styleKey} (v${stylePrompt.version}), output language: ${outputLanguage}`);
+
+    // 發音辭典：合成前替換念法，詞條也作為轉錄的詞彙提示
+    const { getVocabularyHints, loadPronunciationRules, withPronunciations } = await import('./pronunciationService');
+    const pronunciationRules = await loadPronunciationRules(dbTask.userId, showProfileId);
+    const vocabulary = getVocabularyHints(pronunciationRules);
+    if (pronunciationRules.length > 0) {
+      console.log(`[Task ${taskId}] Using ${pronunciationRules.length} pronunciation entries`);
+    }
+
+    // 根據 inputType 處理不同類型的輸入
+    let result;
+    if (dbTask.checkpointStage && dbTask.summary) {
+      // 檢查點：內容分析已完成，直接使用已儲存的結果（不再重新轉錄與分析）
+      console.log(`[Task ${taskId}] ♻️  Reusing saved transcription and summary`);
+      result = {
+        title: dbTask.title || '',
+        transcription: dbTask.transcription || '',
+        summary: dbTask.summary,
+        podcastScript: dbTask.podcastScript || '',
+        duration: dbTask.sourceDuration || 0,
+        audioUrl: dbTask.audioUrl,
+        audioFileKey: dbTask.audioFileKey,
+      };
+      await updateProgress({
+        taskId,
+        stage: 'analyzing',
+        percent: 60,
+        message: '已載入先前的內容分析結果',
+      });
+    } else if (inputType === 'youtube') {
+      // 處理 YouTube 影片
+      await updateProgress({
+        taskId,
+        stage: 'analyzing',
+        percent: 20,
+        message: '正在使用 AI 分析 YouTube 影片內容...',
+      });
+      
+      // 再次驗證 URL（確保使用正確的 URL）
+      const { extractVideoId } = await import('../youtubeService');
+      const finalVideoId = extractVideoId(inputContent);
+      if (!finalVideoId) {
+        throw new Error(`無法從 URL 中提取 Video ID: ${inputContent}`);
+      }
+      
+      console.log(`[Task ${taskId}] 🔍 Final verification - Processing URL: ${inputContent}`);
+      console.log(`[Task ${taskId}] 🔍 Video ID: ${finalVideoId}`);
+      console.log(`[Task ${taskId}] 🔍 Calling processYoutubeToPodcast...`);
+      
+      result = await processYoutubeToPodcast(inputContent, { style: stylePrompt, mode, language: outputLanguage, vocabulary });
+      
+      // 驗證返回的結果是否包含正確的標題
+      if (result.title) {
+        console.log(`[Task ${taskId}] ✅ Processing completed. Title: ${result.title}`);
+      } else {
+        console.warn(`[Task ${taskId}] ⚠️  Processing completed but title is missing`);
+      }
+      
+      await updateProgress({
+        taskId,
+        stage: 'analyzing',
+        percent: 60,
+        message: '內容分析完成',
+      });
+    } else if (inputType === 'text') {
+      // 處理文字輸入
+      await updateProgress({
+        taskId,
+        stage: 'analyzing',
+        percent: 50,
+        message: '正在分析文字內容...',
+      });
+      const { processTextToPodcast } = await import('../textService');
+      result = await processTextToPodcast(inputContent, { style: stylePrompt, mode, language: outputLanguage });
+    } else if (inputType === 'article') {
+      // 處理文章網址
+      await updateProgress({
+        taskId,
+        stage: 'downloading',
+        percent: 10,
+        message: '正在擷取文章內容...',
+      });
+      const { processArticleToPodcast } = await import('../articleService');
+      result = await processArticleToPodcast(inputContent, { style: stylePrompt, mode, language: outputLanguage });
+      await updatePodcastTask(taskId, {
+        sourceAuthor: result.sourceAuthor?.substring(0, 256) || null,
+        sourcePublishedAt: result.sourcePublishedAt,
+      });
+    } else if (inputType === 'upload') {
+      // 處理上傳的錄音 / 影片檔（inputContent 為儲存路徑）
+      await updateProgress({
+        taskId,
+        stage: 'transcribing',
+        percent: 20,
+        message: '正在轉錄上傳的錄音檔...',
+      });
+      const { processUploadToPodcast } = await import('./uploadService');
+      result = await processUploadToPodcast(inputContent, { style: stylePrompt, mode, language: outputLanguage, vocabulary });
+    } else if (inputType === 'document') {
+      // 處理上傳的文件（inputContent 為儲存路徑）
+      await updateProgress({
+        taskId,
+        stage: 'analyzing',
+        percent: 20,
+        message: '正在擷取文件內容...',
+      });
+      const { processDocumentToPodcast } = await import('./documentService');
+      result = await processDocumentToPodcast(
+        inputContent,
+        { style: stylePrompt, mode, language: outputLanguage },
+        { chapters: documentChapters, seriesPart }
+      );
+    } else if (inputType === 'multi') {
+      // 多來源單集：依序擷取每個來源，再整合成一集
+      const sources: EpisodeSourceInput[] = JSON.parse(inputContent);
+      await updateProgress({
+        taskId,
+        stage: 'downloading',
+        percent: 5,
+        message: `正在擷取 ${sources.length} 個來源的內容...`,
+      });
+      const { processSourcesToPodcast } = await import('./multiSourceService');
+      result = await processSourcesToPodcast(
+        sources,
+        { style: stylePrompt, mode, language: outputLanguage, format: roundupFormat, vocabulary },
+        (completed, total) => updateProgress({
+          taskId,
+          stage: completed < total ? 'downloading' : 'analyzing',
+          percent: completed < total ? 5 + Math.round((completed / total) * 35) : 40,
+          message: completed < total ? `已擷取 ${completed}/${total} 個來源` : '正在整合所有來源...',
+        })
+      );
+      await updatePodcastTask(taskId, { sources: JSON.stringify(result.sources) });
+    } else {
+      throw new Error(`不支援的輸入類型: ${inputType}`);
+    }
+
+    // 原始內容長度（文字、文章等輸入沒有長度）
+    const sourceDuration = 'duration' in result ? Math.round(result.duration || 0) : 0;
+
+    // 儲存檢查點：內容分析結果
+    if (!dbTask.checkpointStage) {
+      await updatePodcastTask(taskId, {
+        title: result.title || null,
+        transcription: result.transcription,
+        summary: result.summary,
+        podcastScript: result.podcastScript,
+        sourceDuration,
+        audioUrl: result.audioUrl,
+        audioFileKey: result.audioFileKey,
+        checkpointStage: 'content',
+      });
+    }
+
+    // 任務資訊已在開頭獲取，這裡不需要再次獲取
+    // 但為了確保一致性，我們再次驗證
+    if (!dbTask) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    const task = dbTask;
+
+    // 選擇 TTS 供應商（每個任務可指定，未指定時使用預設值）
+    const tts = withPronunciations(await getTtsProvider(ttsProvider), pronunciationRules);
+    console.log(`[Task ${taskId}] Using TTS provider: ${tts.name}`);
+
+    // 主持人與聲音：優先使用傳入的設定，其次是使用者偏好，最後由供應商選擇預設聲音
+    const hostConfigs = hosts?.length
+      ? hosts
+      : createDefaultHostConfigs(2).map((host, index) => ({ ...host, voiceId: [voiceId1, voiceId2][index] }));
+    const speakerIds = await resolveHostVoices(task.userId, tts, hostConfigs, ttsLanguage);
+    const { buildDialogueHosts } = await import('./dialogueScriptService');
+    const dialogueHosts = buildDialogueHosts(hostConfigs, speakerIds);
+    console.log(`[Task ${taskId}] Hosts: ${dialogueHosts.map(host => `${host.name} (${host.speakerId})`).join(', ')}`);
+
+    // 腳本審閱模式：先產生結構化對話腳本並暫停，等使用者審閱核准後才合成語音
+    if (scriptReview && !task.scriptApprovedAt) {
+      if (!task.draftScript) {
+        await updateProgress({
+          taskId,
+          stage: 'generating',
+          percent: 65,
+          message: '正在撰寫對話腳本...',
+        });
+        const { generateDialogueScript } = await import('./dialogueScriptService');
+        const draft = await generateDialogueScript(result.summary, {
+          mode,
+          style: stylePrompt,
+          hosts: dialogueHosts,
+          language: outputLanguage,
+        });
+        await updatePodcastTask(taskId, {
+          draftScript: JSON.stringify(draft),
+          checkpointStage: laterCheckpoint(task.checkpointStage, 'script'),
+        });
+        console.log(`[Task ${taskId}] 📝 Draft script saved (${draft.lines.length} lines), waiting for review`);
+      }
+
+      await updateProgress({
+        taskId,
+        stage: 'generating',
+        percent: 70,
+        message: '對話腳本已完成，請審閱並核准後開始合成語音',
+        status: 'awaiting_review',
+      });
+      return;
+    }
+
+    // 處理模板變數替換
+    const { replaceTemplateVariables, formatDate, formatDuration } = await import('./templateService');
+    const templateVars = {
+      date: formatDate(),
+      topic: result.title || result.summary?.substring(0, 50) || '本期內容',
+      title: result.title || '本期 Podcast',
+      duration: formatDuration(sourceDuration),
+    };
+
+    let processedIntroText = introText ? replaceTemplateVariables(introText, templateVars) : undefined;
+    let processedOutroText = outroText ? replaceTemplateVariables(outroText, templateVars) : undefined;
+
+    // 生成開場音訊（如果有提供開場文字）
+    // 注意：開場和結尾應該直接讀出文字，而不是轉換成對話
+    let introEpisode: { audioUrl?: string; durationSeconds?: number } | null = null;
+    if (processedIntroText && task.introAudioUrl) {
+      console.log(`[Task ${taskId}] ♻️  Reusing saved intro audio: ${task.introAudioUrl}`);
+      introEpisode = { audioUrl: task.introAudioUrl };
+    } else if (processedIntroText) {
+      console.log(`[Task ${taskId}] Generating intro audio...`);
+      await updateProgress({
+        taskId,
+        stage: 'generating',
+        percent: 65,
+        message: '正在生成開場音訊...',
+      });
+      try {
+        const speakerId = dialogueHosts[0].speakerId;
+        console.log(`[Task ${taskId}] Generating intro audio with ${tts.name} (speaker: ${speakerId}): "${processedIntroText.substring(0, 50)}..."`);
+        introEpisode = await tts.synthesizeUtterance(processedIntroText, speakerId, { language: ttsLanguage });
+        console.log(`[Task ${taskId}] ✅ Intro audio generated: ${introEpisode.audioUrl}`);
+      } catch (error) {
+        console.error(`[Task ${taskId}] ❌ Failed to generate intro audio:`, error);
+        // 如果開場生成失敗，繼續處理主要內容，但不使用開場
+        introEpisode = null;
+      }
+
+      // 儲存檢查點：開場音訊
+      if (introEpisode?.audioUrl) {
+        await updatePodcastTask(taskId, {
+          introAudioUrl: introEpisode.audioUrl,
+          checkpointStage: laterCheckpoint(task.checkpointStage, 'intro'),
+        });
+      }
+    }
+
+    // 限制 summary 長度，根據模式與原文長度控制（避免生成過長的 podcast），在句子結尾截斷
+    const { estimateSectionCount, limitSummaryLength } = await import('./summarizationService');
+    const processedSummary = limitSummaryLength(result.summary, mode, estimateSectionCount(result.transcription?.length || 0));
+    if (processedSummary.length < result.summary.length) {
+      console.log(`[Task ${taskId}] Summary too long (${result.summary.length} chars), truncated to ${processedSummary.length} chars for ${mode} mode`);
+    }
+
+    console.log(`[Task ${taskId}] Using summary length: ${processedSummary.length} chars for ${mode} mode`);
+
+    // 生成主要 Podcast
+    console.log(`[Task ${taskId}] Generating main podcast with ${tts.name}, mode: ${mode}...`);
+    await updateProgress({
+      taskId,
+      stage: 'generating',
+      percent: 75,
+      message: '正在生成主要 Podcast 音檔...',
+    });
+    
+    const podcastEpisode = await generateMainEpisode(task, tts, processedSummary, { mode, style: stylePrompt, hosts: dialogueHosts, outputLanguage });
+    
+    console.log(`[Task ${taskId}] Main podcast generated: ${podcastEpisode.audioUrl}`);
+
+    // 逐句時間軸（相對於主要音訊），供精華片段依句子邊界剪輯
+    const mainTimeline = podcastEpisode.timeline || await alignMainEpisode(taskId, podcastEpisode, ttsLanguage);
+
+    // 儲存檢查點：主要 Podcast（合併完成前先記錄主音訊 URL）
+    await updatePodcastTask(taskId, {
+      listenHubEpisodeId: podcastEpisode.episodeId || null,
+      podcastAudioUrl: podcastEpisode.audioUrl,
+      podcastAudioKey: podcastEpisode.audioKey || null,
+      podcastTitle: podcastEpisode.title || null,
+      podcastScripts: podcastEpisode.scripts ? JSON.stringify(podcastEpisode.scripts) : null,
+      lineTimings: mainTimeline ? JSON.stringify(mainTimeline) : null,
+      checkpointStage: laterCheckpoint(task.checkpointStage, 'main'),
+    });
+
+    // 生成結尾音訊（如果有提供結尾文字）
+    let outroEpisode: { audioUrl?: string } | null = null;
+    if (processedOutroText && task.outroAudioUrl) {
+      console.log(`[Task ${taskId}] ♻️  Reusing saved outro audio: ${task.outroAudioUrl}`);
+      outroEpisode = { audioUrl: task.outroAudioUrl };
+    } else if (processedOutroText) {
+      console.log(`[Task ${taskId}] Generating outro audio...`);
+      await updateProgress({
+        taskId,
+        stage: 'generating',
+        percent: 85,
+        message: '正在生成結尾音訊...',
+      });
+      try {
+        const speakerId = dialogueHosts[0].speakerId;
+        console.log(`[Task ${taskId}] Generating outro audio with ${tts.name} (speaker: ${speakerId}): "${processedOutroText.substring(0, 50)}..."`);
+        outroEpisode = await tts.synthesizeUtterance(processedOutroText, speakerId, { language: ttsLanguage });
+        console.log(`[Task ${taskId}] ✅ Outro audio generated: ${outroEpisode.audioUrl}`);
+      } catch (error) {
+        console.error(`[Task ${taskId}] ❌ Failed to generate outro audio:`, error);
+        // 如果結尾生成失敗，繼續處理，但不使用結尾
+        outroEpisode = null;
+      }
+
+      // 儲存檢查點：結尾音訊
+      if (outroEpisode?.audioUrl) {
+        await updatePodcastTask(taskId, {
+          outroAudioUrl: outroEpisode.audioUrl,
+          checkpointStage: laterCheckpoint(task.checkpointStage, 'outro'),
+        });
+      }
+    }
+
+    // 如果有開場或結尾，或啟用了音訊後製，產生最終音檔（確保等待所有音訊生成完成）
+    const mastering = parseMasteringSettings(task.masteringSettings);
+    let finalAudioUrl = podcastEpisode.audioUrl;
+    let finalAudioKey = podcastEpisode.audioKey;
+    let finalTimeline = mainTimeline;
+    const hasIntro = introEpisode?.audioUrl;
+    const hasOutro = outroEpisode?.audioUrl;
+    
+    // 詳細日誌：確認開場和結尾的狀態
+    console.log(`[Task ${taskId}] Audio segments status:`);
+    console.log(`[Task ${taskId}] - Intro: ${hasIntro ? `✅ ${introEpisode?.audioUrl}` : '❌ Not generated'}`);
+    console.log(`[Task ${taskId}] - Main: ✅ ${podcastEpisode.audioUrl}`);
+    console.log(`[Task ${taskId}] - Outro: ${hasOutro ? `✅ ${outroEpisode?.audioUrl}` : '❌ Not generated'}`);
+    
+    if (hasIntro || hasOutro || mastering.enabled || hasMusic(music)) {
+      console.log(`[Task ${taskId}] Merging audio segments...`);
+      await updateProgress({
+        taskId,
+        stage: 'generating',
+        percent: 90,
+        message: mastering.enabled ? '正在後製音訊...' : '正在合併音訊片段...',
+      });
+
+      try {
+        const { mergePodcastAudio } = await import('./audioMergeService');
+        const { resolveMusicUrls } = await import('./musicService');
+        const { storagePut } = await import('../storage');
+        const fs = await import('fs/promises');
+
+        console.log(`[Task ${taskId}] Calling mergePodcastAudio with:`);
+        console.log(`[Task ${taskId}] - introUrl: ${hasIntro ? introEpisode?.audioUrl : 'null'}`);
+        console.log(`[Task ${taskId}] - mainUrl: ${podcastEpisode.audioUrl}`);
+        console.log(`[Task ${taskId}] - outroUrl: ${hasOutro ? outroEpisode?.audioUrl : 'null'}`);
+
+        // 合併音訊
+        const merged = await mergePodcastAudio(
+          introEpisode?.audioUrl,
+          podcastEpisode.audioUrl,
+          outroEpisode?.audioUrl,
+          mastering,
+          await resolveMusicUrls(music, task.userId)
+        );
+        const mergedAudioPath = merged.path;
+        
+        console.log(`[Task ${taskId}] ✅ Audio merged successfully: ${mergedAudioPath}`);
+
+        // 讀取合併後的音訊檔案
+        const mergedAudioBuffer = await fs.readFile(mergedAudioPath);
+
+        // 上傳到存儲
+        const timestamp = Date.now();
+        const randomSuffix = Math.random().toString(36).substring(7);
+        const fileKey = `podcasts/${task.userId}/${taskId}/merged_${timestamp}_${randomSuffix}.mp3`;
+        const { key, url } = await storagePut(fileKey, mergedAudioBuffer, 'audio/mpeg');
+
+        finalAudioUrl = url;
+        finalAudioKey = key;
+        console.log(`[Task ${taskId}] Merged audio uploaded: ${finalAudioUrl}`);
+
+        // 時間軸平移到主要內容在成品中的位置：後製時依裁切與淡化計算，否則為開場長度
+        if (mainTimeline && (merged.mainOffset !== undefined || hasIntro)) {
+          try {
+            const mainOffset = merged.mainOffset ?? introEpisode!.durationSeconds ?? await getAudioDuration(introEpisode!.audioUrl!);
+            finalTimeline = offsetTimeline(mainTimeline, mainOffset);
+          } catch (error) {
+            console.warn(`[Task ${taskId}] ⚠️  Cannot read intro duration, dropping line timeline:`, error instanceof Error ? error.message : String(error));
+            finalTimeline = null;
+          }
+        }
+
+        // 清理臨時檔案
+        try {
+          await fs.unlink(mergedAudioPath);
+        } catch (error) {
+          console.warn(`[Task ${taskId}] Failed to clean up merged audio file:`, error);
+        }
+      } catch (error) {
+        console.error(`[Task ${taskId}] Failed to merge audio:`, error);
+        // 如果合併失敗，使用主要 podcast 音訊
+        console.warn(`[Task ${taskId}] Using main podcast audio only due to merge failure`);
+      }
+    }
+
+    // 更新任務結果（先寫入結果再推送完成事件，確保用戶端收到事件時資料已就緒）
+    await updatePodcastTask(taskId, {
+      status: 'completed',
+      title: result.title || null,
+      transcription: result.transcription,
+      summary: result.summary,
+      podcastScript: result.podcastScript,
+      audioUrl: result.audioUrl,
+      audioFileKey: result.audioFileKey,
+      listenHubEpisodeId: podcastEpisode.episodeId || null,
+      podcastAudioUrl: finalAudioUrl || null, // 使用合併後的音訊 URL（如果有的話）
+      podcastAudioKey: finalAudioKey || null,
+      podcastTitle: podcastEpisode.title || null,
+      podcastScripts: podcastEpisode.scripts ? JSON.stringify(podcastEpisode.scripts) : null,
+      lineTimings: finalTimeline ? JSON.stringify(finalTimeline) : null,
+    });
+    await updateProgress({
+      taskId,
+      stage: 'completed',
+      percent: 100,
+      message: 'Podcast 生成完成！',
+    });
+  } catch (error) {
+    // 使用統一的錯誤處理，任務狀態交由工作佇列更新（重試或標記失敗）
+    const appError = normalizeError(error);
+    logError(appError, { taskId, inputType, mode });
+    throw appError;
+  }
+}
+
+/**
+ * 生成主要 Podcast，若檢查點中已有結果或 ListenHub Episode 則直接沿用或接續輪詢
+ */
+async function generateMainEpisode(
+  task: PodcastTask,
+  tts: TtsProvider,
+  summary: string,
+  options: {
+    mode: PodcastMode;
+    style: StylePrompt;
+    hosts: DialogueHost[];
+    outputLanguage: OutputLanguage;
+  }
+): Promise<TtsScriptResult> {
+  const taskId = task.id;
+  const ttsLanguage = getOutputLanguageInfo(options.outputLanguage).ttsLanguage;
+
+  // 主要音訊已完成
+  if (task.podcastAudioUrl) {
+    console.log(`[Task ${taskId}] ♻️  Reusing saved main audio: ${task.podcastAudioUrl}`);
+    return {
+      audioUrl: task.podcastAudioUrl,
+      audioKey: task.podcastAudioKey || undefined,
+      episodeId: task.listenHubEpisodeId || undefined,
+      title: task.podcastTitle || undefined,
+      scripts: task.podcastScripts ? JSON.parse(task.podcastScripts) : undefined,
+      timeline: parseTimeline(task.lineTimings) || undefined,
+    };
+  }
+
+  if (task.listenHubEpisodeId && tts.id === 'listenhub') {
+    // Episode 已建立但尚未等到完成（例如伺服器重啟），接續輪詢而不重新建立
+    const { getPodcastEpisode, waitForPodcastCompletion } = await import('../listenHubService');
+    try {
+      const existing = await getPodcastEpisode(task.listenHubEpisodeId);
+      if (existing.processStatus !== 'failed') {
+        console.log(`[Task ${taskId}] ♻️  Resuming wait for main episode: ${task.listenHubEpisodeId}`);
+        const episode = await waitForPodcastCompletion(task.listenHubEpisodeId);
+        if (episode.audioUrl) {
+          return {
+            audioUrl: episode.audioUrl,
+            episodeId: episode.episodeId,
+            title: episode.title,
+            scripts: episode.scripts,
+          };
+        }
+      }
+      console.warn(`[Task ${taskId}] ⚠️  Saved episode ${task.listenHubEpisodeId} failed on ListenHub, creating a new one`);
+    } catch (error) {
+      console.warn(`[Task ${taskId}] ⚠️  Cannot resume episode ${task.listenHubEpisodeId}, creating a new one:`, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // 已核准的腳本：依腳本逐句合成（不讓供應商自行改寫對話）
+  if (task.draftScript && task.scriptApprovedAt) {
+    const { parseDialogueScript, toTtsScriptLines } = await import('./dialogueScriptService');
+    const lines = toTtsScriptLines(parseDialogueScript(task.draftScript));
+    console.log(`[Task ${taskId}] Synthesizing approved script (${lines.length} lines) with ${tts.name}`);
+    return tts.synthesizeScript(lines, { language: ttsLanguage });
+  }
+
+  // 供應商可自行撰寫對話（ListenHub）；人設與三人以上的節目需由 LLM 撰寫腳本才能控制每位主持人的台詞
+  const { hosts } = options;
+  if (tts.synthesizeFromContent && hosts.length <= 2 && !hosts.some(host => host.persona)) {
+    return tts.synthesizeFromContent(summary, hosts.map(host => host.speakerId), {
+      mode: options.mode,
+      language: ttsLanguage,
+      styleInstructions: options.style.scriptPrompt,
+      onEpisodeCreated: async (episodeId) => {
+        // 儲存檢查點：Episode 建立後立即記錄 ID
+        await updatePodcastTask(taskId, { listenHubEpisodeId: episodeId });
+      },
+    });
+  }
+
+  // 其他情況：先以 LLM 撰寫逐句對話腳本，再逐句合成
+  const { generateDialogueScript, toTtsScriptLines } = await import('./dialogueScriptService');
+  const script = await generateDialogueScript(summary, {
+    mode: options.mode,
+    style: options.style,
+    hosts,
+    language: options.outputLanguage,
+  });
+  return tts.synthesizeScript(toTtsScriptLines(script), { language: ttsLanguage });
+}
+
+/**
+ * 決定每位主持人的聲音：主持人設定 → 使用者偏好（依順序）→ 供應商預設聲音
+ * 偏好聲音不分語言儲存，非預設語言的節目只沿用支援該語言的偏好聲音
+ */
+async function resolveHostVoices(
+  userId: number,
+  tts: TtsProvider,
+  hosts: HostConfig[],
+  ttsLanguage: string
+): Promise<string[]> {
+  const voiceIds: Array<string | undefined> = hosts.map(host => host.voiceId);
+
+  if (voiceIds.some(voiceId => !voiceId)) {
+    const { getVoicePreference, getPreferredVoiceIds } = await import('../db');
+    let preferred: Array<string | undefined> = getPreferredVoiceIds(await getVoicePreference(userId));
+    if (preferred.length > 0 && ttsLanguage !== getOutputLanguageInfo(DEFAULT_OUTPUT_LANGUAGE).ttsLanguage) {
+      const available = new Set((await tts.listVoices(ttsLanguage)).map(voice => voice.speakerId));
+      preferred = preferred.map(voiceId => voiceId && available.has(voiceId) ? voiceId : undefined);
+    }
+    for (let index = 0; index < voiceIds.length; index++) {
+      voiceIds[index] = voiceIds[index] || preferred[index];
+    }
+  }
+
+  if (voiceIds.some(voiceId => !voiceId)) {
+    const defaults = await selectDefaultVoices(tts, hosts.length, ttsLanguage);
+    for (let index = 0; index < voiceIds.length; index++) {
+      // 盡量避免與已指定的聲音重複
+      voiceIds[index] = voiceIds[index] || defaults.find(voiceId => !voiceIds.includes(voiceId)) || defaults[index];
+    }
+  }
+
+  return voiceIds as string[];
+}
+
+/**
+ * 將任務標記為失敗（工作佇列重試次數用盡時使用）
+ */
+export async function markPodcastTaskFailed(taskId: number, error: unknown): Promise<void> {
+  const { updateProgress } = await import('./progressService');
+  const userMessage = getUserFriendlyMessage(normalizeError(error));
+
+  await updatePodcastTask(taskId, {
+    status: 'failed',
+    errorMessage: userMessage,
+  });
+  await updateProgress({
+    taskId,
+    stage: 'failed',
+    percent: 0,
+    message: userMessage,
+  });
+}
+
+/**
+ * 本次嘗試失敗、等待工作佇列自動重試時更新任務狀態
+ */
+export async function markPodcastTaskRetrying(taskId: number, error: unknown, retryAt: Date): Promise<void> {
+  const { updateProgress } = await import('./progressService');
+  const userMessage = getUserFriendlyMessage(normalizeError(error));
+  const delaySeconds = Math.max(1, Math.round((retryAt.getTime() - Date.now()) / 1000));
+
+  await updatePodcastTask(taskId, { errorMessage: userMessage });
+  await updateProgress({
+    taskId,
+    stage: 'queued',
+    percent: 0,
+    message: `${userMessage}，將於 ${delaySeconds} 秒後自動重試`,
+    status: 'pending',
+  });
+}
+
+/**
+ * 供應商沒有提供逐句時間時，轉錄主要音訊並對齊腳本
+ * 對齊失敗不影響任務完成（精華片段會退回以字數估算時間）
+ */
+async function alignMainEpisode(
+  taskId: number,
+  episode: TtsScriptResult,
+  language: string // 節目輸出語言的語音代碼，轉錄時使用
+): Promise<TtsLineTiming[] | null> {
+  if (!episode.scripts || episode.scripts.length === 0) {
+    return null;
+  }
+
+  try {
+    console.log(`[Task ${taskId}] Aligning ${episode.scripts.length} script lines to main audio...`);
+    return await alignScriptToAudio(episode.audioUrl, episode.scripts, language);
+  } catch (error) {
+    console.warn(`[Task ${taskId}] ⚠️  Script alignment failed, highlights will use estimated timestamps:`, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+}
@@ -3,6 +3,7 @@
  * 提供統一的進度更新介面
  */
 
+import type { PodcastTask } from "../../drizzle/schema";
 import { updatePodcastTask } from "../db";
 
 export type ProgressStage =
@@ -20,23 +21,66 @@ export interface ProgressUpdate {
   percent: number; // 0-100
   message: string;
   estimatedTimeRemaining?: number; // 秒
+  status?: PodcastTask["status"]; // 任務狀態（預設依 stage 推算）
+}
+
+// 任務擁有者快取（推送即時事件用，避免每次進度更新都查詢資料庫）
+const taskOwnerCache = new Map<number, number>();
+
+async function getTaskOwner(taskId: number): Promise<number | undefined> {
+  const cached = taskOwnerCache.get(taskId);
+  if (cached !== undefined) return cached;
+
+  const { getPodcastTask } = await import("../db");
+  const task = await getPodcastTask(taskId, -1);
+  if (task) {
+    taskOwnerCache.set(taskId, task.userId);
+  }
+  return task?.userId;
 }
 
 /**
- * 更新任務進度
+ * 更新任務進度，並即時推送給訂閱中的使用者
  */
 export async function updateProgress(update: ProgressUpdate): Promise<void> {
   const { taskId, stage, percent, message, estimatedTimeRemaining } = update;
 
   console.log(`[Progress] Task ${taskId}: ${stage} - ${percent}% - ${message}`);
 
+  const status: PodcastTask["status"] = update.status
+    ?? (stage === "completed" ? "completed" : stage === "failed" ? "failed" : "processing");
+  const clampedPercent = Math.min(100, Math.max(0, percent));
+
   await updatePodcastTask(taskId, {
     progressStage: stage,
-    progressPercent: Math.min(100, Math.max(0, percent)),
+    progressPercent: clampedPercent,
     progressMessage: message,
     estimatedTimeRemaining: estimatedTimeRemaining || null,
-    status: stage === "completed" ? "completed" : stage === "failed" ? "failed" : "processing",
+    status,
   });
+
+  try {
+    const userId = await getTaskOwner(taskId);
+    if (userId !== undefined) {
+      const { publishTaskEvent } = await import("./taskEventService");
+      publishTaskEvent(userId, {
+        type: "podcast_progress",
+        taskId,
+        status,
+        stage,
+        percent: clampedPercent,
+        message,
+        estimatedTimeRemaining: estimatedTimeRemaining || null,
+      });
+    }
+  } catch (error) {
+    // 推送失敗不影響任務處理，用戶端重新連線時會重播最新狀態
+    console.warn(`[Progress] Failed to publish progress for task ${taskId}:`, error instanceof Error ? error.message : error);
+  }
+
+  if (status !== "processing") {
+    taskOwnerCache.delete(taskId);
+  }
 }
 
 /**
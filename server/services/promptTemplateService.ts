@@ -0,0 +1,116 @@
+/**
+ * 節目風格提示詞模板服務
+ * 每個風格（style key）有一組摘要與對話的撰寫要求，套用在內容分析、對話腳本與 ListenHub 生成上
+ * 模板存放在 prompt_templates（版本化、由管理員編輯）；內建風格尚未編輯時使用程式內的預設模板
+ */
+
+import type { PromptTemplate } from "../../drizzle/schema";
+import { getActivePromptTemplate, listPromptTemplates } from "../db";
+
+export interface StylePrompt {
+  styleKey: string;
+  name: string;
+  description: string;
+  summaryPrompt: string;
+  scriptPrompt: string;
+  version: number; // 0 表示內建預設模板
+}
+
+export const DEFAULT_STYLE_KEY = "casual";
+
+// 小寫英數與底線，會存在任務參數與訂閱設定中
+export const STYLE_KEY_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+
+/**
+ * 內建風格的預設模板
+ */
+export const BUILTIN_STYLE_PROMPTS: StylePrompt[] = [
+  {
+    styleKey: "casual",
+    name: "輕鬆閒聊",
+    description: "像朋友聊天一樣輕鬆，挑出最有趣的亮點",
+    summaryPrompt: "用輕鬆易懂的口吻整理內容，挑出最有趣、最能引起共鳴的 3-5 個亮點，避免艱澀術語。",
+    scriptPrompt: "兩位主持人像朋友聊天一樣對談，口語自然、互相接話，可以適度開玩笑、分享生活化的例子與個人感想。開場輕鬆寒暄帶入主題，結尾輕鬆道別。",
+    version: 0,
+  },
+  {
+    styleKey: "educational",
+    name: "教育講解",
+    description: "一問一答循序漸進，解釋概念並整理重點",
+    summaryPrompt: "以教學為目的整理內容：先說明主題背景，再依邏輯順序列出核心概念，每個概念附上白話解釋與例子，最後歸納 2-3 個重點收穫。",
+    scriptPrompt: "一位主持人扮演好奇的學習者負責提問，另一位扮演講解者循序漸進說明概念，多用比喻與實例，段落之間複述重點，結尾整理本集學到的重點。",
+    version: 0,
+  },
+  {
+    styleKey: "professional",
+    name: "專業訪談",
+    description: "訪談形式，用詞精準並引用具體數據",
+    summaryPrompt: "以專業分析的口吻撰寫：精確陳述事實、數據與論點，區分事實與觀點，指出影響與後續值得關注之處，不使用口語與誇飾。",
+    scriptPrompt: "專業訪談形式：一位主持人擔任訪問者提出精準、有深度的問題，另一位以專家身分回答，用詞精準、節奏穩定，引用內容中的具體數據與細節，不開玩笑。",
+    version: 0,
+  },
+];
+
+function toStylePrompt(template: PromptTemplate): StylePrompt {
+  return {
+    styleKey: template.styleKey,
+    name: template.name,
+    description: template.description || "",
+    summaryPrompt: template.summaryPrompt,
+    scriptPrompt: template.scriptPrompt,
+    version: template.version,
+  };
+}
+
+function getBuiltinStylePrompt(styleKey: string): StylePrompt | undefined {
+  return BUILTIN_STYLE_PROMPTS.find(style => style.styleKey === styleKey);
+}
+
+/**
+ * 取得風格目前使用的模板（資料庫啟用版本 → 內建預設 → 預設風格）
+ */
+export async function resolveStylePrompt(styleKey: string = DEFAULT_STYLE_KEY): Promise<StylePrompt> {
+  const template = await getActivePromptTemplate(styleKey);
+  if (template) {
+    return toStylePrompt(template);
+  }
+
+  const builtin = getBuiltinStylePrompt(styleKey);
+  if (builtin) {
+    return builtin;
+  }
+
+  console.warn(`[PromptTemplate] ⚠️  Unknown style "${styleKey}", falling back to ${DEFAULT_STYLE_KEY}`);
+  return getBuiltinStylePrompt(DEFAULT_STYLE_KEY)!;
+}
+
+/**
+ * 列出可選用的風格（每個風格取啟用中的版本，內建風格排在前面）
+ */
+export async function listAvailableStyles(): Promise<StylePrompt[]> {
+  const activeTemplates = (await listPromptTemplates()).filter(template => template.isActive);
+  const activeByKey = new Map(activeTemplates.map(template => [template.styleKey, toStylePrompt(template)]));
+
+  const builtins = BUILTIN_STYLE_PROMPTS.map(style => activeByKey.get(style.styleKey) || style);
+  const custom = Array.from(activeByKey.values()).filter(style => !getBuiltinStylePrompt(style.styleKey));
+  return [...builtins, ...custom];
+}
+
+/**
+ * 檢查風格是否存在（建立任務前驗證）
+ */
+export async function isAvailableStyle(styleKey: string): Promise<boolean> {
+  if (getBuiltinStylePrompt(styleKey)) {
+    return true;
+  }
+  return !!(await getActivePromptTemplate(styleKey));
+}
+
+/**
+ * 組成附加在內容分析提示詞中的風格要求
+ */
+export function formatStyleInstructions(style: StylePrompt): string {
+  return `節目風格：${style.name}
+摘要要求：${style.summaryPrompt}
+腳本要求：${style.scriptPrompt}`;
+}
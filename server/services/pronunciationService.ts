@@ -0,0 +1,140 @@
+/**
+ * 發音辭典服務
+ * 合成語音前把產品名稱、縮寫與人名替換成念法（可針對特定聲音覆寫），並提供轉錄時的詞彙提示
+ * 以包裝 TtsProvider 的方式套用，所有供應商與呼叫端（開場、主要內容、結尾、試聽）都經過同一個入口
+ */
+
+import type { PronunciationEntry } from "../../drizzle/schema";
+import type { TtsProvider, TtsScriptLine, TtsScriptResult } from "./ttsService";
+
+export interface PronunciationRule {
+  term: string;
+  replacement: string;
+  voiceId?: string | null; // 只套用到此聲音
+}
+
+// AssemblyAI word_boost 的限制：最多 1000 個詞，每個詞最多 6 個字
+const MAX_VOCABULARY_TERMS = 1000;
+const MAX_VOCABULARY_WORDS = 6;
+
+const WORD_CHAR = /[A-Za-z0-9]/;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function ruleKey(rule: PronunciationRule): string {
+  return `${rule.term.toLowerCase()}\u0000${rule.voiceId || ""}`;
+}
+
+/**
+ * 取得任務適用的詞條：使用者的通用詞條加上節目專屬詞條（同一詞條與聲音以節目專屬的為準）
+ */
+export function resolvePronunciationRules(
+  entries: Pick<PronunciationEntry, "term" | "replacement" | "voiceId" | "showProfileId">[],
+  showProfileId?: number | null
+): PronunciationRule[] {
+  const rules = new Map<string, PronunciationRule>();
+  const applicable = entries
+    .filter(entry => entry.showProfileId === null || entry.showProfileId === showProfileId)
+    // 通用詞條先放入，節目專屬詞條後放入以覆蓋
+    .sort((a, b) => Number(a.showProfileId !== null) - Number(b.showProfileId !== null));
+  for (const entry of applicable) {
+    const rule = { term: entry.term, replacement: entry.replacement, voiceId: entry.voiceId || null };
+    rules.set(ruleKey(rule), rule);
+  }
+  return Array.from(rules.values());
+}
+
+/**
+ * 套用發音詞條（不分大小寫；英數詞條只比對完整單字，避免「AI」替換到「EMAIL」）
+ * 指定聲音時，該聲音專屬的念法優先於通用念法；未指定聲音時只套用通用念法
+ */
+export function applyPronunciations(text: string, rules: PronunciationRule[], voiceId?: string): string {
+  const replacements = new Map<string, string>();
+  for (const rule of rules) {
+    if (!rule.term || (rule.voiceId && rule.voiceId !== voiceId)) continue;
+    const key = rule.term.toLowerCase();
+    if (rule.voiceId || !replacements.has(key)) {
+      replacements.set(key, rule.replacement);
+    }
+  }
+  if (replacements.size === 0) return text;
+
+  // 長詞條優先比對（「GPT-4」先於「GPT」），單次掃描避免念法再被其他詞條替換
+  const patterns = Array.from(replacements.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(term => {
+      const start = WORD_CHAR.test(term[0]) ? "(?<![A-Za-z0-9])" : "";
+      const end = WORD_CHAR.test(term[term.length - 1]) ? "(?![A-Za-z0-9])" : "";
+      return `${start}${escapeRegExp(term)}${end}`;
+    });
+  const pattern = new RegExp(patterns.join("|"), "gi");
+  return text.replace(pattern, match => replacements.get(match.toLowerCase()) ?? match);
+}
+
+export function applyPronunciationsToLines(lines: TtsScriptLine[], rules: PronunciationRule[]): TtsScriptLine[] {
+  return lines.map(line => ({ ...line, content: applyPronunciations(line.content, rules, line.speakerId) }));
+}
+
+/**
+ * 供應商回傳的台詞若是替換後的念法，還原成原文（逐字稿與精華片段顯示原本的寫法）
+ */
+function restoreOriginalText(result: TtsScriptResult, original: TtsScriptLine[], spoken: TtsScriptLine[]): TtsScriptResult {
+  const originals = original.filter(line => line.content.trim());
+  const respelled = spoken.filter(line => line.content.trim());
+  const restore = <T extends TtsScriptLine>(items?: T[]) => items?.map((item, index) =>
+    respelled[index] && item.content === respelled[index].content.trim()
+      ? { ...item, content: originals[index].content.trim() }
+      : item
+  );
+  return { ...result, scripts: restore(result.scripts), timeline: restore(result.timeline) };
+}
+
+/**
+ * 包裝 TTS 供應商，所有合成前都先套用發音詞條
+ */
+export function withPronunciations(provider: TtsProvider, rules: PronunciationRule[]): TtsProvider {
+  if (rules.length === 0) return provider;
+
+  const wrapped: TtsProvider = {
+    id: provider.id,
+    name: provider.name,
+    listVoices: language => provider.listVoices(language),
+    synthesizeUtterance: (text, speakerId, options) =>
+      provider.synthesizeUtterance(applyPronunciations(text, rules, speakerId), speakerId, options),
+    async synthesizeScript(lines, options) {
+      const spoken = applyPronunciationsToLines(lines, rules);
+      return restoreOriginalText(await provider.synthesizeScript(spoken, options), lines, spoken);
+    },
+  };
+
+  if (provider.synthesizeFromContent) {
+    // 供應商自行撰寫對話，無法得知每句由誰念，只套用通用念法
+    wrapped.synthesizeFromContent = (content, speakerIds, options) =>
+      provider.synthesizeFromContent!(applyPronunciations(content, rules), speakerIds, options);
+  }
+  return wrapped;
+}
+
+/**
+ * 轉錄的詞彙提示（詞條原文，去除重複與過長的詞）
+ */
+export function getVocabularyHints(rules: PronunciationRule[]): string[] {
+  const terms = new Map<string, string>();
+  for (const rule of rules) {
+    const term = rule.term.trim();
+    if (term && term.split(/\s+/).length <= MAX_VOCABULARY_WORDS && !terms.has(term.toLowerCase())) {
+      terms.set(term.toLowerCase(), term);
+    }
+  }
+  return Array.from(terms.values()).slice(0, MAX_VOCABULARY_TERMS);
+}
+
+/**
+ * 讀取使用者（與節目設定）適用的發音詞條
+ */
+export async function loadPronunciationRules(userId: number, showProfileId?: number | null): Promise<PronunciationRule[]> {
+  const { getUserPronunciationEntries } = await import("../db");
+  return resolvePronunciationRules(await getUserPronunciationEntries(userId), showProfileId);
+}
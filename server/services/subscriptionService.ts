@@ -0,0 +1,307 @@
+/**
+ * 來源訂閱服務
+ * 定期檢查使用者訂閱的 YouTube 頻道 / 播放清單或 RSS feed，為新內容自動建立 podcast 任務
+ * 去重以 subscription_items（使用者 + 影片 ID / 項目 guid）為準，同一內容只會產生一次
+ */
+
+import type { SourceSubscription } from "../../drizzle/schema";
+import { parseYoutubeCollectionUrl } from "@shared/youtubeUrl";
+import { DEFAULT_OUTPUT_LANGUAGE, isOutputLanguage } from "@shared/outputLanguage";
+import { createDefaultHostConfigs } from "@shared/hosts";
+import { ENV } from "../_core/env";
+import {
+  claimSubscriptionCheck,
+  createPodcastTask,
+  createSubscription,
+  getPreferredVoiceIds,
+  getRecordedSubscriptionItemKeys,
+  getVoicePreference,
+  listDueSubscriptionIds,
+  recordSubscriptionItem,
+  updateSubscription,
+} from "../db";
+import { enqueueJob } from "./jobQueueService";
+
+export interface FeedEntry {
+  title: string;
+  link: string;
+  guid?: string;
+  publishedAt?: string;
+}
+
+export interface SourceItem {
+  key: string; // 去重鍵：YouTube 影片 ID，或 RSS 項目的 guid / 連結
+  title: string;
+  url: string;
+  inputType: "youtube" | "article";
+}
+
+export type SubscriptionSettings = Pick<SourceSubscription, "mode" | "style" | "outputLanguage" | "checkIntervalHours"> & {
+  introText?: string | null;
+  outroText?: string | null;
+};
+
+// 每次檢查讀取的最新項目數
+const LOOKBACK_ITEMS = 15;
+// 每次檢查最多建立的任務數（其餘留到下次檢查）
+const MAX_NEW_ITEMS_PER_CHECK = 5;
+
+function decodeXmlText(value: string): string {
+  const cdataMatch = value.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdataMatch) {
+    return cdataMatch[1].trim();
+  }
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&amp;/g, "&")
+    .trim();
+}
+
+function readTag(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i"));
+  return match ? decodeXmlText(match[1]) : undefined;
+}
+
+// Atom 的 <link href="..."/>（優先取 rel="alternate"）
+function readAtomLink(block: string): string | undefined {
+  const links = block.match(/<link\s[^>]*>/gi) || [];
+  const alternate = links.find(link => !/rel="/i.test(link) || /rel="alternate"/i.test(link));
+  const href = alternate?.match(/href="([^"]+)"/i);
+  return href ? decodeXmlText(href[1]) : undefined;
+}
+
+/**
+ * 解析 RSS 2.0 / Atom feed
+ * @returns 無法辨識為 feed 時回傳 null
+ */
+export function parseFeedXml(xml: string): { title: string; entries: FeedEntry[] } | null {
+  const isAtom = /<feed[\s>]/i.test(xml);
+  if (!isAtom && !/<rss[\s>]|<rdf:RDF[\s>]/i.test(xml)) {
+    return null;
+  }
+
+  const blocks = xml.match(isAtom ? /<entry[\s>][\s\S]*?<\/entry>/gi : /<item[\s>][\s\S]*?<\/item>/gi) || [];
+  const header = xml.split(isAtom ? /<entry[\s>]/i : /<item[\s>]/i)[0];
+
+  const entries: FeedEntry[] = [];
+  for (const block of blocks) {
+    const link = readTag(block, "link") || readAtomLink(block);
+    if (!link) continue;
+    entries.push({
+      title: readTag(block, "title") || link,
+      link,
+      guid: readTag(block, "guid") || readTag(block, "id"),
+      publishedAt: readTag(block, "pubDate") || readTag(block, "published") || readTag(block, "updated"),
+    });
+  }
+
+  return { title: readTag(header, "title") || "", entries };
+}
+
+/**
+ * 判斷訂閱來源類型
+ */
+export function detectSourceType(url: string): { sourceType: SourceSubscription["sourceType"]; sourceUrl: string } {
+  const collection = parseYoutubeCollectionUrl(url);
+  if (collection) {
+    return { sourceType: "youtube", sourceUrl: collection.url };
+  }
+  return { sourceType: "rss", sourceUrl: url.trim() };
+}
+
+/**
+ * 讀取來源的最新項目（依來源順序，通常是最新的在前）
+ */
+async function fetchSourceItems(
+  sourceType: SourceSubscription["sourceType"],
+  sourceUrl: string
+): Promise<{ title: string; items: SourceItem[] }> {
+  const { extractVideoId, listYoutubeCollectionVideos } = await import("../youtubeService");
+
+  if (sourceType === "youtube") {
+    const { title, videos } = await listYoutubeCollectionVideos(sourceUrl, LOOKBACK_ITEMS);
+    return {
+      title,
+      items: videos.map(video => ({ key: video.videoId, title: video.title, url: video.url, inputType: "youtube" })),
+    };
+  }
+
+  const response = await fetch(sourceUrl, { signal: AbortSignal.timeout(30000) });
+  if (!response.ok) {
+    throw new Error(`無法讀取 RSS feed（HTTP ${response.status}）`);
+  }
+  const feed = parseFeedXml(await response.text());
+  if (!feed) {
+    throw new Error("不是有效的 RSS 或 Atom feed");
+  }
+
+  // YouTube 頻道的 RSS 或連結到影片的項目以影片 ID 去重，與頻道訂閱共用同一個鍵
+  const items = feed.entries.slice(0, LOOKBACK_ITEMS).map((entry): SourceItem => {
+    const videoId = extractVideoId(entry.link);
+    if (videoId && videoId.length === 11) {
+      return { key: videoId, title: entry.title, url: `https://www.youtube.com/watch?v=${videoId}`, inputType: "youtube" };
+    }
+    return { key: (entry.guid || entry.link).substring(0, 255), title: entry.title, url: entry.link, inputType: "article" };
+  });
+
+  return { title: feed.title || sourceUrl, items };
+}
+
+/**
+ * 建立訂閱：讀取一次來源以驗證網址，並把現有項目記為已處理（只為之後的新內容產生任務）
+ */
+export async function createSubscriptionFromUrl(
+  userId: number,
+  url: string,
+  settings: SubscriptionSettings
+): Promise<{ subscriptionId: number; title: string }> {
+  const { sourceType, sourceUrl } = detectSourceType(url);
+  const { title, items } = await fetchSourceItems(sourceType, sourceUrl);
+
+  const now = new Date();
+  const subscriptionId = await createSubscription({
+    userId,
+    sourceType,
+    sourceUrl,
+    title,
+    ...settings,
+    nextCheckAt: new Date(now.getTime() + settings.checkIntervalHours * 60 * 60 * 1000),
+    lastCheckedAt: now,
+  });
+
+  for (const item of items) {
+    await recordSubscriptionItem({ userId, subscriptionId, itemKey: item.key, title: item.title });
+  }
+
+  console.log(`[Subscription] Created subscription ${subscriptionId} (${sourceType}: ${title}), ${items.length} existing item(s) skipped`);
+  return { subscriptionId, title };
+}
+
+/**
+ * 檢查訂閱並為新項目建立任務
+ * @returns 建立的任務數
+ */
+export async function checkSubscription(subscription: SourceSubscription): Promise<number> {
+  let items: SourceItem[];
+  try {
+    ({ items } = await fetchSourceItems(subscription.sourceType, subscription.sourceUrl));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.warn(`[Subscription] ⚠️  Check failed for subscription ${subscription.id}: ${message}`);
+    await updateSubscription(subscription.id, { lastCheckedAt: new Date(), lastError: message });
+    return 0;
+  }
+
+  const recorded = await getRecordedSubscriptionItemKeys(subscription.userId, items.map(item => item.key));
+  const newItems = [...items].reverse().filter(item => !recorded.has(item.key)); // 依發佈順序（舊到新）建立任務
+  if (newItems.length === 0) {
+    await updateSubscription(subscription.id, { lastCheckedAt: new Date(), lastError: null });
+    console.log(`[Subscription] Checked subscription ${subscription.id}: 0 new task(s)`);
+    return 0;
+  }
+
+  // 主持人人數與聲音沿用使用者偏好（最多 4 位，沒有偏好時為兩位主持人），
+  // 聲音由處理流程依節目語言從偏好中挑選；聲音偏好只記錄 ListenHub 聲音，有偏好時固定使用 ListenHub
+  const preference = await getVoicePreference(subscription.userId);
+  const hostCount = getPreferredVoiceIds(preference).length || 2;
+  const outputLanguage = isOutputLanguage(subscription.outputLanguage) ? subscription.outputLanguage : DEFAULT_OUTPUT_LANGUAGE;
+
+  let created = 0;
+  for (const item of newItems) {
+    if (created >= MAX_NEW_ITEMS_PER_CHECK) break;
+
+    // 任務排入佇列後才記錄項目，建立失敗時下次檢查會再試一次
+    const taskId = await createPodcastTask({
+      userId: subscription.userId,
+      youtubeUrl: item.inputType === "youtube" ? item.url : `[article] ${item.url.substring(0, 500)}`,
+      title: item.title,
+      status: "pending",
+      introText: subscription.introText,
+      outroText: subscription.outroText,
+      outputLanguage,
+    });
+    await enqueueJob("podcast", taskId, {
+      taskId,
+      inputContent: item.url,
+      inputType: item.inputType,
+      mode: subscription.mode,
+      style: subscription.style,
+      hosts: createDefaultHostConfigs(hostCount),
+      ttsProvider: preference ? "listenhub" : undefined,
+      introText: subscription.introText || undefined,
+      outroText: subscription.outroText || undefined,
+      outputLanguage,
+    });
+    await recordSubscriptionItem({
+      userId: subscription.userId,
+      subscriptionId: subscription.id,
+      itemKey: item.key,
+      title: item.title,
+      taskId,
+    });
+    created++;
+  }
+
+  await updateSubscription(subscription.id, { lastCheckedAt: new Date(), lastError: null });
+  console.log(`[Subscription] Checked subscription ${subscription.id}: ${created} new task(s)`);
+  return created;
+}
+
+let watching = false;
+let watchTimer: NodeJS.Timeout | null = null;
+
+/**
+ * 檢查一次所有到期的訂閱
+ */
+async function checkDueSubscriptions(): Promise<void> {
+  try {
+    const dueIds = await listDueSubscriptionIds(20);
+    for (const subscriptionId of dueIds) {
+      if (!watching) break;
+      const subscription = await claimSubscriptionCheck(subscriptionId);
+      if (!subscription) continue; // 已被其他實例領走
+      await checkSubscription(subscription);
+    }
+  } catch (error) {
+    console.error("[Subscription] Scheduled check failed:", error instanceof Error ? error.message : error);
+  }
+}
+
+/**
+ * 啟動訂閱排程
+ */
+export function startSubscriptionWatcher(): void {
+  if (watching) return;
+
+  if (!process.env.DATABASE_URL) {
+    console.warn("[Subscription] DATABASE_URL not set, subscription watcher disabled");
+    return;
+  }
+
+  watching = true;
+  console.log(`[Subscription] Watcher started (interval: ${ENV.subscriptionPollIntervalMs}ms)`);
+
+  const loop = async () => {
+    await checkDueSubscriptions();
+    if (watching) {
+      watchTimer = setTimeout(loop, ENV.subscriptionPollIntervalMs);
+    }
+  };
+  void loop();
+}
+
+/**
+ * 停止訂閱排程
+ */
+export function stopSubscriptionWatcher(): void {
+  watching = false;
+  if (watchTimer) {
+    clearTimeout(watchTimer);
+    watchTimer = null;
+  }
+}
@@ -0,0 +1,275 @@
+/**
+ * 長篇內容分段摘要服務（map-reduce）
+ * 逐字稿超過單次分析上限時，依轉錄片段切成多段分別整理重點（map），
+ * 再把各段重點依時間順序組成分段筆記交給內容分析（reduce），避免只分析開頭幾分鐘
+ */
+
+import { getOutputLanguageInfo, type OutputLanguage } from "@shared/outputLanguage";
+import { invokeLLM } from "../_core/llm";
+import type { StylePrompt } from "./promptTemplateService";
+
+export type SummaryMode = "quick" | "medium" | "deep";
+
+/**
+ * 內容分析參數
+ */
+export interface AnalysisOptions {
+  style?: StylePrompt;
+  mode?: SummaryMode;
+  language?: OutputLanguage; // 節目輸出語言（預設繁體中文）
+  vocabulary?: string[]; // 轉錄時提示的專有名詞（發音辭典的詞條，不影響分析快取）
+}
+
+export interface TranscriptSegment {
+  start: number; // 秒
+  end: number;
+  text: string;
+}
+
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+  start?: number; // 有轉錄片段時才有時間範圍
+  end?: number;
+}
+
+// 單次分析可直接處理的長度，超過時改用分段摘要
+export const SINGLE_PASS_MAX_CHARS = 8000;
+// 每段送給 LLM 整理的長度
+const CHUNK_MAX_CHARS = 6000;
+// 分段筆記仍超過上限時再合併一輪，最多幾輪
+const MAX_REDUCE_ROUNDS = 3;
+// 同時整理的段數
+const MAP_CONCURRENCY = 3;
+
+// 各模式的摘要目標字數（長篇內容的摘要會保留分段結構，deep 模式提供更完整的內容給對話生成）
+export const SUMMARY_TARGETS: Record<SummaryMode, [number, number]> = {
+  quick: [300, 450],
+  medium: [500, 800],
+  deep: [1000, 1800],
+};
+
+// 各模式交給 TTS 的摘要長度上限
+export const SUMMARY_LENGTH_LIMITS: Record<SummaryMode, number> = {
+  quick: 500,   // 4-5 分鐘
+  medium: 900,  // 7-8 分鐘
+  deep: 2000,   // 10-12 分鐘
+};
+
+// 長篇內容的摘要長度隨段數增加：每 3 段放大一倍，最多 3 倍（避免超出對話生成與 TTS 的負荷）
+const SECTIONS_PER_SUMMARY_SCALE = 3;
+const MAX_SUMMARY_SCALE = 3;
+
+// 句子或段落結尾（切分時優先在這些位置斷開）
+const SENTENCE_END = /[。！？!?.\n]/;
+
+/**
+ * 將秒數格式化為 hh:mm:ss 或 mm:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+}
+
+/**
+ * 依原文長度估計分段摘要的段數（不需分段時為 0）
+ * 內容分析與摘要截斷都以此計算長度，快取或檢查點重用的結果也能得到相同的上限
+ */
+export function estimateSectionCount(textLength: number): number {
+  return textLength <= SINGLE_PASS_MAX_CHARS ? 0 : Math.ceil(textLength / CHUNK_MAX_CHARS);
+}
+
+function summaryLengthScale(sectionCount: number): number {
+  return Math.min(MAX_SUMMARY_SCALE, Math.max(1, sectionCount / SECTIONS_PER_SUMMARY_SCALE));
+}
+
+/**
+ * 摘要的目標字數（例如 "500-800"），長篇內容依段數放大
+ */
+export function summaryTarget(mode: SummaryMode = "medium", sectionCount: number = 0): string {
+  const scale = summaryLengthScale(sectionCount);
+  const [min, max] = SUMMARY_TARGETS[mode] || SUMMARY_TARGETS.medium;
+  return `${Math.round(min * scale)}-${Math.round(max * scale)}`;
+}
+
+/**
+ * 摘要長度上限，長篇內容依段數放大
+ */
+export function summaryLengthLimit(mode: SummaryMode = "medium", sectionCount: number = 0): number {
+  return Math.round((SUMMARY_LENGTH_LIMITS[mode] || SUMMARY_LENGTH_LIMITS.medium) * summaryLengthScale(sectionCount));
+}
+
+/**
+ * 在不超過 maxChars 的前提下，找到最後一個句子結尾作為切點
+ */
+function findBreakPoint(text: string, maxChars: number): number {
+  if (text.length <= maxChars) return text.length;
+  for (let i = maxChars; i > maxChars / 2; i--) {
+    if (SENTENCE_END.test(text[i - 1])) return i;
+  }
+  return maxChars;
+}
+
+/**
+ * 切分逐字稿
+ * 有轉錄片段時依片段邊界累積（保留時間範圍），否則依句子結尾切分
+ */
+export function splitTranscript(
+  text: string,
+  segments?: TranscriptSegment[],
+  maxChars: number = CHUNK_MAX_CHARS
+): TranscriptChunk[] {
+  const chunks: TranscriptChunk[] = [];
+  const usableSegments = (segments || []).filter(segment => segment.text.trim());
+
+  if (usableSegments.length > 0) {
+    let current: TranscriptSegment[] = [];
+    let length = 0;
+    const flush = () => {
+      if (current.length === 0) return;
+      chunks.push({
+        index: chunks.length,
+        text: current.map(segment => segment.text.trim()).join(" "),
+        start: current[0].start,
+        end: current[current.length - 1].end,
+      });
+      current = [];
+      length = 0;
+    };
+
+    for (const segment of usableSegments) {
+      // 單一片段過長時獨立成段（內容分析時再截斷也只影響該段）
+      if (length > 0 && length + segment.text.length > maxChars) {
+        flush();
+      }
+      current.push(segment);
+      length += segment.text.length + 1;
+    }
+    flush();
+    return chunks;
+  }
+
+  let rest = text.trim();
+  while (rest.length > 0) {
+    const breakPoint = findBreakPoint(rest, maxChars);
+    const chunkText = rest.substring(0, breakPoint).trim();
+    if (chunkText) {
+      chunks.push({ index: chunks.length, text: chunkText });
+    }
+    rest = rest.substring(breakPoint).trimStart();
+  }
+  return chunks;
+}
+
+/**
+ * 依模式限制摘要長度，在句子結尾截斷（避免截在句子中間）
+ * @param sectionCount 長篇內容的段數（estimateSectionCount），段數越多上限越高
+ */
+export function limitSummaryLength(summary: string, mode: SummaryMode = "medium", sectionCount: number = 0): string {
+  const maxLength = summaryLengthLimit(mode, sectionCount);
+  if (summary.length <= maxLength) {
+    return summary;
+  }
+  return summary.substring(0, findBreakPoint(summary, maxLength)).trimEnd();
+}
+
+/**
+ * 依序處理，最多同時執行 concurrency 個
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * 整理單一段落的小標題與重點（map）
+ */
+async function summarizeChunk(
+  chunk: TranscriptChunk,
+  total: number,
+  targetChars: number,
+  language?: OutputLanguage
+): Promise<string> {
+  const range = chunk.start !== undefined && chunk.end !== undefined
+    ? `（${formatTimestamp(chunk.start)}-${formatTimestamp(chunk.end)}）`
+    : "";
+
+  const response = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: `你是專業的內容編輯。你會收到長篇內容中的一段，請用${getOutputLanguageInfo(language).promptName}整理這段的重點。
+輸出格式（純文字，不要使用 markdown 代碼塊）：
+第一行為這段的小標題（不超過 20 字）
+其後每行一個重點，以「- 」開頭，保留具體的人名、數據與例子
+總長度約 ${targetChars} 字（非中文時以同等篇幅計算）`,
+      },
+      {
+        role: "user",
+        content: `第 ${chunk.index + 1}/${total} 段${range}：\n\n${chunk.text}`,
+      },
+    ],
+  });
+
+  const content = response.choices[0]?.message?.content;
+  const notes = (typeof content === "string" ? content : JSON.stringify(content)).replace(/```[a-z]*/gi, "").trim();
+  if (!notes) {
+    throw new Error(`LLM 未返回第 ${chunk.index + 1} 段的重點`);
+  }
+
+  const [title, ...points] = notes.split("\n").map(line => line.trim()).filter(Boolean);
+  return `## ${title.replace(/^#+\s*/, "")}${range}\n${points.join("\n")}`;
+}
+
+/**
+ * 將長篇逐字稿濃縮成依時間順序排列的分段筆記（長度不超過 maxChars）
+ * 內容本身不超過上限時直接回傳原文
+ * @param language 分段筆記使用的語言（與節目輸出語言一致）
+ * @param maxChars 筆記長度上限（多來源單集時每個來源分到較少的長度）
+ */
+export async function condenseTranscript(
+  text: string,
+  segments?: TranscriptSegment[],
+  language?: OutputLanguage,
+  maxChars: number = SINGLE_PASS_MAX_CHARS
+): Promise<{ content: string; sectionCount: number }> {
+  if (text.length <= maxChars) {
+    return { content: text, sectionCount: 0 };
+  }
+
+  let content = text;
+  let currentSegments = segments;
+  let sectionCount = 0;
+
+  for (let round = 1; round <= MAX_REDUCE_ROUNDS && content.length > maxChars; round++) {
+    const chunks = splitTranscript(content, currentSegments);
+    // 每段的重點長度依段數分配，讓合併後的筆記大致落在上限內
+    const targetChars = Math.min(600, Math.max(150, Math.floor((maxChars * 0.85) / chunks.length)));
+    console.log(`[Summarization] Round ${round}: ${content.length} chars → ${chunks.length} sections (~${targetChars} chars each)`);
+
+    const notes = await mapWithConcurrency(chunks, MAP_CONCURRENCY, chunk => summarizeChunk(chunk, chunks.length, targetChars, language));
+    content = notes.join("\n\n");
+    sectionCount = chunks.length;
+    currentSegments = undefined; // 第二輪之後以段落筆記切分（時間範圍已寫在小標題中）
+  }
+
+  if (content.length > maxChars) {
+    console.warn(`[Summarization] ⚠️  Notes still ${content.length} chars after ${MAX_REDUCE_ROUNDS} rounds, truncating`);
+    content = content.substring(0, findBreakPoint(content, maxChars));
+  }
+
+  console.log(`[Summarization] Condensed ${text.length} chars into ${content.length} chars of section notes`);
+  return { content, sectionCount };
+}
@@ -0,0 +1,177 @@
+/**
+ * 任務即時事件服務
+ * 進度更新與虛擬主播影片狀態變更時推送事件給任務擁有者（透過 tRPC subscription / SSE），
+ * 用戶端不需再輪詢 getProgress 與 getHighlightAvatarVideos
+ */
+
+import { EventEmitter, on } from "events";
+import type { AvatarVideoTask, PodcastTask } from "../../drizzle/schema";
+import type { PodcastTaskProgress } from "../db";
+import { ENV } from "../_core/env";
+
+export interface PodcastProgressEvent {
+  type: "podcast_progress";
+  taskId: number;
+  status: PodcastTask["status"];
+  stage: NonNullable<PodcastTask["progressStage"]>;
+  percent: number;
+  message: string;
+  estimatedTimeRemaining: number | null;
+}
+
+export interface AvatarVideoEvent {
+  type: "avatar_video";
+  taskId: number;
+  highlightId: number;
+  status: AvatarVideoTask["status"];
+  statusMessage: string | null;
+  videoUrl: string | null;
+}
+
+export type TaskEvent = PodcastProgressEvent | AvatarVideoEvent;
+
+// 單一行程內的事件匯流排（每位使用者一個頻道）
+const bus = new EventEmitter();
+bus.setMaxListeners(0);
+
+const userChannel = (userId: number) => `user:${userId}`;
+
+/**
+ * 推送事件給任務擁有者
+ */
+export function publishTaskEvent(userId: number, event: TaskEvent): void {
+  bus.emit(userChannel(userId), event);
+}
+
+export function toPodcastProgressEvent(task: PodcastTaskProgress): PodcastProgressEvent {
+  return {
+    type: "podcast_progress",
+    taskId: task.id,
+    status: task.status,
+    stage: task.progressStage || "queued",
+    percent: task.progressPercent || 0,
+    message: task.progressMessage || "準備中...",
+    estimatedTimeRemaining: task.estimatedTimeRemaining || null,
+  };
+}
+
+export function toAvatarVideoEvent(task: AvatarVideoTask): AvatarVideoEvent {
+  return {
+    type: "avatar_video",
+    taskId: task.id,
+    highlightId: task.highlightId,
+    status: task.status,
+    statusMessage: task.statusMessage,
+    videoUrl: task.videoUrl,
+  };
+}
+
+// 重新連線時需重播的 podcast 任務狀態（未結束的任務）
+const ACTIVE_PODCAST_STATUSES: PodcastTask["status"][] = ["pending", "processing", "awaiting_review"];
+
+function eventKey(event: TaskEvent): string {
+  return event.type === "podcast_progress" ? `podcast:${event.taskId}` : `avatar:${event.taskId}`;
+}
+
+function isFinalEvent(event: TaskEvent): boolean {
+  return event.status === "completed" || event.status === "failed";
+}
+
+/**
+ * 從資料庫讀取使用者任務的最新狀態
+ * 已送出過的任務即使已結束也會讀取，讓用戶端收到最後一次（完成 / 失敗）狀態
+ */
+async function loadTaskSnapshot(userId: number, sent: ReadonlyMap<string, string>): Promise<TaskEvent[]> {
+  const { getUserPodcastTaskProgress, getUserActiveAvatarVideoTasks, getAvatarVideoTask } = await import("../db");
+  const trackedPodcastIds = Array.from(sent.keys())
+    .filter(key => key.startsWith("podcast:"))
+    .map(key => Number(key.slice("podcast:".length)));
+  const [podcastTasks, avatarTasks] = await Promise.all([
+    getUserPodcastTaskProgress(userId, ACTIVE_PODCAST_STATUSES, trackedPodcastIds),
+    getUserActiveAvatarVideoTasks(userId),
+  ]);
+
+  const events: TaskEvent[] = podcastTasks.map(toPodcastProgressEvent);
+  events.push(...avatarTasks.map(toAvatarVideoEvent));
+
+  // 已結束的虛擬主播影片不在進行中清單內，個別讀取
+  const activeAvatarIds = new Set(avatarTasks.map(task => task.id));
+  for (const key of Array.from(sent.keys())) {
+    const avatarTaskId = key.startsWith("avatar:") ? Number(key.slice("avatar:".length)) : NaN;
+    if (!Number.isNaN(avatarTaskId) && !activeAvatarIds.has(avatarTaskId)) {
+      const task = await getAvatarVideoTask(avatarTaskId);
+      if (task) events.push(toAvatarVideoEvent(task));
+    }
+  }
+
+  return events;
+}
+
+/**
+ * 使用者的任務事件串流
+ * 連線（或重新連線）時先重播所有未結束任務的最新狀態，之後持續推送即時事件。
+ * 事件匯流排只在單一行程內傳遞，背景工作在其他實例執行時收不到即時事件，
+ * 因此有未結束的任務時另外定期讀取資料庫（TASK_EVENT_POLL_INTERVAL_MS），只送出有變動的狀態
+ */
+export async function* streamTaskEvents(userId: number, signal?: AbortSignal): AsyncGenerator<TaskEvent> {
+  // 此串流的事件來源：同行程的即時事件與資料庫輪詢結果都匯入此處
+  const stream = new EventEmitter();
+  const forward = (event: TaskEvent) => stream.emit("event", event);
+  const channel = userChannel(userId);
+
+  // 先開始監聽，避免在讀取快照期間漏掉事件
+  bus.on(channel, forward);
+  const events = on(stream, "event", { signal });
+
+  // 各任務最後送出的狀態（去除重複事件）
+  const sent = new Map<string, string>();
+  const markSent = (event: TaskEvent): boolean => {
+    const key = eventKey(event);
+    const serialized = JSON.stringify(event);
+    if (sent.get(key) === serialized) return false;
+    // 已結束的任務不再追蹤
+    if (isFinalEvent(event)) {
+      sent.delete(key);
+    } else {
+      sent.set(key, serialized);
+    }
+    return true;
+  };
+
+  let closed = false;
+  let pollTimer: NodeJS.Timeout | undefined;
+  const schedulePoll = () => {
+    if (closed || ENV.taskEventPollIntervalMs <= 0) return;
+    pollTimer = setTimeout(async () => {
+      try {
+        // 沒有追蹤中的任務時不查詢資料庫（新任務建立後由即時事件開始追蹤）
+        if (sent.size > 0) {
+          (await loadTaskSnapshot(userId, sent)).forEach(forward);
+        }
+      } catch (error) {
+        console.warn(`[TaskEvents] Failed to poll tasks for user ${userId}:`, error instanceof Error ? error.message : error);
+      }
+      schedulePoll();
+    }, ENV.taskEventPollIntervalMs);
+  };
+
+  try {
+    for (const event of await loadTaskSnapshot(userId, sent)) {
+      if (markSent(event)) yield event;
+    }
+    schedulePoll();
+
+    for await (const [event] of events) {
+      if (markSent(event as TaskEvent)) yield event as TaskEvent;
+    }
+  } catch (error) {
+    // 用戶端斷線時 signal 會中止監聽
+    if (signal?.aborted) return;
+    throw error;
+  } finally {
+    closed = true;
+    clearTimeout(pollTimer);
+    bus.off(channel, forward);
+    await events.return?.();
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * 逐句時間軸服務
+ * 記錄每句台詞在最終 Podcast 音檔中的起訖時間，讓精華片段可以依句子邊界精確剪輯
+ *
+ * 時間軸來源：
+ * - 逐句合成的供應商（本機引擎）：直接累加每句的實際長度
+ * - 其他供應商（ListenHub）：轉錄主音訊取得逐字時間，再把腳本對齊到轉錄結果
+ */
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import type { TtsLineTiming, TtsScriptLine } from "./ttsService";
+
+const execFileAsync = promisify(execFile);
+const FFMPEG_PATH = ffmpegInstaller.path;
+
+export interface TimedWord {
+  start: number; // 秒
+  end: number; // 秒
+  text: string;
+}
+
+// 對齊時忽略空白與標點（轉錄結果的標點與腳本不一定一致）
+const IGNORED_CHARS = /[\s，。！？、；：「」『』（）《》〈〉【】…—～·,.!?;:'"()\[\]{}<>\-~`*_/\\]/g;
+
+function normalizeForAlignment(text: string): string {
+  return text.replace(IGNORED_CHARS, "").toLowerCase();
+}
+
+const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+/**
+ * 依每句的實際長度建立時間軸
+ */
+export function buildTimelineFromDurations(
+  lines: TtsScriptLine[],
+  durations: number[],
+  offset = 0
+): TtsLineTiming[] {
+  if (lines.length !== durations.length) {
+    throw new Error(`Timeline mismatch: ${lines.length} lines but ${durations.length} durations`);
+  }
+
+  let cursor = offset;
+  return lines.map((line, index) => {
+    const startTime = cursor;
+    cursor += durations[index];
+    return { ...line, startTime: round(startTime), endTime: round(cursor) };
+  });
+}
+
+/**
+ * 將腳本對齊到轉錄的逐字時間
+ * 以去除標點後的字元位置按比例對應，每句的起點取落點所在字詞的開始時間，
+ * 因此時間軸一定落在字詞邊界上
+ */
+export function alignScriptToWords(lines: TtsScriptLine[], words: TimedWord[]): TtsLineTiming[] {
+  const spokenWords = words.filter(word => normalizeForAlignment(word.text).length > 0);
+  if (lines.length === 0 || spokenWords.length === 0) {
+    return [];
+  }
+
+  // 每句在腳本中的起始字元位置
+  const lineStarts: number[] = [];
+  let scriptLength = 0;
+  for (const line of lines) {
+    lineStarts.push(scriptLength);
+    scriptLength += normalizeForAlignment(line.content).length;
+  }
+
+  // 每個字詞在轉錄中的起始字元位置
+  const wordStarts: number[] = [];
+  let transcriptLength = 0;
+  for (const word of spokenWords) {
+    wordStarts.push(transcriptLength);
+    transcriptLength += normalizeForAlignment(word.text).length;
+  }
+
+  if (scriptLength === 0) {
+    return [];
+  }
+
+  const ratio = transcriptLength / scriptLength;
+  const findWordIndex = (charPosition: number): number => {
+    let index = 0;
+    while (index + 1 < wordStarts.length && wordStarts[index + 1] <= charPosition) {
+      index++;
+    }
+    return index;
+  };
+
+  const startWordIndexes = lineStarts.map(position => findWordIndex(position * ratio));
+  const lastWord = spokenWords[spokenWords.length - 1];
+
+  return lines.map((line, index) => {
+    const startWord = startWordIndexes[index];
+    const nextStartWord = index + 1 < lines.length ? startWordIndexes[index + 1] : spokenWords.length;
+    const startTime = spokenWords[startWord].start;
+    // 結束於本句最後一個字詞（下一句起點前），避免把換人說話前的停頓算進來
+    const endWord = spokenWords[Math.max(startWord, nextStartWord - 1)] || lastWord;
+    const endTime = Math.max(startTime, endWord.end);
+    return { ...line, startTime: round(startTime), endTime: round(endTime) };
+  });
+}
+
+/**
+ * 轉錄音訊並將腳本對齊，取得逐句時間軸
+ */
+export async function alignScriptToAudio(
+  audioUrl: string,
+  lines: TtsScriptLine[],
+  language = "zh"
+): Promise<TtsLineTiming[]> {
+  const { transcribeAudio } = await import("../_core/voiceTranscription");
+  const result = await transcribeAudio({ audioUrl, language });
+
+  if ("error" in result) {
+    const errorDetails = result.details ? `: ${result.details}` : "";
+    throw new Error(`${result.error}${errorDetails}`);
+  }
+
+  const timeline = alignScriptToWords(lines, result.segments);
+  if (timeline.length === 0) {
+    throw new Error("Transcription returned no timed words to align");
+  }
+
+  console.log(`[Timeline] Aligned ${timeline.length} lines to ${result.segments.length} transcribed segments`);
+  return timeline;
+}
+
+/**
+ * 將時間軸整體平移（例如主要內容前面合併了開場音訊，或後製裁掉了開頭靜音）
+ */
+export function offsetTimeline(timeline: TtsLineTiming[], seconds: number): TtsLineTiming[] {
+  if (!seconds) return timeline;
+  return timeline.map(line => ({
+    ...line,
+    // 後製裁掉開頭靜音時位移可能為負值
+    startTime: round(Math.max(0, line.startTime + seconds)),
+    endTime: round(Math.max(0, line.endTime + seconds)),
+  }));
+}
+
+// 讀取音訊資訊的時限（遠端網址無回應時避免卡住任務或發佈）
+const PROBE_TIMEOUT_MS = 60_000;
+
+/**
+ * 讀取音訊長度（秒），使用 FFmpeg 輸出的 Duration 資訊
+ */
+export async function getAudioDuration(audioUrl: string): Promise<number> {
+  let stderr = "";
+  try {
+    // 沒有指定輸出檔時 FFmpeg 會以非零狀態結束，但仍會印出輸入資訊
+    await execFileAsync(FFMPEG_PATH, ["-hide_banner", "-i", audioUrl], { timeout: PROBE_TIMEOUT_MS });
+  } catch (error) {
+    stderr = (error as { stderr?: string }).stderr || "";
+  }
+
+  const match = stderr.match(/Duration: (\d+):(\d+):(\d+(?:\.\d+)?)/);
+  if (!match) {
+    throw new Error(`Unable to read audio duration: ${audioUrl}`);
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+/**
+ * 解析儲存的時間軸 JSON（格式不正確時回傳 null，呼叫端改用估算）
+ */
+export function parseTimeline(json: string | null | undefined): TtsLineTiming[] | null {
+  if (!json) return null;
+  try {
+    const timeline = JSON.parse(json);
+    return Array.isArray(timeline) && timeline.length > 0 ? timeline as TtsLineTiming[] : null;
+  } catch {
+    return null;
+  }
+}
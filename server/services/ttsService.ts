@@ -0,0 +1,136 @@
+/**
+ * TTS 供應商抽象層
+ * 統一「聲音列表、單句合成、多人腳本合成」介面，每個任務可選擇 ListenHub 或本機離線引擎
+ */
+
+import { ENV } from "../_core/env";
+
+export const TTS_PROVIDER_IDS = ["listenhub", "local"] as const;
+export type TtsProviderId = (typeof TTS_PROVIDER_IDS)[number];
+
+/**
+ * 聲音資訊（欄位與 ListenHubSpeaker 相容，前端可共用）
+ */
+export interface TtsVoice {
+  speakerId: string;
+  name: string;
+  gender?: "male" | "female";
+  language: string;
+  demoAudioUrl?: string;
+  provider: TtsProviderId;
+}
+
+/**
+ * 多人腳本中的一句台詞
+ */
+export interface TtsScriptLine {
+  speakerId: string;
+  speakerName?: string;
+  content: string;
+}
+
+/**
+ * 台詞在音訊中的實際時間（秒）
+ */
+export interface TtsLineTiming extends TtsScriptLine {
+  startTime: number;
+  endTime: number;
+}
+
+export interface TtsAudioResult {
+  audioUrl: string;
+  audioKey?: string; // 音檔存放在本服務儲存空間時的路徑（可重新簽發網址）
+  durationSeconds?: number;
+}
+
+export interface TtsScriptResult extends TtsAudioResult {
+  episodeId?: string;
+  title?: string;
+  scripts?: TtsScriptLine[];
+  /** 逐句時間軸（逐句合成的供應商才有，其餘由 timelineService 對齊取得） */
+  timeline?: TtsLineTiming[];
+}
+
+export interface TtsSynthesisOptions {
+  /** 聲音語言代碼（zh、en、ja…，對應 OUTPUT_LANGUAGE_INFO 的 ttsLanguage） */
+  language?: string;
+}
+
+export interface TtsContentOptions extends TtsSynthesisOptions {
+  mode?: "quick" | "medium" | "deep";
+  /** 節目風格的對話要求（供應商自行撰寫對話時使用） */
+  styleInstructions?: string;
+  /** 供應商端建立工作後立即呼叫（用於儲存檢查點） */
+  onEpisodeCreated?: (episodeId: string) => Promise<void>;
+}
+
+export interface TtsProvider {
+  readonly id: TtsProviderId;
+  readonly name: string;
+  /** 列出可用聲音 */
+  listVoices(language?: string): Promise<TtsVoice[]>;
+  /** 合成單一句子（開場、結尾、旁白） */
+  synthesizeUtterance(text: string, speakerId: string, options?: TtsSynthesisOptions): Promise<TtsAudioResult>;
+  /** 依腳本逐句合成多人對話 */
+  synthesizeScript(lines: TtsScriptLine[], options?: TtsSynthesisOptions): Promise<TtsScriptResult>;
+  /**
+   * 由供應商依內容自行撰寫對話並合成（ListenHub 原生功能）
+   * 未實作的供應商由呼叫端先產生腳本，再呼叫 synthesizeScript
+   */
+  synthesizeFromContent?(content: string, speakerIds: string[], options?: TtsContentOptions): Promise<TtsScriptResult>;
+}
+
+// 延遲載入各供應商，避免未使用的引擎在啟動時就檢查 CLI / API Key
+const PROVIDER_LOADERS: Record<TtsProviderId, () => Promise<TtsProvider>> = {
+  listenhub: async () => (await import("./listenHubTtsProvider")).listenHubTtsProvider,
+  local: async () => (await import("./localTtsProvider")).localTtsProvider,
+};
+
+export function isTtsProviderId(value: unknown): value is TtsProviderId {
+  return typeof value === "string" && (TTS_PROVIDER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * 取得 TTS 供應商（未指定時使用 TTS_DEFAULT_PROVIDER，預設 ListenHub）
+ */
+export async function getTtsProvider(id?: TtsProviderId): Promise<TtsProvider> {
+  const providerId = id || (isTtsProviderId(ENV.ttsDefaultProvider) ? ENV.ttsDefaultProvider : "listenhub");
+  return PROVIDER_LOADERS[providerId]();
+}
+
+/**
+ * 未指定聲音時為每位主持人選擇預設聲音（男女交替，盡量不重複）
+ */
+export async function selectDefaultVoices(
+  provider: TtsProvider,
+  count: number,
+  language = "zh"
+): Promise<string[]> {
+  const voices = await provider.listVoices(language);
+  if (voices.length === 0) {
+    throw new Error(`No ${provider.name} voices available for language "${language}"`);
+  }
+
+  const pools = [
+    voices.filter(voice => voice.gender === "male"),
+    voices.filter(voice => voice.gender === "female"),
+  ];
+  const picked: string[] = [];
+  for (let index = 0; index < count; index++) {
+    const unused = (candidates: TtsVoice[]) => candidates.find(voice => !picked.includes(voice.speakerId));
+    const voice = unused(pools[index % 2]) || unused(voices) || voices[index % voices.length];
+    picked.push(voice.speakerId);
+  }
+  return picked;
+}
+
+/**
+ * 未指定聲音時選擇預設主持人聲音（優先一男一女）
+ */
+export async function selectDefaultSpeakers(
+  provider: TtsProvider,
+  language = "zh"
+): Promise<{ host1: string; host2: string }> {
+  const [host1, host2] = await selectDefaultVoices(provider, 2, language);
+  return { host1, host2 };
+}
@@ -0,0 +1,249 @@
+/**
+ * 分塊上傳服務
+ * 大型錄音檔分塊上傳到暫存目錄（可中斷續傳），全部收齊後轉為 MP3 並透過 storagePut 上傳
+ * 文件（PDF / DOCX / EPUB / Markdown）使用相同的上傳流程，但保留原檔
+ */
+
+import crypto from "crypto";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import * as fs from "fs/promises";
+import * as path from "path";
+import ffmpegInstaller from "@ffmpeg-installer/ffmpeg";
+import { UPLOAD_CHUNK_SIZE, getDocumentExtension, type DocumentExtension } from "@shared/upload";
+import { storageGet, storagePut } from "../storage";
+import type { AnalysisOptions } from "./summarizationService";
+
+const execFileAsync = promisify(execFile);
+const FFMPEG_PATH = ffmpegInstaller.path;
+
+// 暫存目錄（分塊只存在處理上傳的實例上，多實例部署需讓同一使用者連到同一實例或共用此目錄）
+const UPLOAD_TEMP_DIR = path.join("/tmp", "podcast-uploads");
+// 未完成的上傳保留時間
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+const DOCUMENT_CONTENT_TYPES: Record<DocumentExtension, string> = {
+  pdf: "application/pdf",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  epub: "application/epub+zip",
+  md: "text/markdown",
+  markdown: "text/markdown",
+};
+
+export interface UploadSession {
+  uploadId: string;
+  userId: number;
+  fileName: string;
+  size: number;
+  totalChunks: number;
+  createdAt: number;
+}
+
+function getSessionDir(uploadId: string): string {
+  return path.join(UPLOAD_TEMP_DIR, uploadId);
+}
+
+/**
+ * 上傳後的儲存路徑前綴（建立任務時用來確認檔案屬於該使用者）
+ */
+export function getUploadKeyPrefix(userId: number): string {
+  return `uploads/${userId}/`;
+}
+
+/**
+ * 從儲存路徑取回原始檔名（不含副檔名，作為預設標題）
+ */
+export function getUploadTitle(fileKey: string): string {
+  const fileName = fileKey.split("/").pop() || fileKey;
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+/**
+ * 清除過期的上傳暫存
+ */
+async function cleanupExpiredSessions(): Promise<void> {
+  const entries = await fs.readdir(UPLOAD_TEMP_DIR).catch(() => [] as string[]);
+  for (const entry of entries) {
+    const dir = path.join(UPLOAD_TEMP_DIR, entry);
+    const stat = await fs.stat(dir).catch(() => null);
+    if (stat && Date.now() - stat.mtimeMs > SESSION_TTL_MS) {
+      await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * 建立上傳工作階段
+ */
+export async function createUploadSession(userId: number, fileName: string, size: number): Promise<UploadSession> {
+  await cleanupExpiredSessions();
+
+  const session: UploadSession = {
+    uploadId: crypto.randomBytes(16).toString("hex"),
+    userId,
+    fileName,
+    size,
+    totalChunks: Math.max(1, Math.ceil(size / UPLOAD_CHUNK_SIZE)),
+    createdAt: Date.now(),
+  };
+
+  const dir = getSessionDir(session.uploadId);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(path.join(dir, "session.json"), JSON.stringify(session));
+
+  console.log(`[Upload] Session ${session.uploadId} created: ${fileName} (${(size / 1024 / 1024).toFixed(2)}MB, ${session.totalChunks} chunks)`);
+  return session;
+}
+
+/**
+ * 讀取上傳工作階段（不存在、已過期或不屬於該使用者時回傳 undefined）
+ */
+export async function getUploadSession(uploadId: string, userId: number): Promise<UploadSession | undefined> {
+  // uploadId 會組成路徑，只接受 createUploadSession 產生的格式
+  if (!/^[0-9a-f]{32}$/.test(uploadId)) {
+    return undefined;
+  }
+
+  try {
+    const session: UploadSession = JSON.parse(await fs.readFile(path.join(getSessionDir(uploadId), "session.json"), "utf-8"));
+    return session.userId === userId ? session : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 列出已收到的分塊（續傳時跳過）
+ */
+export async function listReceivedChunks(session: UploadSession): Promise<number[]> {
+  const entries = await fs.readdir(getSessionDir(session.uploadId)).catch(() => [] as string[]);
+  return entries
+    .map(entry => entry.match(/^(\d+)\.part$/))
+    .filter((match): match is RegExpMatchArray => !!match)
+    .map(match => Number(match[1]))
+    .sort((a, b) => a - b);
+}
+
+/**
+ * 儲存單一分塊（重送同一分塊會覆寫）
+ */
+export async function saveUploadChunk(session: UploadSession, index: number, data: Buffer): Promise<void> {
+  const isLast = index === session.totalChunks - 1;
+  const expectedSize = isLast ? session.size - UPLOAD_CHUNK_SIZE * (session.totalChunks - 1) : UPLOAD_CHUNK_SIZE;
+  if (data.length !== expectedSize) {
+    throw new Error(`分塊 ${index} 大小不正確（預期 ${expectedSize} bytes，收到 ${data.length} bytes）`);
+  }
+
+  // 先寫入暫存檔再改名，避免中斷時留下不完整的分塊
+  const dir = getSessionDir(session.uploadId);
+  const tempPath = path.join(dir, `${index}.tmp`);
+  await fs.writeFile(tempPath, data);
+  await fs.rename(tempPath, path.join(dir, `${index}.part`));
+}
+
+/**
+ * 合併分塊、轉為 MP3（文件保留原檔）並上傳到儲存空間
+ * @returns 儲存路徑與網址
+ */
+export async function completeUpload(session: UploadSession): Promise<{ fileKey: string; url: string; sizeMB: number }> {
+  const received = await listReceivedChunks(session);
+  if (received.length !== session.totalChunks) {
+    throw new Error(`檔案尚未上傳完成（${received.length}/${session.totalChunks}）`);
+  }
+
+  const dir = getSessionDir(session.uploadId);
+  const extension = path.extname(session.fileName).toLowerCase() || ".bin";
+  const sourcePath = path.join(dir, `source${extension}`);
+  const outputPath = path.join(dir, "output.mp3");
+
+  try {
+    // 依序合併分塊
+    await fs.writeFile(sourcePath, Buffer.alloc(0));
+    for (let index = 0; index < session.totalChunks; index++) {
+      await fs.appendFile(sourcePath, await fs.readFile(path.join(dir, `${index}.part`)));
+    }
+
+    const baseName = path.basename(session.fileName, path.extname(session.fileName)).replace(/[\\/\x00-\x1f]/g, "_").trim() || "upload";
+
+    // 文件保留原檔，建立任務時再擷取文字
+    const documentExtension = getDocumentExtension(session.fileName);
+    if (documentExtension) {
+      const documentBuffer = await fs.readFile(sourcePath);
+      const fileKey = `${getUploadKeyPrefix(session.userId)}${session.uploadId}/${baseName}.${documentExtension}`;
+      const { key, url } = await storagePut(fileKey, documentBuffer, DOCUMENT_CONTENT_TYPES[documentExtension]);
+
+      const sizeMB = documentBuffer.length / (1024 * 1024);
+      console.log(`[Upload] Session ${session.uploadId} completed: ${key} (${sizeMB.toFixed(2)}MB)`);
+      await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+      return { fileKey: key, url, sizeMB };
+    }
+
+    // 統一轉為 MP3（影片只保留音軌，精華片段剪輯與轉錄都使用此音檔）
+    try {
+      await execFileAsync(FFMPEG_PATH, [
+        "-i", sourcePath,
+        "-vn",
+        "-acodec", "libmp3lame",
+        "-b:a", "128k",
+        outputPath,
+        "-y",
+      ], { maxBuffer: 1024 * 1024 * 10 });
+    } catch (error: any) {
+      throw new Error(`無法讀取音訊，請確認檔案格式是否正確: ${error?.message || error}`);
+    }
+
+    const audioBuffer = await fs.readFile(outputPath);
+    const fileKey = `${getUploadKeyPrefix(session.userId)}${session.uploadId}/${baseName}.mp3`;
+    const { key, url } = await storagePut(fileKey, audioBuffer, "audio/mpeg");
+
+    const sizeMB = audioBuffer.length / (1024 * 1024);
+    console.log(`[Upload] Session ${session.uploadId} completed: ${key} (${sizeMB.toFixed(2)}MB)`);
+    await fs.rm(dir, { recursive: true, force: true }).catch(() => {});
+    return { fileKey: key, url, sizeMB };
+  } finally {
+    // 失敗時保留分塊，可直接再次呼叫完成上傳
+    await fs.rm(sourcePath, { force: true }).catch(() => {});
+    await fs.rm(outputPath, { force: true }).catch(() => {});
+  }
+}
+
+/**
+ * 處理上傳的錄音檔：轉錄後分析內容並產生 Podcast 腳本
+ */
+export async function processUploadToPodcast(fileKey: string, options: AnalysisOptions = {}): Promise<{
+  transcription: string;
+  summary: string;
+  podcastScript: string;
+  language: string;
+  duration: number;
+  audioUrl: string;
+  audioFileKey: string;
+  title: string;
+}> {
+  const { transcribeAudio } = await import("../_core/voiceTranscription");
+  const { analyzePodcastContent } = await import("../youtubeService");
+
+  const { url: audioUrl } = await storageGet(fileKey);
+  console.log(`[Upload] 開始轉錄上傳的檔案: ${fileKey}`);
+
+  // 上傳的錄音語言未知，由轉錄服務自動偵測
+  const result = await transcribeAudio({ audioUrl, vocabulary: options.vocabulary });
+  if ("error" in result) {
+    const errorDetails = result.details ? `: ${result.details}` : "";
+    throw new Error(`無法轉錄上傳的檔案: ${result.error}${errorDetails}`);
+  }
+  console.log(`[Upload] 轉錄完成，文字長度: ${result.text.length} 字元`);
+
+  const analysisResult = await analyzePodcastContent(result.text, options, result.segments);
+
+  return {
+    transcription: result.text,
+    summary: analysisResult.summary,
+    podcastScript: analysisResult.podcastScript,
+    language: result.language,
+    duration: result.duration,
+    audioUrl,
+    audioFileKey: fileKey,
+    title: getUploadTitle(fileKey),
+  };
+}
@@ -5,6 +5,12 @@
 
 import ytdl from "@distube/ytdl-core";
 import { isValidYoutubeUrl } from "../youtubeService";
+import { formatDuration } from "./templateService";
+
+// 音訊轉錄的檔案大小上限（MB）
+const TRANSCRIPTION_LIMIT_MB = 16;
+// 估算下載音檔大小使用的位元率（kbps）
+const ESTIMATED_AUDIO_KBPS = 128;
 
 export interface YoutubeVideoInfo {
   videoId: string;
@@ -15,6 +21,10 @@ export interface YoutubeVideoInfo {
   author: string;
   viewCount: number;
   publishDate: string;
+  durationFormatted: string;
+  estimatedSizeMB: number;
+  hasCaptions: boolean; // 有字幕時直接使用字幕，不需下載音訊轉錄
+  willExceedLimit: boolean;
 }
 
 /**
@@ -30,17 +40,25 @@ export async function getYoutubeVideoInfo(
   try {
     const videoInfo = await ytdl.getInfo(youtubeUrl);
     const details = videoInfo.videoDetails;
+    const duration = parseInt(details.lengthSeconds || "0", 10);
+    const estimatedSizeMB = Math.round((duration * ESTIMATED_AUDIO_KBPS) / 8 / 1024 * 10) / 10;
+    const hasCaptions =
+      (videoInfo.player_response?.captions?.playerCaptionsTracklistRenderer?.captionTracks?.length ?? 0) > 0;
 
     return {
       videoId: details.videoId,
       title: details.title,
       description: details.description || "",
-      duration: parseInt(details.lengthSeconds || "0", 10),
+      duration,
       thumbnail:
         details.thumbnails?.[details.thumbnails.length - 1]?.url || "",
       author: details.author?.name || "",
       viewCount: parseInt(details.viewCount || "0", 10),
       publishDate: details.publishDate || "",
+      durationFormatted: formatDuration(duration),
+      estimatedSizeMB,
+      hasCaptions,
+      willExceedLimit: !hasCaptions && estimatedSizeMB > TRANSCRIPTION_LIMIT_MB,
     };
   } catch (error: any) {
     console.error(`[VideoInfoService] 獲取影片資訊失敗:`, error);
@@ -0,0 +1,124 @@
+import { describe, expect, it, vi } from "vitest";
+import type { SourceSubscription } from "../drizzle/schema";
+import * as db from "./db";
+import * as jobQueue from "./services/jobQueueService";
+import { checkSubscription, detectSourceType, parseFeedXml } from "./services/subscriptionService";
+
+vi.mock("./db", () => ({
+  createPodcastTask: vi.fn(),
+  getPreferredVoiceIds: vi.fn(),
+  getRecordedSubscriptionItemKeys: vi.fn(),
+  getVoicePreference: vi.fn(),
+  recordSubscriptionItem: vi.fn(),
+  updateSubscription: vi.fn(),
+}));
+
+vi.mock("./services/jobQueueService", () => ({
+  enqueueJob: vi.fn(),
+}));
+
+describe("parseFeedXml", () => {
+  it("should parse RSS 2.0 items", () => {
+    const feed = parseFeedXml(`<?xml version="1.0"?>
+      <rss version="2.0"><channel>
+        <title>Team Blog</title>
+        <atom:link href="https://example.com/feed.xml" rel="self"/>
+        <item>
+          <title><![CDATA[Release notes & roadmap]]></title>
+          <link>https://example.com/posts/1</link>
+          <guid isPermaLink="false">post-1</guid>
+          <pubDate>Mon, 19 Oct 2026 08:00:00 GMT</pubDate>
+        </item>
+        <item><title>Tom &amp; Jerry</title><link>https://example.com/posts/2</link></item>
+      </channel></rss>`);
+
+    expect(feed?.title).toBe("Team Blog");
+    expect(feed?.entries).toEqual([
+      { title: "Release notes & roadmap", link: "https://example.com/posts/1", guid: "post-1", publishedAt: "Mon, 19 Oct 2026 08:00:00 GMT" },
+      { title: "Tom & Jerry", link: "https://example.com/posts/2", guid: undefined, publishedAt: undefined },
+    ]);
+  });
+
+  it("should parse Atom entries such as YouTube channel feeds", () => {
+    const feed = parseFeedXml(`<feed xmlns="http://www.w3.org/2005/Atom" xmlns:yt="http://www.youtube.com/xml/schemas/2015">
+      <title>Some Channel</title>
+      <entry>
+        <id>yt:video:dQw4w9WgXcQ</id>
+        <title>New upload</title>
+        <link rel="alternate" href="https://www.youtube.com/watch?v=dQw4w9WgXcQ"/>
+        <published>2026-10-18T10:00:00+00:00</published>
+      </entry>
+    </feed>`);
+
+    expect(feed?.title).toBe("Some Channel");
+    expect(feed?.entries[0]).toMatchObject({
+      title: "New upload",
+      link: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+      guid: "yt:video:dQw4w9WgXcQ",
+    });
+  });
+
+  it("should reject non-feed documents", () => {
+    expect(parseFeedXml("<html><body>hello</body></html>")).toBeNull();
+  });
+});
+
+describe("detectSourceType", () => {
+  it("should treat YouTube channels as youtube sources and everything else as RSS", () => {
+    expect(detectSourceType("https://www.youtube.com/@someone")).toEqual({
+      sourceType: "youtube",
+      sourceUrl: "https://www.youtube.com/@someone/videos",
+    });
+    expect(detectSourceType(" https://example.com/feed.xml ").sourceType).toBe("rss");
+  });
+});
+
+describe("checkSubscription", () => {
+  const subscription = {
+    id: 3,
+    userId: 1,
+    sourceType: "rss",
+    sourceUrl: "https://example.com/feed.xml",
+    mode: "quick",
+    style: "casual",
+    outputLanguage: "en",
+    introText: null,
+    outroText: null,
+  } as SourceSubscription;
+
+  const FEED = `<rss version="2.0"><channel><title>Team Blog</title>
+    <item><title>New</title><link>https://example.com/posts/2</link><guid>post-2</guid></item>
+    <item><title>Old</title><link>https://example.com/posts/1</link><guid>post-1</guid></item>
+  </channel></rss>`;
+
+  it("should record items only after their task is queued, with the subscription language and preferred hosts", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(FEED)));
+    vi.mocked(db.getRecordedSubscriptionItemKeys).mockResolvedValue(new Set(["post-1"]));
+    vi.mocked(db.getVoicePreference).mockResolvedValue({ userId: 1 } as any);
+    vi.mocked(db.getPreferredVoiceIds).mockReturnValue(["v1", "v2", "v3"]);
+    vi.mocked(db.createPodcastTask).mockResolvedValue(11);
+
+    expect(await checkSubscription(subscription)).toBe(1);
+
+    expect(db.createPodcastTask).toHaveBeenCalledWith(expect.objectContaining({ outputLanguage: "en", title: "New" }));
+    expect(jobQueue.enqueueJob).toHaveBeenCalledWith("podcast", 11, expect.objectContaining({
+      inputContent: "https://example.com/posts/2",
+      outputLanguage: "en",
+      hosts: [{ name: "主持人 A" }, { name: "主持人 B" }, { name: "主持人 C" }],
+    }));
+    expect(db.recordSubscriptionItem).toHaveBeenCalledWith(expect.objectContaining({ itemKey: "post-2", taskId: 11 }));
+    expect(vi.mocked(jobQueue.enqueueJob).mock.invocationCallOrder[0])
+      .toBeLessThan(vi.mocked(db.recordSubscriptionItem).mock.invocationCallOrder[0]);
+  });
+
+  it("should leave the item unrecorded when the task cannot be created", async () => {
+    vi.clearAllMocks();
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(FEED)));
+    vi.mocked(db.getRecordedSubscriptionItemKeys).mockResolvedValue(new Set(["post-1"]));
+    vi.mocked(db.getPreferredVoiceIds).mockReturnValue([]);
+    vi.mocked(db.createPodcastTask).mockRejectedValue(new Error("Database not available"));
+
+    await expect(checkSubscription(subscription)).rejects.toThrow("Database not available");
+    expect(db.recordSubscriptionItem).not.toHaveBeenCalled();
+  });
+});
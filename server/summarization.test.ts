@@ -0,0 +1,131 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import * as llm from "./_core/llm";
+import {
+  SINGLE_PASS_MAX_CHARS,
+  condenseTranscript,
+  estimateSectionCount,
+  formatTimestamp,
+  limitSummaryLength,
+  splitTranscript,
+  summaryTarget,
+} from "./services/summarizationService";
+
+vi.mock("./_core/llm", () => ({
+  invokeLLM: vi.fn(),
+}));
+
+function llmReply(content: string) {
+  return { choices: [{ message: { content } }] } as any;
+}
+
+describe("splitTranscript", () => {
+  it("should group segments without splitting them and keep time ranges", () => {
+    const segments = Array.from({ length: 10 }, (_, i) => ({
+      start: i * 60,
+      end: (i + 1) * 60,
+      text: "字".repeat(30),
+    }));
+
+    const chunks = splitTranscript("", segments, 100);
+    expect(chunks).toHaveLength(4);
+    expect(chunks.map(chunk => [chunk.start, chunk.end])).toEqual([
+      [0, 180],
+      [180, 360],
+      [360, 540],
+      [540, 600],
+    ]);
+    expect(chunks.every(chunk => chunk.text.length <= 100)).toBe(true);
+  });
+
+  it("should split plain text at sentence boundaries", () => {
+    const sentence = "這是一個完整的句子。";
+    const chunks = splitTranscript(sentence.repeat(30), undefined, 100);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.text.endsWith("。"))).toBe(true);
+    expect(chunks.map(chunk => chunk.text).join("")).toBe(sentence.repeat(30));
+  });
+
+  it("should hard-split text without punctuation", () => {
+    const chunks = splitTranscript("a".repeat(250), undefined, 100);
+    expect(chunks.map(chunk => chunk.text.length)).toEqual([100, 100, 50]);
+  });
+});
+
+describe("limitSummaryLength", () => {
+  it("should keep short summaries and cut long ones at a sentence end", () => {
+    expect(limitSummaryLength("短摘要。", "quick")).toBe("短摘要。");
+
+    const summary = "重點說明在這裡。".repeat(100);
+    const quick = limitSummaryLength(summary, "quick");
+    const deep = limitSummaryLength(summary, "deep");
+    expect(quick.length).toBeLessThanOrEqual(500);
+    expect(quick.endsWith("。")).toBe(true);
+    expect(deep.length).toBeGreaterThan(quick.length);
+  });
+
+  it("should allow longer summaries for long sources, up to a bound", () => {
+    const summary = "重點說明在這裡。".repeat(1000);
+    const short = limitSummaryLength(summary, "deep", estimateSectionCount(5000));
+    const long = limitSummaryLength(summary, "deep", estimateSectionCount(60000));
+    const veryLong = limitSummaryLength(summary, "deep", estimateSectionCount(600000));
+
+    expect(short.length).toBeLessThanOrEqual(2000);
+    expect(long.length).toBeGreaterThan(short.length);
+    expect(veryLong.length).toBeLessThanOrEqual(6000);
+    expect(summaryTarget("deep", estimateSectionCount(600000))).toBe("3000-5400");
+  });
+});
+
+describe("formatTimestamp", () => {
+  it("should format minutes and hours", () => {
+    expect(formatTimestamp(75)).toBe("01:15");
+    expect(formatTimestamp(3725)).toBe("1:02:05");
+  });
+});
+
+describe("condenseTranscript", () => {
+  beforeEach(() => {
+    vi.mocked(llm.invokeLLM).mockReset();
+  });
+
+  it("should return short transcripts unchanged", async () => {
+    const result = await condenseTranscript("簡短的逐字稿");
+    expect(result).toEqual({ content: "簡短的逐字稿", sectionCount: 0 });
+    expect(llm.invokeLLM).not.toHaveBeenCalled();
+  });
+
+  it("should summarize every section of a long transcript in order", async () => {
+    // 模擬兩小時的轉錄：每分鐘一個片段
+    const segments = Array.from({ length: 120 }, (_, i) => ({
+      start: i * 60,
+      end: (i + 1) * 60,
+      text: `第${i}分鐘的內容。`.padEnd(300, "講"),
+    }));
+    const text = segments.map(segment => segment.text).join(" ");
+    vi.mocked(llm.invokeLLM).mockImplementation(async (params: any) => {
+      const match = params.messages[1].content.match(/^第 (\d+)\/(\d+) 段/);
+      return llmReply(`段落 ${match[1]}\n- 重點 ${match[1]}`);
+    });
+
+    const result = await condenseTranscript(text, segments);
+
+    const calls = vi.mocked(llm.invokeLLM).mock.calls.length;
+    expect(calls).toBe(result.sectionCount);
+    expect(result.sectionCount).toBeGreaterThan(1);
+    expect(result.content.length).toBeLessThanOrEqual(SINGLE_PASS_MAX_CHARS);
+    expect(result.content.startsWith("## 段落 1（00:00-")).toBe(true);
+    expect(result.content).toContain(`## 段落 ${result.sectionCount}（`);
+    expect(result.content).toContain("2:00:00）");
+  });
+
+  it("should write section notes in the requested output language", async () => {
+    vi.mocked(llm.invokeLLM).mockResolvedValue(llmReply("Section\n- point"));
+
+    await condenseTranscript("Sentence. ".repeat(1200), undefined, "en");
+
+    const systemPrompt = vi.mocked(llm.invokeLLM).mock.calls[0][0].messages[0].content;
+    expect(systemPrompt).toContain("英文（English）");
+    expect(systemPrompt).not.toContain("繁體中文");
+  });
+});
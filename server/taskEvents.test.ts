@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { PodcastTask } from "../drizzle/schema";
+import * as db from "./db";
+import { publishTaskEvent, streamTaskEvents, type TaskEvent } from "./services/taskEventService";
+import { ENV } from "./_core/env";
+
+vi.mock("./db", () => ({
+  getUserPodcastTaskProgress: vi.fn(),
+  getUserActiveAvatarVideoTasks: vi.fn(),
+  getAvatarVideoTask: vi.fn(),
+}));
+
+function makeTask(overrides: Partial<PodcastTask>): PodcastTask {
+  return {
+    id: 1,
+    userId: 7,
+    status: "processing",
+    progressStage: "analyzing",
+    progressPercent: 40,
+    progressMessage: "分析內容中...",
+    estimatedTimeRemaining: null,
+    ...overrides,
+  } as PodcastTask;
+}
+
+async function take(stream: AsyncGenerator<TaskEvent>, count: number): Promise<TaskEvent[]> {
+  const events: TaskEvent[] = [];
+  while (events.length < count) {
+    const { value, done } = await stream.next();
+    if (done) break;
+    events.push(value);
+  }
+  return events;
+}
+
+describe("taskEventService", () => {
+  const originalInterval = ENV.taskEventPollIntervalMs;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(db.getUserActiveAvatarVideoTasks).mockResolvedValue([]);
+  });
+
+  afterEach(() => {
+    ENV.taskEventPollIntervalMs = originalInterval;
+  });
+
+  it("should replay every unfinished task on connect, including scripts awaiting review", async () => {
+    ENV.taskEventPollIntervalMs = 0;
+    vi.mocked(db.getUserPodcastTaskProgress).mockResolvedValue([
+      makeTask({ id: 1, status: "pending", progressStage: "queued" }),
+      makeTask({ id: 2, status: "awaiting_review", progressStage: "generating" }),
+    ]);
+
+    const controller = new AbortController();
+    const stream = streamTaskEvents(7, controller.signal);
+    const events = await take(stream, 2);
+    controller.abort();
+    await stream.return(undefined);
+
+    expect(events.map(event => [event.taskId, event.status])).toEqual([[1, "pending"], [2, "awaiting_review"]]);
+    expect(db.getUserPodcastTaskProgress).toHaveBeenCalledWith(7, ["pending", "processing", "awaiting_review"], []);
+  });
+
+  it("should not poll the database while no task is in progress", async () => {
+    ENV.taskEventPollIntervalMs = 5;
+    vi.mocked(db.getUserPodcastTaskProgress).mockResolvedValue([]);
+
+    const controller = new AbortController();
+    const stream = streamTaskEvents(7, controller.signal);
+    const next = stream.next();
+    await new Promise(resolve => setTimeout(resolve, 40));
+    controller.abort();
+    await next;
+    await stream.return(undefined);
+
+    // 只有連線時讀取一次快照
+    expect(db.getUserPodcastTaskProgress).toHaveBeenCalledTimes(1);
+  });
+
+  it("should pick up progress written by another instance through polling", async () => {
+    ENV.taskEventPollIntervalMs = 5;
+    vi.mocked(db.getUserPodcastTaskProgress)
+      .mockResolvedValueOnce([makeTask({ id: 1, progressPercent: 40 })])
+      .mockResolvedValueOnce([makeTask({ id: 1, progressPercent: 40 })])
+      .mockResolvedValue([makeTask({ id: 1, status: "completed", progressStage: "completed", progressPercent: 100 })]);
+
+    const controller = new AbortController();
+    const stream = streamTaskEvents(7, controller.signal);
+    const events = await take(stream, 2);
+    controller.abort();
+    await stream.return(undefined);
+
+    // 未變動的輪詢結果不會重複送出
+    expect(events.map(event => event.status)).toEqual(["processing", "completed"]);
+  });
+
+  it("should not repeat an in-process event that polling reads back", async () => {
+    ENV.taskEventPollIntervalMs = 5;
+    const task = makeTask({ id: 1, progressPercent: 60, progressMessage: "生成對話中..." });
+    vi.mocked(db.getUserPodcastTaskProgress).mockResolvedValueOnce([]).mockResolvedValue([task]);
+
+    const controller = new AbortController();
+    const stream = streamTaskEvents(7, controller.signal);
+    const first = stream.next();
+    await new Promise(resolve => setTimeout(resolve, 1));
+    publishTaskEvent(7, {
+      type: "podcast_progress",
+      taskId: 1,
+      status: "processing",
+      stage: "analyzing",
+      percent: 60,
+      message: "生成對話中...",
+      estimatedTimeRemaining: null,
+    });
+    expect((await first).value).toMatchObject({ taskId: 1, percent: 60 });
+
+    const next = stream.next();
+    const result = await Promise.race([next, new Promise(resolve => setTimeout(() => resolve("idle"), 40))]);
+    controller.abort();
+    await stream.return(undefined);
+
+    expect(result).toBe("idle");
+  });
+});
@@ -3,20 +3,49 @@
  * 將使用者輸入的文字轉換為 Podcast 所需的格式
  */
 
+import { formatLanguageInstruction, getOutputLanguageInfo } from "@shared/outputLanguage";
 import { invokeLLM } from "./_core/llm";
+import { condenseTranscript, estimateSectionCount, summaryTarget, type AnalysisOptions } from "./services/summarizationService";
+import { getCachedAnalysis, saveCachedAnalysis, textCacheSource } from "./services/contentCacheService";
 
 /**
  * 處理文字輸入，生成摘要和 Podcast 腳本
+ * 長篇文字會先分段整理重點，再依分段筆記生成摘要與腳本
+ * @param options.style 節目風格（決定摘要與對話的寫法，未指定時使用一般寫法）
+ * @param options.language 節目輸出語言（標題、摘要與腳本都使用此語言）
+ * @param cacheType 內容快取的來源類型（相同內容與參數重複提交時直接使用快取結果）
  */
-export async function processTextToPodcast(textContent: string) {
-  console.log(`[TextService] Processing text content (${textContent.length} characters)...`);
+export async function processTextToPodcast(
+  textContent: string,
+  options: AnalysisOptions = {},
+  cacheType: "text" | "article" = "text"
+) {
+  const { style, mode = "medium", language } = options;
+  const languageInstruction = formatLanguageInstruction(language);
+  console.log(`[TextService] Processing text content (${textContent.length} characters, output: ${getOutputLanguageInfo(language).label})...`);
+
+  const cacheSource = textCacheSource(cacheType, textContent);
+  const cached = await getCachedAnalysis(cacheSource, options);
+  if (cached) {
+    return {
+      transcription: textContent,
+      summary: cached.summary,
+      podcastScript: cached.podcastScript,
+      audioUrl: null,
+      audioFileKey: null,
+      title: cached.title || '文字內容 Podcast',
+    };
+  }
+
+  const { content, sectionCount } = await condenseTranscript(textContent, undefined, language);
+  const contentLabel = sectionCount > 0 ? `內容（長篇內容依順序整理的 ${sectionCount} 段重點）` : "內容";
 
   // 使用 LLM 生成標題
   const titleResponse = await invokeLLM({
     messages: [
       {
         role: "system",
-        content: "你是一個專業的標題撰寫專家。請為內容生成一個簡潔、吸引人的標題，不超過 30 個字。"
+        content: `你是一個專業的標題撰寫專家。請為內容生成一個簡潔、吸引人的標題，不超過 30 個字。${languageInstruction}`
       },
       {
         role: "user",
@@ -33,11 +62,11 @@ export async function processTextToPodcast(textContent: string) {
     messages: [
       {
         role: "system",
-        content: "你是一個專業的內容摘要專家。請將使用者提供的文字內容整理成清晰、結構化的摘要。"
+        content: `你是一個專業的內容摘要專家。請將使用者提供的文字內容整理成清晰、結構化的摘要。${languageInstruction}`
       },
       {
         role: "user",
-        content: `請為以下內容生成一個詳細的摘要，包含主要觀點和關鍵信息：\n\n${textContent}`
+        content: `請為以下內容生成一個約 ${summaryTarget(mode, estimateSectionCount(textContent.length))} 字的摘要，包含主要觀點和關鍵信息${sectionCount > 0 ? "，涵蓋所有段落並依順序分小節呈現" : ""}：${style ? `\n\n寫法要求：${style.summaryPrompt}` : ""}\n\n${content}`
       }
     ]
   });
@@ -50,18 +79,18 @@ export async function processTextToPodcast(textContent: string) {
     messages: [
       {
         role: "system",
-        content: "你是一個專業的 Podcast 腳本作家。請將內容轉換成適合兩人對話的 Podcast 腳本格式。"
+        content: `你是一個專業的 Podcast 腳本作家。請將內容轉換成適合兩人對話的 Podcast 腳本格式。${languageInstruction}`
       },
       {
         role: "user",
         content: `請根據以下內容，創作一個生動有趣的雙人對話 Podcast 腳本。腳本應該：
 1. 使用主持人 A 和主持人 B 的對話形式
-2. 語氣自然、輕鬆
+2. ${style ? `風格：${style.scriptPrompt}` : "語氣自然、輕鬆"}
 3. 包含開場白和結尾
 4. 適當加入互動和討論
 
-內容：
-${textContent}
+${contentLabel}：
+${content}
 
 摘要：
 ${summary}`
@@ -74,6 +103,17 @@ ${summary}`
 
   console.log(`[TextService] Text processing completed`);
 
+  await saveCachedAnalysis(cacheSource, options, {
+    title,
+    transcription: textContent,
+    summary,
+    podcastScript,
+    language: "", // 文字輸入沒有偵測原始語言
+    duration: 0,
+    audioUrl: null,
+    audioFileKey: null,
+  });
+
   return {
     transcription: textContent, // 原始文字作為「轉錄」
     summary,
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { alignScriptToWords, buildTimelineFromDurations, offsetTimeline } from "./services/timelineService";
+import { selectTimedRange } from "./services/highlightService";
+
+const lines = [
+  { speakerId: "host1", speakerName: "主持人 A", content: "大家好，歡迎收聽。" },
+  { speakerId: "host2", speakerName: "主持人 B", content: "今天聊人工智慧！" },
+  { speakerId: "host1", speakerName: "主持人 A", content: "我們開始吧。" },
+];
+
+describe("line timeline", () => {
+  it("should accumulate per-line durations", () => {
+    const timeline = buildTimelineFromDurations(lines, [2.5, 3, 1.25], 1);
+
+    expect(timeline.map(line => [line.startTime, line.endTime])).toEqual([
+      [1, 3.5],
+      [3.5, 6.5],
+      [6.5, 7.75],
+    ]);
+    expect(timeline[1].content).toBe("今天聊人工智慧！");
+  });
+
+  it("should align script lines to word boundaries ignoring punctuation", () => {
+    const words = [
+      { text: "大家好", start: 0.2, end: 1.0 },
+      { text: "歡迎收聽", start: 1.1, end: 2.0 },
+      { text: "今天", start: 2.6, end: 3.0 },
+      { text: "聊人工智慧", start: 3.0, end: 4.4 },
+      { text: "我們", start: 5.0, end: 5.3 },
+      { text: "開始吧。", start: 5.3, end: 6.0 },
+    ];
+
+    const timeline = alignScriptToWords(lines, words);
+
+    expect(timeline.map(line => [line.startTime, line.endTime])).toEqual([
+      [0.2, 2.0],
+      [2.6, 4.4],
+      [5.0, 6.0],
+    ]);
+  });
+
+  it("should shift the whole timeline", () => {
+    const shifted = offsetTimeline(buildTimelineFromDurations(lines, [1, 1, 1]), 4.5);
+    expect(shifted[0].startTime).toBe(4.5);
+    expect(shifted[2].endTime).toBe(7.5);
+  });
+});
+
+describe("selectTimedRange", () => {
+  const timeline = buildTimelineFromDurations(
+    Array.from({ length: 10 }, (_, index) => ({ speakerId: "host1", content: `第 ${index} 句` })),
+    [5, 12, 8, 15, 10, 9, 14, 6, 11, 7]
+  );
+
+  it("should extend to whole lines near the target duration", () => {
+    const range = selectTimedRange(timeline, 1, 1, 30, 60);
+
+    // 第 1 句從 5 秒開始，補到第 2 句結束（25 秒）共 20 秒，再加第 3 句（35 秒）會超過 33 秒上限
+    expect(range).toEqual({ startIndex: 1, endIndex: 2, startTime: 5, endTime: 25 });
+  });
+
+  it("should drop trailing lines that exceed the limit", () => {
+    const range = selectTimedRange(timeline, 0, 9, 20, 60);
+
+    expect(range.startIndex).toBe(0);
+    expect(range.endIndex).toBe(1);
+    expect(range.endTime - range.startTime).toBeLessThanOrEqual(23);
+  });
+});
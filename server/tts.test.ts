@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { getTtsProvider, isTtsProviderId, selectDefaultSpeakers, selectDefaultVoices, type TtsProvider, type TtsVoice } from "./services/ttsService";
+
+function createFakeProvider(voices: TtsVoice[]): TtsProvider {
+  return {
+    id: "local",
+    name: "Fake",
+    listVoices: async (language?: string) =>
+      language ? voices.filter(voice => voice.language === language) : voices,
+    synthesizeUtterance: async () => ({ audioUrl: "https://example.com/utterance.mp3" }),
+    synthesizeScript: async lines => ({ audioUrl: "https://example.com/script.mp3", scripts: lines }),
+  };
+}
+
+describe("TTS providers", () => {
+  it("should resolve providers by id", async () => {
+    const listenHub = await getTtsProvider("listenhub");
+    const local = await getTtsProvider("local");
+
+    expect(listenHub.id).toBe("listenhub");
+    expect(typeof listenHub.synthesizeFromContent).toBe("function");
+    expect(local.id).toBe("local");
+    expect(local.synthesizeFromContent).toBeUndefined();
+  });
+
+  it("should reject local voice ids that point outside the voices directory", async () => {
+    const local = await getTtsProvider("local");
+
+    await expect(local.synthesizeUtterance("你好", "piper:../../etc/model")).rejects.toThrow("Invalid local voice");
+    await expect(local.synthesizeScript([{ speakerId: "espeak:/tmp/x", content: "你好" }])).rejects.toThrow("Invalid local voice");
+  });
+
+  it("should validate provider ids", () => {
+    expect(isTtsProviderId("listenhub")).toBe(true);
+    expect(isTtsProviderId("local")).toBe(true);
+    expect(isTtsProviderId("polly")).toBe(false);
+  });
+
+  it("should prefer one male and one female voice as default hosts", async () => {
+    const provider = createFakeProvider([
+      { speakerId: "piper:a", name: "A", gender: "female", language: "zh", provider: "local" },
+      { speakerId: "piper:b", name: "B", gender: "male", language: "zh", provider: "local" },
+      { speakerId: "piper:c", name: "C", gender: "male", language: "en", provider: "local" },
+    ]);
+
+    const hosts = await selectDefaultSpeakers(provider, "zh");
+    expect(hosts).toEqual({ host1: "piper:b", host2: "piper:a" });
+  });
+
+  it("should fall back to distinct voices when gender is unknown", async () => {
+    const provider = createFakeProvider([
+      { speakerId: "espeak:cmn", name: "Mandarin", language: "zh", provider: "local" },
+      { speakerId: "espeak:yue", name: "Cantonese", language: "zh", provider: "local" },
+    ]);
+
+    const hosts = await selectDefaultSpeakers(provider, "zh");
+    expect(hosts).toEqual({ host1: "espeak:cmn", host2: "espeak:yue" });
+  });
+
+  it("should alternate genders and avoid repeating voices for panels", async () => {
+    const provider = createFakeProvider([
+      { speakerId: "piper:f1", name: "F1", gender: "female", language: "zh", provider: "local" },
+      { speakerId: "piper:m1", name: "M1", gender: "male", language: "zh", provider: "local" },
+      { speakerId: "piper:m2", name: "M2", gender: "male", language: "zh", provider: "local" },
+    ]);
+
+    expect(await selectDefaultVoices(provider, 1, "zh")).toEqual(["piper:m1"]);
+    expect(await selectDefaultVoices(provider, 3, "zh")).toEqual(["piper:m1", "piper:f1", "piper:m2"]);
+    // 聲音不夠時才重複使用
+    expect(await selectDefaultVoices(provider, 4, "zh")).toEqual(["piper:m1", "piper:f1", "piper:m2", "piper:f1"]);
+  });
+
+  it("should fail clearly when no voices are installed", async () => {
+    const provider = createFakeProvider([]);
+    await expect(selectDefaultSpeakers(provider, "zh")).rejects.toThrow(/No Fake voices available/);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { getUploadExtension, UPLOAD_CHUNK_SIZE } from "@shared/upload";
+import {
+  createUploadSession,
+  getUploadSession,
+  getUploadTitle,
+  listReceivedChunks,
+  saveUploadChunk,
+} from "./services/uploadService";
+
+describe("upload helpers", () => {
+  it("should accept only supported audio and video extensions", () => {
+    expect(getUploadExtension("週會錄音.M4A")).toBe("m4a");
+    expect(getUploadExtension("meeting.final.mp4")).toBe("mp4");
+    expect(getUploadExtension("notes.txt")).toBeNull();
+    expect(getUploadExtension("no-extension")).toBeNull();
+  });
+
+  it("should derive the title from the stored file name", () => {
+    expect(getUploadTitle("uploads/1/abc/2026 Q3 週會.mp3")).toBe("2026 Q3 週會");
+  });
+});
+
+describe("upload sessions", () => {
+  it("should track received chunks for resuming", async () => {
+    const session = await createUploadSession(42, "meeting.wav", UPLOAD_CHUNK_SIZE + 10);
+    expect(session.totalChunks).toBe(2);
+
+    await saveUploadChunk(session, 1, Buffer.alloc(10));
+    expect(await listReceivedChunks(session)).toEqual([1]);
+
+    // 分塊大小不符時拒絕
+    await expect(saveUploadChunk(session, 0, Buffer.alloc(10))).rejects.toThrow();
+  });
+
+  it("should not expose sessions to other users or malformed ids", async () => {
+    const session = await createUploadSession(42, "meeting.mp3", 100);
+
+    expect(await getUploadSession(session.uploadId, 42)).toMatchObject({ fileName: "meeting.mp3" });
+    expect(await getUploadSession(session.uploadId, 7)).toBeUndefined();
+    expect(await getUploadSession("../../etc", 42)).toBeUndefined();
+  });
+});
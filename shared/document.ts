@@ -0,0 +1,43 @@
+/**
+ * 文件輸入的章節與分集規劃（前後端共用）
+ */
+
+// 單集使用的文件字數上限，選取的章節超過時拆成多集系列
+export const DOCUMENT_EPISODE_MAX_CHARS = 30000;
+
+// 系列的集數上限
+export const MAX_DOCUMENT_EPISODES = 30;
+
+export interface DocumentChapterInfo {
+  index: number;
+  title: string;
+  charCount: number;
+}
+
+/**
+ * 依章節順序分集：相鄰章節合併到同一集，直到接近字數上限
+ * 單一章節超過上限時自成一集（分析時會先分段整理重點）
+ * @returns 每一集包含的章節索引
+ */
+export function planDocumentEpisodes(
+  chapters: Pick<DocumentChapterInfo, "index" | "charCount">[],
+  maxChars: number = DOCUMENT_EPISODE_MAX_CHARS
+): number[][] {
+  const episodes: number[][] = [];
+  let current: number[] = [];
+  let length = 0;
+
+  for (const chapter of chapters) {
+    if (current.length > 0 && length + chapter.charCount > maxChars) {
+      episodes.push(current);
+      current = [];
+      length = 0;
+    }
+    current.push(chapter.index);
+    length += chapter.charCount;
+  }
+  if (current.length > 0) {
+    episodes.push(current);
+  }
+  return episodes;
+}
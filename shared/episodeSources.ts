@@ -0,0 +1,39 @@
+/**
+ * 多來源單集（前後端共用）
+ * 多篇文章、影片與文字整合成一集綜合整理或比較的節目
+ */
+
+export const EPISODE_SOURCE_TYPES = ["youtube", "article", "text"] as const;
+
+export type EpisodeSourceType = (typeof EPISODE_SOURCE_TYPES)[number];
+
+// 單集的來源數量範圍
+export const MIN_EPISODE_SOURCES = 2;
+export const MAX_EPISODE_SOURCES = 8;
+
+// 節目形式：綜合整理（例如每週新聞回顧）或比較各來源的觀點
+export const ROUNDUP_FORMATS = ["roundup", "comparison"] as const;
+
+export type RoundupFormat = (typeof ROUNDUP_FORMATS)[number];
+
+export const ROUNDUP_FORMAT_LABELS: Record<RoundupFormat, string> = {
+  roundup: "綜合整理",
+  comparison: "觀點比較",
+};
+
+export interface EpisodeSourceInput {
+  type: EpisodeSourceType;
+  value: string; // 影片 / 文章網址或文字內容
+}
+
+/**
+ * 來源出處（存在任務上，腳本與單集說明引用）
+ */
+export interface SourceAttribution {
+  index: number; // 從 1 開始，對應腳本中的「來源 N」
+  type: EpisodeSourceType;
+  title: string;
+  url?: string;
+  author?: string;
+  publishedAt?: string; // ISO 日期
+}
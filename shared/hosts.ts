@@ -0,0 +1,75 @@
+/**
+ * 節目主持人設定（前後端共用）
+ * 支援 1 人獨白到 4 人座談，每位主持人可設定名稱、聲音與人設（影響腳本中的說話方式與立場）
+ */
+
+export const MIN_HOSTS = 1;
+export const MAX_HOSTS = 4;
+
+// 人設描述長度上限
+export const MAX_PERSONA_LENGTH = 300;
+
+export interface HostConfig {
+  name: string;
+  voiceId?: string; // 未指定時使用偏好或預設聲音
+  persona?: string; // 例如「資深科技記者，負責提問與總結」
+}
+
+export const DEFAULT_HOST_NAMES = ["主持人 A", "主持人 B", "主持人 C", "主持人 D"] as const;
+
+export interface HostFormatPreset {
+  id: string;
+  label: string;
+  hosts: HostConfig[];
+}
+
+// 常用的節目形式（前端快速套用）
+export const HOST_FORMAT_PRESETS: HostFormatPreset[] = [
+  { id: "solo", label: "1 人獨白", hosts: [{ name: "主持人" }] },
+  { id: "duo", label: "2 人對話", hosts: [{ name: "主持人 A" }, { name: "主持人 B" }] },
+  {
+    id: "interview",
+    label: "訪談（主持人 + 2 位來賓）",
+    hosts: [
+      { name: "主持人", persona: "節目主持人，負責開場、提問、引導討論與總結，不表達個人立場" },
+      { name: "來賓 A", persona: "受訪來賓，依內容分享專業見解與實際經驗" },
+      { name: "來賓 B", persona: "受訪來賓，提出不同角度的看法或補充，必要時回應另一位來賓" },
+    ],
+  },
+  {
+    id: "panel",
+    label: "4 人座談",
+    hosts: DEFAULT_HOST_NAMES.map(name => ({ name })),
+  },
+];
+
+/**
+ * 建立指定人數的預設主持人
+ */
+export function createDefaultHostConfigs(count: number): HostConfig[] {
+  if (count <= 1) return [{ name: "主持人" }];
+  return DEFAULT_HOST_NAMES.slice(0, Math.min(count, MAX_HOSTS)).map(name => ({ name }));
+}
+
+/**
+ * 解析儲存的主持人設定 JSON（格式錯誤或為空時回傳兩位預設主持人）
+ */
+export function parseHostConfigs(json: string | null | undefined): HostConfig[] {
+  try {
+    const hosts = JSON.parse(json || "[]");
+    if (Array.isArray(hosts)) {
+      const valid = hosts
+        .filter((host): host is HostConfig => !!host && typeof host.name === "string" && host.name.trim().length > 0)
+        .slice(0, MAX_HOSTS)
+        .map(host => ({
+          name: host.name,
+          ...(typeof host.voiceId === "string" && host.voiceId && { voiceId: host.voiceId }),
+          ...(typeof host.persona === "string" && host.persona && { persona: host.persona }),
+        }));
+      if (valid.length >= MIN_HOSTS) return valid;
+    }
+  } catch {
+    // 格式錯誤時使用預設主持人
+  }
+  return createDefaultHostConfigs(2);
+}
@@ -0,0 +1,60 @@
+/**
+ * 音訊後製設定（前後端共用）
+ * 最終單集與精華片段都會經過：去除頭尾靜音 → 片段交叉淡化 → 壓縮／柔化齒音（選用）→ EBU R128 響度標準化
+ */
+
+export const MIN_TARGET_LUFS = -24;
+export const MAX_TARGET_LUFS = -10;
+export const MAX_CROSSFADE_SECONDS = 3;
+
+export interface MasteringSettings {
+  enabled: boolean;
+  targetLufs: number; // 整體響度目標（LUFS）
+  trimSilence: boolean; // 去除每個片段頭尾的靜音
+  crossfadeSeconds: number; // 開場、主要內容、結尾之間的交叉淡化長度（0 為直接接續）
+  deEss: boolean; // 柔化「ㄙ」「ㄘ」等齒音
+  compress: boolean; // 動態壓縮，讓音量起伏較小
+}
+
+export const DEFAULT_MASTERING_SETTINGS: MasteringSettings = {
+  enabled: true,
+  targetLufs: -16,
+  trimSilence: true,
+  crossfadeSeconds: 0.5,
+  deEss: false,
+  compress: false,
+};
+
+// 常用的響度目標（前端選單）
+export const LOUDNESS_TARGETS = [
+  { value: -14, label: "-14 LUFS（Spotify / YouTube）" },
+  { value: -16, label: "-16 LUFS（Apple Podcasts 建議）" },
+  { value: -19, label: "-19 LUFS（單聲道 Podcast）" },
+  { value: -23, label: "-23 LUFS（EBU R128 廣播）" },
+] as const;
+
+/**
+ * 解析儲存的後製設定 JSON（缺少的欄位使用預設值，格式錯誤時回傳預設設定）
+ */
+export function parseMasteringSettings(json: string | null | undefined): MasteringSettings {
+  if (!json) return DEFAULT_MASTERING_SETTINGS;
+  try {
+    const settings = JSON.parse(json);
+    if (!settings || typeof settings !== "object") return DEFAULT_MASTERING_SETTINGS;
+    const pick = <K extends keyof MasteringSettings>(key: K, valid: (value: unknown) => boolean) =>
+      valid(settings[key]) ? settings[key] as MasteringSettings[K] : DEFAULT_MASTERING_SETTINGS[key];
+    const isNumberIn = (min: number, max: number) => (value: unknown) =>
+      typeof value === "number" && value >= min && value <= max;
+    const isBoolean = (value: unknown) => typeof value === "boolean";
+    return {
+      enabled: pick("enabled", isBoolean),
+      targetLufs: pick("targetLufs", isNumberIn(MIN_TARGET_LUFS, MAX_TARGET_LUFS)),
+      trimSilence: pick("trimSilence", isBoolean),
+      crossfadeSeconds: pick("crossfadeSeconds", isNumberIn(0, MAX_CROSSFADE_SECONDS)),
+      deEss: pick("deEss", isBoolean),
+      compress: pick("compress", isBoolean),
+    };
+  } catch {
+    return DEFAULT_MASTERING_SETTINGS;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * 節目音樂設定（前後端共用）
+ * 開場音樂接在人聲前、結尾音效接在人聲後，背景音樂鋪在人聲下方並在說話時自動壓低（ducking）
+ */
+
+export const MUSIC_TRACK_KINDS = ["jingle", "stinger", "bed"] as const;
+
+export type MusicTrackKind = (typeof MUSIC_TRACK_KINDS)[number];
+
+export const MUSIC_TRACK_KIND_LABELS: Record<MusicTrackKind, string> = {
+  jingle: "開場音樂",
+  stinger: "結尾音效",
+  bed: "背景音樂",
+};
+
+// 每位使用者的音樂庫上限
+export const MAX_MUSIC_TRACKS = 50;
+
+// 背景音樂音量（相對於原始音量的百分比，說話時會再被壓低）
+export const MIN_BED_VOLUME = 5;
+export const MAX_BED_VOLUME = 60;
+export const DEFAULT_BED_VOLUME = 20;
+
+export interface PodcastMusicSelection {
+  introJingleId?: number | null;
+  outroStingerId?: number | null;
+  musicBedId?: number | null;
+  bedVolume?: number; // 百分比，未指定時使用 DEFAULT_BED_VOLUME
+}
+
+export function hasMusic(music: PodcastMusicSelection | null | undefined): boolean {
+  return !!(music && (music.introJingleId || music.outroStingerId || music.musicBedId));
+}
+
+/**
+ * 解析節目設定中儲存的音樂 JSON（格式錯誤時回傳空設定）
+ */
+export function parseMusicSelection(json: string | null | undefined): PodcastMusicSelection {
+  try {
+    const music = JSON.parse(json || "{}");
+    if (!music || typeof music !== "object") return {};
+    const id = (value: unknown) => (typeof value === "number" && Number.isInteger(value) && value > 0 ? value : null);
+    return {
+      introJingleId: id(music.introJingleId),
+      outroStingerId: id(music.outroStingerId),
+      musicBedId: id(music.musicBedId),
+      bedVolume: typeof music.bedVolume === "number" && music.bedVolume >= MIN_BED_VOLUME && music.bedVolume <= MAX_BED_VOLUME
+        ? music.bedVolume
+        : DEFAULT_BED_VOLUME,
+    };
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * 節目輸出語言（前後端共用）
+ * 決定摘要、對話腳本與 TTS 聲音使用的語言，與原始內容的語言無關
+ */
+
+export const OUTPUT_LANGUAGES = ["zh-TW", "zh-CN", "en", "ja", "ko"] as const;
+
+export type OutputLanguage = (typeof OUTPUT_LANGUAGES)[number];
+
+export const DEFAULT_OUTPUT_LANGUAGE: OutputLanguage = "zh-TW";
+
+export interface OutputLanguageInfo {
+  label: string; // 選單顯示名稱
+  promptName: string; // 提示詞中的語言名稱
+  ttsLanguage: string; // TTS 聲音的語言代碼
+}
+
+export const OUTPUT_LANGUAGE_INFO: Record<OutputLanguage, OutputLanguageInfo> = {
+  "zh-TW": { label: "繁體中文", promptName: "繁體中文（台灣用語）", ttsLanguage: "zh" },
+  "zh-CN": { label: "简体中文", promptName: "簡體中文", ttsLanguage: "zh" },
+  en: { label: "English", promptName: "英文（English）", ttsLanguage: "en" },
+  ja: { label: "日本語", promptName: "日文（日本語）", ttsLanguage: "ja" },
+  ko: { label: "한국어", promptName: "韓文（한국어）", ttsLanguage: "ko" },
+};
+
+export function isOutputLanguage(value: unknown): value is OutputLanguage {
+  return typeof value === "string" && (OUTPUT_LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * 取得輸出語言的資訊（未知的值使用預設語言）
+ */
+export function getOutputLanguageInfo(language?: string | null): OutputLanguageInfo {
+  return OUTPUT_LANGUAGE_INFO[isOutputLanguage(language) ? language : DEFAULT_OUTPUT_LANGUAGE];
+}
+
+/**
+ * 提示詞中的語言要求
+ */
+export function formatLanguageInstruction(language?: string | null): string {
+  return `所有輸出的文字（包括 JSON 中的文字欄位）必須使用${getOutputLanguageInfo(language).promptName}，不論原始內容是什麼語言。`;
+}
@@ -0,0 +1,38 @@
+/**
+ * 本機音訊 / 影片上傳設定（前後端共用）
+ */
+
+// 支援的副檔名（影片會在伺服器端轉為 MP3 後再轉錄）
+export const UPLOAD_EXTENSIONS = ["mp3", "mp4", "m4a", "wav"] as const;
+
+export type UploadExtension = (typeof UPLOAD_EXTENSIONS)[number];
+
+// 每個分塊的大小（以 base64 經 tRPC 傳送，需小於 express.json 的 50MB 限制）
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// 單一檔案大小上限
+export const MAX_UPLOAD_BYTES = 500 * 1024 * 1024;
+
+/**
+ * 取得檔案副檔名（不支援的格式回傳 null）
+ */
+export function getUploadExtension(fileName: string): UploadExtension | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  return UPLOAD_EXTENSIONS.find(allowed => allowed === extension) ?? null;
+}
+
+// 文件輸入支援的副檔名（上傳後保留原檔，在伺服器端擷取文字）
+export const DOCUMENT_EXTENSIONS = ["pdf", "docx", "epub", "md", "markdown"] as const;
+
+export type DocumentExtension = (typeof DOCUMENT_EXTENSIONS)[number];
+
+// 文件檔案大小上限
+export const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * 取得文件副檔名（不支援的格式回傳 null）
+ */
+export function getDocumentExtension(fileName: string): DocumentExtension | null {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  return DOCUMENT_EXTENSIONS.find(allowed => allowed === extension) ?? null;
+}
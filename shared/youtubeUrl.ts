@@ -0,0 +1,52 @@
+/**
+ * YouTube 播放清單 / 頻道網址判斷（前後端共用）
+ * 單一影片仍由 server/youtubeService 的 isValidYoutubeUrl 處理
+ */
+
+export type YoutubeCollectionType = "playlist" | "channel";
+
+export interface YoutubeCollection {
+  type: YoutubeCollectionType;
+  url: string; // 正規化後交給 yt-dlp 展開的網址
+}
+
+const YOUTUBE_HOST = /^(?:www\.|m\.)?youtube\.com$/i;
+
+/**
+ * 判斷是否為播放清單或頻道網址
+ * - 播放清單：youtube.com/playlist?list=...
+ * - 頻道：youtube.com/@handle、/channel/UC...、/c/name、/user/name（可帶 /videos 等分頁）
+ * watch?v=...&list=... 視為單一影片（使用者通常只是從清單中點開某部影片）
+ */
+export function parseYoutubeCollectionUrl(input: string): YoutubeCollection | null {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+
+  if (!YOUTUBE_HOST.test(url.hostname)) {
+    return null;
+  }
+
+  const listId = url.searchParams.get("list");
+  if (url.pathname === "/playlist" && listId) {
+    return {
+      type: "playlist",
+      url: `https://www.youtube.com/playlist?list=${encodeURIComponent(listId)}`,
+    };
+  }
+
+  const channelMatch = url.pathname.match(/^\/(@[^/]+|channel\/[^/]+|c\/[^/]+|user\/[^/]+)(?:\/([^/]+))?\/?$/);
+  if (channelMatch) {
+    // 頻道首頁會展開成「影片 / Shorts / 直播」多個分頁，預設只取影片分頁
+    const tab = channelMatch[2] && ["videos", "streams", "shorts"].includes(channelMatch[2]) ? channelMatch[2] : "videos";
+    return {
+      type: "channel",
+      url: `https://www.youtube.com/${channelMatch[1]}/${tab}`,
+    };
+  }
+
+  return null;
+}